@@ -0,0 +1,14 @@
+import ApiReference from '@/components/api-reference';
+
+export const metadata = {
+  title: 'API Reference',
+  description: 'Interactive reference for the versioned REST API',
+};
+
+export default function ApiDocsPage() {
+  return (
+    <div className="px-4 md:px-8 py-12 max-w-5xl mx-auto">
+      <ApiReference />
+    </div>
+  );
+}
@@ -3,12 +3,63 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import AdvancedSearch from '@/components/advanced-search';
-import AdvancedFilters, { FilterValues } from '@/components/advanced-filters';
+import AdvancedFilters, { FilterValues, sameFilterValues } from '@/components/advanced-filters';
 import SearchResults, { SearchResult } from '@/components/search-results';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Loader2, SlidersHorizontal, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatSearchQuery, parseSearchQuery, ParsedSearchQuery } from '@/lib/search-query';
+
+const ALL_SOURCES = ['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items'];
+const RELATIVE_DATE_RANGES = ['today', '24h', '7d', '30d'];
+
+/** The search box is the source of truth; the sidebar mirrors its filters. */
+function filterValuesFromQuery(parsed: ParsedSearchQuery): FilterValues {
+  const { filters } = parsed;
+  let dateRange = 'all';
+  if (parsed.since && !parsed.until && RELATIVE_DATE_RANGES.includes(parsed.since)) {
+    dateRange = parsed.since;
+  } else if (parsed.since || parsed.until) {
+    dateRange = 'custom';
+  }
+
+  return {
+    categories: filters.categories || [],
+    tags: filters.tags || [],
+    languages: filters.languages || [],
+    sources: filters.sources || ALL_SOURCES,
+    registries: filters.registries || [],
+    origins: filters.origins || [],
+    dateRange,
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    minEngagement: filters.minEngagement || 0,
+    sortBy: filters.sortBy || 'relevance',
+    mode: filters.mode || 'keyword',
+  };
+}
+
+function queryFromFilterValues(text: string, values: FilterValues): string {
+  const relative = RELATIVE_DATE_RANGES.includes(values.dateRange);
+
+  return formatSearchQuery({
+    text,
+    filters: {
+      categories: values.categories,
+      tags: values.tags,
+      languages: values.languages,
+      sources: values.sources as any,
+      registries: values.registries as any,
+      origins: values.origins as any,
+      minEngagement: values.minEngagement,
+      sortBy: values.sortBy as any,
+      mode: values.mode as any,
+    },
+    since: relative ? values.dateRange : values.dateFrom?.slice(0, 10),
+    until: relative ? undefined : values.dateTo?.slice(0, 10),
+  });
+}
 
 export default function SearchPage() {
   const router = useRouter();
@@ -20,29 +71,24 @@ export default function SearchPage() {
   const [facets, setFacets] = useState<any>(null);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [filters, setFilters] = useState<FilterValues>({
-    categories: [],
-    tags: [],
-    languages: [],
-    sources: ['x_trends', 'github_repos', 'knowledge_entries'],
-    dateRange: 'all',
-    minEngagement: 0,
-    sortBy: 'relevance',
-  });
-  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<FilterValues>(() =>
+    filterValuesFromQuery(parseSearchQuery(initialQuery))
+  );
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const limit = 20;
 
   useEffect(() => {
     if (initialQuery) {
-      performSearch(initialQuery, filters, 0);
+      performSearch(initialQuery, filters);
     }
   }, []);
 
   const performSearch = async (
     searchQuery: string,
     searchFilters: FilterValues,
-    searchOffset: number = 0,
+    cursor: string | null = null,
     append: boolean = false
   ) => {
     try {
@@ -54,12 +100,15 @@ export default function SearchPage() {
         tags: searchFilters.tags.length > 0 ? searchFilters.tags : undefined,
         languages: searchFilters.languages.length > 0 ? searchFilters.languages : undefined,
         sources: searchFilters.sources.length > 0 ? searchFilters.sources : undefined,
+        registries: searchFilters.registries.length > 0 ? searchFilters.registries : undefined,
+        origins: searchFilters.origins.length > 0 ? searchFilters.origins : undefined,
         dateFrom: searchFilters.dateFrom,
         dateTo: searchFilters.dateTo,
         minEngagement: searchFilters.minEngagement > 0 ? searchFilters.minEngagement : undefined,
         sortBy: searchFilters.sortBy,
+        mode: searchFilters.mode,
         limit,
-        offset: searchOffset,
+        cursor: cursor || undefined,
       };
 
       const response = await fetch('/api/search', {
@@ -86,9 +135,10 @@ export default function SearchPage() {
         }
 
         setFacets(data.data.facets || null);
+        if (!append) setDidYouMean(data.data.didYouMean || null);
         setTotal(data.data.total || 0);
-        setHasMore(searchResults.length === limit);
-        setOffset(searchOffset + searchResults.length);
+        setNextCursor(data.data.nextCursor || null);
+        setHasMore(!!data.data.nextCursor);
 
         if (searchResults.length === 0 && !append) {
           toast.info('No results found. Try adjusting your filters.');
@@ -108,9 +158,18 @@ export default function SearchPage() {
   };
 
   const handleSearch = (searchQuery: string) => {
+    const parsed = parseSearchQuery(searchQuery);
+    if (parsed.errors.length > 0) {
+      const [error] = parsed.errors;
+      toast.error(`${error.message} (column ${error.position + 1})`);
+      return;
+    }
+
+    const queryFilters = filterValuesFromQuery(parsed);
     setQuery(searchQuery);
-    setOffset(0);
-    performSearch(searchQuery, filters, 0, false);
+    setFilters(queryFilters);
+    setNextCursor(null);
+    performSearch(searchQuery, queryFilters, null, false);
 
     const url = new URL(window.location.href);
     url.searchParams.set('q', searchQuery);
@@ -118,16 +177,20 @@ export default function SearchPage() {
   };
 
   const handleFiltersChange = (newFilters: FilterValues) => {
+    if (sameFilterValues(filters, newFilters)) return;
+
+    const newQuery = queryFromFilterValues(parseSearchQuery(query).text, newFilters);
     setFilters(newFilters);
-    if (query) {
-      setOffset(0);
-      performSearch(query, newFilters, 0, false);
+    setQuery(newQuery);
+    if (newQuery) {
+      setNextCursor(null);
+      performSearch(newQuery, newFilters, null, false);
     }
   };
 
   const handleLoadMore = () => {
-    if (query && !loading && hasMore) {
-      performSearch(query, filters, offset, true);
+    if (query && !loading && hasMore && nextCursor) {
+      performSearch(query, filters, nextCursor, true);
     }
   };
 
@@ -141,7 +204,7 @@ export default function SearchPage() {
                 onSearch={handleSearch}
                 placeholder="Search across X trends, GitHub repos, and knowledge..."
                 showTrending={true}
-                initialQuery={initialQuery}
+                initialQuery={query}
               />
             </div>
             <Sheet>
@@ -244,14 +307,27 @@ export default function SearchPage() {
                 </div>
               </div>
             ) : (
-              <SearchResults
-                results={results}
-                total={total}
-                loading={loading}
-                onLoadMore={handleLoadMore}
-                hasMore={hasMore}
-                highlightQuery={query}
-              />
+              <>
+                {didYouMean && (
+                  <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                    Did you mean{' '}
+                    <button
+                      className="font-medium text-blue-600 hover:underline"
+                      onClick={() => handleSearch(queryFromFilterValues(didYouMean, filters))}
+                    >
+                      {didYouMean}
+                    </button>
+                    ?
+                  </p>
+                )}
+                <SearchResults
+                  results={results}
+                  total={total}
+                  loading={loading}
+                  onLoadMore={handleLoadMore}
+                  hasMore={hasMore}
+                />
+              </>
             )}
           </main>
         </div>
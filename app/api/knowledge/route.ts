@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuthAndRateLimit, ApiResponse } from '@/lib/api-middleware';
+import { withAuthAndRateLimit, ApiResponse, RoutePolicy } from '@/lib/api-middleware';
 import { getKnowledgeEntries, KnowledgeFilters } from '@/lib/knowledge-manager';
 
 export const dynamic = 'force-dynamic';
 
+const policy: RoutePolicy = { cost: 1, scope: 'trends:read' };
+
 export async function GET(request: NextRequest) {
   return withAuthAndRateLimit(request, async (req, userId) => {
     try {
@@ -42,5 +44,5 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, policy);
 }
@@ -0,0 +1,114 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Runs against a local database with the migrations applied: `supabase start`
+// and export the URL and keys it prints
+describe.skipIf(!url || !anonKey || !serviceRoleKey)('/api/saved-searches with an API key', () => {
+  let admin: SupabaseClient;
+  let userId: string;
+  let route: typeof import('./route');
+  let key: string;
+  let readOnlyKey: string;
+
+  async function insertKey(scopes: string[]): Promise<string> {
+    const { hashApiKey } = await import('@/lib/api-keys');
+    const presented = `dp_${crypto.randomUUID().replace(/-/g, '')}`;
+
+    const { error } = await admin.from('api_keys').insert({
+      user_id: userId,
+      name: 'saved searches test',
+      key_prefix: presented.slice(0, 11),
+      key_hash: await hashApiKey(presented),
+      scopes,
+    });
+    if (error) throw error;
+
+    return presented;
+  }
+
+  function call(method: string, token: string, path = '/api/saved-searches', body?: unknown) {
+    return new NextRequest(`http://localhost${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceRoleKey!, { auth: { persistSession: false } });
+
+    const { data, error } = await admin.auth.admin.createUser({
+      email: `saved-searches-${Date.now()}@example.com`,
+      password: crypto.randomUUID(),
+      email_confirm: true,
+    });
+    if (error) throw error;
+    userId = data.user.id;
+
+    // API keys need the api_access feature, which starts on the pro tier
+    const { data: tier } = await admin.from('subscription_tiers').select('id').eq('tier_name', 'pro').single();
+    const { error: subscriptionError } = await admin
+      .from('user_subscriptions')
+      .insert({ user_id: userId, subscription_tier_id: tier!.id });
+    if (subscriptionError) throw subscriptionError;
+
+    key = await insertKey(['saved_searches:manage']);
+    readOnlyKey = await insertKey(['search:read']);
+    route = await import('./route');
+  });
+
+  afterAll(async () => {
+    if (userId) await admin.auth.admin.deleteUser(userId);
+  });
+
+  it('saves, lists and deletes a search', async () => {
+    const created = await route.POST(call('POST', key, '/api/saved-searches', {
+      name: 'Rust repos',
+      filters: { query: 'lang:rust stars:>500' },
+    }));
+    expect(created.status).toBe(201);
+    const { savedSearch } = (await created.json()).data;
+    expect(savedSearch.name).toBe('Rust repos');
+
+    const listed = await route.GET(call('GET', key));
+    expect(listed.status).toBe(200);
+    expect((await listed.json()).data.savedSearches.map((search: { id: string }) => search.id))
+      .toEqual([savedSearch.id]);
+
+    const deleted = await route.DELETE(call('DELETE', key, `/api/saved-searches?id=${savedSearch.id}`));
+    expect(deleted.status).toBe(200);
+
+    const { data: remaining } = await admin.from('saved_searches').select('id').eq('user_id', userId);
+    expect(remaining).toEqual([]);
+
+    // Each call is attributed to the key that made it
+    const { data: logs } = await admin
+      .from('api_usage_logs')
+      .select('method, response_status, api_keys(key_prefix)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    expect(logs?.map((log) => [log.method, log.response_status, log.api_keys])).toEqual([
+      ['POST', 201, { key_prefix: key.slice(0, 11) }],
+      ['GET', 200, { key_prefix: key.slice(0, 11) }],
+      ['DELETE', 200, { key_prefix: key.slice(0, 11) }],
+    ]);
+  });
+
+  it('reports a missing search instead of a successful delete', async () => {
+    const response = await route.DELETE(call('DELETE', key, `/api/saved-searches?id=${crypto.randomUUID()}`));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses keys without the saved_searches:manage scope', async () => {
+    const response = await route.GET(call('GET', readOnlyKey));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).data).toEqual({ code: 'missing_scope', scope: 'saved_searches:manage' });
+  });
+});
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuthAndRateLimit, ApiResponse, RoutePolicy } from '@/lib/api-middleware';
+import { deleteSavedSearch, getSavedSearches, saveSearch } from '@/lib/search-manager';
+
+export const dynamic = 'force-dynamic';
+
+const policy: RoutePolicy = { cost: 1, scope: 'saved_searches:manage' };
+
+const ALERT_CHANNELS = ['in_app', 'email', 'webhook'];
+
+export async function GET(request: NextRequest) {
+  return withAuthAndRateLimit(request, async (req, userId) => {
+    try {
+      const savedSearches = await getSavedSearches(userId);
+
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: { savedSearches },
+      });
+    } catch (error) {
+      console.error('Error in saved searches API:', error);
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  }, policy);
+}
+
+export async function POST(request: NextRequest) {
+  return withAuthAndRateLimit(request, async (req, userId) => {
+    try {
+      const { name, filters, alerts } = await req.json();
+
+      if (!name || typeof name !== 'string' || !filters || typeof filters !== 'object') {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'name and filters are required',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (alerts?.channels?.some((channel: string) => !ALERT_CHANNELS.includes(channel))) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `Alert channels must be one of ${ALERT_CHANNELS.join(', ')}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const savedSearch = await saveSearch(name, filters, userId, alerts || undefined);
+
+      if (!savedSearch) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Failed to save search',
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: true,
+          data: { savedSearch },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Error in saved searches API:', error);
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  }, policy);
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAuthAndRateLimit(request, async (req, userId) => {
+    const id = new URL(req.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'id is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteSavedSearch(id, userId);
+
+    if (deleted === false) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Saved search not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: deleted === true,
+        error: deleted ? undefined : 'Failed to delete saved search',
+      },
+      { status: deleted ? 200 : 500 }
+    );
+  }, policy);
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuthAndRateLimit, ApiResponse } from '@/lib/api-middleware';
+import { withAuthAndRateLimit, ApiResponse, RoutePolicy } from '@/lib/api-middleware';
 import {
   performUnifiedSearch,
   getSearchSuggestions,
@@ -7,11 +7,28 @@ import {
   getTrendingItems,
   getRelatedItems,
   calculateAndStoreTrendingScores,
+  decodeSearchCursor,
   SearchFilters,
 } from '@/lib/search-manager';
+import { applySearchQuery } from '@/lib/search-query';
 
 export const dynamic = 'force-dynamic';
 
+// A full search runs ranking, snippets and facets over every source
+const searchPolicy: RoutePolicy = { cost: 5, scope: 'search:read' };
+
+const ACTION_POLICIES: Record<string, RoutePolicy> = {
+  suggestions: { cost: 1, scope: 'search:read' },
+  'trending-searches': { cost: 1, scope: 'search:read' },
+  'trending-items': { cost: 2, features: ['advanced_analytics'], scope: 'search:read' },
+  related: { cost: 2, scope: 'search:read' },
+  'calculate-scores': { cost: 10, features: ['priority_refresh'], sessionOnly: true },
+};
+
+function actionPolicy(req: NextRequest): RoutePolicy {
+  return ACTION_POLICIES[req.nextUrl.searchParams.get('action') || ''] || searchPolicy;
+}
+
 export async function POST(request: NextRequest) {
   return withAuthAndRateLimit(request, async (req, userId) => {
     try {
@@ -22,12 +39,16 @@ export async function POST(request: NextRequest) {
         tags,
         languages,
         sources,
+        registries,
+        origins,
         dateFrom,
         dateTo,
         minEngagement,
         sortBy,
+        mode,
         limit,
         offset,
+        cursor,
       } = body;
 
       const filters: SearchFilters = {
@@ -36,15 +57,41 @@ export async function POST(request: NextRequest) {
         tags,
         languages,
         sources,
+        registries,
+        origins,
         dateFrom,
         dateTo,
         minEngagement,
         sortBy: sortBy || 'relevance',
+        mode: mode || 'keyword',
         limit: limit || 50,
         offset: offset || 0,
+        cursor,
       };
 
-      const searchResults = await performUnifiedSearch(filters);
+      if (cursor && !decodeSearchCursor(cursor)) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Invalid cursor',
+          },
+          { status: 400 }
+        );
+      }
+
+      const parsed = applySearchQuery(filters);
+      if (parsed.errors.length > 0) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Invalid search query',
+            data: { syntaxErrors: parsed.errors },
+          },
+          { status: 400 }
+        );
+      }
+
+      const searchResults = await performUnifiedSearch(parsed.filters);
 
       return NextResponse.json<ApiResponse>({
         success: true,
@@ -60,7 +107,7 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, searchPolicy);
 }
 
 export async function GET(request: NextRequest) {
@@ -133,17 +180,43 @@ export async function GET(request: NextRequest) {
             tags: searchParams.get('tags')?.split(','),
             languages: searchParams.get('languages')?.split(','),
             sources: searchParams.get('sources')?.split(',') as any,
+            registries: searchParams.get('registries')?.split(',') as any,
+            origins: searchParams.get('origins')?.split(',') as any,
             dateFrom: searchParams.get('dateFrom') || undefined,
             dateTo: searchParams.get('dateTo') || undefined,
             minEngagement: searchParams.get('minEngagement')
               ? parseInt(searchParams.get('minEngagement')!)
               : undefined,
             sortBy: (searchParams.get('sortBy') as any) || 'relevance',
+            mode: (searchParams.get('mode') as any) || 'keyword',
             limit: parseInt(searchParams.get('limit') || '50'),
             offset: parseInt(searchParams.get('offset') || '0'),
+            cursor: searchParams.get('cursor') || undefined,
           };
 
-          const searchResults = await performUnifiedSearch(filters);
+          if (filters.cursor && !decodeSearchCursor(filters.cursor)) {
+            return NextResponse.json<ApiResponse>(
+              {
+                success: false,
+                error: 'Invalid cursor',
+              },
+              { status: 400 }
+            );
+          }
+
+          const parsed = applySearchQuery(filters);
+          if (parsed.errors.length > 0) {
+            return NextResponse.json<ApiResponse>(
+              {
+                success: false,
+                error: 'Invalid search query',
+                data: { syntaxErrors: parsed.errors },
+              },
+              { status: 400 }
+            );
+          }
+
+          const searchResults = await performUnifiedSearch(parsed.filters);
 
           return NextResponse.json<ApiResponse>({
             success: true,
@@ -160,5 +233,5 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, actionPolicy);
 }
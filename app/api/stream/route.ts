@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { createLiveStream } from '@/lib/live-stream';
+
+export const dynamic = 'force-dynamic';
+
+// Public, like the dashboard it feeds. EventSource cannot set headers on its
+// first request, so a page can also resume with `?lastEventId=`.
+export async function GET(request: NextRequest) {
+  const lastEventId =
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+
+  return new Response(createLiveStream(lastEventId, request.signal), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { GET } from './route';
+
+// Auth and the database are mocked; only the lifetime lookup's status codes are under test
+vi.mock('@/lib/api-middleware', () => ({
+  withAuthAndRateLimit: (request: NextRequest, handler: (req: NextRequest, userId: string) => unknown) =>
+    handler(request, 'user-1'),
+}));
+vi.mock('@/lib/supabase', () => ({ supabase: { rpc: vi.fn(), from: vi.fn() } }));
+
+const TREND_ID = '7d3f0c5e-2b1a-4c8d-9e6f-0a1b2c3d4e5f';
+
+/** A query builder that accepts any chain of calls and resolves to `result`. */
+function query(result: Record<string, unknown>) {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  for (const method of ['select', 'eq', 'gte', 'order', 'maybeSingle']) {
+    builder[method] = () => builder;
+  }
+  return builder;
+}
+
+const lifetimeRow = {
+  trend_id: TREND_ID,
+  trend_name: 'Rust',
+  source: 'x',
+  metric_type: 'tweets',
+  first_seen_at: '2026-10-18T00:00:00Z',
+  last_seen_at: '2026-10-19T00:00:00Z',
+  observation_count: 2,
+  window_hours: 48,
+};
+
+const get = (params: string) => GET(new NextRequest(`http://localhost/api/trends?${params}`));
+
+describe('GET /api/trends lifetime lookups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(supabase.from).mockReturnValue(query({ data: [], error: null }) as never);
+  });
+
+  it('rejects a malformed trendId without querying the database', async () => {
+    const response = await get('trendId=not-a-uuid');
+
+    expect(response.status).toBe(400);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it.each(['0', '-3', '1.5', 'abc', '169'])('rejects hours=%s', async (hours) => {
+    const response = await get(`trendId=${TREND_ID}&hours=${hours}`);
+
+    expect(response.status).toBe(400);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 only when the trend does not exist', async () => {
+    vi.mocked(supabase.rpc).mockReturnValue(query({ data: null, error: null }) as never);
+
+    const response = await get(`trendId=${TREND_ID}`);
+
+    expect(response.status).toBe(404);
+    expect(supabase.rpc).toHaveBeenCalledWith('get_trend_lifetime', { p_trend_id: TREND_ID, p_hours: 24 });
+  });
+
+  it('answers 500 when the database fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(supabase.rpc).mockReturnValue(query({ data: null, error: { message: 'connection refused' } }) as never);
+
+    const response = await get(`trendId=${TREND_ID}`);
+
+    expect(response.status).toBe(500);
+  });
+
+  it('passes a valid window through', async () => {
+    vi.mocked(supabase.rpc).mockReturnValue(query({ data: lifetimeRow, error: null }) as never);
+
+    const response = await get(`trendId=${TREND_ID}&hours=48`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.lifetime.window.hours).toBe(48);
+    expect(supabase.rpc).toHaveBeenCalledWith('get_trend_lifetime', { p_trend_id: TREND_ID, p_hours: 48 });
+  });
+});
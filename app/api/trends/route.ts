@@ -1,15 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuthAndRateLimit, ApiResponse } from '@/lib/api-middleware';
+import { withAuthAndRateLimit, ApiResponse, RoutePolicy } from '@/lib/api-middleware';
+import { TrendLifetimeQuerySchema } from '@/lib/api-schemas';
 import { supabase } from '@/lib/supabase';
+import { findTrendIdByName, getTrendLifetime } from '@/lib/trends-manager';
 
 export const dynamic = 'force-dynamic';
 
+// Lifetime lookups aggregate the observation history; plain lists are cheap
+function trendsPolicy(req: NextRequest): RoutePolicy {
+  const { searchParams } = req.nextUrl;
+  return searchParams.has('trendId') || searchParams.has('topic')
+    ? { cost: 2, features: ['advanced_analytics'], scope: 'trends:read' }
+    : { cost: 1, scope: 'trends:read' };
+}
+
 export async function GET(request: NextRequest) {
   return withAuthAndRateLimit(request, async (req, userId) => {
     try {
       const { searchParams } = new URL(req.url);
+
+      if (searchParams.has('trendId') || searchParams.has('topic')) {
+        const parsed = TrendLifetimeQuerySchema.safeParse(Object.fromEntries(searchParams));
+        if (!parsed.success) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: 'Invalid query parameters',
+              data: {
+                details: parsed.error.issues.map((issue) => ({
+                  path: issue.path.join('.'),
+                  message: issue.message,
+                })),
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const { trendId: trendIdParam, topic, hours } = parsed.data;
+        const trendId = trendIdParam || await findTrendIdByName(topic!);
+        const lifetime = trendId ? await getTrendLifetime(trendId, hours) : null;
+
+        if (!lifetime) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: 'Trend not found',
+            },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json<ApiResponse>({
+          success: true,
+          data: { lifetime },
+        });
+      }
+
       const limit = parseInt(searchParams.get('limit') || '20');
       const category = searchParams.get('category');
+      const source = searchParams.get('source');
 
       let query = supabase
         .from('x_trends')
@@ -20,6 +70,10 @@ export async function GET(request: NextRequest) {
         query = query.eq('category', category);
       }
 
+      if (source) {
+        query = query.eq('source', source);
+      }
+
       query = query.limit(limit);
 
       const { data, error } = await query;
@@ -51,5 +105,5 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, trendsPolicy);
 }
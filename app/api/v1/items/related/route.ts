@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { relatedItems } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return relatedItems.handle(request);
+}
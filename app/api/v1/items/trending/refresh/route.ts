@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { calculateTrendingScores } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  return calculateTrendingScores.handle(request);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { V1_ENDPOINTS } from '@/lib/api-v1';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// Public, like the reference page that reads it
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(V1_ENDPOINTS), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
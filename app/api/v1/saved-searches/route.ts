@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { createSavedSearch, deleteSavedSearchEndpoint, listSavedSearches } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return listSavedSearches.handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return createSavedSearch.handle(request);
+}
+
+export async function DELETE(request: NextRequest) {
+  return deleteSavedSearchEndpoint.handle(request);
+}
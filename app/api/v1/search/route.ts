@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { search, searchByQuery } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return searchByQuery.handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return search.handle(request);
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { getTrendLifetimeEndpoint } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return getTrendLifetimeEndpoint.handle(request);
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, withAuth } from '@/lib/api-middleware';
+import { checkWebhookUrl } from '@/lib/webhook-targets';
+
+export const dynamic = 'force-dynamic';
+
+/** Resolves a webhook URL's host before it is saved; browsers cannot resolve names. */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req) => {
+    const { url } = await req.json().catch(() => ({ url: null }));
+    const error = url && typeof url === 'string' ? await checkWebhookUrl(url) : 'url is required';
+
+    if (error) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error,
+          data: { code: 'invalid_webhook_url' },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({ success: true });
+  });
+}
@@ -4,15 +4,19 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
 import { getUserUsageStats } from '@/lib/rate-limiter';
+import { getNotifications, markNotificationsRead, Notification } from '@/lib/notifications';
+import ApiKeysCard from '@/components/api-keys-card';
+import WebhooksCard from '@/components/webhooks-card';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, TrendingUp, Activity, BarChart3, LogOut } from 'lucide-react';
+import { Loader2, TrendingUp, Activity, BarChart3, LogOut, Bell } from 'lucide-react';
 
 export default function DashboardPage() {
   const { user, loading: authLoading, signOut } = useAuth();
   const router = useRouter();
   const [stats, setStats] = useState<any>(null);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -30,8 +34,12 @@ export default function DashboardPage() {
     if (!user) return;
 
     try {
-      const usageStats = await getUserUsageStats(user.id);
+      const [usageStats, recentNotifications] = await Promise.all([
+        getUserUsageStats(user.id),
+        getNotifications({ unreadOnly: true, limit: 10 }),
+      ]);
       setStats(usageStats);
+      setNotifications(recentNotifications);
     } catch (error) {
       console.error('Error loading stats:', error);
     } finally {
@@ -39,6 +47,12 @@ export default function DashboardPage() {
     }
   };
 
+  const handleMarkAllRead = async () => {
+    if (await markNotificationsRead(notifications.map((notification) => notification.id))) {
+      setNotifications([]);
+    }
+  };
+
   const handleSignOut = async () => {
     await signOut();
     router.push('/');
@@ -98,7 +112,7 @@ export default function DashboardPage() {
                 <CardTitle>Hourly Usage</CardTitle>
                 <Activity className="h-5 w-5 text-slate-600" />
               </div>
-              <CardDescription>Current hour API calls</CardDescription>
+              <CardDescription>API calls over the last hour</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-end justify-between">
@@ -129,7 +143,7 @@ export default function DashboardPage() {
                 <CardTitle>Daily Usage</CardTitle>
                 <BarChart3 className="h-5 w-5 text-slate-600" />
               </div>
-              <CardDescription>Today&apos;s total API calls</CardDescription>
+              <CardDescription>API calls over the last 24 hours</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-end justify-between">
@@ -155,6 +169,61 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {user && (
+          <ApiKeysCard userId={user.id} apiAccess={stats.tier?.features?.api_access === true} />
+        )}
+
+        {user && <WebhooksCard userId={user.id} />}
+
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Saved Search Alerts</CardTitle>
+              <Bell className="h-5 w-5 text-slate-600" />
+            </div>
+            <CardDescription>New matches for your saved searches</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {notifications.length === 0 ? (
+              <p className="text-sm text-slate-600 text-center py-4">
+                No new alerts.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {notifications.map((notification) => (
+                  <div key={notification.id} className="border-b pb-3 last:border-0">
+                    <p className="text-sm font-medium text-slate-900">{notification.title}</p>
+                    <ul className="mt-1 space-y-0.5">
+                      {notification.items.slice(0, 5).map((item) => (
+                        <li key={`${item.type}:${item.id}`} className="text-xs text-slate-600 truncate">
+                          {item.url ? (
+                            <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                              {item.title}
+                            </a>
+                          ) : (
+                            item.title
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {notification.items.length > 5 && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        +{notification.items.length - 5} more
+                      </p>
+                    )}
+                    <p className="text-xs text-slate-500 mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
+                  Mark all read
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -179,6 +248,11 @@ export default function DashboardPage() {
                       <p className="text-sm font-medium text-slate-900">
                         {call.method} {call.endpoint}
                       </p>
+                      {call.api_keys && (
+                        <p className="text-xs text-slate-500">
+                          via API key {call.api_keys.name} ({call.api_keys.key_prefix}…)
+                        </p>
+                      )}
                       <p className="text-xs text-slate-600">
                         {new Date(call.created_at).toLocaleString()}
                       </p>
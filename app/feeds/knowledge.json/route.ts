@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { feedGuid, feedResponse, loadFeedItems } from '@/lib/feeds';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const items = await loadFeedItems({ sources: ['knowledge_entries'] });
+    const origin = request.nextUrl.origin;
+
+    return feedResponse(request, {
+      id: feedGuid('feed', 'knowledge'),
+      title: 'Dragon & Panda: Knowledge',
+      description: 'New entries in the knowledge base',
+      feedUrl: `${origin}/feeds/knowledge.json`,
+      siteUrl: `${origin}/knowledge`,
+      items,
+    }, 'json');
+  } catch (error) {
+    console.error('Error building knowledge feed:', error);
+    return new NextResponse('Feed unavailable', { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { feedGuid, feedResponse, loadFeedItems } from '@/lib/feeds';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const items = await loadFeedItems({ sources: ['github_repos'] });
+    const origin = request.nextUrl.origin;
+
+    return feedResponse(request, {
+      id: feedGuid('feed', 'repos'),
+      title: 'Dragon & Panda: Trending Repositories',
+      description: 'Trending open-source repositories on GitHub',
+      feedUrl: `${origin}/feeds/repos.atom`,
+      siteUrl: `${origin}/trends`,
+      items,
+    }, 'atom');
+  } catch (error) {
+    console.error('Error building repos feed:', error);
+    return new NextResponse('Feed unavailable', { status: 500 });
+  }
+}
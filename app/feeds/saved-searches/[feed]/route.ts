@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedFormat, feedGuid, feedResponse, loadFeedItems } from '@/lib/feeds';
+import { getSavedSearchByFeedToken } from '@/lib/search-manager';
+
+export const dynamic = 'force-dynamic';
+
+const EXTENSIONS: Record<string, FeedFormat> = {
+  xml: 'rss',
+  atom: 'atom',
+  json: 'json',
+};
+
+/** `/feeds/saved-searches/<token>.atom`, `.xml` (RSS) or `.json` (JSON Feed). */
+export async function GET(request: NextRequest, { params }: { params: { feed: string } }) {
+  const match = params.feed.match(/^([A-Za-z0-9]+)(?:\.(\w+))?$/);
+  const format = match ? EXTENSIONS[match[2] || 'atom'] : undefined;
+
+  if (!match || !format) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  const savedSearch = await getSavedSearchByFeedToken(match[1]);
+  if (!savedSearch) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  try {
+    const items = await loadFeedItems(savedSearch.filters);
+    const origin = request.nextUrl.origin;
+
+    return feedResponse(request, {
+      id: feedGuid('saved_search', savedSearch.id),
+      title: `Dragon & Panda: ${savedSearch.name}`,
+      description: `Newest matches for the saved search "${savedSearch.name}"`,
+      feedUrl: `${origin}${request.nextUrl.pathname}`,
+      siteUrl: `${origin}/search`,
+      items,
+      updatedAt: savedSearch.updatedAt,
+    }, format, 'private, max-age=300');
+  } catch (error) {
+    console.error('Error building saved search feed:', error);
+    return new NextResponse('Feed unavailable', { status: 500 });
+  }
+}
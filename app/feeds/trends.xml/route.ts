@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { feedGuid, feedResponse, loadFeedItems } from '@/lib/feeds';
+import { trendSourceList } from '@/supabase/functions/_shared/trend-origins';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const items = await loadFeedItems({ sources: ['x_trends'] });
+    const origin = request.nextUrl.origin;
+
+    return feedResponse(request, {
+      id: feedGuid('feed', 'trends'),
+      title: 'Dragon & Panda: Trends',
+      description: `Latest trending topics from ${trendSourceList()}`,
+      feedUrl: `${origin}/feeds/trends.xml`,
+      siteUrl: `${origin}/trends`,
+      items,
+    }, 'rss');
+  } catch (error) {
+    console.error('Error building trends feed:', error);
+    return new NextResponse('Feed unavailable', { status: 500 });
+  }
+}
@@ -11,17 +11,41 @@ import { Slider } from '@/components/ui/slider';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { trendSourceLabel } from '@/supabase/functions/_shared/trend-origins';
 
 export interface FilterValues {
   categories: string[];
   tags: string[];
   languages: string[];
   sources: string[];
+  registries: string[];
+  origins: string[];
   dateRange: string;
   dateFrom?: string;
   dateTo?: string;
   minEngagement: number;
   sortBy: string;
+  mode: string;
+}
+
+export function sameFilterValues(a: FilterValues, b: FilterValues): boolean {
+  const sameList = (x: string[], y: string[]) =>
+    x.length === y.length && x.every((item) => y.includes(item));
+
+  return (
+    sameList(a.categories, b.categories) &&
+    sameList(a.tags, b.tags) &&
+    sameList(a.languages, b.languages) &&
+    sameList(a.sources, b.sources) &&
+    sameList(a.registries, b.registries) &&
+    sameList(a.origins, b.origins) &&
+    a.dateRange === b.dateRange &&
+    a.dateFrom === b.dateFrom &&
+    a.dateTo === b.dateTo &&
+    a.minEngagement === b.minEngagement &&
+    a.sortBy === b.sortBy &&
+    a.mode === b.mode
+  );
 }
 
 interface AdvancedFiltersProps {
@@ -31,6 +55,8 @@ interface AdvancedFiltersProps {
     tags: Array<{ name: string; count: number }>;
     languages: Array<{ name: string; count: number }>;
     sources: Array<{ name: string; count: number }>;
+    registries?: Array<{ name: string; count: number }>;
+    origins?: Array<{ name: string; count: number }>;
   };
   initialFilters?: Partial<FilterValues>;
 }
@@ -52,12 +78,23 @@ const SORT_OPTIONS = [
   { value: 'velocity', label: 'Fastest Growing', icon: TrendingUp },
 ];
 
+const MODE_OPTIONS = [
+  { value: 'keyword', label: 'Keyword' },
+  { value: 'semantic', label: 'Semantic' },
+  { value: 'hybrid', label: 'Hybrid' },
+];
+
 const SOURCE_OPTIONS = [
-  { value: 'x_trends', label: 'X Trends', color: 'blue' },
+  { value: 'x_trends', label: 'Social Trends', color: 'blue' },
   { value: 'github_repos', label: 'GitHub Repos', color: 'green' },
   { value: 'knowledge_entries', label: 'Knowledge Base', color: 'purple' },
+  { value: 'packages', label: 'Packages', color: 'orange' },
+  { value: 'papers', label: 'Research Papers', color: 'rose' },
+  { value: 'feed_items', label: 'Feeds', color: 'amber' },
 ];
 
+const ALL_SOURCES = SOURCE_OPTIONS.map((source) => source.value);
+
 export default function AdvancedFilters({
   onFiltersChange,
   facets,
@@ -67,27 +104,44 @@ export default function AdvancedFilters({
     categories: initialFilters?.categories || [],
     tags: initialFilters?.tags || [],
     languages: initialFilters?.languages || [],
-    sources: initialFilters?.sources || ['x_trends', 'github_repos', 'knowledge_entries'],
+    sources: initialFilters?.sources || ALL_SOURCES,
+    registries: initialFilters?.registries || [],
+    origins: initialFilters?.origins || [],
     dateRange: initialFilters?.dateRange || 'all',
     dateFrom: initialFilters?.dateFrom,
     dateTo: initialFilters?.dateTo,
     minEngagement: initialFilters?.minEngagement || 0,
     sortBy: initialFilters?.sortBy || 'relevance',
+    mode: initialFilters?.mode || 'keyword',
   });
 
   const [categoriesOpen, setCategoriesOpen] = useState(true);
   const [tagsOpen, setTagsOpen] = useState(true);
   const [languagesOpen, setLanguagesOpen] = useState(true);
+  const [registriesOpen, setRegistriesOpen] = useState(true);
+  const [originsOpen, setOriginsOpen] = useState(true);
 
   useEffect(() => {
     onFiltersChange(filters);
   }, [filters]);
 
+  // Filters typed into the search box flow back in through initialFilters.
+  useEffect(() => {
+    if (!initialFilters) return;
+    setFilters((prev) => {
+      const next = { ...prev, ...initialFilters };
+      return sameFilterValues(prev, next) ? prev : next;
+    });
+  }, [initialFilters]);
+
   const updateFilters = (key: keyof FilterValues, value: any) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
   };
 
-  const toggleArrayFilter = (key: 'categories' | 'tags' | 'languages' | 'sources', value: string) => {
+  const toggleArrayFilter = (
+    key: 'categories' | 'tags' | 'languages' | 'sources' | 'registries' | 'origins',
+    value: string
+  ) => {
     setFilters((prev) => {
       const current = prev[key];
       const updated = current.includes(value)
@@ -102,12 +156,15 @@ export default function AdvancedFilters({
       categories: [],
       tags: [],
       languages: [],
-      sources: ['x_trends', 'github_repos', 'knowledge_entries'],
+      sources: ALL_SOURCES,
+      registries: [],
+      origins: [],
       dateRange: 'all',
       dateFrom: undefined,
       dateTo: undefined,
       minEngagement: 0,
       sortBy: 'relevance',
+      mode: 'keyword',
     });
   };
 
@@ -116,10 +173,13 @@ export default function AdvancedFilters({
     if (filters.categories.length > 0) count++;
     if (filters.tags.length > 0) count++;
     if (filters.languages.length > 0) count++;
-    if (filters.sources.length < 3) count++;
+    if (filters.sources.length < ALL_SOURCES.length) count++;
+    if (filters.registries.length > 0) count++;
+    if (filters.origins.length > 0) count++;
     if (filters.dateRange !== 'all') count++;
     if (filters.minEngagement > 0) count++;
     if (filters.sortBy !== 'relevance') count++;
+    if (filters.mode !== 'keyword') count++;
     return count;
   };
 
@@ -199,6 +259,22 @@ export default function AdvancedFilters({
             </SelectContent>
           </Select>
         </div>
+
+        <div className="space-y-2 mt-3">
+          <Label className="text-xs text-gray-600 dark:text-gray-400">Match Mode</Label>
+          <Select value={filters.mode} onValueChange={(value) => updateFilters('mode', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <ScrollArea className="flex-1">
@@ -379,6 +455,82 @@ export default function AdvancedFilters({
                   </Collapsible>
                 </>
               )}
+
+              {facets.registries && facets.registries.length > 0 && (
+                <>
+                  <Separator />
+                  <Collapsible open={registriesOpen} onOpenChange={setRegistriesOpen}>
+                    <CollapsibleTrigger className="w-full">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm font-medium cursor-pointer">
+                          Registries ({filters.registries.length})
+                        </Label>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                          {registriesOpen ? '−' : '+'}
+                        </Button>
+                      </div>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="space-y-2 mt-3">
+                      {facets.registries.map((registry) => (
+                        <div key={registry.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`registry-${registry.name}`}
+                            checked={filters.registries.includes(registry.name)}
+                            onCheckedChange={() => toggleArrayFilter('registries', registry.name)}
+                          />
+                          <Label
+                            htmlFor={`registry-${registry.name}`}
+                            className="text-sm font-normal cursor-pointer flex-1 flex items-center justify-between"
+                          >
+                            <span>{registry.name}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {registry.count}
+                            </Badge>
+                          </Label>
+                        </div>
+                      ))}
+                    </CollapsibleContent>
+                  </Collapsible>
+                </>
+              )}
+
+              {facets.origins && facets.origins.length > 0 && (
+                <>
+                  <Separator />
+                  <Collapsible open={originsOpen} onOpenChange={setOriginsOpen}>
+                    <CollapsibleTrigger className="w-full">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm font-medium cursor-pointer">
+                          Trend Origins ({filters.origins.length})
+                        </Label>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                          {originsOpen ? '−' : '+'}
+                        </Button>
+                      </div>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="space-y-2 mt-3">
+                      {facets.origins.map((origin) => (
+                        <div key={origin.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`origin-${origin.name}`}
+                            checked={filters.origins.includes(origin.name)}
+                            onCheckedChange={() => toggleArrayFilter('origins', origin.name)}
+                          />
+                          <Label
+                            htmlFor={`origin-${origin.name}`}
+                            className="text-sm font-normal cursor-pointer flex-1 flex items-center justify-between"
+                          >
+                            <span>{trendSourceLabel(origin.name)}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {origin.count}
+                            </Badge>
+                          </Label>
+                        </div>
+                      ))}
+                    </CollapsibleContent>
+                  </Collapsible>
+                </>
+              )}
             </>
           )}
         </div>
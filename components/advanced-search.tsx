@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Search, X, TrendingUp, Filter, Loader2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { parseSearchQuery } from '@/lib/search-query';
 
 interface SearchSuggestion {
   text: string;
@@ -35,6 +36,11 @@ export default function AdvancedSearch({
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceTimer = useRef<NodeJS.Timeout>();
+  const syntaxErrors = useMemo(() => parseSearchQuery(query).errors, [query]);
+
+  useEffect(() => {
+    setQuery(initialQuery);
+  }, [initialQuery]);
 
   useEffect(() => {
     if (showTrending) {
@@ -100,7 +106,7 @@ export default function AdvancedSearch({
 
   const handleSearch = (searchQuery?: string) => {
     const finalQuery = searchQuery || query;
-    if (finalQuery.trim()) {
+    if (finalQuery.trim() && parseSearchQuery(finalQuery).errors.length === 0) {
       onSearch(finalQuery.trim());
       setShowSuggestions(false);
       setSelectedIndex(-1);
@@ -201,7 +207,7 @@ export default function AdvancedSearch({
           )}
           <Button
             onClick={() => handleSearch()}
-            disabled={!query.trim()}
+            disabled={!query.trim() || syntaxErrors.length > 0}
             className="h-8"
           >
             Search
@@ -209,6 +215,19 @@ export default function AdvancedSearch({
         </div>
       </div>
 
+      {syntaxErrors.length > 0 && (
+        <div className="mt-1 space-y-0.5 text-xs text-red-600 dark:text-red-400">
+          {syntaxErrors.map((error) => (
+            <div key={`${error.position}-${error.message}`}>
+              {error.message}{' '}
+              <span className="font-mono text-red-500/80">
+                (col {error.position + 1}: {query.slice(error.position, error.position + error.length)})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {showSuggestions && (suggestions.length > 0 || trendingSearches.length > 0) && (
         <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 rounded-lg border shadow-lg max-h-96 overflow-y-auto">
           {loading && (
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyScope,
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+} from '@/lib/api-keys';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+interface ApiKeysCardProps {
+  userId: string;
+  /** Whether the user's plan includes `api_access`; keys are rejected without it. */
+  apiAccess: boolean;
+}
+
+export default function ApiKeysCard({ userId, apiAccess }: ApiKeysCardProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['trends:read', 'search:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    getApiKeys().then(setKeys);
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((item) => item !== scope)));
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || scopes.length === 0) return;
+
+    setCreating(true);
+    const created = await createApiKey(
+      userId,
+      name.trim(),
+      scopes,
+      expiry === 'never' ? null : parseInt(expiry)
+    );
+    setCreating(false);
+
+    if (!created) {
+      toast.error('Failed to create API key');
+      return;
+    }
+
+    setKeys((prev) => [created.apiKey, ...prev]);
+    setNewKey(created.key);
+    setName('');
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (await revokeApiKey(id)) {
+      setKeys((prev) => prev.filter((key) => key.id !== id));
+    } else {
+      toast.error('Failed to revoke API key');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success('API key copied');
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>API Keys</CardTitle>
+          <KeyRound className="h-5 w-5 text-slate-600" />
+        </div>
+        <CardDescription>
+          Send as <code>Authorization: Bearer &lt;key&gt;</code> from scripts and CI jobs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!apiAccess && (
+          <p className="text-sm text-amber-700 bg-amber-50 rounded p-3">
+            Your plan does not include API access. Keys you create will be rejected until you upgrade.
+          </p>
+        )}
+
+        {newKey && (
+          <div className="rounded border border-green-200 bg-green-50 p-3 space-y-2">
+            <p className="text-sm font-medium text-green-900">
+              Copy this key now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs break-all bg-white rounded px-2 py-1">{newKey}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              placeholder="CI pipeline"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {API_KEY_SCOPES.map((scope) => (
+              <div key={scope.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`scope-${scope.value}`}
+                  checked={scopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                />
+                <Label htmlFor={`scope-${scope.value}`} className="text-sm font-normal">
+                  {scope.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={handleCreate} disabled={creating || !name.trim() || scopes.length === 0}>
+          {creating ? 'Creating...' : 'Create API key'}
+        </Button>
+
+        {keys.length > 0 && (
+          <div className="space-y-3">
+            {keys.map((key) => (
+              <div
+                key={key.id}
+                className="flex items-center justify-between border-b pb-3 last:border-0"
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-slate-900">
+                    {key.name} <code className="text-xs text-slate-500">{key.keyPrefix}…</code>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {key.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="text-xs">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-600">
+                    {key.lastUsedAt
+                      ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                    {' · '}
+                    {key.expiresAt
+                      ? `Expires ${new Date(key.expiresAt).toLocaleDateString()}`
+                      : 'No expiry'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(key.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
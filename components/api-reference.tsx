@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { useAuth } from '@/lib/auth-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type JsonSchema = Record<string, any>;
+
+interface Parameter {
+  name: string;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description: string;
+  parameters?: Parameter[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Omit<Operation, 'method' | 'path'>>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'bg-blue-600',
+  POST: 'bg-green-600',
+  DELETE: 'bg-red-600',
+};
+
+/** Builds a starting request body from the schema's required fields and defaults. */
+function exampleFor(schema: JsonSchema, doc: OpenApiDocument): any {
+  if (schema.$ref) {
+    return exampleFor(doc.components.schemas[schema.$ref.split('/').pop()!], doc);
+  }
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object': {
+      const required: string[] = schema.required || [];
+      const example: Record<string, any> = {};
+      for (const [key, value] of Object.entries<JsonSchema>(schema.properties || {})) {
+        if (required.includes(key) || value.default !== undefined) {
+          example[key] = exampleFor(value, doc);
+        }
+      }
+      return example;
+    }
+    case 'array':
+      return [];
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return '';
+  }
+}
+
+function OperationCard({
+  operation,
+  doc,
+  token,
+}: {
+  operation: Operation;
+  doc: OpenApiDocument;
+  token: string;
+}) {
+  const bodySchema = operation.requestBody?.content['application/json'].schema;
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() =>
+    bodySchema ? JSON.stringify(exampleFor(bodySchema, doc), null, 2) : ''
+  );
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ status: number; body: string } | null>(null);
+
+  const handleSend = async () => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+      if (value) searchParams.set(name, value);
+    });
+    const query = searchParams.toString();
+
+    setSending(true);
+    try {
+      const response = await fetch(`${operation.path}${query ? `?${query}` : ''}`, {
+        method: operation.method,
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(bodySchema ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: bodySchema ? body : undefined,
+      });
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show as is
+      }
+      setResult({ status: response.status, body: formatted });
+    } catch (error) {
+      setResult({ status: 0, body: String(error) });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card id={operation.operationId}>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Badge className={METHOD_COLORS[operation.method]}>{operation.method}</Badge>
+          <code className="text-sm font-medium">{operation.path}</code>
+        </div>
+        <CardTitle className="text-lg">{operation.summary}</CardTitle>
+        <CardDescription className="whitespace-pre-line">{operation.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {operation.parameters && operation.parameters.length > 0 && (
+          <div className="grid md:grid-cols-2 gap-4">
+            {operation.parameters.map((param) => (
+              <div key={param.name} className="space-y-1">
+                <Label htmlFor={`${operation.operationId}-${param.name}`}>
+                  {param.name}
+                  {param.required && <span className="text-red-600"> *</span>}
+                  <span className="ml-2 text-xs font-normal text-slate-500">
+                    {param.schema.enum ? param.schema.enum.join(' | ') : param.schema.type}
+                  </span>
+                </Label>
+                <Input
+                  id={`${operation.operationId}-${param.name}`}
+                  placeholder={param.schema.default !== undefined ? String(param.schema.default) : ''}
+                  value={params[param.name] || ''}
+                  onChange={(event) =>
+                    setParams((prev) => ({ ...prev, [param.name]: event.target.value }))
+                  }
+                />
+                {param.description && (
+                  <p className="text-xs text-slate-500">{param.description}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {bodySchema && (
+          <div className="space-y-1">
+            <Label htmlFor={`${operation.operationId}-body`}>Request body</Label>
+            <Textarea
+              id={`${operation.operationId}-body`}
+              className="font-mono text-xs"
+              rows={Math.min(16, body.split('\n').length + 1)}
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+            />
+          </div>
+        )}
+
+        <Button onClick={handleSend} disabled={sending} size="sm">
+          {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+          Send request
+        </Button>
+
+        {result && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              Status{' '}
+              <span className={result.status >= 200 && result.status < 300 ? 'text-green-700' : 'text-red-700'}>
+                {result.status || 'network error'}
+              </span>
+            </p>
+            <pre className="max-h-96 overflow-auto rounded bg-slate-950 p-3 text-xs text-slate-100">
+              {result.body}
+            </pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ApiReference() {
+  const { session } = useAuth();
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null);
+  const [error, setError] = useState(false);
+  const [token, setToken] = useState('');
+
+  useEffect(() => {
+    fetch('/api/v1/openapi.json')
+      .then((response) => response.json())
+      .then(setDoc)
+      .catch((err) => {
+        console.error('Error loading API spec:', err);
+        setError(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (session?.access_token) {
+      setToken((current) => current || session.access_token);
+    }
+  }, [session]);
+
+  if (error) {
+    return <p className="text-slate-600">The API specification could not be loaded.</p>;
+  }
+
+  if (!doc) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  const operations: Operation[] = Object.entries(doc.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({
+      ...operation,
+      method: method.toUpperCase(),
+      path,
+    }))
+  );
+  const tags = Array.from(new Set(operations.flatMap((operation) => operation.tags)));
+
+  return (
+    <div className="space-y-10">
+      <div className="space-y-3">
+        <h1 className="text-3xl font-bold">
+          {doc.info.title} <span className="text-base font-normal text-slate-500">v{doc.info.version}</span>
+        </h1>
+        <p className="text-slate-600">{doc.info.description}</p>
+        <p className="text-sm text-slate-600">
+          Machine-readable spec: <a href="/api/v1/openapi.json" className="underline">/api/v1/openapi.json</a>
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          <Label htmlFor="api-reference-token">Bearer token</Label>
+          <Input
+            id="api-reference-token"
+            type="password"
+            placeholder="dp_… API key or session token"
+            value={token}
+            onChange={(event) => setToken(event.target.value)}
+          />
+          <p className="text-xs text-slate-500">
+            Filled in from your session when signed in. Requests count against your rate limit.
+          </p>
+        </CardContent>
+      </Card>
+
+      {tags.map((tag) => (
+        <section key={tag} className="space-y-4">
+          <h2 className="text-2xl font-semibold">{tag}</h2>
+          {operations
+            .filter((operation) => operation.tags.includes(tag))
+            .map((operation) => (
+              <OperationCard
+                key={operation.operationId}
+                operation={operation}
+                doc={doc}
+                token={token}
+              />
+            ))}
+        </section>
+      ))}
+    </div>
+  );
+}
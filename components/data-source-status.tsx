@@ -19,7 +19,11 @@ interface DataSource {
   last_error_message: string | null;
   success_count: number;
   error_count: number;
+  rate_limit_remaining: number | null;
+  rate_limit_reset_at: string | null;
+  circuit_open_until: string | null;
   priority: number;
+  metadata: Record<string, any> | null;
 }
 
 export default function DataSourceStatus() {
@@ -89,14 +93,23 @@ export default function DataSourceStatus() {
     );
   };
 
-  const getSourceLabel = (sourceName: string) => {
+  const getSourceLabel = (source: DataSource) => {
     const labels: Record<string, string> = {
       x_api: 'X (Twitter) API',
       github_api: 'GitHub API',
       github_trending_fallback: 'GitHub Trending Fallback',
       hackernews_api: 'HackerNews API',
+      reddit_api: 'Reddit',
+      lobsters_api: 'Lobsters',
+      npm_registry: 'npm Registry',
+      pypi_registry: 'PyPI',
+      crates_registry: 'crates.io',
+      arxiv_api: 'arXiv',
+      mastodon_trends: 'Mastodon Trends',
+      bluesky_feeds: 'Bluesky Feeds',
     };
-    return labels[sourceName] || sourceName;
+    // Feeds are registered by admins, who name them in metadata
+    return labels[source.source_name] || source.metadata?.title || source.source_name;
   };
 
   if (loading) {
@@ -129,7 +142,7 @@ export default function DataSourceStatus() {
                 <div className="mt-1">{getStatusIcon(source.health_status)}</div>
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
-                    <p className="font-medium text-sm">{getSourceLabel(source.source_name)}</p>
+                    <p className="font-medium text-sm">{getSourceLabel(source)}</p>
                     {getStatusBadge(source.health_status)}
                   </div>
 
@@ -145,6 +158,12 @@ export default function DataSourceStatus() {
                     </p>
                   )}
 
+                  {source.circuit_open_until && new Date(source.circuit_open_until) > new Date() && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mb-1">
+                      Paused after repeated failures until {new Date(source.circuit_open_until).toLocaleTimeString()}
+                    </p>
+                  )}
+
                   <div className="flex items-center gap-4 text-xs text-gray-600 dark:text-gray-400">
                     {source.last_success_at && (
                       <span>
@@ -154,6 +173,13 @@ export default function DataSourceStatus() {
                     <span>
                       Success: {source.success_count} | Errors: {source.error_count}
                     </span>
+                    {source.rate_limit_remaining !== null && (
+                      <span>
+                        Rate limit: {source.rate_limit_remaining} left
+                        {source.rate_limit_reset_at &&
+                          `, resets ${new Date(source.rate_limit_reset_at).toLocaleTimeString()}`}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
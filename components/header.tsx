@@ -10,6 +10,7 @@ export default function Header() {
           <Link href="/trends" className="hover:underline">Trends</Link>
           <Link href="/knowledge" className="hover:underline">Knowledge</Link>
           <Link href="/dashboard" className="hover:underline">Dashboard</Link>
+          <Link href="/api-docs" className="hover:underline">API</Link>
           <Link href="/privacy" className="hover:underline">Privacy</Link>
           <Link href="/terms" className="hover:underline">Terms</Link>
         </nav>
@@ -1,15 +1,22 @@
 'use client';
 
 import { useState } from 'react';
-import { ExternalLink, Star, TrendingUp, GitBranch, BookOpen, Sparkles, ChevronRight } from 'lucide-react';
+import { ExternalLink, Star, TrendingUp, GitBranch, BookOpen, Package, FileText, Rss, Sparkles, ChevronRight, Link2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { formatTrendMetric, trendSourceLabel } from '@/supabase/functions/_shared/trend-origins';
+import { LinkedItem, summarizeLinks } from '@/lib/entity-links';
+
+interface Snippet {
+  text: string;
+  highlights: Array<{ start: number; length: number }>;
+}
 
 export interface SearchResult {
   id: string;
-  type: 'x_trend' | 'github_repo' | 'knowledge_entry';
+  type: 'x_trend' | 'github_repo' | 'knowledge_entry' | 'package' | 'paper' | 'feed_item';
   title: string;
   description: string;
   url?: string;
@@ -19,7 +26,20 @@ export interface SearchResult {
   engagement: number;
   trendingScore?: number;
   velocityScore?: number;
+  relevanceScore?: number;
+  relevance?: {
+    textRank: number;
+    sourceBestRank: number;
+    matchedFields: string[];
+    fuzzy?: boolean;
+    semanticSimilarity?: number;
+  };
+  snippets?: {
+    title: Snippet;
+    body: Snippet | null;
+  };
   timestamp: string;
+  links?: LinkedItem[];
   metadata: Record<string, any>;
 }
 
@@ -29,7 +49,6 @@ interface SearchResultsProps {
   loading?: boolean;
   onLoadMore?: () => void;
   hasMore?: boolean;
-  highlightQuery?: string;
 }
 
 export default function SearchResults({
@@ -38,7 +57,6 @@ export default function SearchResults({
   loading = false,
   onLoadMore,
   hasMore = false,
-  highlightQuery,
 }: SearchResultsProps) {
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
 
@@ -62,6 +80,12 @@ export default function SearchResults({
         return <GitBranch className="h-4 w-4" />;
       case 'knowledge_entry':
         return <BookOpen className="h-4 w-4" />;
+      case 'package':
+        return <Package className="h-4 w-4" />;
+      case 'paper':
+        return <FileText className="h-4 w-4" />;
+      case 'feed_item':
+        return <Rss className="h-4 w-4" />;
       default:
         return <Sparkles className="h-4 w-4" />;
     }
@@ -70,11 +94,17 @@ export default function SearchResults({
   const getTypeLabel = (type: string) => {
     switch (type) {
       case 'x_trend':
-        return 'X Trend';
+        return 'Trend';
       case 'github_repo':
         return 'GitHub Repo';
       case 'knowledge_entry':
         return 'Knowledge';
+      case 'package':
+        return 'Package';
+      case 'paper':
+        return 'Paper';
+      case 'feed_item':
+        return 'Feed';
       default:
         return 'Item';
     }
@@ -88,43 +118,84 @@ export default function SearchResults({
         return 'text-green-600 bg-green-50 dark:bg-green-900/20';
       case 'knowledge_entry':
         return 'text-purple-600 bg-purple-50 dark:bg-purple-900/20';
+      case 'package':
+        return 'text-orange-600 bg-orange-50 dark:bg-orange-900/20';
+      case 'paper':
+        return 'text-rose-600 bg-rose-50 dark:bg-rose-900/20';
+      case 'feed_item':
+        return 'text-amber-600 bg-amber-50 dark:bg-amber-900/20';
       default:
         return 'text-gray-600 bg-gray-50 dark:bg-gray-900/20';
     }
   };
 
-  const highlightText = (text: string, query?: string) => {
-    if (!query || query.trim() === '') return text;
+  // Snippet text is rendered as React text nodes, so content is always escaped
+  const renderSnippet = (snippet: Snippet) => {
+    const parts: JSX.Element[] = [];
+    let cursor = 0;
 
-    const parts = text.split(new RegExp(`(${query})`, 'gi'));
-    return (
-      <span>
-        {parts.map((part, index) =>
-          part.toLowerCase() === query.toLowerCase() ? (
-            <mark
-              key={index}
-              className="bg-yellow-200 dark:bg-yellow-800 font-semibold rounded px-0.5"
-            >
-              {part}
-            </mark>
-          ) : (
-            part
-          )
-        )}
-      </span>
-    );
+    snippet.highlights.forEach((range, index) => {
+      if (range.start > cursor) {
+        parts.push(<span key={`t${index}`}>{snippet.text.slice(cursor, range.start)}</span>);
+      }
+      parts.push(
+        <mark
+          key={`m${index}`}
+          className="bg-yellow-200 dark:bg-yellow-800 font-semibold rounded px-0.5"
+        >
+          {snippet.text.slice(range.start, range.start + range.length)}
+        </mark>
+      );
+      cursor = range.start + range.length;
+    });
+
+    if (cursor < snippet.text.length) {
+      parts.push(<span key="rest">{snippet.text.slice(cursor)}</span>);
+    }
+
+    return <span>{parts}</span>;
   };
 
-  const formatEngagement = (engagement: number, type: string) => {
+  const getBodySnippet = (result: SearchResult) =>
+    result.snippets?.body && result.snippets.body.highlights.length > 0
+      ? result.snippets.body
+      : null;
+
+  const formatEngagement = (result: SearchResult) => {
+    const { engagement, type } = result;
     if (type === 'x_trend') {
-      return `${engagement.toLocaleString()} posts`;
+      return formatTrendMetric(engagement, result.metadata?.metricType);
     } else if (type === 'github_repo') {
       return `${engagement.toLocaleString()} stars`;
+    } else if (type === 'package') {
+      return `${engagement.toLocaleString()} downloads/week`;
+    } else if (type === 'paper') {
+      return `${engagement.toLocaleString()} stars on code`;
     } else {
       return `Score: ${engagement}`;
     }
   };
 
+  const explainRelevance = (result: SearchResult) => {
+    if (!result.relevance) return '';
+
+    const { semanticSimilarity } = result.relevance;
+    const similarity = semanticSimilarity !== undefined
+      ? `semantic similarity ${semanticSimilarity.toFixed(3)}`
+      : '';
+
+    if (result.relevance.matchedFields.length === 0 && result.relevance.textRank === 0 && similarity) {
+      return `Semantic match · ${similarity}`;
+    }
+
+    const verb = result.relevance.fuzzy ? 'Fuzzy match on' : 'Matched';
+    const fields = result.relevance.matchedFields.length > 0
+      ? `${verb} ${result.relevance.matchedFields.join(', ')}`
+      : verb;
+    const textRank = `text rank ${result.relevance.textRank.toFixed(3)} (best ${getTypeLabel(result.type)}: ${result.relevance.sourceBestRank.toFixed(3)})`;
+    return [fields, textRank, similarity].filter(Boolean).join(' · ');
+  };
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -170,6 +241,7 @@ export default function SearchResults({
       <div className="space-y-4">
         {results.map((result) => {
           const isExpanded = expandedResults.has(result.id);
+          const bodySnippet = getBodySnippet(result);
           return (
             <Card
               key={result.id}
@@ -184,7 +256,9 @@ export default function SearchResults({
                         className={`text-xs ${getTypeColor(result.type)}`}
                       >
                         <span className="mr-1">{getTypeIcon(result.type)}</span>
-                        {getTypeLabel(result.type)}
+                        {result.type === 'x_trend'
+                          ? trendSourceLabel(result.metadata?.source)
+                          : getTypeLabel(result.type)}
                       </Badge>
                       {result.category && (
                         <Badge variant="outline" className="text-xs capitalize">
@@ -198,10 +272,18 @@ export default function SearchResults({
                       )}
                     </div>
                     <CardTitle className="text-lg leading-tight break-words">
-                      {highlightText(result.title, highlightQuery)}
+                      {result.snippets ? renderSnippet(result.snippets.title) : result.title}
                     </CardTitle>
                   </div>
                   <div className="flex flex-col items-end gap-2">
+                    {result.relevanceScore !== undefined && (
+                      <span
+                        className="text-xs font-medium text-blue-600"
+                        title={explainRelevance(result)}
+                      >
+                        {Math.round(result.relevanceScore * 100)}% match
+                      </span>
+                    )}
                     {result.trendingScore && (
                       <div className="flex items-center gap-1 text-sm font-medium text-orange-600">
                         <TrendingUp className="h-4 w-4" />
@@ -224,10 +306,10 @@ export default function SearchResults({
 
               <CardContent className="pt-0">
                 <p className={`text-sm text-gray-600 dark:text-gray-400 mb-3 ${!isExpanded && 'line-clamp-2'}`}>
-                  {highlightText(result.description, highlightQuery)}
+                  {bodySnippet ? renderSnippet(bodySnippet) : result.description}
                 </p>
 
-                {result.description.length > 150 && (
+                {(bodySnippet ? bodySnippet.text : result.description).length > 150 && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -254,20 +336,69 @@ export default function SearchResults({
                   </div>
                 )}
 
+                {result.links && result.links.length > 0 && (
+                  <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    <Link2 className="h-3 w-3 shrink-0" />
+                    {summarizeLinks(result.links)}
+                  </p>
+                )}
+
+                {isExpanded && result.relevance && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    {explainRelevance(result)}
+                  </p>
+                )}
+
                 <Separator className="my-3" />
 
                 <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
                   <div className="flex items-center gap-3">
-                    <span className="flex items-center gap-1">
-                      <Star className="h-3 w-3" />
-                      {formatEngagement(result.engagement, result.type)}
-                    </span>
+                    {/* Feeds have no engagement measure; their items score 0 */}
+                    {result.type !== 'feed_item' && (
+                      <span className="flex items-center gap-1">
+                        <Star className="h-3 w-3" />
+                        {formatEngagement(result)}
+                      </span>
+                    )}
                     {result.velocityScore && result.velocityScore > 0 && (
                       <span className="flex items-center gap-1 text-green-600">
                         <TrendingUp className="h-3 w-3" />
                         Velocity: {Math.round(result.velocityScore)}
                       </span>
                     )}
+                    {result.type === 'github_repo' && result.metadata?.starDelta > 0 && (
+                      <span className="text-green-600">
+                        +{result.metadata.starDelta.toLocaleString()} stars in{' '}
+                        {Math.max(1, Math.round(result.metadata.starWindowHours))}h
+                      </span>
+                    )}
+                    {result.type === 'package' && result.metadata?.registry && (
+                      <span>{result.metadata.registry}</span>
+                    )}
+                    {result.type === 'package' && result.metadata?.growthPct > 0 && (
+                      <span className="text-green-600">
+                        +{result.metadata.growthPct.toFixed(1)}% weekly downloads in{' '}
+                        {Math.max(1, Math.round(result.metadata.downloadWindowHours))}h
+                      </span>
+                    )}
+                    {result.type === 'paper' && result.metadata?.arxivId && (
+                      <span>arXiv:{result.metadata.arxivId}</span>
+                    )}
+                    {result.type === 'paper' && result.metadata?.repos?.length > 0 && (
+                      <span>
+                        Code: {result.metadata.repos[0].repo_name}
+                        {result.metadata.repos.length > 1 && ` +${result.metadata.repos.length - 1}`}
+                      </span>
+                    )}
+                    {result.type === 'feed_item' && result.metadata?.feedTitle && (
+                      <span className="flex items-center gap-1">
+                        <Rss className="h-3 w-3" />
+                        {result.metadata.feedTitle}
+                      </span>
+                    )}
+                    {result.type === 'feed_item' && result.metadata?.author && (
+                      <span>{result.metadata.author}</span>
+                    )}
                   </div>
                   <span>{formatTimestamp(result.timestamp)}</span>
                 </div>
@@ -1,7 +1,9 @@
 'use client';
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, XTrend, GitHubRepo, UpdateLog } from '@/lib/supabase';
+import { XTrend, GitHubRepo, UpdateLog } from '@/lib/supabase';
+import type { StreamEvents, StreamEventType } from '@/lib/live-stream';
+import { formatTrendMetric, trendSourceLabel } from '@/supabase/functions/_shared/trend-origins';
 import { ExternalLink, TrendingUp, Star, GitBranch, RefreshCw, AlertCircle, Activity, Search, Flame } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,9 +11,29 @@ import DataSourceStatus from './data-source-status';
 import SetupGuide from './setup-guide';
 import AdvancedSearch from './advanced-search';
 
+// Same list sizes as the stream's snapshot
+const TREND_COUNT = 10;
+const REPO_COUNT = 10;
+const LOG_COUNT = 5;
+
+/** Replaces rows by id, adds new ones, and keeps the list's order and size. */
+function mergeRows<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  compare: (a: T, b: T) => number,
+  size: number
+): T[] {
+  const byId = new Map(current.map((row) => [row.id, row]));
+  for (const row of incoming) byId.set(row.id, row);
+  return Array.from(byId.values()).sort(compare).slice(0, size);
+}
+
+const newestFirst = (a: string, b: string) => new Date(b).getTime() - new Date(a).getTime();
+
 export default function TrendsDashboard() {
   const router = useRouter();
   const [xTrends, setXTrends] = useState<XTrend[]>([]);
+  const [trendOrigin, setTrendOrigin] = useState<string | null>(null);
   const [githubRepos, setGithubRepos] = useState<GitHubRepo[]>([]);
   const [hackerNewsItems, setHackerNewsItems] = useState<any[]>([]);
   const [updateLogs, setUpdateLogs] = useState<UpdateLog[]>([]);
@@ -20,46 +42,6 @@ export default function TrendsDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [trendingItems, setTrendingItems] = useState<any[]>([]);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const [trendsRes, reposRes, logsRes] = await Promise.all([
-        supabase
-          .from('x_trends')
-          .select('*')
-          .order('fetched_at', { ascending: false })
-          .limit(10),
-        supabase
-          .from('github_repos')
-          .select('*')
-          .order('stars', { ascending: false })
-          .limit(10),
-        supabase
-          .from('update_logs')
-          .select('*')
-          .order('created_at', { ascending: false })
-          .limit(5)
-      ]);
-
-      if (trendsRes.error) throw trendsRes.error;
-      if (reposRes.error) throw reposRes.error;
-      if (logsRes.error) throw logsRes.error;
-
-      setXTrends(trendsRes.data || []);
-      setGithubRepos(reposRes.data || []);
-      setUpdateLogs(logsRes.data || []);
-
-      fetchTrendingItems();
-      fetchHackerNews();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch data');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchTrendingItems = async () => {
     try {
       const response = await fetch('/api/search?action=trending-items&limit=6');
@@ -114,7 +96,8 @@ export default function TrendsDashboard() {
         throw new Error('Failed to trigger update');
       }
 
-      await fetchData();
+      // New rows arrive over the stream
+      fetchTrendingItems();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to trigger update');
     } finally {
@@ -123,48 +106,55 @@ export default function TrendsDashboard() {
   };
 
   useEffect(() => {
-    fetchData();
-
-    const trendsChannel = supabase
-      .channel('x_trends_changes')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'x_trends'
-      }, () => {
-        fetchData();
-      })
-      .subscribe();
-
-    const reposChannel = supabase
-      .channel('github_repos_changes')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'github_repos'
-      }, () => {
-        fetchData();
-      })
-      .subscribe();
-
-    const logsChannel = supabase
-      .channel('update_logs_changes')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'update_logs'
-      }, () => {
-        fetchData();
-      })
-      .subscribe();
+    fetchTrendingItems();
+    fetchHackerNews();
+
+    const source = new EventSource('/api/stream');
+
+    const listen = <K extends StreamEventType>(type: K, apply: (data: StreamEvents[K]) => void) => {
+      source.addEventListener(type, (event) => {
+        apply(JSON.parse((event as MessageEvent<string>).data));
+      });
+    };
+
+    listen('snapshot', (snapshot) => {
+      setXTrends(snapshot.trends);
+      setGithubRepos(snapshot.repos);
+      setUpdateLogs(snapshot.logs);
+      setError(null);
+      setLoading(false);
+    });
+
+    listen('trend.updated', ({ trends }) => {
+      setXTrends((prev) => mergeRows(prev, trends, (a, b) => newestFirst(a.fetched_at, b.fetched_at), TREND_COUNT));
+    });
+
+    listen('repo.updated', ({ repos }) => {
+      setGithubRepos((prev) => mergeRows(prev, repos, (a, b) => b.stars - a.stars, REPO_COUNT));
+    });
+
+    listen('log.created', ({ logs }) => {
+      setUpdateLogs((prev) => mergeRows(prev, logs, (a, b) => newestFirst(a.created_at, b.created_at), LOG_COUNT));
+    });
+
+    // The browser reconnects by itself unless the stream is closed for good
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Live updates are unavailable. Reload the page to try again.');
+        setLoading(false);
+      }
+    };
 
     return () => {
-      supabase.removeChannel(trendsChannel);
-      supabase.removeChannel(reposChannel);
-      supabase.removeChannel(logsChannel);
+      source.close();
     };
   }, []);
 
+  const trendOrigins = Array.from(new Set(xTrends.map((trend) => trend.source))).sort();
+  // Live updates can push the chosen origin out of the list; show everything then
+  const activeOrigin = trendOrigin && trendOrigins.includes(trendOrigin) ? trendOrigin : null;
+  const visibleTrends = activeOrigin ? xTrends.filter((trend) => trend.source === activeOrigin) : xTrends;
+
   if (loading && xTrends.length === 0) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -232,7 +222,9 @@ export default function TrendsDashboard() {
                 >
                   <div className="flex items-start justify-between gap-2 mb-2">
                     <span className="text-xs font-semibold text-orange-600 uppercase">
-                      {item.type === 'x_trend' ? 'X' : item.type === 'github_repo' ? 'GitHub' : 'Knowledge'}
+                      {item.type === 'x_trend'
+                        ? trendSourceLabel(item.metadata?.source)
+                        : item.type === 'github_repo' ? 'GitHub' : 'Knowledge'}
                     </span>
                     {item.trendingScore && (
                       <span className="text-xs font-bold text-orange-600">
@@ -242,7 +234,9 @@ export default function TrendsDashboard() {
                   </div>
                   <p className="font-medium text-sm line-clamp-2">{item.title}</p>
                   <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
-                    {item.engagement.toLocaleString()} {item.type === 'x_trend' ? 'posts' : 'stars'}
+                    {item.type === 'x_trend'
+                      ? formatTrendMetric(item.engagement, item.metadata?.metricType)
+                      : `${item.engagement.toLocaleString()} stars`}
                   </p>
                 </a>
               ))}
@@ -266,9 +260,27 @@ export default function TrendsDashboard() {
         <div className="space-y-4">
           <div className="flex items-center gap-2">
             <TrendingUp className="w-5 h-5 text-brand-500" />
-            <h3 className="text-xl font-semibold">X Trends</h3>
+            <h3 className="text-xl font-semibold">Social Trends</h3>
           </div>
 
+          {trendOrigins.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {[null, ...trendOrigins].map((origin) => (
+                <button
+                  key={origin || 'all'}
+                  onClick={() => setTrendOrigin(origin)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    activeOrigin === origin
+                      ? 'bg-brand-500 border-brand-500 text-white'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  {origin ? trendSourceLabel(origin) : 'All'}
+                </button>
+              ))}
+            </div>
+          )}
+
           {xTrends.length === 0 ? (
             <div className="p-6 rounded-lg border text-center text-gray-500">
               <p>No trends available yet.</p>
@@ -276,7 +288,7 @@ export default function TrendsDashboard() {
             </div>
           ) : (
             <div className="space-y-2">
-              {xTrends.map((trend) => (
+              {visibleTrends.map((trend) => (
                 <a
                   key={trend.id}
                   href={trend.url}
@@ -286,11 +298,12 @@ export default function TrendsDashboard() {
                 >
                   <div className="flex-1">
                     <p className="font-medium">{trend.trend_name}</p>
-                    {trend.tweet_count > 0 && (
-                      <p className="text-sm text-gray-600 dark:text-gray-400">
-                        {trend.tweet_count.toLocaleString()} posts
-                      </p>
-                    )}
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      <span className="text-xs font-semibold uppercase text-brand-500">
+                        {trendSourceLabel(trend.source)}
+                      </span>
+                      {trend.tweet_count > 0 && ` · ${formatTrendMetric(trend.tweet_count, trend.metric_type)}`}
+                    </p>
                   </div>
                   <ExternalLink className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
                 </a>
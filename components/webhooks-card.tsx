@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Trash2, Webhook } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  setWebhookActive,
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@/lib/webhooks';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  delivering: 'secondary',
+  failed: 'destructive',
+};
+
+interface WebhooksCardProps {
+  userId: string;
+}
+
+export default function WebhooksCard({ userId }: WebhooksCardProps) {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [filterQuery, setFilterQuery] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>(['repo.created']);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWebhooks().then(setWebhooks);
+    getWebhookDeliveries().then(setDeliveries);
+  }, []);
+
+  const toggleEventType = (eventType: WebhookEventType, checked: boolean) => {
+    setEventTypes((prev) => (checked ? [...prev, eventType] : prev.filter((item) => item !== eventType)));
+  };
+
+  const canCreate = !!name.trim() && /^https?:\/\//.test(url.trim()) && eventTypes.length > 0;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setCreating(true);
+    const created = await createWebhook(
+      userId,
+      name.trim(),
+      url.trim(),
+      eventTypes,
+      filterQuery.trim() ? { query: filterQuery.trim() } : {}
+    );
+    setCreating(false);
+
+    if (!created) {
+      toast.error('Failed to create webhook. Check the URL and filter query.');
+      return;
+    }
+
+    setWebhooks((prev) => [created, ...prev]);
+    setNewSecret(created.secret);
+    setName('');
+    setUrl('');
+    setFilterQuery('');
+  };
+
+  const handleToggle = async (webhook: WebhookSubscription, isActive: boolean) => {
+    if (await setWebhookActive(webhook.id, isActive)) {
+      setWebhooks((prev) => prev.map((item) => (item.id === webhook.id ? { ...item, isActive } : item)));
+    } else {
+      toast.error('Failed to update webhook');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await deleteWebhook(id)) {
+      setWebhooks((prev) => prev.filter((item) => item.id !== id));
+      setDeliveries((prev) => prev.filter((delivery) => delivery.subscriptionId !== id));
+    } else {
+      toast.error('Failed to delete webhook');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast.success('Signing secret copied');
+  };
+
+  const webhookName = (id: string) => webhooks.find((webhook) => webhook.id === id)?.name || 'Deleted webhook';
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Webhooks</CardTitle>
+          <Webhook className="h-5 w-5 text-slate-600" />
+        </div>
+        <CardDescription>
+          Get new trends, repos and knowledge entries <code>POST</code>ed to your own endpoint
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newSecret && (
+          <div className="rounded border border-green-200 bg-green-50 p-3 space-y-2">
+            <p className="text-sm font-medium text-green-900">
+              Verify <code>X-Webhook-Signature</code> with this signing secret.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs break-all bg-white rounded px-2 py-1">{newSecret}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input
+              id="webhook-name"
+              placeholder="Team chat"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              placeholder="https://example.com/hooks/trends"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-filter">Only items matching (optional)</Label>
+            <Input
+              id="webhook-filter"
+              placeholder="lang:rust stars:>500"
+              value={filterQuery}
+              onChange={(event) => setFilterQuery(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {WEBHOOK_EVENT_TYPES.map((eventType) => (
+              <div key={eventType.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`webhook-event-${eventType.value}`}
+                  checked={eventTypes.includes(eventType.value)}
+                  onCheckedChange={(checked) => toggleEventType(eventType.value, checked === true)}
+                />
+                <Label htmlFor={`webhook-event-${eventType.value}`} className="text-sm font-normal">
+                  {eventType.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={handleCreate} disabled={creating || !canCreate}>
+          {creating ? 'Creating...' : 'Create webhook'}
+        </Button>
+
+        {webhooks.length > 0 && (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div
+                key={webhook.id}
+                className="flex items-center justify-between border-b pb-3 last:border-0"
+              >
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900">{webhook.name}</p>
+                  <p className="text-xs text-slate-600 truncate">{webhook.url}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.eventTypes.map((eventType) => (
+                      <Badge key={eventType} variant="outline" className="text-xs">
+                        {eventType}
+                      </Badge>
+                    ))}
+                    {webhook.filters.query && (
+                      <Badge variant="secondary" className="text-xs">
+                        {webhook.filters.query}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={webhook.isActive}
+                    onCheckedChange={(checked) => handleToggle(webhook, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(webhook.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {deliveries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-900">Recent deliveries</p>
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-center justify-between text-xs">
+                <div className="min-w-0">
+                  <span className="font-medium text-slate-900">{webhookName(delivery.subscriptionId)}</span>
+                  <span className="text-slate-600"> · {delivery.eventType}</span>
+                  <span className="text-slate-500"> · {new Date(delivery.createdAt).toLocaleString()}</span>
+                  {delivery.lastError && delivery.status !== 'succeeded' && (
+                    <p className="text-slate-500 truncate">
+                      {delivery.lastError}
+                      {delivery.status === 'pending' &&
+                        ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-xs shrink-0">
+                  {delivery.status}
+                  {delivery.attemptCount > 1 ? ` (${delivery.attemptCount} attempts)` : ''}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
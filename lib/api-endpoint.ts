@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z, ZodError, ZodTypeAny } from 'zod';
+import { ApiResponse, AuthContext, RoutePolicy, withAuthAndRateLimit } from './api-middleware';
+
+export type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+/** `data` of every v1 error response. */
+export interface ApiErrorData {
+  code: string;
+  details?: unknown;
+}
+
+/** Thrown from an endpoint handler to return a specific error envelope. */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface EndpointContext<Q, B> {
+  query: Q;
+  body: B;
+  userId: string;
+  auth: AuthContext;
+  req: NextRequest;
+}
+
+/**
+ * A versioned API operation. The same schemas validate requests, validate
+ * responses and generate the OpenAPI document, so they cannot drift apart.
+ */
+export interface EndpointDefinition<
+  Q extends ZodTypeAny = ZodTypeAny,
+  B extends ZodTypeAny = ZodTypeAny,
+  R extends ZodTypeAny = ZodTypeAny
+> {
+  operationId: string;
+  method: HttpMethod;
+  /** OpenAPI path, e.g. `/api/v1/trends`. */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  policy: RoutePolicy;
+  query?: Q;
+  body?: B;
+  response: R;
+  successStatus?: number;
+  handler: (ctx: EndpointContext<z.output<Q>, z.output<B>>) => Promise<z.input<R>>;
+}
+
+/** A defined endpoint; route files call `handle`, the spec reads the rest. */
+export interface Endpoint<
+  Q extends ZodTypeAny = ZodTypeAny,
+  B extends ZodTypeAny = ZodTypeAny,
+  R extends ZodTypeAny = ZodTypeAny
+> extends Omit<EndpointDefinition<Q, B, R>, 'handler'> {
+  handle: (request: NextRequest) => Promise<NextResponse>;
+}
+
+export function apiError(status: number, code: string, message: string, details?: unknown) {
+  return NextResponse.json<ApiResponse<ApiErrorData>>(
+    {
+      success: false,
+      error: message,
+      data: details === undefined ? { code } : { code, details },
+    },
+    { status }
+  );
+}
+
+function formatIssues(error: ZodError) {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+async function readBody(req: NextRequest): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return {};
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+export function defineEndpoint<Q extends ZodTypeAny, B extends ZodTypeAny, R extends ZodTypeAny>(
+  definition: EndpointDefinition<Q, B, R>
+): Endpoint<Q, B, R> {
+  const handle = (request: NextRequest) =>
+    withAuthAndRateLimit(request, async (req, userId, auth) => {
+      try {
+        const query = definition.query
+          ? definition.query.safeParse(Object.fromEntries(req.nextUrl.searchParams))
+          : { success: true as const, data: {} };
+        if (!query.success) {
+          return apiError(400, 'invalid_query', 'Invalid query parameters', formatIssues(query.error));
+        }
+
+        const rawBody = definition.body ? await readBody(req) : undefined;
+        const body = definition.body
+          ? definition.body.safeParse(rawBody)
+          : { success: true as const, data: undefined };
+        if (!body.success) {
+          return apiError(400, 'invalid_body', 'Invalid request body', formatIssues(body.error));
+        }
+
+        const result = await definition.handler({
+          query: query.data,
+          body: body.data,
+          userId,
+          auth,
+          req,
+        });
+
+        const response = definition.response.safeParse(result);
+        if (!response.success) {
+          console.error(`Response of ${definition.operationId} failed validation:`, response.error.issues);
+          return apiError(500, 'invalid_response', 'Internal server error');
+        }
+
+        return NextResponse.json<ApiResponse>(
+          { success: true, data: response.data },
+          { status: definition.successStatus || 200 }
+        );
+      } catch (error) {
+        if (error instanceof ApiError) {
+          return apiError(error.status, error.code, error.message, error.details);
+        }
+        console.error(`Error in ${definition.operationId}:`, error);
+        return apiError(500, 'internal_error', 'Internal server error');
+      }
+    }, definition.policy);
+
+  return { ...definition, handle };
+}
@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import { supabaseAuth } from './supabase-auth';
+
+export type ApiKeyScope = 'trends:read' | 'search:read' | 'saved_searches:manage';
+
+export const API_KEY_SCOPES: Array<{ value: ApiKeyScope; label: string }> = [
+  { value: 'trends:read', label: 'Read trends, repos and knowledge' },
+  { value: 'search:read', label: 'Search' },
+  { value: 'saved_searches:manage', label: 'Manage saved searches' },
+];
+
+/** Every key starts with this, which is how `withAuth` tells keys from JWTs. */
+export const API_KEY_PREFIX = 'dp_';
+
+const KEY_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyIdentity {
+  keyId: string;
+  userId: string;
+  scopes: ApiKeyScope[];
+}
+
+// Bytes at or above this would map onto the start of the alphabet more often
+const UNBIASED_BYTE_LIMIT = 256 - (256 % KEY_ALPHABET.length);
+
+/** Rejection sampling keeps every character equally likely. */
+function randomString(length: number): string {
+  let result = '';
+
+  while (result.length < length) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    for (let i = 0; i < bytes.length && result.length < length; i++) {
+      if (bytes[i] < UNBIASED_BYTE_LIMIT) result += KEY_ALPHABET[bytes[i] % KEY_ALPHABET.length];
+    }
+  }
+
+  return result;
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function mapApiKey(item: any): ApiKey {
+  return {
+    id: item.id,
+    name: item.name,
+    keyPrefix: item.key_prefix,
+    scopes: item.scopes,
+    expiresAt: item.expires_at,
+    lastUsedAt: item.last_used_at,
+    revokedAt: item.revoked_at,
+    createdAt: item.created_at,
+  };
+}
+
+/**
+ * Creates a key for the signed-in user. The full key is returned once and
+ * only its hash is stored, so it cannot be shown again.
+ */
+export async function createApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays: number | null
+): Promise<{ key: string; apiKey: ApiKey } | null> {
+  const key = `${API_KEY_PREFIX}${randomString(8)}_${randomString(32)}`;
+
+  try {
+    const { data, error } = await supabaseAuth
+      .from('api_keys')
+      .insert({
+        user_id: userId,
+        name,
+        key_prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        key_hash: await hashApiKey(key),
+        scopes,
+        expires_at: expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return { key, apiKey: mapApiKey(data) };
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return null;
+  }
+}
+
+export async function getApiKeys(): Promise<ApiKey[]> {
+  try {
+    const { data, error } = await supabaseAuth
+      .from('api_keys')
+      .select('*')
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapApiKey);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return [];
+  }
+}
+
+export async function revokeApiKey(id: string): Promise<boolean> {
+  try {
+    // Users cannot update their keys directly; the function only sets revoked_at
+    const { data, error } = await supabaseAuth.rpc('revoke_api_key', { p_key_id: id });
+
+    if (error) throw error;
+    return data === true;
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return false;
+  }
+}
+
+/** Resolves a presented key to its owner, or null if unknown, revoked or expired. */
+export async function authenticateApiKey(key: string): Promise<ApiKeyIdentity | null> {
+  const { data, error } = await supabase
+    .rpc('authenticate_api_key', { p_key_hash: await hashApiKey(key) })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error authenticating API key:', error);
+    return null;
+  }
+
+  const row = data as { key_id: string; user_id: string; scopes: ApiKeyScope[] } | null;
+  if (!row) return null;
+
+  return { keyId: row.key_id, userId: row.user_id, scopes: row.scopes };
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeRateLimit, logApiUsage } from './rate-limiter';
+import { withRateLimit } from './api-middleware';
+
+// The policy checks are tested without a database
+vi.mock('./supabase', () => ({ supabase: {} }));
+vi.mock('./supabase-admin', () => ({ getSupabaseAdmin: () => ({}) }));
+vi.mock('./api-keys', () => ({ isApiKey: () => false, authenticateApiKey: vi.fn() }));
+vi.mock('./rate-limiter', () => ({
+  consumeRateLimit: vi.fn(async () => ({ allowed: true, remaining: 99, limit: 100, resetAt: new Date() })),
+  findTierWithFeature: vi.fn(async () => null),
+  getUserSubscriptionTier: vi.fn(async () => ({
+    tier_name: 'pro',
+    features: { api_access: true, priority_refresh: true },
+  })),
+  logApiUsage: vi.fn(async () => undefined),
+  tierHasFeature: (tier: { features: Record<string, boolean> } | null, feature: string) =>
+    tier?.features[feature] === true,
+}));
+
+const request = () => new NextRequest('http://localhost/api/search?action=calculate-scores');
+const handler = vi.fn(async () => NextResponse.json({ success: true }));
+const policy = { cost: 10, features: ['priority_refresh' as const], sessionOnly: true };
+
+describe('withRateLimit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('refuses API keys on session-only routes, whatever their scopes', async () => {
+    const response = await withRateLimit(request(), 'user-1', handler, policy, {
+      userId: 'user-1',
+      apiKeyId: 'key-1',
+      scopes: ['trends:read', 'search:read', 'saved_searches:manage'],
+    });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).data).toEqual({ code: 'session_required' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(consumeRateLimit).not.toHaveBeenCalled();
+    expect(logApiUsage).toHaveBeenCalledWith('user-1', '/api/search', 'GET', 403, 0, 'key-1');
+  });
+
+  it('lets session logins call session-only routes', async () => {
+    const response = await withRateLimit(request(), 'user-1', handler, policy);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Cost')).toBe('10');
+    expect(consumeRateLimit).toHaveBeenCalledWith('user-1', 10);
+  });
+});
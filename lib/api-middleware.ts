@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from './supabase';
-import { checkRateLimit, incrementRateLimit, logApiUsage } from './rate-limiter';
+import { ApiKeyScope, authenticateApiKey, isApiKey } from './api-keys';
+import { getSupabaseAdmin } from './supabase-admin';
+import {
+  consumeRateLimit,
+  findTierWithFeature,
+  getUserSubscriptionTier,
+  logApiUsage,
+  tierHasFeature,
+  TierFeature,
+} from './rate-limiter';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -13,9 +22,74 @@ export interface ApiResponse<T = any> {
   };
 }
 
+/**
+ * What a route charges against the caller's rate limit and which tier
+ * features it needs. Routes whose cost depends on the request (e.g. an
+ * `action` parameter) pass a function instead.
+ */
+export interface RoutePolicy {
+  /** Rate limit units consumed per call; defaults to 1. */
+  cost?: number;
+  features?: TierFeature[];
+  /** Scope an API key needs for this route; session logins have every scope. */
+  scope?: ApiKeyScope;
+  /** Refuses API keys outright, for actions that change data shared by every user. */
+  sessionOnly?: boolean;
+}
+
+export interface AuthContext {
+  userId: string;
+  /** Set when the caller authenticated with a personal API key. */
+  apiKeyId: string | null;
+  /** Scopes of that key; null for session logins. */
+  scopes: ApiKeyScope[] | null;
+}
+
+type AuthedHandler = (req: NextRequest, userId: string, auth: AuthContext) => Promise<NextResponse>;
+
+export type RoutePolicyResolver = RoutePolicy | ((req: NextRequest) => RoutePolicy);
+
+export interface FeatureDenial {
+  code: 'feature_not_in_tier';
+  feature: TierFeature;
+  currentTier: string | null;
+  /** Cheapest tier that includes the feature, or null when none does. */
+  requiredTier: string | null;
+}
+
+export interface ScopeDenial {
+  code: 'missing_scope';
+  scope: ApiKeyScope;
+}
+
+export interface ApiKeyDenial {
+  code: 'session_required';
+}
+
+async function checkFeatures(
+  userId: string,
+  features: TierFeature[]
+): Promise<FeatureDenial | null> {
+  if (features.length === 0) return null;
+
+  const tier = await getUserSubscriptionTier(userId, getSupabaseAdmin());
+  const missing = features.find((feature) => !tierHasFeature(tier, feature));
+  if (!missing) return null;
+
+  const unlockingTier = await findTierWithFeature(missing);
+
+  return {
+    code: 'feature_not_in_tier',
+    feature: missing,
+    currentTier: tier?.tier_name || null,
+    requiredTier: unlockingTier?.tier_name || null,
+  };
+}
+
+/** Accepts a Supabase session JWT or a personal API key as the bearer token. */
 export async function withAuth(
   request: NextRequest,
-  handler: (req: NextRequest, userId: string) => Promise<NextResponse>
+  handler: AuthedHandler
 ): Promise<NextResponse> {
   try {
     const authHeader = request.headers.get('authorization');
@@ -24,7 +98,8 @@ export async function withAuth(
       return NextResponse.json<ApiResponse>(
         {
           success: false,
-          error: 'Missing or invalid authorization header'
+          error: 'Missing or invalid authorization header',
+          data: { code: 'unauthorized' },
         },
         { status: 401 }
       );
@@ -32,25 +107,48 @@ export async function withAuth(
 
     const token = authHeader.split(' ')[1];
 
+    if (isApiKey(token)) {
+      const identity = await authenticateApiKey(token);
+
+      if (!identity) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Invalid, expired or revoked API key',
+            data: { code: 'unauthorized' },
+          },
+          { status: 401 }
+        );
+      }
+
+      return await handler(request, identity.userId, {
+        userId: identity.userId,
+        apiKeyId: identity.keyId,
+        scopes: identity.scopes,
+      });
+    }
+
     const { data: { user }, error } = await supabase.auth.getUser(token);
 
     if (error || !user) {
       return NextResponse.json<ApiResponse>(
         {
           success: false,
-          error: 'Invalid or expired token'
+          error: 'Invalid or expired token',
+          data: { code: 'unauthorized' },
         },
         { status: 401 }
       );
     }
 
-    return await handler(request, user.id);
+    return await handler(request, user.id, { userId: user.id, apiKeyId: null, scopes: null });
   } catch (error) {
     console.error('Auth middleware error:', error);
     return NextResponse.json<ApiResponse>(
       {
         success: false,
-        error: 'Authentication failed'
+        error: 'Authentication failed',
+        data: { code: 'internal_error' },
       },
       { status: 500 }
     );
@@ -60,10 +158,61 @@ export async function withAuth(
 export async function withRateLimit(
   request: NextRequest,
   userId: string,
-  handler: (req: NextRequest, userId: string) => Promise<NextResponse>
+  handler: AuthedHandler,
+  policy: RoutePolicyResolver = {},
+  auth: AuthContext = { userId, apiKeyId: null, scopes: null }
 ): Promise<NextResponse> {
   try {
-    const rateLimitCheck = await checkRateLimit(userId);
+    const { cost = 1, features = [], scope, sessionOnly } = typeof policy === 'function' ? policy(request) : policy;
+    const apiKeyId = auth.apiKeyId;
+
+    if (sessionOnly && apiKeyId) {
+      await logApiUsage(userId, request.nextUrl.pathname, request.method, 403, 0, apiKeyId);
+
+      return NextResponse.json<ApiResponse<ApiKeyDenial>>(
+        {
+          success: false,
+          error: 'This endpoint cannot be called with an API key; sign in instead',
+          data: { code: 'session_required' },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (scope && auth.scopes && !auth.scopes.includes(scope)) {
+      await logApiUsage(userId, request.nextUrl.pathname, request.method, 403, 0, apiKeyId);
+
+      return NextResponse.json<ApiResponse<ScopeDenial>>(
+        {
+          success: false,
+          error: `This API key is missing the ${scope} scope`,
+          data: { code: 'missing_scope', scope },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Programmatic access with a key is itself a plan feature
+    const required: TierFeature[] = apiKeyId ? ['api_access', ...features] : features;
+
+    // Feature checks come first so a denied call does not use up allowance
+    const denial = await checkFeatures(userId, required);
+    if (denial) {
+      await logApiUsage(userId, request.nextUrl.pathname, request.method, 403, 0, apiKeyId);
+
+      return NextResponse.json<ApiResponse<FeatureDenial>>(
+        {
+          success: false,
+          error: denial.requiredTier
+            ? `This endpoint requires the ${denial.feature} feature, available on the ${denial.requiredTier} plan`
+            : `This endpoint requires the ${denial.feature} feature`,
+          data: denial,
+        },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitCheck = await consumeRateLimit(userId, cost);
 
     if (!rateLimitCheck.allowed) {
       await logApiUsage(
@@ -71,13 +220,15 @@ export async function withRateLimit(
         request.nextUrl.pathname,
         request.method,
         429,
-        0
+        0,
+        apiKeyId
       );
 
       return NextResponse.json<ApiResponse>(
         {
           success: false,
           error: rateLimitCheck.message || 'Rate limit exceeded',
+          data: { code: 'rate_limited' },
           rateLimit: {
             remaining: rateLimitCheck.remaining,
             limit: rateLimitCheck.limit,
@@ -90,25 +241,28 @@ export async function withRateLimit(
             'X-RateLimit-Limit': rateLimitCheck.limit.toString(),
             'X-RateLimit-Remaining': '0',
             'X-RateLimit-Reset': rateLimitCheck.resetAt.toISOString(),
+            ...(rateLimitCheck.retryAfterSeconds !== undefined
+              ? { 'Retry-After': rateLimitCheck.retryAfterSeconds.toString() }
+              : {}),
           },
         }
       );
     }
 
-    await incrementRateLimit(userId);
-
-    const response = await handler(request, userId);
+    const response = await handler(request, userId, auth);
 
     response.headers.set('X-RateLimit-Limit', rateLimitCheck.limit.toString());
-    response.headers.set('X-RateLimit-Remaining', (rateLimitCheck.remaining - 1).toString());
+    response.headers.set('X-RateLimit-Remaining', rateLimitCheck.remaining.toString());
     response.headers.set('X-RateLimit-Reset', rateLimitCheck.resetAt.toISOString());
+    response.headers.set('X-RateLimit-Cost', cost.toString());
 
     await logApiUsage(
       userId,
       request.nextUrl.pathname,
       request.method,
       response.status,
-      rateLimitCheck.remaining - 1
+      rateLimitCheck.remaining,
+      apiKeyId
     );
 
     return response;
@@ -118,6 +272,7 @@ export async function withRateLimit(
       {
         success: false,
         error: 'Rate limit check failed',
+        data: { code: 'internal_error' },
       },
       { status: 500 }
     );
@@ -126,9 +281,10 @@ export async function withRateLimit(
 
 export async function withAuthAndRateLimit(
   request: NextRequest,
-  handler: (req: NextRequest, userId: string) => Promise<NextResponse>
+  handler: AuthedHandler,
+  policy: RoutePolicyResolver = {}
 ): Promise<NextResponse> {
-  return withAuth(request, async (req, userId) => {
-    return withRateLimit(req, userId, handler);
+  return withAuth(request, async (req, userId, auth) => {
+    return withRateLimit(req, userId, handler, policy, auth);
   });
 }
@@ -0,0 +1,442 @@
+import { z } from 'zod';
+
+/**
+ * Request and response schemas of the v1 API. Everything exported from
+ * `API_COMPONENTS` is emitted as a named schema in the OpenAPI document.
+ */
+
+const timestamp = z.string().datetime({ offset: true });
+
+function limitParam(defaultValue: number, max: number) {
+  return z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(max)
+    .default(defaultValue)
+    .describe(`Maximum number of items to return (1-${max})`);
+}
+
+/** Comma-separated query parameter, e.g. `?tags=ai,rust`. */
+function listParam(description: string) {
+  return z
+    .string()
+    .describe(`${description} (comma-separated)`)
+    .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+}
+
+export const ItemTypeSchema = z.enum(['x_trend', 'github_repo', 'knowledge_entry', 'package', 'paper', 'feed_item']);
+export const SearchSourceSchema = z.enum(['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items']);
+export const RegistrySchema = z.enum(['npm', 'pypi', 'crates']);
+export const TrendSourceSchema = z.enum([
+  'x_api',
+  'hackernews_api',
+  'reddit_api',
+  'lobsters_api',
+  'mastodon_trends',
+  'bluesky_feeds',
+]);
+export const TrendMetricTypeSchema = z.enum(['posts', 'points', 'comments', 'reactions']);
+export const SortOptionSchema = z.enum(['relevance', 'trending', 'recent', 'popular', 'velocity']);
+export const SearchModeSchema = z.enum(['keyword', 'semantic', 'hybrid']);
+
+// ===== Resources =====
+
+export const TrendSchema = z.object({
+  id: z.string().uuid(),
+  trend_name: z.string(),
+  trend_key: z.string(),
+  tweet_count: z.number().describe('Count at the source, in units of `metric_type`'),
+  url: z.string().nullable(),
+  category: z.string().nullable(),
+  source: z.string(),
+  source_item_id: z.string().nullable().describe('ID of the item at its source; null for X trends'),
+  metric_type: TrendMetricTypeSchema,
+  rank: z.number().int().nullable(),
+  first_seen_at: timestamp,
+  fetched_at: timestamp,
+  created_at: timestamp,
+});
+
+export const TrendObservationSchema = z.object({
+  id: z.string().uuid(),
+  trend_id: z.string().uuid(),
+  source: z.string(),
+  metric_type: TrendMetricTypeSchema,
+  rank: z.number().int().nullable(),
+  tweet_count: z.number(),
+  fetched_at: timestamp,
+});
+
+export const TrendLifetimeSchema = z.object({
+  trendId: z.string().uuid(),
+  trendName: z.string(),
+  source: z.string(),
+  metricType: TrendMetricTypeSchema,
+  firstSeenAt: timestamp,
+  lastSeenAt: timestamp,
+  observationCount: z.number().int(),
+  peak: z.object({
+    tweetCount: z.number().nullable(),
+    at: timestamp.nullable(),
+    bestRank: z.number().int().nullable(),
+  }),
+  current: z.object({
+    tweetCount: z.number(),
+    rank: z.number().int().nullable(),
+  }),
+  window: z.object({
+    hours: z.number(),
+    volumeSlopePerHour: z.number().nullable(),
+    rankSlopePerHour: z.number().nullable(),
+  }),
+  observations: z.array(TrendObservationSchema),
+});
+
+export const RepoSchema = z.object({
+  id: z.string().uuid(),
+  repo_name: z.string(),
+  description: z.string().nullable(),
+  stars: z.number().int(),
+  forks: z.number().int(),
+  open_issues: z.number().int(),
+  language: z.string().nullable(),
+  url: z.string(),
+  topics: z.array(z.string()).nullable(),
+  first_seen_at: timestamp,
+  fetched_at: timestamp,
+  created_at: timestamp,
+});
+
+export const PackageSchema = z.object({
+  id: z.string().uuid(),
+  registry: RegistrySchema,
+  name: z.string(),
+  description: z.string().nullable(),
+  latest_version: z.string().nullable(),
+  keywords: z.array(z.string()).nullable(),
+  repository_url: z.string().nullable(),
+  homepage_url: z.string().nullable(),
+  url: z.string(),
+  repo_full_name: z.string().nullable().describe('Lowercased `owner/repo` when the repository is on GitHub'),
+  repo_id: z.string().uuid().nullable().describe('Linked GitHub repository, if it is tracked'),
+  weekly_downloads: z.number().int(),
+  total_downloads: z.number().int().nullable(),
+  is_tracked: z.boolean(),
+  first_seen_at: timestamp,
+  fetched_at: timestamp,
+  created_at: timestamp,
+  download_delta: z.number().describe('Change in weekly downloads over the last 7 days'),
+  growth_pct: z.number(),
+});
+
+export const PackageDownloadSnapshotSchema = z.object({
+  id: z.string().uuid(),
+  package_id: z.string().uuid(),
+  weekly_downloads: z.number().int(),
+  total_downloads: z.number().int().nullable(),
+  latest_version: z.string().nullable(),
+  fetched_at: timestamp,
+});
+
+export const PackageDownloadHistorySchema = z.object({
+  packageId: z.string().uuid(),
+  registry: RegistrySchema,
+  name: z.string(),
+  repoId: z.string().uuid().nullable(),
+  weeklyDownloads: z.number().int(),
+  totalDownloads: z.number().int().nullable(),
+  growth: z.object({
+    downloadDelta: z.number(),
+    growthPct: z.number(),
+    windowHours: z.number(),
+  }),
+  snapshots: z.array(PackageDownloadSnapshotSchema),
+});
+
+export const KnowledgeEntrySchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  content: z.string(),
+  source: z.string(),
+  source_url: z.string().nullable(),
+  category: z.string(),
+  tags: z.array(z.string()).nullable(),
+  relevance_score: z.number(),
+  verified: z.boolean(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const SnippetSchema = z.object({
+  text: z.string(),
+  highlights: z.array(z.object({ start: z.number().int(), length: z.number().int() })),
+});
+
+const FacetSchema = z.array(z.object({ name: z.string(), count: z.number().int() }));
+
+export const LinkedItemSchema = z.object({
+  id: z.string(),
+  type: ItemTypeSchema.exclude(['knowledge_entry']),
+  entityType: z
+    .enum(['repo', 'paper', 'url', 'title'])
+    .describe('What the items share: a repository, arXiv paper, link or headline'),
+  title: z.string(),
+  url: z.string().optional(),
+  source: z.string().optional().describe('Trend origin, `github`, package registry, `arxiv` or feed title'),
+  engagement: z.number().optional(),
+  metricType: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+export const SearchResultSchema = z.object({
+  id: z.string(),
+  type: ItemTypeSchema,
+  title: z.string(),
+  description: z.string(),
+  url: z.string().optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  language: z.string().optional(),
+  engagement: z.number(),
+  trendingScore: z.number().optional(),
+  velocityScore: z.number().optional(),
+  relevanceScore: z.number().optional(),
+  relevance: z
+    .object({
+      textRank: z.number(),
+      sourceBestRank: z.number(),
+      matchedFields: z.array(z.string()),
+      fuzzy: z.boolean(),
+      semanticSimilarity: z.number().optional(),
+    })
+    .optional(),
+  snippets: z.object({ title: SnippetSchema, body: SnippetSchema.nullable() }).optional(),
+  timestamp: z.string(),
+  links: z.array(LinkedItemSchema).optional().describe('The same item seen in other sources, most engaged first'),
+  metadata: z.record(z.any()),
+});
+
+export const SearchResponseSchema = z.object({
+  results: z.array(SearchResultSchema),
+  total: z.number().int(),
+  facets: z.object({
+    categories: FacetSchema,
+    tags: FacetSchema,
+    languages: FacetSchema,
+    sources: FacetSchema,
+    registries: FacetSchema,
+    origins: FacetSchema,
+  }),
+  nextCursor: z.string().nullable().describe('Pass back as `cursor` to fetch the next page'),
+  didYouMean: z.string().nullable(),
+  searchId: z.string(),
+});
+
+export const SearchSuggestionSchema = z.object({
+  text: z.string(),
+  type: z.enum(['query', 'tag', 'category', 'source']),
+  usageCount: z.number().int(),
+});
+
+export const SavedSearchSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  searchQuery: z.string(),
+  filters: z.record(z.any()),
+  searchType: z.string(),
+  isActive: z.boolean(),
+  notificationEnabled: z.boolean(),
+  notificationChannels: z.array(z.string()),
+  webhookUrl: z.string().nullable(),
+  feedToken: z.string().describe('Secret for the feed at `/feeds/saved-searches/<feedToken>.atom`'),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+// ===== Requests =====
+
+export const ListTrendsQuerySchema = z.object({
+  limit: limitParam(20, 100),
+  category: z.string().optional(),
+  source: TrendSourceSchema.optional(),
+});
+
+export const TrendLifetimeQuerySchema = z
+  .object({
+    trendId: z.string().uuid().optional(),
+    topic: z.string().min(1).optional().describe('Trend name; matched case-insensitively'),
+    hours: z.coerce.number().int().min(1).max(168).default(24),
+  })
+  .refine((query) => query.trendId || query.topic, {
+    message: 'Either trendId or topic is required',
+  });
+
+export const ListReposQuerySchema = z.object({
+  limit: limitParam(30, 100),
+  language: z.string().optional(),
+});
+
+export const ListPackagesQuerySchema = z.object({
+  limit: limitParam(30, 100),
+  registry: RegistrySchema.optional(),
+  tracked: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  minWeeklyDownloads: z.coerce.number().int().min(0).optional(),
+});
+
+export const PackageDownloadsQuerySchema = z
+  .object({
+    packageId: z.string().uuid().optional(),
+    registry: RegistrySchema.optional(),
+    name: z.string().min(1).optional().describe('Package name; requires `registry`'),
+    days: z.coerce.number().int().min(1).max(90).default(30),
+  })
+  .refine((query) => query.packageId || (query.registry && query.name), {
+    message: 'Either packageId or registry and name are required',
+  });
+
+export const ListKnowledgeQuerySchema = z.object({
+  limit: limitParam(50, 100),
+  category: z.string().optional(),
+  search: z.string().optional(),
+  tags: listParam('Entries with any of these tags').optional(),
+  minRelevance: z.coerce.number().min(0).max(100).optional(),
+});
+
+const searchFields = {
+  query: z
+    .string()
+    .max(500)
+    .optional()
+    .describe('Free text plus filter syntax such as `lang:rust stars:>500 since:7d`'),
+  dateFrom: timestamp.optional(),
+  dateTo: timestamp.optional(),
+  sortBy: SortOptionSchema.default('relevance'),
+  mode: SearchModeSchema.default('keyword'),
+  cursor: z.string().optional(),
+};
+
+export const SearchRequestSchema = z.object({
+  ...searchFields,
+  categories: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  languages: z.array(z.string()).optional(),
+  sources: z.array(SearchSourceSchema).optional(),
+  registries: z.array(RegistrySchema).optional().describe('Only packages from these registries'),
+  origins: z.array(TrendSourceSchema).optional().describe('Only trends from these sources'),
+  minEngagement: z.number().int().min(0).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export const SearchQuerySchema = z.object({
+  ...searchFields,
+  categories: listParam('Categories').optional(),
+  tags: listParam('Tags').optional(),
+  languages: listParam('Languages').optional(),
+  sources: z
+    .string()
+    .describe('Sources: x_trends, github_repos, knowledge_entries, packages, papers (comma-separated)')
+    .transform((value, ctx) => {
+      const parsed = z.array(SearchSourceSchema).safeParse(value.split(',').map((item) => item.trim()));
+      if (!parsed.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown source' });
+        return z.NEVER;
+      }
+      return parsed.data;
+    })
+    .optional(),
+  registries: z
+    .string()
+    .describe('Only packages from these registries: npm, pypi, crates (comma-separated)')
+    .transform((value, ctx) => {
+      const parsed = z.array(RegistrySchema).safeParse(value.split(',').map((item) => item.trim()));
+      if (!parsed.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown registry' });
+        return z.NEVER;
+      }
+      return parsed.data;
+    })
+    .optional(),
+  origins: z
+    .string()
+    .describe('Only trends from these sources, e.g. hackernews_api,reddit_api (comma-separated)')
+    .transform((value, ctx) => {
+      const parsed = z.array(TrendSourceSchema).safeParse(value.split(',').map((item) => item.trim()));
+      if (!parsed.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown trend source' });
+        return z.NEVER;
+      }
+      return parsed.data;
+    })
+    .optional(),
+  minEngagement: z.coerce.number().int().min(0).optional(),
+  limit: limitParam(20, 100),
+});
+
+export const SuggestionsQuerySchema = z.object({
+  query: z.string().min(1),
+  limit: limitParam(10, 50),
+});
+
+export const TrendingSearchesQuerySchema = z.object({
+  limit: limitParam(10, 50),
+});
+
+export const TrendingItemsQuerySchema = z.object({
+  type: ItemTypeSchema.optional(),
+  limit: limitParam(20, 100),
+});
+
+export const RelatedItemsQuerySchema = z.object({
+  type: ItemTypeSchema,
+  id: z.string().uuid(),
+  limit: limitParam(5, 50),
+});
+
+export const CreateSavedSearchSchema = z.object({
+  name: z.string().min(1).max(100),
+  filters: SearchRequestSchema.omit({ cursor: true, limit: true }),
+  alerts: z
+    .object({
+      channels: z.array(z.enum(['in_app', 'email', 'webhook'])).min(1),
+      webhookUrl: z.string().url().optional(),
+    })
+    .optional()
+    .describe('Enables notifications for new matches'),
+});
+
+export const DeleteSavedSearchQuerySchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ===== Errors =====
+
+export const ErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  data: z
+    .object({
+      code: z.string().describe('Machine-readable error code, e.g. invalid_query or rate_limited'),
+      details: z.any().optional(),
+    })
+    .passthrough()
+    .optional(),
+});
+
+export const API_COMPONENTS = {
+  Trend: TrendSchema,
+  TrendObservation: TrendObservationSchema,
+  TrendLifetime: TrendLifetimeSchema,
+  Repo: RepoSchema,
+  Package: PackageSchema,
+  PackageDownloadSnapshot: PackageDownloadSnapshotSchema,
+  PackageDownloadHistory: PackageDownloadHistorySchema,
+  KnowledgeEntry: KnowledgeEntrySchema,
+  LinkedItem: LinkedItemSchema,
+  SearchResult: SearchResultSchema,
+  SearchResponse: SearchResponseSchema,
+  SearchSuggestion: SearchSuggestionSchema,
+  SavedSearch: SavedSearchSchema,
+  SearchRequest: SearchRequestSchema,
+  ErrorResponse: ErrorResponseSchema,
+};
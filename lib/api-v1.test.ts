@@ -0,0 +1,99 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { ErrorResponseSchema, SavedSearchSchema } from './api-schemas';
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const envelope = <T extends z.ZodTypeAny>(data: T) => z.object({ success: z.literal(true), data });
+
+// Runs against a local database with the migrations applied: `supabase start`
+// and export the URL and keys it prints
+describe.skipIf(!url || !anonKey || !serviceRoleKey)('/api/v1/saved-searches', () => {
+  let admin: SupabaseClient;
+  let userId: string;
+  let key: string;
+  let v1: typeof import('./api-v1');
+
+  function call(method: string, query = '', body?: unknown) {
+    return new NextRequest(`http://localhost/api/v1/saved-searches${query}`, {
+      method,
+      headers: { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceRoleKey!, { auth: { persistSession: false } });
+
+    const { data, error } = await admin.auth.admin.createUser({
+      email: `api-v1-${Date.now()}@example.com`,
+      password: crypto.randomUUID(),
+      email_confirm: true,
+    });
+    if (error) throw error;
+    userId = data.user.id;
+
+    // API keys need the api_access feature, which starts on the pro tier
+    const { data: tier } = await admin.from('subscription_tiers').select('id').eq('tier_name', 'pro').single();
+    await admin.from('user_subscriptions').insert({ user_id: userId, subscription_tier_id: tier!.id });
+
+    const { hashApiKey } = await import('./api-keys');
+    key = `dp_${crypto.randomUUID().replace(/-/g, '')}`;
+    const { error: keyError } = await admin.from('api_keys').insert({
+      user_id: userId,
+      name: 'api v1 test',
+      key_prefix: key.slice(0, 11),
+      key_hash: await hashApiKey(key),
+      scopes: ['saved_searches:manage'],
+    });
+    if (keyError) throw keyError;
+
+    v1 = await import('./api-v1');
+  });
+
+  afterAll(async () => {
+    if (userId) await admin.auth.admin.deleteUser(userId);
+  });
+
+  it('returns responses that match the published schemas', async () => {
+    const created = await v1.createSavedSearch.handle(call('POST', '', {
+      name: 'Rust repos',
+      filters: { query: 'lang:rust stars:>500' },
+      alerts: { channels: ['in_app'] },
+    }));
+    expect(created.status).toBe(201);
+    const { savedSearch } = envelope(z.object({ savedSearch: SavedSearchSchema })).parse(await created.json()).data;
+    expect(savedSearch.notificationEnabled).toBe(true);
+
+    const listed = await v1.listSavedSearches.handle(call('GET'));
+    expect(listed.status).toBe(200);
+    const { savedSearches } = envelope(z.object({ savedSearches: z.array(SavedSearchSchema) }))
+      .parse(await listed.json()).data;
+    expect(savedSearches.map((search) => search.id)).toEqual([savedSearch.id]);
+
+    const deleted = await v1.deleteSavedSearchEndpoint.handle(call('DELETE', `?id=${savedSearch.id}`));
+    expect(deleted.status).toBe(200);
+    expect(await deleted.json()).toEqual({ success: true, data: { deleted: true } });
+  });
+
+  it('answers 404 for a search that does not exist', async () => {
+    const response = await v1.deleteSavedSearchEndpoint.handle(call('DELETE', `?id=${crypto.randomUUID()}`));
+
+    expect(response.status).toBe(404);
+    expect(ErrorResponseSchema.parse(await response.json()).data?.code).toBe('not_found');
+  });
+
+  it('rejects invalid queries before saving', async () => {
+    const response = await v1.createSavedSearch.handle(call('POST', '', {
+      name: 'Broken',
+      filters: { query: 'stars:lots' },
+    }));
+
+    expect(response.status).toBe(400);
+    expect(ErrorResponseSchema.parse(await response.json()).data?.code).toBe('invalid_search_query');
+  });
+});
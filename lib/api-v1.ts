@@ -0,0 +1,387 @@
+import { z } from 'zod';
+import { ApiError, defineEndpoint, Endpoint } from './api-endpoint';
+import {
+  CreateSavedSearchSchema,
+  DeleteSavedSearchQuerySchema,
+  KnowledgeEntrySchema,
+  ListKnowledgeQuerySchema,
+  ListPackagesQuerySchema,
+  ListReposQuerySchema,
+  PackageDownloadHistorySchema,
+  PackageDownloadsQuerySchema,
+  PackageSchema,
+  ListTrendsQuerySchema,
+  RelatedItemsQuerySchema,
+  RepoSchema,
+  SavedSearchSchema,
+  SearchQuerySchema,
+  SearchRequestSchema,
+  SearchResponseSchema,
+  SearchResultSchema,
+  SearchSuggestionSchema,
+  SuggestionsQuerySchema,
+  TrendingItemsQuerySchema,
+  TrendingSearchesQuerySchema,
+  TrendLifetimeQuerySchema,
+  TrendLifetimeSchema,
+  TrendSchema,
+} from './api-schemas';
+import { getKnowledgeEntries } from './knowledge-manager';
+import { findPackageId, getPackageDownloadHistory, getPackages } from './packages-manager';
+import {
+  calculateAndStoreTrendingScores,
+  decodeSearchCursor,
+  deleteSavedSearch,
+  getRelatedItems,
+  getSavedSearches,
+  getSearchSuggestions,
+  getTrendingItems,
+  getTrendingSearches,
+  performUnifiedSearch,
+  saveSearch,
+  SearchFilters,
+} from './search-manager';
+import { applySearchQuery } from './search-query';
+import { supabase } from './supabase';
+import { findTrendIdByName, getTrendLifetime } from './trends-manager';
+
+/**
+ * Operations of the versioned `/api/v1` API. Route files only forward to
+ * `handle`; the OpenAPI document is generated from this list. Costs and
+ * scopes match the unversioned routes.
+ */
+
+export const listTrends = defineEndpoint({
+  operationId: 'listTrends',
+  method: 'GET',
+  path: '/api/v1/trends',
+  tag: 'Trends',
+  summary: 'List the latest social trends',
+  policy: { cost: 1, scope: 'trends:read' },
+  query: ListTrendsQuerySchema,
+  response: z.object({ trends: z.array(TrendSchema), count: z.number().int() }),
+  handler: async ({ query }) => {
+    let request = supabase
+      .from('x_trends')
+      .select('*')
+      .order('fetched_at', { ascending: false });
+
+    if (query.category) {
+      request = request.eq('category', query.category);
+    }
+
+    if (query.source) {
+      request = request.eq('source', query.source);
+    }
+
+    const { data, error } = await request.limit(query.limit);
+
+    if (error) {
+      console.error('Error fetching trends:', error);
+      throw new ApiError(500, 'internal_error', 'Failed to fetch trends');
+    }
+
+    return { trends: data, count: data.length };
+  },
+});
+
+export const getTrendLifetimeEndpoint = defineEndpoint({
+  operationId: 'getTrendLifetime',
+  method: 'GET',
+  path: '/api/v1/trends/lifetime',
+  tag: 'Trends',
+  summary: 'Observation history, peak and slope of one trend',
+  description: 'Look the trend up by `trendId` or by `topic` name.',
+  policy: { cost: 2, features: ['advanced_analytics'], scope: 'trends:read' },
+  query: TrendLifetimeQuerySchema,
+  response: z.object({ lifetime: TrendLifetimeSchema }),
+  handler: async ({ query }) => {
+    const trendId = query.trendId || await findTrendIdByName(query.topic!);
+    const lifetime = trendId ? await getTrendLifetime(trendId, query.hours) : null;
+
+    if (!lifetime) {
+      throw new ApiError(404, 'not_found', 'Trend not found');
+    }
+
+    return { lifetime };
+  },
+});
+
+export const listRepos = defineEndpoint({
+  operationId: 'listRepos',
+  method: 'GET',
+  path: '/api/v1/repos',
+  tag: 'Repositories',
+  summary: 'List trending GitHub repositories by stars',
+  policy: { cost: 1, scope: 'trends:read' },
+  query: ListReposQuerySchema,
+  response: z.object({ repos: z.array(RepoSchema), count: z.number().int() }),
+  handler: async ({ query }) => {
+    let request = supabase
+      .from('github_repos')
+      .select('*')
+      .order('stars', { ascending: false });
+
+    if (query.language) {
+      request = request.eq('language', query.language);
+    }
+
+    const { data, error } = await request.limit(query.limit);
+
+    if (error) {
+      console.error('Error fetching repositories:', error);
+      throw new ApiError(500, 'internal_error', 'Failed to fetch repositories');
+    }
+
+    return { repos: data, count: data.length };
+  },
+});
+
+export const listPackages = defineEndpoint({
+  operationId: 'listPackages',
+  method: 'GET',
+  path: '/api/v1/packages',
+  tag: 'Packages',
+  summary: 'List npm, PyPI and crates.io packages by weekly downloads',
+  policy: { cost: 1, scope: 'trends:read' },
+  query: ListPackagesQuerySchema,
+  response: z.object({ packages: z.array(PackageSchema), count: z.number().int() }),
+  handler: async ({ query }) => {
+    const { limit, ...filters } = query;
+    const packages = await getPackages(filters, limit);
+
+    return { packages, count: packages.length };
+  },
+});
+
+export const getPackageDownloads = defineEndpoint({
+  operationId: 'getPackageDownloads',
+  method: 'GET',
+  path: '/api/v1/packages/downloads',
+  tag: 'Packages',
+  summary: 'Weekly download history and growth of one package',
+  description: 'Look the package up by `packageId` or by `registry` and `name`.',
+  policy: { cost: 2, features: ['advanced_analytics'], scope: 'trends:read' },
+  query: PackageDownloadsQuerySchema,
+  response: z.object({ history: PackageDownloadHistorySchema }),
+  handler: async ({ query }) => {
+    const packageId = query.packageId || await findPackageId(query.registry!, query.name!);
+    const history = packageId ? await getPackageDownloadHistory(packageId, query.days) : null;
+
+    if (!history) {
+      throw new ApiError(404, 'not_found', 'Package not found');
+    }
+
+    return { history };
+  },
+});
+
+export const listKnowledge = defineEndpoint({
+  operationId: 'listKnowledge',
+  method: 'GET',
+  path: '/api/v1/knowledge',
+  tag: 'Knowledge',
+  summary: 'List verified knowledge entries',
+  policy: { cost: 1, scope: 'trends:read' },
+  query: ListKnowledgeQuerySchema,
+  response: z.object({ entries: z.array(KnowledgeEntrySchema), count: z.number().int() }),
+  handler: async ({ query }) => {
+    const { limit, ...filters } = query;
+    const entries = await getKnowledgeEntries(filters, limit);
+
+    return { entries, count: entries.length };
+  },
+});
+
+async function runSearch(filters: SearchFilters) {
+  if (filters.cursor && !decodeSearchCursor(filters.cursor)) {
+    throw new ApiError(400, 'invalid_cursor', 'Invalid cursor');
+  }
+
+  const parsed = applySearchQuery(filters);
+  if (parsed.errors.length > 0) {
+    throw new ApiError(400, 'invalid_search_query', 'Invalid search query', parsed.errors);
+  }
+
+  return performUnifiedSearch(parsed.filters);
+}
+
+const SEARCH_DESCRIPTION =
+  'Ranked results across trends, repositories, knowledge entries and packages, with facets. ' +
+  'Page with `nextCursor`. Syntax errors in `query` are returned as `invalid_search_query`.';
+
+export const search = defineEndpoint({
+  operationId: 'search',
+  method: 'POST',
+  path: '/api/v1/search',
+  tag: 'Search',
+  summary: 'Unified search',
+  description: SEARCH_DESCRIPTION,
+  policy: { cost: 5, scope: 'search:read' },
+  body: SearchRequestSchema,
+  response: SearchResponseSchema,
+  handler: ({ body }) => runSearch(body),
+});
+
+export const searchByQuery = defineEndpoint({
+  operationId: 'searchByQuery',
+  method: 'GET',
+  path: '/api/v1/search',
+  tag: 'Search',
+  summary: 'Unified search with query parameters',
+  description: SEARCH_DESCRIPTION,
+  policy: { cost: 5, scope: 'search:read' },
+  query: SearchQuerySchema,
+  response: SearchResponseSchema,
+  handler: ({ query }) => runSearch(query),
+});
+
+export const searchSuggestions = defineEndpoint({
+  operationId: 'searchSuggestions',
+  method: 'GET',
+  path: '/api/v1/search/suggestions',
+  tag: 'Search',
+  summary: 'Typo-tolerant query completions',
+  policy: { cost: 1, scope: 'search:read' },
+  query: SuggestionsQuerySchema,
+  response: z.object({ suggestions: z.array(SearchSuggestionSchema) }),
+  handler: async ({ query }) => ({
+    suggestions: await getSearchSuggestions(query.query, query.limit),
+  }),
+});
+
+export const trendingSearches = defineEndpoint({
+  operationId: 'trendingSearches',
+  method: 'GET',
+  path: '/api/v1/search/trending',
+  tag: 'Search',
+  summary: 'Most frequent queries of the last 24 hours',
+  policy: { cost: 1, scope: 'search:read' },
+  query: TrendingSearchesQuerySchema,
+  response: z.object({ trendingSearches: z.array(SearchSuggestionSchema) }),
+  handler: async ({ query }) => ({
+    trendingSearches: await getTrendingSearches(query.limit),
+  }),
+});
+
+export const trendingItems = defineEndpoint({
+  operationId: 'trendingItems',
+  method: 'GET',
+  path: '/api/v1/items/trending',
+  tag: 'Items',
+  summary: 'Items with the highest trending scores',
+  policy: { cost: 2, features: ['advanced_analytics'], scope: 'search:read' },
+  query: TrendingItemsQuerySchema,
+  response: z.object({ items: z.array(SearchResultSchema) }),
+  handler: async ({ query }) => ({
+    items: await getTrendingItems(query.type, query.limit),
+  }),
+});
+
+export const relatedItems = defineEndpoint({
+  operationId: 'relatedItems',
+  method: 'GET',
+  path: '/api/v1/items/related',
+  tag: 'Items',
+  summary: 'Items related to a trend, repository, knowledge entry or package',
+  description: 'Items linked to the same repository, paper, link or headline come first, then items matching its terms.',
+  policy: { cost: 2, scope: 'search:read' },
+  query: RelatedItemsQuerySchema,
+  response: z.object({ items: z.array(SearchResultSchema) }),
+  handler: async ({ query }) => ({
+    items: await getRelatedItems(query.id, query.type, query.limit),
+  }),
+});
+
+export const calculateTrendingScores = defineEndpoint({
+  operationId: 'calculateTrendingScores',
+  method: 'POST',
+  path: '/api/v1/items/trending/refresh',
+  tag: 'Items',
+  summary: 'Recalculate trending scores now',
+  policy: { cost: 10, features: ['priority_refresh'], sessionOnly: true },
+  response: z.object({ message: z.string() }),
+  handler: async () => {
+    await calculateAndStoreTrendingScores();
+    return { message: 'Trending scores calculated successfully' };
+  },
+});
+
+export const listSavedSearches = defineEndpoint({
+  operationId: 'listSavedSearches',
+  method: 'GET',
+  path: '/api/v1/saved-searches',
+  tag: 'Saved Searches',
+  summary: "List the caller's saved searches",
+  policy: { cost: 1, scope: 'saved_searches:manage' },
+  response: z.object({ savedSearches: z.array(SavedSearchSchema) }),
+  handler: async ({ userId }) => ({
+    savedSearches: await getSavedSearches(userId),
+  }),
+});
+
+export const createSavedSearch = defineEndpoint({
+  operationId: 'createSavedSearch',
+  method: 'POST',
+  path: '/api/v1/saved-searches',
+  tag: 'Saved Searches',
+  summary: 'Save a search, optionally with alerts',
+  policy: { cost: 1, scope: 'saved_searches:manage' },
+  body: CreateSavedSearchSchema,
+  response: z.object({ savedSearch: SavedSearchSchema }),
+  successStatus: 201,
+  handler: async ({ body, userId }) => {
+    const parsed = applySearchQuery(body.filters);
+    if (parsed.errors.length > 0) {
+      throw new ApiError(400, 'invalid_search_query', 'Invalid search query', parsed.errors);
+    }
+
+    const savedSearch = await saveSearch(body.name, body.filters, userId, body.alerts);
+    if (!savedSearch) {
+      throw new ApiError(500, 'internal_error', 'Failed to save search');
+    }
+
+    return { savedSearch };
+  },
+});
+
+export const deleteSavedSearchEndpoint = defineEndpoint({
+  operationId: 'deleteSavedSearch',
+  method: 'DELETE',
+  path: '/api/v1/saved-searches',
+  tag: 'Saved Searches',
+  summary: 'Delete a saved search',
+  policy: { cost: 1, scope: 'saved_searches:manage' },
+  query: DeleteSavedSearchQuerySchema,
+  response: z.object({ deleted: z.literal(true) }),
+  handler: async ({ query, userId }) => {
+    const deleted = await deleteSavedSearch(query.id, userId);
+    if (deleted === false) {
+      throw new ApiError(404, 'not_found', 'Saved search not found');
+    }
+    if (!deleted) {
+      throw new ApiError(500, 'internal_error', 'Failed to delete saved search');
+    }
+
+    return { deleted: true as const };
+  },
+});
+
+export const V1_ENDPOINTS: Endpoint[] = [
+  listTrends,
+  getTrendLifetimeEndpoint,
+  listRepos,
+  listPackages,
+  getPackageDownloads,
+  listKnowledge,
+  search,
+  searchByQuery,
+  searchSuggestions,
+  trendingSearches,
+  trendingItems,
+  relatedItems,
+  calculateTrendingScores,
+  listSavedSearches,
+  createSavedSearch,
+  deleteSavedSearchEndpoint,
+];
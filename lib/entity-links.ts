@@ -0,0 +1,97 @@
+import { ItemLink, LinkableItemType } from './supabase';
+import { formatTrendMetric, trendSourceLabel } from '@/supabase/functions/_shared/trend-origins';
+
+/**
+ * An item grouped with another under a shared entity by the
+ * `resolve_entities` pass: the same repository, paper, link or headline.
+ */
+export interface LinkedItem {
+  id: string;
+  type: LinkableItemType;
+  /** What the two items were matched on. */
+  entityType: ItemLink['entity_type'];
+  title: string;
+  url?: string;
+  source?: string;
+  engagement?: number;
+  metricType?: string;
+  timestamp?: string;
+}
+
+// Engagement units differ by type (points, stars, downloads), so types are ordered first
+const TYPE_ORDER: LinkableItemType[] = ['x_trend', 'github_repo', 'package', 'paper', 'feed_item'];
+
+const REGISTRY_LABELS: Record<string, string> = {
+  npm: 'npm',
+  pypi: 'PyPI',
+  crates: 'crates.io',
+};
+
+export function linkedItemFromRow(row: Omit<ItemLink, 'item_type' | 'item_id'>): LinkedItem {
+  return {
+    id: row.linked_id,
+    type: row.linked_type,
+    entityType: row.entity_type,
+    title: row.title,
+    url: row.url || undefined,
+    source: row.source || undefined,
+    engagement: row.engagement ?? undefined,
+    metricType: row.metric_type || undefined,
+    timestamp: row.item_timestamp || undefined,
+  };
+}
+
+function countOf(count: number, singular: string, plural: string): string {
+  return `${count.toLocaleString()} ${count === 1 ? singular : plural}`;
+}
+
+/** `discussed on Hacker News (312 points)`, `trending on Mastodon`, `on npm (48,000 weekly downloads)`. */
+export function describeLink(link: LinkedItem): string {
+  const engagement = link.engagement || 0;
+
+  switch (link.type) {
+    case 'x_trend': {
+      const origin = trendSourceLabel(link.source);
+      // Points and comments score a discussion; post and reaction counts only show reach
+      return (link.metricType === 'points' || link.metricType === 'comments') && engagement > 0
+        ? `discussed on ${origin} (${formatTrendMetric(engagement, link.metricType)})`
+        : `trending on ${origin}`;
+    }
+    case 'github_repo':
+      return engagement > 0 ? `on GitHub (${countOf(engagement, 'star', 'stars')})` : 'on GitHub';
+    case 'package': {
+      const registry = REGISTRY_LABELS[link.source || ''] || link.source || 'a package registry';
+      return engagement > 0
+        ? `on ${registry} (${countOf(engagement, 'weekly download', 'weekly downloads')})`
+        : `on ${registry}`;
+    }
+    case 'paper':
+      return 'on arXiv';
+    case 'feed_item':
+      return `covered by ${link.source || 'a feed'}`;
+  }
+}
+
+/**
+ * One phrase per source, from its most engaged item, discussions first:
+ * `Discussed on Hacker News (312 points), trending on Mastodon`. Empty
+ * without links.
+ */
+export function summarizeLinks(links: LinkedItem[]): string {
+  const seen = new Set<string>();
+  const phrases = links
+    .slice()
+    .sort((a, b) =>
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || (b.engagement || 0) - (a.engagement || 0)
+    )
+    .filter((link) => {
+      const key = `${link.type}:${link.source || ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(describeLink);
+
+  const summary = phrases.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
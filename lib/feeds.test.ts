@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { TREND_SOURCE_LABELS, trendSourceList } from '@/supabase/functions/_shared/trend-origins';
+import { GET as trendsFeed } from '@/app/feeds/trends.xml/route';
+import { Feed, renderAtom, renderJsonFeed, renderRss } from './feeds';
+
+// Feeds are tested without a database
+vi.mock('./search-manager', () => ({
+  performUnifiedSearch: vi.fn(async () => ({ results: [] })),
+}));
+
+const FEED: Feed = {
+  id: 'tag:dragonandpanda.space,2025:feed:trends',
+  title: 'Dragon & Panda: Trends',
+  description: `Latest trending topics from ${trendSourceList()}`,
+  feedUrl: 'https://dragonandpanda.space/feeds/trends.xml',
+  siteUrl: 'https://dragonandpanda.space/trends',
+  items: [],
+};
+
+describe('trendSourceList', () => {
+  it('names every trend origin', () => {
+    const list = trendSourceList();
+
+    for (const label of Object.values(TREND_SOURCE_LABELS)) {
+      expect(list).toContain(label);
+    }
+    expect(list).toMatch(/^X, Hacker News, .+ and \w+$/);
+  });
+});
+
+describe('feed descriptions', () => {
+  it('describes the trends feed from the trend origins', async () => {
+    const response = await trendsFeed(new NextRequest('https://dragonandpanda.space/feeds/trends.xml'));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain(`<description>Latest trending topics from ${trendSourceList()}</description>`);
+    expect(body).not.toContain('from X and Hacker News<');
+  });
+
+  it('carries the description into every format', () => {
+    expect(renderRss(FEED)).toContain(`<description>${FEED.description}</description>`);
+    expect(renderAtom(FEED)).toContain(`<subtitle>${FEED.description}</subtitle>`);
+    expect(JSON.parse(renderJsonFeed(FEED)).description).toBe(FEED.description);
+  });
+});
@@ -0,0 +1,205 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { performUnifiedSearch, SearchFilters, SearchResult } from './search-manager';
+import { applySearchQuery } from './search-query';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface Feed {
+  /** Permanent identifier; used as the Atom feed id. */
+  id: string;
+  title: string;
+  description: string;
+  feedUrl: string;
+  siteUrl: string;
+  items: SearchResult[];
+  /** Counts as a change even when no item did, e.g. an edited saved search. */
+  updatedAt?: string;
+}
+
+/** Items per feed; readers poll, so older items have been seen already. */
+export const FEED_SIZE = 50;
+
+const GUID_AUTHORITY = 'tag:dragonandpanda.space,2025';
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/** Stable across fetches and formats, so readers never show an item twice. */
+export function feedGuid(kind: string, id: string): string {
+  return `${GUID_AUTHORITY}:${kind}:${id}`;
+}
+
+/** Newest items first, with the same `SearchResult` mapping as search. */
+export async function loadFeedItems(filters: SearchFilters): Promise<SearchResult[]> {
+  const expanded = applySearchQuery(filters);
+  if (expanded.errors.length > 0) {
+    throw new Error(`Invalid feed query: ${expanded.errors.map((e) => e.message).join('; ')}`);
+  }
+
+  const response = await performUnifiedSearch(
+    { ...expanded.filters, sortBy: 'recent', limit: FEED_SIZE, cursor: undefined, offset: undefined },
+    { recordHistory: false }
+  );
+
+  return response.results;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function itemPublished(item: SearchResult): string {
+  return item.metadata.firstSeenAt || item.metadata.createdAt || item.timestamp;
+}
+
+function itemLink(item: SearchResult, feed: Feed): string {
+  return item.url || feed.siteUrl;
+}
+
+function feedUpdated(feed: Feed): Date {
+  const times = feed.items.map((item) => new Date(item.timestamp).getTime());
+  if (feed.updatedAt) times.push(new Date(feed.updatedAt).getTime());
+  const valid = times.filter((time) => !isNaN(time));
+
+  // Second precision, as Last-Modified and If-Modified-Since have no more
+  return new Date(Math.floor((valid.length > 0 ? Math.max(...valid) : 0) / 1000) * 1000);
+}
+
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(itemLink(item, feed))}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(feedGuid(item.type, item.id))}</guid>`,
+    `      <pubDate>${new Date(itemPublished(item)).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(item.description)}</description>`,
+    ...(item.tags || []).map((tag) => `      <category>${escapeXml(tag)}</category>`),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.siteUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feedUpdated(feed).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => [
+    '  <entry>',
+    `    <id>${escapeXml(feedGuid(item.type, item.id))}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(itemLink(item, feed))}"/>`,
+    `    <published>${new Date(itemPublished(item)).toISOString()}</published>`,
+    `    <updated>${new Date(item.timestamp).toISOString()}</updated>`,
+    `    <summary>${escapeXml(item.description)}</summary>`,
+    ...(item.tags || []).map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/atom+xml"/>`,
+    `  <link href="${escapeXml(feed.siteUrl)}" rel="alternate" type="text/html"/>`,
+    `  <updated>${feedUpdated(feed).toISOString()}</updated>`,
+    '  <author><name>Dragon &amp; Panda</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.feedUrl,
+    authors: [{ name: 'Dragon & Panda' }],
+    items: feed.items.map((item) => ({
+      id: feedGuid(item.type, item.id),
+      url: itemLink(item, feed),
+      title: item.title,
+      content_text: item.description,
+      date_published: new Date(itemPublished(item)).toISOString(),
+      date_modified: new Date(item.timestamp).toISOString(),
+      tags: item.tags || [],
+      _dragonandpanda: {
+        type: item.type,
+        engagement: item.engagement,
+        metadata: item.metadata,
+      },
+    })),
+  }, null, 2);
+}
+
+const RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+function etagMatches(header: string, etag: string): boolean {
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Renders a feed with ETag and Last-Modified, answering `304 Not Modified`
+ * to a matching conditional GET. If-None-Match wins over If-Modified-Since.
+ */
+export function feedResponse(
+  request: NextRequest,
+  feed: Feed,
+  format: FeedFormat,
+  cacheControl = 'public, max-age=300'
+): NextResponse {
+  const body = RENDERERS[format](feed);
+  const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+  const lastModified = feedUpdated(feed);
+
+  const headers = {
+    'Content-Type': CONTENT_TYPES[format],
+    'Cache-Control': cacheControl,
+    ETag: etag,
+    'Last-Modified': lastModified.toUTCString(),
+  };
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  const notModified = ifNoneMatch
+    ? etagMatches(ifNoneMatch, etag)
+    : !!ifModifiedSince && new Date(ifModifiedSince).getTime() >= lastModified.getTime();
+
+  if (notModified) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(body, { status: 200, headers });
+}
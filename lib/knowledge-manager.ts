@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { trendingPhrase } from '@/supabase/functions/_shared/trend-origins';
 
 export interface KnowledgeEntry {
   id: string;
@@ -164,8 +165,8 @@ export async function extractKnowledgeFromTrends() {
   for (const trend of topTrends) {
     knowledgeEntries.push({
       title: `Trending: ${trend.trend_name}`,
-      content: `${trend.trend_name} is currently trending with ${trend.tweet_count.toLocaleString()} tweets. This indicates significant interest and discussion around this topic.`,
-      source: 'x_api',
+      content: `${trend.trend_name} is currently ${trendingPhrase(trend)}. This indicates significant interest and discussion around this topic.`,
+      source: trend.source || 'x_api',
       source_url: trend.url,
       category: trend.category || 'general',
       tags: ['trending', 'social-media', trend.trend_name.toLowerCase()],
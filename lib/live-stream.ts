@@ -0,0 +1,274 @@
+import { supabase, XTrend, GitHubRepo, UpdateLog } from './supabase';
+
+/** Rows the dashboard lists on first paint; deltas are merged into these. */
+const SNAPSHOT_SIZES = { trends: 10, repos: 10, logs: 5 };
+
+const POLL_INTERVAL_MS = 5_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+/** Rows read per table and poll; a full batch is followed by another read straight away. */
+const BATCH_SIZE = 100;
+/**
+ * Connections are closed after this long so serverless hosts never hit their
+ * timeout mid-write; EventSource reconnects and resumes via Last-Event-ID.
+ */
+const MAX_CONNECTION_MS = 5 * 60_000;
+const RECONNECT_MS = 3_000;
+
+export interface StreamSnapshot {
+  trends: XTrend[];
+  repos: GitHubRepo[];
+  logs: UpdateLog[];
+}
+
+/** SSE `event:` names and the shape of their `data:` payloads. */
+export interface StreamEvents {
+  snapshot: StreamSnapshot;
+  /** New trends and trends seen again; upserts on `trend_key` only move `fetched_at`. */
+  'trend.updated': { trends: XTrend[] };
+  /** Repos with a new star count; the rows carry the current totals. */
+  'repo.updated': { repos: GitHubRepo[] };
+  'log.created': { logs: UpdateLog[] };
+}
+
+export type StreamEventType = keyof StreamEvents;
+
+/** Position in one table; strictly after `(at, id)` is unseen. */
+interface Keyset {
+  at: string;
+  id: string;
+}
+
+interface StreamCursor {
+  trends: Keyset | null;
+  repos: Keyset | null;
+  logs: Keyset | null;
+}
+
+export function encodeStreamCursor(cursor: StreamCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function isKeyset(value: any): value is Keyset | null {
+  return value === null || (typeof value?.at === 'string' && typeof value?.id === 'string');
+}
+
+export function decodeStreamCursor(value: string): StreamCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!isKeyset(cursor?.trends) || !isKeyset(cursor?.repos) || !isKeyset(cursor?.logs)) return null;
+    return { trends: cursor.trends, repos: cursor.repos, logs: cursor.logs };
+  } catch {
+    return null;
+  }
+}
+
+// Timestamps are kept as PostgREST returns them; a round trip through Date
+// would drop the microseconds and replay rows on the next poll. Quoted, as
+// they contain characters reserved in `or` filters.
+function afterKeyset(column: string, keyset: Keyset): string {
+  const at = `"${keyset.at}"`;
+  return `${column}.gt.${at},and(${column}.eq.${at},id.gt.${keyset.id})`;
+}
+
+async function readAfter<T extends { id: string }>(
+  table: string,
+  column: string,
+  keyset: Keyset | null
+): Promise<T[]> {
+  let query = supabase
+    .from(table)
+    .select('*')
+    .order(column, { ascending: true })
+    .order('id', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (keyset) {
+    query = query.or(afterKeyset(column, keyset));
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as T[];
+}
+
+async function latestKeyset(table: string, column: string): Promise<Keyset | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .order(column, { ascending: false })
+    .order('id', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+
+  const row = data?.[0] as Record<string, string> | undefined;
+  return row ? { at: row[column], id: row.id } : null;
+}
+
+/** The lists the dashboard renders, plus the cursor that follows them. */
+export async function loadStreamSnapshot(): Promise<{ snapshot: StreamSnapshot; cursor: StreamCursor }> {
+  // Taken first, so a row written while the lists load is sent again rather than lost
+  const [trendsKeyset, reposKeyset, logsKeyset] = await Promise.all([
+    latestKeyset('x_trends', 'fetched_at'),
+    latestKeyset('repo_snapshots', 'fetched_at'),
+    latestKeyset('update_logs', 'created_at'),
+  ]);
+
+  const [trendsRes, reposRes, logsRes] = await Promise.all([
+    supabase
+      .from('x_trends')
+      .select('*')
+      .order('fetched_at', { ascending: false })
+      .limit(SNAPSHOT_SIZES.trends),
+    supabase
+      .from('github_repos')
+      .select('*')
+      .order('stars', { ascending: false })
+      .limit(SNAPSHOT_SIZES.repos),
+    supabase
+      .from('update_logs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(SNAPSHOT_SIZES.logs),
+  ]);
+
+  if (trendsRes.error) throw trendsRes.error;
+  if (reposRes.error) throw reposRes.error;
+  if (logsRes.error) throw logsRes.error;
+
+  return {
+    snapshot: {
+      trends: trendsRes.data || [],
+      repos: reposRes.data || [],
+      logs: logsRes.data || [],
+    },
+    cursor: { trends: trendsKeyset, repos: reposKeyset, logs: logsKeyset },
+  };
+}
+
+interface PendingEvent<K extends StreamEventType = StreamEventType> {
+  type: K;
+  data: StreamEvents[K];
+  /** Cursor once this event is delivered; sent as its SSE id. */
+  cursor: StreamCursor;
+}
+
+/**
+ * Everything written since `cursor`, one batched event per kind of change.
+ * Each event's cursor only advances past its own table, so a client that
+ * drops between two events resumes without losing the second.
+ */
+export async function readStreamDeltas(
+  cursor: StreamCursor
+): Promise<{ events: PendingEvent[]; cursor: StreamCursor; hasMore: boolean }> {
+  const events: PendingEvent[] = [];
+  let next = cursor;
+
+  const [trends, snapshots, logs] = await Promise.all([
+    readAfter<XTrend>('x_trends', 'fetched_at', cursor.trends),
+    readAfter<{ id: string; repo_id: string; fetched_at: string }>('repo_snapshots', 'fetched_at', cursor.repos),
+    readAfter<UpdateLog>('update_logs', 'created_at', cursor.logs),
+  ]);
+
+  if (trends.length > 0) {
+    const last = trends[trends.length - 1];
+    next = { ...next, trends: { at: last.fetched_at, id: last.id } };
+    events.push({ type: 'trend.updated', data: { trends }, cursor: next });
+  }
+
+  if (snapshots.length > 0) {
+    // A snapshot is written for every star count the ingester records
+    const repoIds = Array.from(new Set(snapshots.map((snapshot) => snapshot.repo_id)));
+    const { data: repos, error } = await supabase
+      .from('github_repos')
+      .select('*')
+      .in('id', repoIds);
+
+    if (error) throw error;
+
+    const last = snapshots[snapshots.length - 1];
+    next = { ...next, repos: { at: last.fetched_at, id: last.id } };
+    if (repos && repos.length > 0) {
+      events.push({ type: 'repo.updated', data: { repos }, cursor: next });
+    }
+  }
+
+  if (logs.length > 0) {
+    const last = logs[logs.length - 1];
+    next = { ...next, logs: { at: last.created_at, id: last.id } };
+    events.push({ type: 'log.created', data: { logs }, cursor: next });
+  }
+
+  const hasMore = [trends, snapshots, logs].some((rows) => rows.length === BATCH_SIZE);
+
+  return { events, cursor: next, hasMore };
+}
+
+function formatEvent(type: StreamEventType, data: unknown, cursor: StreamCursor): string {
+  return `id: ${encodeStreamCursor(cursor)}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Opens the SSE body. A fresh connection starts with a `snapshot` event; one
+ * resuming from an event id only receives what it missed.
+ */
+export function createLiveStream(lastEventId: string | null, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const resumeFrom = lastEventId ? decodeStreamCursor(lastEventId) : null;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      signal.addEventListener('abort', close);
+      const startedAt = Date.now();
+      let lastWriteAt = startedAt;
+
+      try {
+        write(`retry: ${RECONNECT_MS}\n\n`);
+
+        let cursor = resumeFrom;
+        if (!cursor) {
+          const initial = await loadStreamSnapshot();
+          cursor = initial.cursor;
+          write(formatEvent('snapshot', initial.snapshot, cursor));
+          lastWriteAt = Date.now();
+        }
+
+        while (!closed && Date.now() - startedAt < MAX_CONNECTION_MS) {
+          const deltas = await readStreamDeltas(cursor);
+
+          for (const event of deltas.events) {
+            write(formatEvent(event.type, event.data, event.cursor));
+            lastWriteAt = Date.now();
+          }
+          cursor = deltas.cursor;
+
+          if (deltas.hasMore) continue;
+
+          // Comments keep proxies from closing an idle connection
+          if (Date.now() - lastWriteAt >= HEARTBEAT_INTERVAL_MS) {
+            write(': heartbeat\n\n');
+            lastWriteAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Error in live stream:', error);
+      } finally {
+        signal.removeEventListener('abort', close);
+        close();
+      }
+    },
+  });
+}
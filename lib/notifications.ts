@@ -0,0 +1,75 @@
+import { supabaseAuth } from './supabase-auth';
+
+export interface NotificationItem {
+  type: 'x_trend' | 'github_repo' | 'knowledge_entry' | 'package' | 'paper' | 'feed_item';
+  id: string;
+  title: string;
+  url: string | null;
+}
+
+export interface Notification {
+  id: string;
+  savedSearchId: string | null;
+  kind: 'saved_search_match';
+  title: string;
+  body: string;
+  items: NotificationItem[];
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Notifications are written by the update orchestrator's saved-search alert
+ * job. Reads go through the signed-in client so RLS scopes them to the user.
+ */
+export async function getNotifications(
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  try {
+    let query = supabaseAuth
+      .from('notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 20);
+
+    if (options.unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map((item) => ({
+      id: item.id,
+      savedSearchId: item.saved_search_id,
+      kind: item.kind,
+      title: item.title,
+      body: item.body,
+      items: item.items || [],
+      readAt: item.read_at,
+      createdAt: item.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return [];
+  }
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<boolean> {
+  if (ids.length === 0) return true;
+
+  try {
+    const { error } = await supabaseAuth
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return false;
+  }
+}
@@ -0,0 +1,214 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { Endpoint } from './api-endpoint';
+import { API_COMPONENTS } from './api-schemas';
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Converts the subset of zod used by `api-schemas` to JSON Schema. Schemas
+ * registered in `API_COMPONENTS` become `$ref`s. `input` describes what a
+ * client sends (before transforms and defaults), otherwise what it receives.
+ */
+function toJsonSchema(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>, input: boolean): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref) return { $ref: `#/components/schemas/${ref}` };
+
+  const described = (result: JsonSchema) =>
+    schema.description && !result.description ? { ...result, description: schema.description } : result;
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'datetime') result.format = 'date-time';
+        if (check.kind === 'uuid') result.format = 'uuid';
+        if (check.kind === 'url') result.format = 'uri';
+        if (check.kind === 'min') result.minLength = check.value;
+        if (check.kind === 'max') result.maxLength = check.value;
+      }
+      return described(result);
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        if (check.kind === 'min') result.minimum = check.value;
+        if (check.kind === 'max') result.maximum = check.value;
+      }
+      return described(result);
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return described({ type: 'boolean' });
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return described({ enum: [def.value] });
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return described({ type: 'string', enum: def.values });
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: toJsonSchema(def.type, refs, input) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      return described(result);
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return described({ type: 'object', additionalProperties: toJsonSchema(def.valueType, refs, input) });
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value, refs, input);
+        if (!isOptional(value, input)) required.push(key);
+      }
+
+      return described({
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      });
+    }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return described(toJsonSchema(def.innerType, refs, input));
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return described({ ...toJsonSchema(def.innerType, refs, input), nullable: true });
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return described({ ...toJsonSchema(def.innerType, refs, input), default: def.defaultValue() });
+    case ZodFirstPartyTypeKind.ZodEffects:
+      // Transforms and refinements: document the underlying input shape
+      return described(toJsonSchema(def.schema, refs, input));
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return described({ oneOf: def.options.map((option: ZodTypeAny) => toJsonSchema(option, refs, input)) });
+    default:
+      return described({});
+  }
+}
+
+function isOptional(schema: ZodTypeAny, input: boolean): boolean {
+  // Fields with a default are optional to send but always present in responses
+  if (schema._def.typeName === ZodFirstPartyTypeKind.ZodDefault) return input;
+  return schema.isOptional();
+}
+
+function unwrapObject(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  let current = schema;
+  while (current._def.typeName === ZodFirstPartyTypeKind.ZodEffects) {
+    current = current._def.schema;
+  }
+  return current._def.typeName === ZodFirstPartyTypeKind.ZodObject ? current._def.shape() : {};
+}
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid parameters or body; `data.details` lists the problems',
+  '401': 'Missing, invalid or expired token or API key',
+  '403': 'The plan lacks a required feature (`feature_not_in_tier`) or the key a scope (`missing_scope`)',
+  '429': 'Rate limit exceeded; see the `Retry-After` header',
+  '500': 'Internal server error',
+};
+
+/** Builds the OpenAPI 3.0 document for the given endpoints. */
+export function buildOpenApiDocument(endpoints: Endpoint[]) {
+  const refs = new Map<ZodTypeAny, string>(
+    Object.entries(API_COMPONENTS).map(([name, schema]) => [schema as ZodTypeAny, name])
+  );
+
+  // Resolve each component without matching itself as a $ref
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(API_COMPONENTS)) {
+    refs.delete(schema);
+    schemas[name] = toJsonSchema(schema, refs, name === 'SearchRequest');
+    refs.set(schema, name);
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const errorRef = { $ref: '#/components/schemas/ErrorResponse' };
+
+  for (const endpoint of endpoints) {
+    const { cost = 1, features = [], scope, sessionOnly } = endpoint.policy;
+    const notes = [
+      `Costs ${cost} rate limit unit${cost === 1 ? '' : 's'}.`,
+      scope ? `API keys need the \`${scope}\` scope.` : null,
+      sessionOnly ? 'API keys cannot call this operation; use a session token.' : null,
+      features.length > 0 ? `Requires the ${features.join(', ')} plan feature.` : null,
+    ].filter(Boolean);
+
+    const parameters = Object.entries(endpoint.query ? unwrapObject(endpoint.query) : {}).map(
+      ([name, schema]) => {
+        const jsonSchema = toJsonSchema(schema, refs, true);
+        const { description, ...rest } = jsonSchema;
+        return {
+          name,
+          in: 'query',
+          required: !isOptional(schema, true),
+          ...(description ? { description } : {}),
+          schema: rest,
+        };
+      }
+    );
+
+    const responses: Record<string, JsonSchema> = {
+      [String(endpoint.successStatus || 200)]: {
+        description: 'Success',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                success: { enum: [true] },
+                data: toJsonSchema(endpoint.response, refs, false),
+              },
+              required: ['success', 'data'],
+            },
+          },
+        },
+      },
+    };
+    for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+      responses[status] = { description, content: { 'application/json': { schema: errorRef } } };
+    }
+
+    paths[endpoint.path] = {
+      ...paths[endpoint.path],
+      [endpoint.method.toLowerCase()]: {
+        operationId: endpoint.operationId,
+        tags: [endpoint.tag],
+        summary: endpoint.summary,
+        description: [endpoint.description, ...notes].filter(Boolean).join('\n\n'),
+        'x-rate-limit-cost': cost,
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(endpoint.body
+          ? {
+              requestBody: {
+                required: true,
+                content: { 'application/json': { schema: toJsonSchema(endpoint.body, refs, true) } },
+              },
+            }
+          : {}),
+        responses,
+      },
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Dragon & Panda API',
+      version: '1.0.0',
+      description:
+        'Trends, repositories, knowledge entries and unified search. Every response is a `{ success, data, error }` envelope; errors carry a machine-readable `data.code`.',
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }],
+    tags: Array.from(new Set(endpoints.map((endpoint) => endpoint.tag))).map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A Supabase session token or a personal API key (`dp_…`)',
+        },
+      },
+      schemas,
+    },
+  };
+}
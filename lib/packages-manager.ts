@@ -0,0 +1,156 @@
+import {
+  supabase,
+  Package,
+  PackageDownloadSnapshot,
+  PackageDownloadVelocity,
+  PackageRegistry,
+} from './supabase';
+
+export interface PackageWithGrowth extends Package {
+  /** Change in weekly downloads over the last 7 days of snapshots. */
+  download_delta: number;
+  growth_pct: number;
+}
+
+export interface PackageFilters {
+  registry?: PackageRegistry;
+  tracked?: boolean;
+  minWeeklyDownloads?: number;
+}
+
+export interface PackageDownloadHistory {
+  packageId: string;
+  registry: PackageRegistry;
+  name: string;
+  repoId: string | null;
+  weeklyDownloads: number;
+  totalDownloads: number | null;
+  growth: {
+    downloadDelta: number;
+    growthPct: number;
+    windowHours: number;
+  };
+  snapshots: PackageDownloadSnapshot[];
+}
+
+export const MAX_HISTORY_DAYS = 90;
+
+async function loadVelocity(packageIds: string[]): Promise<Map<string, PackageDownloadVelocity>> {
+  if (packageIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('package_download_velocity')
+    .select('*')
+    .in('package_id', packageIds);
+
+  if (error) {
+    console.error('Error fetching package download velocity:', error);
+    return new Map();
+  }
+
+  return new Map((data as PackageDownloadVelocity[]).map((row) => [row.package_id, row]));
+}
+
+export async function getPackages(filters: PackageFilters = {}, limit = 30): Promise<PackageWithGrowth[]> {
+  let query = supabase
+    .from('packages')
+    .select('*')
+    .order('weekly_downloads', { ascending: false });
+
+  if (filters.registry) {
+    query = query.eq('registry', filters.registry);
+  }
+
+  if (filters.tracked !== undefined) {
+    query = query.eq('is_tracked', filters.tracked);
+  }
+
+  if (filters.minWeeklyDownloads) {
+    query = query.gte('weekly_downloads', filters.minWeeklyDownloads);
+  }
+
+  const { data, error } = await query.limit(limit);
+
+  if (error) {
+    console.error('Error fetching packages:', error);
+    return [];
+  }
+
+  const packages = data as Package[];
+  const velocity = await loadVelocity(packages.map((pkg) => pkg.id));
+
+  return packages.map((pkg) => ({
+    ...pkg,
+    download_delta: Number(velocity.get(pkg.id)?.download_delta ?? 0),
+    growth_pct: Number(velocity.get(pkg.id)?.growth_pct ?? 0),
+  }));
+}
+
+export async function findPackageId(registry: PackageRegistry, name: string): Promise<string | null> {
+  // PyPI names are stored PEP 503 normalized
+  const storedName = registry === 'pypi' ? name.trim().toLowerCase().replace(/[-_.]+/g, '-') : name.trim();
+
+  const { data, error } = await supabase
+    .from('packages')
+    .select('id')
+    .eq('registry', registry)
+    .eq('name', storedName)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving package name:', error);
+    return null;
+  }
+
+  return data?.id || null;
+}
+
+export async function getPackageDownloadHistory(
+  packageId: string,
+  days = 30
+): Promise<PackageDownloadHistory | null> {
+  const windowDays = Number.isFinite(days)
+    ? Math.min(Math.max(Math.floor(days), 1), MAX_HISTORY_DAYS)
+    : 30;
+
+  const { data: pkg, error } = await supabase
+    .from('packages')
+    .select('*')
+    .eq('id', packageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching package:', error);
+    return null;
+  }
+
+  if (!pkg) return null;
+
+  const { data: snapshots, error: snapshotsError } = await supabase
+    .from('package_download_snapshots')
+    .select('*')
+    .eq('package_id', packageId)
+    .gte('fetched_at', new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString())
+    .order('fetched_at', { ascending: true });
+
+  if (snapshotsError) {
+    console.error('Error fetching package download snapshots:', snapshotsError);
+  }
+
+  const velocity = (await loadVelocity([packageId])).get(packageId);
+
+  return {
+    packageId: pkg.id,
+    registry: pkg.registry,
+    name: pkg.name,
+    repoId: pkg.repo_id,
+    weeklyDownloads: pkg.weekly_downloads,
+    totalDownloads: pkg.total_downloads,
+    growth: {
+      downloadDelta: Number(velocity?.download_delta ?? 0),
+      growthPct: Number(velocity?.growth_pct ?? 0),
+      windowHours: Number(velocity?.window_hours ?? 0),
+    },
+    snapshots: (snapshots || []) as PackageDownloadSnapshot[],
+  };
+}
@@ -0,0 +1,48 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Runs against a local database with the migrations applied: `supabase start`
+// and export the URL and keys it prints
+describe.skipIf(!url || !anonKey || !serviceRoleKey)('consume_rate_limit', () => {
+  let admin: SupabaseClient;
+  let userId: string;
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceRoleKey!, { auth: { persistSession: false } });
+
+    // Without a subscription the user is on the free tier: 10 calls an hour
+    const { data, error } = await admin.auth.admin.createUser({
+      email: `rate-limit-${Date.now()}@example.com`,
+      password: crypto.randomUUID(),
+      email_confirm: true,
+    });
+    if (error) throw error;
+    userId = data.user.id;
+  });
+
+  afterAll(async () => {
+    if (userId) await admin.auth.admin.deleteUser(userId);
+  });
+
+  it('allows exactly the allowance to parallel requests', async () => {
+    const { consumeRateLimit } = await import('./rate-limiter');
+
+    const results = await Promise.all(
+      Array.from({ length: 25 }, () => consumeRateLimit(userId))
+    );
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(10);
+    expect(results.filter((result) => result.message?.startsWith('Hourly'))).toHaveLength(15);
+  });
+
+  it('cannot be called with the anon key', async () => {
+    const anon = createClient(url!, anonKey!, { auth: { persistSession: false } });
+    const { error } = await anon.rpc('consume_rate_limit', { p_user_id: userId, p_cost: 1 });
+
+    expect(error).not.toBeNull();
+  });
+});
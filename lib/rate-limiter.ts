@@ -1,10 +1,15 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { getSupabaseAdmin } from './supabase-admin';
+import { supabaseAuth } from './supabase-auth';
 
 export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
   limit: number;
   resetAt: Date;
+  /** Seconds until enough allowance has refilled, when not allowed. */
+  retryAfterSeconds?: number;
   message?: string;
 }
 
@@ -17,8 +22,44 @@ export interface SubscriptionTier {
   features: Record<string, any>;
 }
 
-export async function getUserSubscriptionTier(userId: string): Promise<SubscriptionTier | null> {
-  const { data: subscription, error: subError } = await supabase
+/** Boolean flags in `subscription_tiers.features` that routes can require. */
+export type TierFeature =
+  | 'api_access'
+  | 'advanced_analytics'
+  | 'priority_refresh'
+  | 'email_notifications';
+
+export function tierHasFeature(tier: SubscriptionTier | null, feature: TierFeature): boolean {
+  return tier?.features?.[feature] === true;
+}
+
+/** Cheapest tier whose features include `feature`, to point denied users at an upgrade. */
+export async function findTierWithFeature(feature: TierFeature): Promise<SubscriptionTier | null> {
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .select('*')
+    .eq(`features->>${feature}`, 'true')
+    .order('price_monthly', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error finding tier for feature:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Subscriptions are only visible to their owner, so server code with no
+ * session passes the service role client.
+ */
+export async function getUserSubscriptionTier(
+  userId: string,
+  client: SupabaseClient = supabase
+): Promise<SubscriptionTier | null> {
+  const { data: subscription, error: subError } = await client
     .from('user_subscriptions')
     .select('subscription_tier_id, status')
     .eq('user_id', userId)
@@ -54,183 +95,137 @@ export async function getUserSubscriptionTier(userId: string): Promise<Subscript
   return tier;
 }
 
-export async function checkRateLimit(userId: string): Promise<RateLimitResult> {
-  const tier = await getUserSubscriptionTier(userId);
+interface RateLimitState {
+  allowed: boolean;
+  error?: string;
+  limited_by: 'hourly' | 'daily' | null;
+  hourly_limit: number;
+  daily_limit: number;
+  hourly_remaining: number;
+  daily_remaining: number;
+  retry_after_seconds: number;
+  reset_at: string;
+}
 
-  if (!tier) {
-    return {
-      allowed: false,
-      remaining: 0,
-      limit: 0,
-      resetAt: new Date(),
-      message: 'Unable to determine subscription tier',
-    };
-  }
+/** Server only: `consume_rate_limit` charges any user it is given, so only the service role may call it. */
+async function callConsumeRateLimit(userId: string, cost: number): Promise<RateLimitState | null> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('consume_rate_limit', {
+      p_user_id: userId,
+      p_cost: cost,
+    });
 
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentDate = now.toISOString().split('T')[0];
+    if (error) throw error;
 
-  const { data: tracker, error: trackerError } = await supabase
-    .from('rate_limit_tracker')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('date', currentDate)
-    .eq('hour', currentHour)
-    .maybeSingle();
+    return data as RateLimitState;
+  } catch (error) {
+    console.error('Error consuming rate limit:', error);
+    return null;
+  }
+}
 
-  if (trackerError && trackerError.code !== 'PGRST116') {
-    return {
-      allowed: false,
-      remaining: 0,
-      limit: tier.api_calls_per_hour,
-      resetAt: new Date(now.getTime() + 3600000),
-      message: 'Error checking rate limit',
-    };
+/** The signed-in user's buckets, refilled but not consumed. */
+async function readOwnRateLimit(): Promise<RateLimitState | null> {
+  const { data, error } = await supabaseAuth.rpc('my_rate_limit');
+
+  if (error) {
+    console.error('Error reading rate limit:', error);
+    return null;
   }
 
-  const hourlyCount = tracker?.hourly_count || 0;
-  const dailyCount = tracker?.daily_count || 0;
+  return data as RateLimitState;
+}
 
-  if (hourlyCount >= tier.api_calls_per_hour) {
-    const nextHour = new Date(now);
-    nextHour.setHours(now.getHours() + 1, 0, 0, 0);
+/**
+ * Checks and consumes `cost` requests in one atomic database call. Hourly and
+ * daily allowances are token buckets that refill continuously, so there is no
+ * separate increment step and no window boundary to race across.
+ */
+export async function consumeRateLimit(userId: string, cost: number = 1): Promise<RateLimitResult> {
+  const now = new Date();
+  const state = await callConsumeRateLimit(userId, cost);
 
+  if (!state || state.error) {
     return {
       allowed: false,
       remaining: 0,
-      limit: tier.api_calls_per_hour,
-      resetAt: nextHour,
-      message: `Hourly rate limit exceeded. Limit: ${tier.api_calls_per_hour} requests/hour`,
+      limit: 0,
+      resetAt: now,
+      message: state?.error === 'no_tier'
+        ? 'Unable to determine subscription tier'
+        : 'Error checking rate limit',
     };
   }
 
-  if (dailyCount >= tier.api_calls_per_day) {
-    const tomorrow = new Date(now);
-    tomorrow.setDate(now.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
+  const remaining = Math.min(state.hourly_remaining, state.daily_remaining);
 
+  if (!state.allowed) {
+    const daily = state.limited_by === 'daily';
     return {
       allowed: false,
-      remaining: 0,
-      limit: tier.api_calls_per_day,
-      resetAt: tomorrow,
-      message: `Daily rate limit exceeded. Limit: ${tier.api_calls_per_day} requests/day`,
+      remaining,
+      limit: daily ? state.daily_limit : state.hourly_limit,
+      resetAt: new Date(now.getTime() + state.retry_after_seconds * 1000),
+      retryAfterSeconds: state.retry_after_seconds,
+      message: daily
+        ? `Daily rate limit exceeded. Limit: ${state.daily_limit} requests/day`
+        : `Hourly rate limit exceeded. Limit: ${state.hourly_limit} requests/hour`,
     };
   }
 
   return {
     allowed: true,
-    remaining: Math.min(
-      tier.api_calls_per_hour - hourlyCount,
-      tier.api_calls_per_day - dailyCount
-    ),
-    limit: tier.api_calls_per_hour,
-    resetAt: new Date(now.getTime() + 3600000),
+    remaining,
+    limit: state.hourly_limit,
+    resetAt: new Date(state.reset_at),
   };
 }
 
-export async function incrementRateLimit(userId: string): Promise<void> {
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentDate = now.toISOString().split('T')[0];
-
-  const { data: tracker } = await supabase
-    .from('rate_limit_tracker')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('date', currentDate)
-    .eq('hour', currentHour)
-    .maybeSingle();
-
-  if (!tracker) {
-    const { data: todayTotal } = await supabase
-      .from('rate_limit_tracker')
-      .select('daily_count')
-      .eq('user_id', userId)
-      .eq('date', currentDate)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const dailyCount = todayTotal?.daily_count || 0;
-
-    await supabase
-      .from('rate_limit_tracker')
-      .insert({
-        user_id: userId,
-        date: currentDate,
-        hour: currentHour,
-        hourly_count: 1,
-        daily_count: dailyCount + 1,
-        last_reset_hourly: now.toISOString(),
-        last_reset_daily: now.toISOString(),
-      });
-  } else {
-    await supabase
-      .from('rate_limit_tracker')
-      .update({
-        hourly_count: tracker.hourly_count + 1,
-        daily_count: tracker.daily_count + 1,
-        updated_at: now.toISOString(),
-      })
-      .eq('id', tracker.id);
-  }
-}
-
 export async function logApiUsage(
   userId: string,
   endpoint: string,
   method: string,
   responseStatus: number,
-  rateLimitRemaining: number
+  rateLimitRemaining: number,
+  apiKeyId: string | null = null
 ): Promise<void> {
-  await supabase
-    .from('api_usage_logs')
-    .insert({
-      user_id: userId,
-      endpoint,
-      method,
-      response_status: responseStatus,
-      rate_limit_remaining: rateLimitRemaining,
-    });
+  // Only the service role may write usage logs; a failed write does not fail the call
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('api_usage_logs')
+      .insert({
+        user_id: userId,
+        endpoint,
+        method,
+        response_status: responseStatus,
+        rate_limit_remaining: rateLimitRemaining,
+        api_key_id: apiKeyId,
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error logging API usage:', error);
+  }
 }
 
+/** Usage panel data for the signed-in user, whose id `userId` must be. */
 export async function getUserUsageStats(userId: string) {
-  const now = new Date();
-  const currentDate = now.toISOString().split('T')[0];
-  const currentHour = now.getHours();
-
   const tier = await getUserSubscriptionTier(userId);
 
-  const { data: currentUsage } = await supabase
-    .from('rate_limit_tracker')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('date', currentDate)
-    .eq('hour', currentHour)
-    .maybeSingle();
-
-  const { data: todayTotal } = await supabase
-    .from('rate_limit_tracker')
-    .select('daily_count')
-    .eq('user_id', userId)
-    .eq('date', currentDate)
-    .order('hour', { ascending: false })
-    .limit(1)
-    .maybeSingle();
+  const state = await readOwnRateLimit();
+  const usable = state && !state.error ? state : null;
 
   const { data: recentLogs } = await supabase
     .from('api_usage_logs')
-    .select('*')
+    .select('*, api_keys(name, key_prefix)')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(10);
 
   return {
     tier,
-    currentHourUsage: currentUsage?.hourly_count || 0,
-    todayUsage: todayTotal?.daily_count || 0,
+    currentHourUsage: usable ? usable.hourly_limit - usable.hourly_remaining : 0,
+    todayUsage: usable ? usable.daily_limit - usable.daily_remaining : 0,
     recentCalls: recentLogs || [],
     limits: {
       hourly: tier?.api_calls_per_hour || 0,
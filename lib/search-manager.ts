@@ -1,22 +1,49 @@
-import { supabase, XTrend, GitHubRepo, KnowledgeEntry } from './supabase';
+import {
+  supabase,
+  XTrend,
+  GitHubRepo,
+  KnowledgeEntry,
+  Package,
+  PackageRegistry,
+  Paper,
+  FeedItem,
+  TrendSource,
+  ItemLink,
+} from './supabase';
+import { getSupabaseAdmin } from './supabase-admin';
+import { applySearchQuery } from './search-query';
+import { checkWebhookUrl } from './webhook-targets';
+import { LinkedItem, linkedItemFromRow, summarizeLinks } from './entity-links';
+import { createEmbeddingProvider, toVectorLiteral } from '@/supabase/functions/_shared/embeddings';
+import { describeTrend } from '@/supabase/functions/_shared/trend-origins';
 
 export interface SearchFilters {
   query?: string;
   categories?: string[];
   tags?: string[];
   languages?: string[];
-  sources?: ('x_trends' | 'github_repos' | 'knowledge_entries')[];
+  sources?: ('x_trends' | 'github_repos' | 'knowledge_entries' | 'packages' | 'papers' | 'feed_items')[];
+  /** Restricts results to packages from these registries. */
+  registries?: PackageRegistry[];
+  /** Restricts results to trends from these sources. */
+  origins?: TrendSource[];
+  /** `since:`/`until:` as typed, e.g. `7d`; `applySearchQuery` resolves them into `dateFrom`/`dateTo`. */
+  since?: string;
+  until?: string;
   dateFrom?: string;
   dateTo?: string;
   minEngagement?: number;
   sortBy?: 'relevance' | 'trending' | 'recent' | 'popular' | 'velocity';
+  /** `keyword` full-text matching (default), `semantic` embedding similarity, or both. */
+  mode?: 'keyword' | 'semantic' | 'hybrid';
   limit?: number;
   offset?: number;
+  cursor?: string;
 }
 
 export interface SearchResult {
   id: string;
-  type: 'x_trend' | 'github_repo' | 'knowledge_entry';
+  type: 'x_trend' | 'github_repo' | 'knowledge_entry' | 'package' | 'paper' | 'feed_item';
   title: string;
   description: string;
   url?: string;
@@ -26,10 +53,42 @@ export interface SearchResult {
   engagement: number;
   trendingScore?: number;
   velocityScore?: number;
+  relevanceScore?: number;
+  relevance?: RelevanceExplanation;
+  snippets?: SearchSnippets;
   timestamp: string;
+  /** Items elsewhere that are the same repository, paper, link or story, most engaged first. */
+  links?: LinkedItem[];
   metadata: Record<string, any>;
 }
 
+export interface RelevanceExplanation {
+  textRank: number;
+  sourceBestRank: number;
+  matchedFields: string[];
+  /** Matched only through typo correction or prefix matching. */
+  fuzzy: boolean;
+  /** Cosine similarity to the query embedding, in semantic and hybrid modes. */
+  semanticSimilarity?: number;
+}
+
+/** Offsets are in UTF-16 code units, i.e. plain JavaScript string indices. */
+export interface HighlightRange {
+  start: number;
+  length: number;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: HighlightRange[];
+}
+
+export interface SearchSnippets {
+  title: Snippet;
+  /** Null for trends, which have no body text. */
+  body: Snippet | null;
+}
+
 export interface SearchResponse {
   results: SearchResult[];
   total: number;
@@ -38,7 +97,12 @@ export interface SearchResponse {
     tags: Array<{ name: string; count: number }>;
     languages: Array<{ name: string; count: number }>;
     sources: Array<{ name: string; count: number }>;
+    registries: Array<{ name: string; count: number }>;
+    origins: Array<{ name: string; count: number }>;
   };
+  nextCursor: string | null;
+  /** Corrected query, offered when the original found few exact matches. */
+  didYouMean: string | null;
   searchId: string;
 }
 
@@ -56,48 +120,134 @@ export interface SavedSearch {
   searchType: string;
   isActive: boolean;
   notificationEnabled: boolean;
+  /** Alert delivery channels: `in_app`, `email`, `webhook`. */
+  notificationChannels: string[];
+  webhookUrl: string | null;
+  /** Secret in the search's feed URL, `/feeds/saved-searches/<feedToken>.atom`. */
+  feedToken: string;
   createdAt: string;
   updatedAt: string;
 }
 
-export async function performUnifiedSearch(
-  filters: SearchFilters
-): Promise<SearchResponse> {
-  const searchId = crypto.randomUUID();
-  const results: SearchResult[] = [];
+interface UnifiedSearchRow {
+  item_type: SearchResult['type'];
+  item_id: string;
+  category: string | null;
+  tags: string[] | null;
+  language: string | null;
+  engagement: number;
+  item_timestamp: string;
+  velocity: number | null;
+  trending_score: number | null;
+  text_rank: number;
+  source_best_rank: number;
+  relevance_score: number;
+  fuzzy: boolean;
+  semantic_similarity: number | null;
+  snippets: { title: string; body: string | null } | null;
+  matched_weights: string[];
+  record: Record<string, any>;
+  links: Array<Omit<ItemLink, 'item_type' | 'item_id'>>;
+}
+
+interface UnifiedSearchPayload {
+  results: UnifiedSearchRow[];
+  total: number;
+  facets: SearchResponse['facets'];
+  next_cursor: SearchCursor | null;
+  did_you_mean: string | null;
+}
+
+/** Keyset position of the last row on a page: its sort key and id. */
+interface SearchCursor {
+  k: number;
+  id: string;
+}
 
-  const sources = filters.sources || ['x_trends', 'github_repos', 'knowledge_entries'];
-  const limit = filters.limit || 50;
-  const offset = filters.offset || 0;
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
 
+export function decodeSearchCursor(value: string): SearchCursor | null {
   try {
-    if (sources.includes('x_trends')) {
-      const xResults = await searchXTrends(filters);
-      results.push(...xResults);
-    }
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor?.k !== 'number' || typeof cursor?.id !== 'string') return null;
+    return { k: cursor.k, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
 
-    if (sources.includes('github_repos')) {
-      const repoResults = await searchGitHubRepos(filters);
-      results.push(...repoResults);
-    }
+/**
+ * Embeds the query with the same provider the update orchestrator indexes
+ * with; both read the EMBEDDING_* settings.
+ */
+async function embedSearchQuery(query: string): Promise<string> {
+  const provider = createEmbeddingProvider({
+    provider: process.env.EMBEDDING_PROVIDER || undefined,
+    url: process.env.EMBEDDING_API_URL || undefined,
+    model: process.env.EMBEDDING_MODEL || undefined,
+    apiKey: process.env.EMBEDDING_API_KEY || undefined,
+  });
+  const [vector] = await provider.embed([query]);
+  return toVectorLiteral(vector);
+}
 
-    if (sources.includes('knowledge_entries')) {
-      const knowledgeResults = await searchKnowledgeEntries(filters);
-      results.push(...knowledgeResults);
-    }
+/**
+ * Filtering, ranking, facets and pagination all happen in the
+ * `unified_search` function, so totals and facets cover every match rather
+ * than a per-source fetch window.
+ */
+export async function performUnifiedSearch(
+  filters: SearchFilters,
+  options: { recordHistory?: boolean } = {}
+): Promise<SearchResponse> {
+  const searchId = crypto.randomUUID();
+
+  const cursor = filters.cursor ? decodeSearchCursor(filters.cursor) : null;
+  if (filters.cursor && !cursor) {
+    throw new Error('Invalid search cursor');
+  }
 
-    let sortedResults = applySorting(results, filters.sortBy || 'relevance');
+  try {
+    const mode = filters.mode || 'keyword';
+    const queryEmbedding =
+      filters.query && mode !== 'keyword' ? await embedSearchQuery(filters.query) : null;
+
+    const { data, error } = await supabase.rpc('unified_search', {
+      p_query: filters.query || null,
+      p_sources: filters.sources?.length ? filters.sources : null,
+      p_categories: filters.categories?.length ? filters.categories : null,
+      p_tags: filters.tags?.length ? filters.tags : null,
+      p_languages: filters.languages?.length ? filters.languages : null,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null,
+      p_min_engagement: filters.minEngagement || null,
+      p_sort_by: filters.sortBy || 'relevance',
+      p_limit: filters.limit || 50,
+      p_cursor: cursor,
+      p_offset: cursor ? 0 : filters.offset || 0,
+      p_mode: mode,
+      p_query_embedding: queryEmbedding,
+      p_registries: filters.registries?.length ? filters.registries : null,
+      p_origins: filters.origins?.length ? filters.origins : null,
+    });
 
-    const facets = calculateFacets(sortedResults);
+    if (error) throw error;
 
-    const paginatedResults = sortedResults.slice(offset, offset + limit);
+    const payload = data as UnifiedSearchPayload;
+    const results = payload.results.map((row) => mapSearchRow(row, !!filters.query));
 
-    await recordSearchHistory(filters, paginatedResults.length);
+    if (options.recordHistory !== false && !filters.cursor && !filters.offset) {
+      await recordSearchHistory(filters, payload.total);
+    }
 
     return {
-      results: paginatedResults,
-      total: sortedResults.length,
-      facets,
+      results,
+      total: payload.total,
+      facets: payload.facets,
+      nextCursor: payload.next_cursor ? encodeSearchCursor(payload.next_cursor) : null,
+      didYouMean: payload.did_you_mean,
       searchId,
     };
   } catch (error) {
@@ -106,234 +256,213 @@ export async function performUnifiedSearch(
   }
 }
 
-async function searchXTrends(filters: SearchFilters): Promise<SearchResult[]> {
-  let query = supabase.from('x_trends').select('*');
-
-  if (filters.query) {
-    query = query.textSearch('search_vector', filters.query, {
-      type: 'websearch',
-      config: 'english',
-    });
-  }
-
-  if (filters.categories && filters.categories.length > 0) {
-    query = query.in('category', filters.categories);
-  }
-
-  if (filters.dateFrom) {
-    query = query.gte('fetched_at', filters.dateFrom);
-  }
-
-  if (filters.dateTo) {
-    query = query.lte('fetched_at', filters.dateTo);
-  }
-
-  if (filters.minEngagement) {
-    query = query.gte('tweet_count', filters.minEngagement);
-  }
-
-  query = query.order('fetched_at', { ascending: false }).limit(100);
-
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('Error searching X trends:', error);
-    return [];
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+
+/** Turns a marked-up `ts_headline` into plain text plus highlight offsets. */
+function parseHeadline(headline: string): Snippet {
+  let text = '';
+  let start = -1;
+  const highlights: HighlightRange[] = [];
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START) {
+      start = text.length;
+    } else if (char === HIGHLIGHT_STOP) {
+      if (start >= 0 && text.length > start) {
+        highlights.push({ start, length: text.length - start });
+      }
+      start = -1;
+    } else {
+      text += char;
+    }
   }
 
-  return (data || []).map((trend: XTrend) => ({
-    id: trend.id,
-    type: 'x_trend' as const,
-    title: trend.trend_name,
-    description: `Trending with ${trend.tweet_count.toLocaleString()} posts`,
-    url: trend.url,
-    category: trend.category,
-    tags: [trend.category],
-    engagement: trend.tweet_count,
-    timestamp: trend.fetched_at,
-    metadata: {
-      tweetCount: trend.tweet_count,
-      fetchedAt: trend.fetched_at,
-    },
-  }));
+  return { text, highlights };
 }
 
-async function searchGitHubRepos(filters: SearchFilters): Promise<SearchResult[]> {
-  let query = supabase.from('github_repos').select('*');
-
-  if (filters.query) {
-    query = query.textSearch('search_vector', filters.query, {
-      type: 'websearch',
-      config: 'english',
-    });
-  }
-
-  if (filters.languages && filters.languages.length > 0) {
-    query = query.in('language', filters.languages);
-  }
-
-  if (filters.tags && filters.tags.length > 0) {
-    query = query.overlaps('topics', filters.tags);
-  }
-
-  if (filters.dateFrom) {
-    query = query.gte('fetched_at', filters.dateFrom);
-  }
+const WEIGHT_FIELDS: Record<SearchResult['type'], Record<string, string>> = {
+  x_trend: { A: 'name', B: 'category' },
+  github_repo: { A: 'name', B: 'description', C: 'language/topics' },
+  knowledge_entry: { A: 'title', B: 'content', C: 'category/tags' },
+  package: { A: 'name', B: 'description', C: 'keywords/registry' },
+  paper: { A: 'title', B: 'abstract', C: 'authors/categories' },
+  feed_item: { A: 'title', B: 'summary', C: 'categories', D: 'feed/author' },
+};
+
+function mapSearchRow(row: UnifiedSearchRow, hasQuery: boolean): SearchResult {
+  const ranking = hasQuery
+    ? {
+      relevanceScore: row.relevance_score,
+      relevance: {
+        textRank: row.text_rank,
+        sourceBestRank: row.source_best_rank,
+        matchedFields: row.matched_weights
+          .map((weight) => WEIGHT_FIELDS[row.item_type][weight])
+          .filter(Boolean),
+        fuzzy: row.fuzzy,
+        semanticSimilarity: row.semantic_similarity ?? undefined,
+      },
+      snippets: row.snippets
+        ? {
+          title: parseHeadline(row.snippets.title),
+          body: row.snippets.body ? parseHeadline(row.snippets.body) : null,
+        }
+        : undefined,
+    }
+    : {};
+
+  const shared = {
+    id: row.item_id,
+    type: row.item_type,
+    category: row.category || undefined,
+    tags: row.tags || undefined,
+    engagement: row.engagement,
+    trendingScore: row.trending_score ?? undefined,
+    velocityScore: row.velocity ?? undefined,
+    timestamp: row.item_timestamp,
+    links: (row.links || []).map(linkedItemFromRow),
+    ...ranking,
+  };
 
-  if (filters.dateTo) {
-    query = query.lte('fetched_at', filters.dateTo);
-  }
+  if (row.item_type === 'x_trend') {
+    const trend = row.record as XTrend;
 
-  if (filters.minEngagement) {
-    query = query.gte('stars', filters.minEngagement);
+    return {
+      ...shared,
+      title: trend.trend_name,
+      description: describeTrend(trend),
+      url: trend.url,
+      metadata: {
+        tweetCount: trend.tweet_count,
+        metricType: trend.metric_type,
+        source: trend.source,
+        sourceItemId: trend.source_item_id,
+        rank: trend.rank,
+        firstSeenAt: trend.first_seen_at,
+        fetchedAt: trend.fetched_at,
+      },
+    };
   }
 
-  query = query.order('stars', { ascending: false }).limit(100);
+  if (row.item_type === 'github_repo') {
+    const repo = row.record as GitHubRepo & { star_delta: number; star_window_hours: number };
 
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('Error searching GitHub repos:', error);
-    return [];
-  }
-
-  return (data || []).map((repo: GitHubRepo) => ({
-    id: repo.id,
-    type: 'github_repo' as const,
-    title: repo.repo_name,
-    description: repo.description || 'No description available',
-    url: repo.url,
-    category: 'technology',
-    tags: repo.topics,
-    language: repo.language,
-    engagement: repo.stars,
-    timestamp: repo.fetched_at,
-    metadata: {
-      stars: repo.stars,
+    return {
+      ...shared,
+      title: repo.repo_name,
+      description: repo.description || 'No description available',
+      url: repo.url,
       language: repo.language,
-      topics: repo.topics,
-      fetchedAt: repo.fetched_at,
-    },
-  }));
-}
-
-async function searchKnowledgeEntries(filters: SearchFilters): Promise<SearchResult[]> {
-  let query = supabase
-    .from('knowledge_entries')
-    .select('*')
-    .eq('verified', true);
-
-  if (filters.query) {
-    query = query.textSearch('search_vector', filters.query, {
-      type: 'websearch',
-      config: 'english',
-    });
+      metadata: {
+        stars: repo.stars,
+        forks: repo.forks,
+        openIssues: repo.open_issues,
+        language: repo.language,
+        topics: repo.topics,
+        starDelta: repo.star_delta,
+        starWindowHours: repo.star_window_hours,
+        firstSeenAt: repo.first_seen_at,
+        fetchedAt: repo.fetched_at,
+      },
+    };
   }
 
-  if (filters.categories && filters.categories.length > 0) {
-    query = query.in('category', filters.categories);
-  }
+  if (row.item_type === 'package') {
+    const pkg = row.record as Package & {
+      language: string | null;
+      repo_name: string | null;
+      repo_stars: number | null;
+      download_delta: number;
+      growth_pct: number;
+      download_window_hours: number;
+    };
 
-  if (filters.tags && filters.tags.length > 0) {
-    query = query.overlaps('tags', filters.tags);
+    return {
+      ...shared,
+      title: pkg.name,
+      description: pkg.description || 'No description available',
+      url: pkg.url,
+      language: row.language || undefined,
+      metadata: {
+        registry: pkg.registry,
+        latestVersion: pkg.latest_version,
+        weeklyDownloads: pkg.weekly_downloads,
+        totalDownloads: pkg.total_downloads,
+        downloadDelta: pkg.download_delta,
+        growthPct: pkg.growth_pct,
+        downloadWindowHours: pkg.download_window_hours,
+        repositoryUrl: pkg.repository_url,
+        repoId: pkg.repo_id,
+        repoName: pkg.repo_name,
+        repoStars: pkg.repo_stars,
+        isTracked: pkg.is_tracked,
+        firstSeenAt: pkg.first_seen_at,
+        fetchedAt: pkg.fetched_at,
+      },
+    };
   }
 
-  if (filters.dateFrom) {
-    query = query.gte('created_at', filters.dateFrom);
-  }
+  if (row.item_type === 'paper') {
+    const paper = row.record as Paper & {
+      repo_stars: number;
+      repos: Array<{ id: string; repo_name: string; stars: number; url: string }>;
+    };
 
-  if (filters.dateTo) {
-    query = query.lte('created_at', filters.dateTo);
+    return {
+      ...shared,
+      title: paper.title,
+      description: paper.abstract.length > 200 ? paper.abstract.substring(0, 200) + '...' : paper.abstract,
+      url: paper.url,
+      metadata: {
+        arxivId: paper.arxiv_id,
+        authors: paper.authors,
+        categories: paper.categories,
+        primaryCategory: paper.primary_category,
+        pdfUrl: paper.pdf_url,
+        comment: paper.comment,
+        publishedAt: paper.published_at,
+        revisedAt: paper.revised_at,
+        repoStars: paper.repo_stars,
+        repos: paper.repos,
+        fetchedAt: paper.fetched_at,
+      },
+    };
   }
 
-  query = query.order('relevance_score', { ascending: false }).limit(100);
-
-  const { data, error } = await query;
+  if (row.item_type === 'feed_item') {
+    const item = row.record as FeedItem;
 
-  if (error) {
-    console.error('Error searching knowledge entries:', error);
-    return [];
+    return {
+      ...shared,
+      title: item.title,
+      description: item.summary.length > 200 ? item.summary.substring(0, 200) + '...' : item.summary,
+      url: item.url || undefined,
+      metadata: {
+        sourceName: item.source_name,
+        feedTitle: item.feed_title,
+        author: item.author,
+        categories: item.categories,
+        publishedAt: item.published_at,
+        firstSeenAt: item.first_seen_at,
+        fetchedAt: item.fetched_at,
+      },
+    };
   }
 
-  return (data || []).map((entry: KnowledgeEntry) => ({
-    id: entry.id,
-    type: 'knowledge_entry' as const,
+  const entry = row.record as KnowledgeEntry;
+
+  return {
+    ...shared,
     title: entry.title,
     description: entry.content.substring(0, 200) + '...',
     url: entry.source_url || undefined,
-    category: entry.category,
-    tags: entry.tags,
-    engagement: entry.relevance_score,
-    timestamp: entry.created_at,
     metadata: {
       source: entry.source,
       verified: entry.verified,
       relevanceScore: entry.relevance_score,
       createdAt: entry.created_at,
     },
-  }));
-}
-
-function applySorting(results: SearchResult[], sortBy: string): SearchResult[] {
-  const sorted = [...results];
-
-  switch (sortBy) {
-    case 'trending':
-      return sorted.sort((a, b) => (b.trendingScore || 0) - (a.trendingScore || 0));
-    case 'recent':
-      return sorted.sort(
-        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-    case 'popular':
-      return sorted.sort((a, b) => b.engagement - a.engagement);
-    case 'velocity':
-      return sorted.sort((a, b) => (b.velocityScore || 0) - (a.velocityScore || 0));
-    case 'relevance':
-    default:
-      return sorted;
-  }
-}
-
-function calculateFacets(results: SearchResult[]) {
-  const categoryCounts = new Map<string, number>();
-  const tagCounts = new Map<string, number>();
-  const languageCounts = new Map<string, number>();
-  const sourceCounts = new Map<string, number>();
-
-  results.forEach((result) => {
-    if (result.category) {
-      categoryCounts.set(result.category, (categoryCounts.get(result.category) || 0) + 1);
-    }
-
-    if (result.tags) {
-      result.tags.forEach((tag) => {
-        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
-      });
-    }
-
-    if (result.language) {
-      languageCounts.set(result.language, (languageCounts.get(result.language) || 0) + 1);
-    }
-
-    sourceCounts.set(result.type, (sourceCounts.get(result.type) || 0) + 1);
-  });
-
-  return {
-    categories: Array.from(categoryCounts.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10),
-    tags: Array.from(tagCounts.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 20),
-    languages: Array.from(languageCounts.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 15),
-    sources: Array.from(sourceCounts.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count),
   };
 }
 
@@ -372,16 +501,14 @@ export async function getSearchSuggestions(
   limit = 10
 ): Promise<SearchSuggestion[]> {
   try {
-    const { data, error } = await supabase
-      .from('search_suggestions')
-      .select('suggestion_text, suggestion_type, usage_count')
-      .ilike('suggestion_text', `${query}%`)
-      .order('usage_count', { ascending: false })
-      .limit(limit);
+    const { data, error } = await supabase.rpc('fuzzy_search_suggestions', {
+      p_query: query,
+      p_limit: limit,
+    });
 
     if (error) throw error;
 
-    return (data || []).map((item) => ({
+    return (data || []).map((item: { suggestion_text: string; suggestion_type: string; usage_count: number }) => ({
       text: item.suggestion_text,
       type: item.suggestion_type as any,
       usageCount: item.usage_count,
@@ -425,11 +552,16 @@ export async function getTrendingSearches(limit = 10): Promise<SearchSuggestion[
   }
 }
 
+/**
+ * Saved searches are read and written from API routes, where there is no
+ * session for RLS to check, so these use the service role and scope every
+ * query to `userId` themselves.
+ */
 export async function getSavedSearches(userId?: string): Promise<SavedSearch[]> {
   if (!userId) return [];
 
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabaseAdmin()
       .from('saved_searches')
       .select('*')
       .eq('user_id', userId)
@@ -446,6 +578,9 @@ export async function getSavedSearches(userId?: string): Promise<SavedSearch[]>
       searchType: item.search_type,
       isActive: item.is_active,
       notificationEnabled: item.notification_enabled,
+      notificationChannels: item.notification_channels || ['in_app'],
+      webhookUrl: item.webhook_url,
+      feedToken: item.feed_token,
       createdAt: item.created_at,
       updatedAt: item.updated_at,
     }));
@@ -455,27 +590,60 @@ export async function getSavedSearches(userId?: string): Promise<SavedSearch[]>
   }
 }
 
+export interface SavedSearchAlertOptions {
+  channels?: string[];
+  webhookUrl?: string;
+}
+
+/**
+ * Filters are stored with the query syntax already expanded, so the alert
+ * job can run them without parsing `search_query` again. Dates from `since:`
+ * and `until:` are left out and resolved whenever the search runs, keeping
+ * relative ranges relative. Passing `alerts` enables notifications for new
+ * matches.
+ */
 export async function saveSearch(
   name: string,
   filters: SearchFilters,
-  userId?: string
+  userId?: string,
+  alerts?: SavedSearchAlertOptions
 ): Promise<SavedSearch | null> {
   if (!userId) {
     console.error('User ID required to save search');
     return null;
   }
 
+  const expanded = applySearchQuery(filters);
+  if (expanded.errors.length > 0) {
+    console.error('Cannot save search with invalid query:', expanded.errors);
+    return null;
+  }
+
+  const webhookUrlProblem = alerts?.webhookUrl ? await checkWebhookUrl(alerts.webhookUrl) : null;
+  if (webhookUrlProblem) {
+    console.error('Cannot save search with webhook URL:', webhookUrlProblem);
+    return null;
+  }
+
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabaseAdmin()
       .from('saved_searches')
       .insert({
         user_id: userId,
         name,
         search_query: filters.query || '',
-        filters: filters as any,
+        filters: {
+          ...expanded.filters,
+          dateFrom: expanded.filters.since ? undefined : expanded.filters.dateFrom,
+          dateTo: expanded.filters.until ? undefined : expanded.filters.dateTo,
+          cursor: undefined,
+          offset: undefined,
+        } as any,
         search_type: 'unified',
         is_active: true,
-        notification_enabled: false,
+        notification_enabled: !!alerts,
+        notification_channels: alerts?.channels?.length ? alerts.channels : ['in_app'],
+        webhook_url: alerts?.webhookUrl || null,
       })
       .select()
       .single();
@@ -490,6 +658,9 @@ export async function saveSearch(
       searchType: data.search_type,
       isActive: data.is_active,
       notificationEnabled: data.notification_enabled,
+      notificationChannels: data.notification_channels || ['in_app'],
+      webhookUrl: data.webhook_url,
+      feedToken: data.feed_token,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -499,24 +670,66 @@ export async function saveSearch(
   }
 }
 
+export interface SavedSearchFeed {
+  id: string;
+  name: string;
+  filters: SearchFilters;
+  updatedAt: string;
+}
+
+/** Looks up an active saved search by its feed token, without a login. */
+export async function getSavedSearchByFeedToken(token: string): Promise<SavedSearchFeed | null> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_saved_search_feed', { p_token: token })
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const row = data as {
+      id: string;
+      name: string;
+      search_query: string;
+      filters: SearchFilters | null;
+      updated_at: string;
+    } | null;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      name: row.name,
+      // Searches saved before filters were stored expanded only have the raw query
+      filters: row.filters && Object.keys(row.filters).length > 0
+        ? row.filters
+        : { query: row.search_query || undefined },
+      updatedAt: row.updated_at,
+    };
+  } catch (error) {
+    console.error('Error fetching saved search feed:', error);
+    return null;
+  }
+}
+
+/** False when the user has no saved search `searchId`; null when the delete failed. */
 export async function deleteSavedSearch(
   searchId: string,
   userId?: string
-): Promise<boolean> {
+): Promise<boolean | null> {
   if (!userId) return false;
 
   try {
-    const { error } = await supabase
+    const { data, error } = await getSupabaseAdmin()
       .from('saved_searches')
       .delete()
       .eq('id', searchId)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .select('id');
 
     if (error) throw error;
-    return true;
+    return (data || []).length > 0;
   } catch (error) {
     console.error('Error deleting saved search:', error);
-    return false;
+    return null;
   }
 }
 
@@ -531,7 +744,7 @@ export async function calculateAndStoreTrendingScores(): Promise<void> {
 }
 
 export async function getTrendingItems(
-  itemType?: 'x_trend' | 'github_repo' | 'knowledge_entry',
+  itemType?: SearchResult['type'],
   limit = 20
 ): Promise<SearchResult[]> {
   try {
@@ -567,7 +780,7 @@ export async function getTrendingItems(
             id: trend.id,
             type: 'x_trend',
             title: trend.trend_name,
-            description: `Trending with ${trend.tweet_count.toLocaleString()} posts`,
+            description: describeTrend(trend),
             url: trend.url,
             category: trend.category,
             tags: [trend.category],
@@ -575,7 +788,7 @@ export async function getTrendingItems(
             trendingScore: score.trending_score,
             velocityScore: score.velocity_score,
             timestamp: trend.fetched_at,
-            metadata: score.metadata,
+            metadata: { ...score.metadata, source: trend.source, metricType: trend.metric_type },
           });
         }
       } else if (score.item_type === 'github_repo') {
@@ -599,7 +812,39 @@ export async function getTrendingItems(
             trendingScore: score.trending_score,
             velocityScore: score.velocity_score,
             timestamp: repo.fetched_at,
-            metadata: score.metadata,
+            metadata: {
+              ...score.metadata,
+              starDelta: score.metadata?.star_delta || 0,
+              starWindowHours: score.metadata?.window_hours || 0,
+            },
+          });
+        }
+      } else if (score.item_type === 'package') {
+        const { data: pkg } = await supabase
+          .from('packages')
+          .select('*')
+          .eq('id', score.item_id)
+          .maybeSingle();
+
+        if (pkg) {
+          results.push({
+            id: pkg.id,
+            type: 'package',
+            title: pkg.name,
+            description: pkg.description || 'No description',
+            url: pkg.url,
+            category: 'technology',
+            tags: pkg.keywords,
+            engagement: pkg.weekly_downloads,
+            trendingScore: score.trending_score,
+            velocityScore: score.velocity_score,
+            timestamp: pkg.fetched_at,
+            metadata: {
+              ...score.metadata,
+              weeklyDownloads: pkg.weekly_downloads,
+              downloadDelta: score.metadata?.download_delta || 0,
+              growthPct: score.metadata?.growth_pct || 0,
+            },
           });
         }
       }
@@ -637,12 +882,48 @@ export async function getSearchHistory(userId?: string, limit = 20) {
   }
 }
 
+/** A linked item as a related result, described by where it was seen. */
+function linkedItemResult(link: LinkedItem): SearchResult {
+  return {
+    id: link.id,
+    type: link.type,
+    title: link.title,
+    description: summarizeLinks([link]),
+    url: link.url,
+    engagement: link.engagement || 0,
+    timestamp: link.timestamp || '',
+    metadata: {
+      source: link.source,
+      metricType: link.metricType,
+      linkedBy: link.entityType,
+    },
+  };
+}
+
 export async function getRelatedItems(
   itemId: string,
-  itemType: 'x_trend' | 'github_repo' | 'knowledge_entry',
+  itemType: SearchResult['type'],
   limit = 5
 ): Promise<SearchResult[]> {
   try {
+    // The same repository, paper or story seen elsewhere comes first; term matches fill the rest
+    const { data: linkRows, error: linkError } = await supabase
+      .from('item_links')
+      .select('*')
+      .eq('item_type', itemType)
+      .eq('item_id', itemId)
+      .order('engagement', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (linkError) {
+      console.error('Error fetching item links:', linkError);
+    }
+
+    const linked = ((linkRows || []) as ItemLink[]).map(linkedItemFromRow).map(linkedItemResult);
+    if (linked.length >= limit) {
+      return linked;
+    }
+
     let sourceItem: any;
     let searchTerms: string[] = [];
 
@@ -676,10 +957,53 @@ export async function getRelatedItems(
       if (sourceItem) {
         searchTerms = [sourceItem.category, ...sourceItem.tags.slice(0, 2)];
       }
+    } else if (itemType === 'package') {
+      const { data } = await supabase
+        .from('packages')
+        .select('*')
+        .eq('id', itemId)
+        .maybeSingle();
+      sourceItem = data;
+      if (sourceItem) {
+        searchTerms = sourceItem.keywords.length > 0
+          ? sourceItem.keywords.slice(0, 3)
+          : [sourceItem.name.replace(/[@/_.-]+/g, ' ')];
+      }
+    } else if (itemType === 'paper') {
+      const { data } = await supabase
+        .from('papers')
+        .select('*')
+        .eq('id', itemId)
+        .maybeSingle();
+      sourceItem = data;
+      if (sourceItem) {
+        // Every term must match, so a couple of distinctive title words work better than the whole title
+        searchTerms = sourceItem.title
+          .split(/[^A-Za-z0-9-]+/)
+          .filter((word: string) => word.length > 5)
+          .sort((a: string, b: string) => b.length - a.length)
+          .slice(0, 2);
+      }
+    } else if (itemType === 'feed_item') {
+      const { data } = await supabase
+        .from('feed_items')
+        .select('*')
+        .eq('id', itemId)
+        .maybeSingle();
+      sourceItem = data;
+      if (sourceItem) {
+        searchTerms = sourceItem.categories.length > 0
+          ? sourceItem.categories.slice(0, 2)
+          : sourceItem.title
+            .split(/[^A-Za-z0-9-]+/)
+            .filter((word: string) => word.length > 5)
+            .sort((a: string, b: string) => b.length - a.length)
+            .slice(0, 2);
+      }
     }
 
     if (!sourceItem || searchTerms.length === 0) {
-      return [];
+      return linked;
     }
 
     const filters: SearchFilters = {
@@ -689,7 +1013,11 @@ export async function getRelatedItems(
 
     const searchResults = await performUnifiedSearch(filters);
 
-    return searchResults.results.filter((result) => result.id !== itemId).slice(0, limit);
+    const excluded = new Set([itemId, ...linked.map((result) => result.id)]);
+
+    return linked
+      .concat(searchResults.results.filter((result) => !excluded.has(result.id)))
+      .slice(0, limit);
   } catch (error) {
     console.error('Error fetching related items:', error);
     return [];
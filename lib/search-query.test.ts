@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { applySearchQuery, formatSearchQuery, parseSearchQuery } from './search-query';
+
+const NOW = new Date('2025-11-10T15:30:00.000Z');
+
+function parse(input: string) {
+  return parseSearchQuery(input, NOW);
+}
+
+describe('parseSearchQuery', () => {
+  it('separates filters from free text', () => {
+    const parsed = parse('lang:rust source:github async runtime');
+
+    expect(parsed.text).toBe('async runtime');
+    expect(parsed.filters).toEqual({ languages: ['Rust'], sources: ['github_repos'] });
+    expect(parsed.errors).toEqual([]);
+  });
+
+  describe('quoting', () => {
+    it('keeps quoted phrases together', () => {
+      expect(parse('"vector database" rust').text).toBe('"vector database" rust');
+    });
+
+    it('reads quoted filter values and lists continuing after them', () => {
+      const parsed = parse('tag:"machine learning",ai');
+
+      expect(parsed.filters.tags).toEqual(['machine learning', 'ai']);
+      expect(parsed.text).toBe('');
+    });
+
+    it('reports an unterminated phrase and keeps its text', () => {
+      const parsed = parse('rust "vector data');
+
+      expect(parsed.text).toBe('rust "vector data"');
+      expect(parsed.errors).toEqual([{ message: 'Unterminated quoted phrase', position: 5, length: 12 }]);
+    });
+
+    it('reports an unterminated filter value', () => {
+      const parsed = parse('tag:"machine');
+
+      expect(parsed.filters.tags).toBeUndefined();
+      expect(parsed.errors[0]).toMatchObject({ message: 'Unterminated quoted value', position: 4 });
+    });
+  });
+
+  describe('negation', () => {
+    it('passes negated words and phrases through as text', () => {
+      expect(parse('rust -crypto -"smart contract"').text).toBe('rust -crypto -"smart contract"');
+    });
+
+    it('treats a lone dash as a word', () => {
+      expect(parse('rust - go').text).toBe('rust - go');
+    });
+
+    it('rejects negated filters', () => {
+      const parsed = parse('-lang:go');
+
+      expect(parsed.filters.languages).toBeUndefined();
+      expect(parsed.errors).toEqual([
+        { message: 'Filters cannot be negated; remove the "-" before lang:', position: 0, length: 1 },
+      ]);
+    });
+  });
+
+  describe('OR', () => {
+    it('leaves OR to websearch', () => {
+      const parsed = parse('rust OR go lang:python');
+
+      expect(parsed.text).toBe('rust OR go');
+      expect(parsed.filters.languages).toEqual(['Python']);
+    });
+
+    it('takes comma lists as alternatives within a filter', () => {
+      const parsed = parse('via:hn,reddit source:x,github');
+
+      expect(parsed.filters.origins).toEqual(['hackernews_api', 'reddit_api']);
+      expect(parsed.filters.sources).toEqual(['x_trends', 'github_repos']);
+    });
+  });
+
+  describe('ranges', () => {
+    it('reads lower bounds', () => {
+      expect(parse('stars:>500').filters.minEngagement).toBe(501);
+      expect(parse('stars:>=500').filters.minEngagement).toBe(500);
+      expect(parse('downloads:10000').filters.minEngagement).toBe(10000);
+    });
+
+    it('rejects upper bounds and non-numbers', () => {
+      expect(parse('stars:<500').errors[0].message).toBe('Only lower bounds are supported for stars:');
+      expect(parse('stars:lots').errors[0].message).toBe('Expected a number like stars:>500');
+    });
+
+    it('covers whole UTC days for dates', () => {
+      const parsed = parse('since:2025-01-01 until:2025-01-31');
+
+      expect(parsed.filters.dateFrom).toBe('2025-01-01T00:00:00.000Z');
+      expect(parsed.filters.dateTo).toBe('2025-01-31T23:59:59.999Z');
+    });
+
+    it('rejects dates that do not exist', () => {
+      const parsed = parse('since:2025-02-30');
+
+      expect(parsed.filters.dateFrom).toBeUndefined();
+      expect(parsed.errors).toHaveLength(1);
+    });
+  });
+
+  describe('relative dates', () => {
+    it('counts back from now', () => {
+      expect(parse('since:24h').filters.dateFrom).toBe('2025-11-09T15:30:00.000Z');
+      expect(parse('since:7d').filters.dateFrom).toBe('2025-11-03T15:30:00.000Z');
+      expect(parse('since:2w').filters.dateFrom).toBe('2025-10-27T15:30:00.000Z');
+    });
+
+    it('starts today at UTC midnight', () => {
+      expect(parse('since:today').filters.dateFrom).toBe('2025-11-10T00:00:00.000Z');
+    });
+
+    it('keeps the typed value for round trips', () => {
+      const parsed = parse('since:7d rust');
+
+      expect(parsed.since).toBe('7d');
+      expect(formatSearchQuery(parsed)).toBe('since:7d rust');
+    });
+  });
+
+  describe('errors', () => {
+    it('treats unknown prefixes as text', () => {
+      const parsed = parse('std::vector note: foo TODO: fix -draft:x');
+
+      expect(parsed.text).toBe('std::vector note: foo TODO: fix -draft:x');
+      expect(parsed.errors).toEqual([]);
+    });
+
+    it('does not read URLs as filters', () => {
+      expect(parse('https://example.com').text).toBe('https://example.com');
+    });
+
+    it('reports bad values with their position and keeps valid filters', () => {
+      const parsed = parse('lang:go registry:maven sort:newest');
+
+      expect(parsed.filters).toEqual({ languages: ['Go'] });
+      expect(parsed.errors).toEqual([
+        { message: 'Unknown registry "maven"; expected npm, pypi or crates', position: 17, length: 5 },
+        {
+          message: 'Unknown sort "newest"; expected relevance, trending, recent, popular, velocity',
+          position: 28,
+          length: 6,
+        },
+      ]);
+    });
+
+    it('points at the bad item of a list', () => {
+      const parsed = parse('via:hn,myspace');
+
+      expect(parsed.filters.origins).toEqual(['hackernews_api']);
+      expect(parsed.errors[0]).toMatchObject({ position: 7, length: 7 });
+    });
+
+    it('reports a filter without a value', () => {
+      expect(parse('lang: rust').errors[0]).toMatchObject({ message: 'Missing value for lang:', position: 0 });
+    });
+
+    it('reports an unknown mode', () => {
+      expect(parse('mode:fuzzy').errors[0].message).toBe('Unknown mode "fuzzy"; expected keyword, semantic, hybrid');
+    });
+  });
+});
+
+describe('applySearchQuery', () => {
+  it('keeps since: and until: as typed next to the dates they resolve to', () => {
+    const { filters } = applySearchQuery({ query: 'lang:rust since:7d until:today' }, NOW);
+
+    expect(filters).toMatchObject({
+      languages: ['Rust'],
+      since: '7d',
+      until: 'today',
+      dateFrom: '2025-11-03T15:30:00.000Z',
+      dateTo: '2025-11-10T00:00:00.000Z',
+    });
+    expect(filters.query).toBeUndefined();
+  });
+
+  it('resolves a saved relative range against the time it runs', () => {
+    const saved = { languages: ['Rust'], since: '7d' };
+    const weekLater = new Date(NOW.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    expect(applySearchQuery(saved, NOW).filters.dateFrom).toBe('2025-11-03T15:30:00.000Z');
+    expect(applySearchQuery(saved, weekLater).filters.dateFrom).toBe('2025-11-10T15:30:00.000Z');
+  });
+
+  it('leaves absolute dates without since: alone', () => {
+    const { filters } = applySearchQuery({ dateFrom: '2025-01-01T00:00:00.000Z' }, NOW);
+
+    expect(filters.dateFrom).toBe('2025-01-01T00:00:00.000Z');
+    expect(filters.dateTo).toBeUndefined();
+  });
+});
@@ -0,0 +1,455 @@
+import type { SearchFilters } from './search-manager';
+import { resolveSearchDate, searchDateRange } from '@/supabase/functions/_shared/search-dates';
+
+export interface QuerySyntaxError {
+  message: string;
+  position: number;
+  length: number;
+}
+
+export type QueryFilters = Pick<
+  SearchFilters,
+  | 'categories'
+  | 'tags'
+  | 'languages'
+  | 'sources'
+  | 'registries'
+  | 'origins'
+  | 'dateFrom'
+  | 'dateTo'
+  | 'minEngagement'
+  | 'sortBy'
+  | 'mode'
+>;
+
+export interface QueryParts {
+  /** Free text in websearch syntax: terms, "phrases" and -negations. */
+  text: string;
+  filters: QueryFilters;
+  /** `since:`/`until:` values as typed, so relative ranges survive a round trip. */
+  since?: string;
+  until?: string;
+}
+
+export interface ParsedSearchQuery extends QueryParts {
+  errors: QuerySyntaxError[];
+}
+
+type SearchSource = NonNullable<SearchFilters['sources']>[number];
+type Registry = NonNullable<SearchFilters['registries']>[number];
+type Origin = NonNullable<SearchFilters['origins']>[number];
+type SortOption = NonNullable<SearchFilters['sortBy']>;
+type SearchMode = NonNullable<SearchFilters['mode']>;
+type Field =
+  | 'language'
+  | 'source'
+  | 'registry'
+  | 'origin'
+  | 'tag'
+  | 'category'
+  | 'stars'
+  | 'since'
+  | 'until'
+  | 'sort'
+  | 'mode';
+
+const FIELD_ALIASES: Record<string, Field> = {
+  lang: 'language',
+  language: 'language',
+  source: 'source',
+  registry: 'registry',
+  origin: 'origin',
+  via: 'origin',
+  tag: 'tag',
+  topic: 'tag',
+  category: 'category',
+  cat: 'category',
+  stars: 'stars',
+  engagement: 'stars',
+  downloads: 'stars',
+  since: 'since',
+  until: 'until',
+  sort: 'sort',
+  mode: 'mode',
+};
+
+const SOURCE_ALIASES: Record<string, SearchSource> = {
+  x: 'x_trends',
+  twitter: 'x_trends',
+  trends: 'x_trends',
+  x_trends: 'x_trends',
+  github: 'github_repos',
+  gh: 'github_repos',
+  repos: 'github_repos',
+  github_repos: 'github_repos',
+  knowledge: 'knowledge_entries',
+  kb: 'knowledge_entries',
+  knowledge_entries: 'knowledge_entries',
+  packages: 'packages',
+  package: 'packages',
+  pkg: 'packages',
+  papers: 'papers',
+  paper: 'papers',
+  arxiv: 'papers',
+  research: 'papers',
+  feeds: 'feed_items',
+  feed: 'feed_items',
+  blogs: 'feed_items',
+  feed_items: 'feed_items',
+};
+
+const SOURCE_TOKENS: Record<SearchSource, string> = {
+  x_trends: 'x',
+  github_repos: 'github',
+  knowledge_entries: 'knowledge',
+  packages: 'packages',
+  papers: 'papers',
+  feed_items: 'feeds',
+};
+
+const REGISTRY_ALIASES: Record<string, Registry> = {
+  npm: 'npm',
+  pypi: 'pypi',
+  pip: 'pypi',
+  crates: 'crates',
+  'crates.io': 'crates',
+  cargo: 'crates',
+};
+
+const ORIGIN_ALIASES: Record<string, Origin> = {
+  x: 'x_api',
+  twitter: 'x_api',
+  hn: 'hackernews_api',
+  hackernews: 'hackernews_api',
+  reddit: 'reddit_api',
+  lobsters: 'lobsters_api',
+  mastodon: 'mastodon_trends',
+  fediverse: 'mastodon_trends',
+  bluesky: 'bluesky_feeds',
+  bsky: 'bluesky_feeds',
+};
+
+const ORIGIN_TOKENS: Record<Origin, string> = {
+  x_api: 'x',
+  hackernews_api: 'hn',
+  reddit_api: 'reddit',
+  lobsters_api: 'lobsters',
+  mastodon_trends: 'mastodon',
+  bluesky_feeds: 'bluesky',
+};
+
+const SORT_OPTIONS: SortOption[] = ['relevance', 'trending', 'recent', 'popular', 'velocity'];
+const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+/** GitHub reports languages with their display casing; `lang:` matching is exact. */
+const LANGUAGE_NAMES: Record<string, string> = {
+  c: 'C',
+  'c#': 'C#',
+  'c++': 'C++',
+  cpp: 'C++',
+  csharp: 'C#',
+  css: 'CSS',
+  dart: 'Dart',
+  elixir: 'Elixir',
+  go: 'Go',
+  golang: 'Go',
+  haskell: 'Haskell',
+  html: 'HTML',
+  java: 'Java',
+  javascript: 'JavaScript',
+  js: 'JavaScript',
+  'jupyter notebook': 'Jupyter Notebook',
+  kotlin: 'Kotlin',
+  lua: 'Lua',
+  php: 'PHP',
+  python: 'Python',
+  py: 'Python',
+  ruby: 'Ruby',
+  rust: 'Rust',
+  scala: 'Scala',
+  shell: 'Shell',
+  swift: 'Swift',
+  ts: 'TypeScript',
+  typescript: 'TypeScript',
+  zig: 'Zig',
+};
+
+function canonicalLanguage(value: string): string {
+  const known = LANGUAGE_NAMES[value.toLowerCase()];
+  if (known) return known;
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function readQuoted(input: string, start: number) {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    return { value: input.slice(start + 1), end: input.length, closed: false };
+  }
+  return { value: input.slice(start + 1, close), end: close + 1, closed: true };
+}
+
+function readWord(input: string, start: number) {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), end };
+}
+
+function pushUnique<T>(list: T[] | undefined, value: T): T[] {
+  const next = list || [];
+  return next.includes(value) ? next : [...next, value];
+}
+
+/**
+ * Parses the search box syntax, e.g.
+ * `lang:rust stars:>500 source:github since:7d mode:hybrid "vector database" -crypto`
+ * or `registry:npm downloads:>10000 bundler`, or `via:hn,reddit rust`.
+ * Filters become structured `SearchFilters`; everything else is passed
+ * through as websearch text, including words with an unknown prefix. Invalid
+ * filter values are dropped and reported with their character offset instead
+ * of failing the whole parse.
+ */
+export function parseSearchQuery(input: string, now: Date = new Date()): ParsedSearchQuery {
+  const text: string[] = [];
+  const filters: QueryFilters = {};
+  const errors: QuerySyntaxError[] = [];
+  let since: string | undefined;
+  let until: string | undefined;
+
+  const fail = (message: string, position: number, length: number) => {
+    errors.push({ message, position, length: Math.max(length, 1) });
+  };
+
+  const applyField = (field: Field, key: string, value: string, position: number) => {
+    if (
+      field === 'language' ||
+      field === 'source' ||
+      field === 'registry' ||
+      field === 'origin' ||
+      field === 'tag' ||
+      field === 'category'
+    ) {
+      let offset = position;
+      for (const rawItem of value.split(',')) {
+        const item = rawItem.trim();
+        const itemPosition = offset + rawItem.indexOf(item);
+        offset += rawItem.length + 1;
+        if (!item) continue;
+
+        if (field === 'language') {
+          filters.languages = pushUnique(filters.languages, canonicalLanguage(item));
+        } else if (field === 'tag') {
+          filters.tags = pushUnique(filters.tags, item.toLowerCase());
+        } else if (field === 'category') {
+          filters.categories = pushUnique(filters.categories, item.toLowerCase());
+        } else if (field === 'registry') {
+          const registry = REGISTRY_ALIASES[item.toLowerCase()];
+          if (registry) {
+            filters.registries = pushUnique(filters.registries, registry);
+          } else {
+            fail(`Unknown registry "${item}"; expected npm, pypi or crates`, itemPosition, item.length);
+          }
+        } else if (field === 'origin') {
+          const origin = ORIGIN_ALIASES[item.toLowerCase()];
+          if (origin) {
+            filters.origins = pushUnique(filters.origins, origin);
+          } else {
+            fail(
+              `Unknown origin "${item}"; expected x, hn, reddit, lobsters, mastodon or bluesky`,
+              itemPosition,
+              item.length
+            );
+          }
+        } else {
+          const source = SOURCE_ALIASES[item.toLowerCase()];
+          if (source) {
+            filters.sources = pushUnique(filters.sources, source);
+          } else {
+            fail(`Unknown source "${item}"; expected github, x, knowledge, packages, papers or feeds`, itemPosition, item.length);
+          }
+        }
+      }
+      return;
+    }
+
+    if (field === 'stars') {
+      if (/^<=?/.test(value)) {
+        fail(`Only lower bounds are supported for ${key}:`, position, value.length);
+        return;
+      }
+
+      const match = /^(>=|>|=)?(\d+)$/.exec(value);
+      if (!match) {
+        fail(`Expected a number like ${key}:>500`, position, value.length);
+        return;
+      }
+
+      const count = Number(match[2]);
+      filters.minEngagement = match[1] === '>' ? count + 1 : count;
+      return;
+    }
+
+    if (field === 'since' || field === 'until') {
+      const resolved = resolveSearchDate(value, now, field === 'since' ? 'start' : 'end');
+      if (!resolved) {
+        fail(`Expected a duration like 7d or a date like 2025-01-31 for ${key}:`, position, value.length);
+        return;
+      }
+
+      if (field === 'since') {
+        since = value;
+        filters.dateFrom = resolved;
+      } else {
+        until = value;
+        filters.dateTo = resolved;
+      }
+      return;
+    }
+
+    if (field === 'mode') {
+      const mode = value.toLowerCase() as SearchMode;
+      if (SEARCH_MODES.includes(mode)) {
+        filters.mode = mode;
+      } else {
+        fail(`Unknown mode "${value}"; expected ${SEARCH_MODES.join(', ')}`, position, value.length);
+      }
+      return;
+    }
+
+    const sort = value.toLowerCase() as SortOption;
+    if (SORT_OPTIONS.includes(sort)) {
+      filters.sortBy = sort;
+    } else {
+      fail(`Unknown sort "${value}"; expected ${SORT_OPTIONS.join(', ')}`, position, value.length);
+    }
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const phrase = readQuoted(input, i);
+      if (!phrase.closed) {
+        fail('Unterminated quoted phrase', i, input.length - i);
+      }
+      if (phrase.value.trim()) {
+        text.push(`${negated ? '-' : ''}"${phrase.value.trim()}"`);
+      }
+      i = phrase.end;
+      continue;
+    }
+
+    // Unknown prefixes are ordinary words: `std::vector`, `TODO: fix`, `note:`
+    const fieldMatch = /^([A-Za-z_]+):(?!\/\/)/.exec(input.slice(i));
+    const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+    if (!fieldMatch || !field) {
+      const word = readWord(input, i);
+      text.push(`${negated ? '-' : ''}${word.value}`);
+      i = word.end;
+      continue;
+    }
+
+    const key = fieldMatch[1].toLowerCase();
+    const valueStart = i + fieldMatch[0].length;
+    const quoted = input[valueStart] === '"';
+    const raw = quoted ? readQuoted(input, valueStart) : { ...readWord(input, valueStart), closed: true };
+    let value = raw.value.trim();
+    const valuePosition = quoted ? valueStart + 1 : valueStart;
+    i = raw.end;
+
+    // A quoted item may continue a list: tag:"machine learning",ai
+    if (quoted && raw.closed && input[i] === ',') {
+      const rest = readWord(input, i);
+      value += rest.value;
+      i = rest.end;
+    }
+
+    if (negated) {
+      fail(`Filters cannot be negated; remove the "-" before ${key}:`, start, 1);
+      continue;
+    }
+
+    if (!raw.closed) {
+      fail('Unterminated quoted value', valueStart, input.length - valueStart);
+      continue;
+    }
+
+    if (!value) {
+      fail(`Missing value for ${key}:`, start, fieldMatch[0].length);
+      continue;
+    }
+
+    applyField(field, key, value, valuePosition);
+  }
+
+  return { text: text.join(' '), filters, since, until, errors };
+}
+
+function formatValue(value: string): string {
+  return /[\s",]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/** Inverse of `parseSearchQuery`: renders filters back into the search box syntax. */
+export function formatSearchQuery(parts: QueryParts): string {
+  const { filters } = parts;
+  const tokens: string[] = [];
+
+  if (filters.sources && filters.sources.length > 0 && filters.sources.length < Object.keys(SOURCE_TOKENS).length) {
+    filters.sources.forEach((source) => tokens.push(`source:${SOURCE_TOKENS[source]}`));
+  }
+  filters.registries?.forEach((registry) => tokens.push(`registry:${registry}`));
+  filters.origins?.forEach((origin) => tokens.push(`via:${ORIGIN_TOKENS[origin]}`));
+  filters.languages?.forEach((language) => tokens.push(`lang:${formatValue(language)}`));
+  filters.categories?.forEach((category) => tokens.push(`category:${formatValue(category)}`));
+  filters.tags?.forEach((tag) => tokens.push(`tag:${formatValue(tag)}`));
+
+  if (filters.minEngagement && filters.minEngagement > 0) {
+    tokens.push(`stars:>=${filters.minEngagement}`);
+  }
+  if (parts.since) tokens.push(`since:${parts.since}`);
+  if (parts.until) tokens.push(`until:${parts.until}`);
+  if (filters.sortBy && filters.sortBy !== 'relevance') {
+    tokens.push(`sort:${filters.sortBy}`);
+  }
+  if (filters.mode && filters.mode !== 'keyword') {
+    tokens.push(`mode:${filters.mode}`);
+  }
+
+  if (parts.text.trim()) tokens.push(parts.text.trim());
+
+  return tokens.join(' ');
+}
+
+/**
+ * Expands structured syntax in `filters.query`. Filters written in the query
+ * take precedence over the same fields passed alongside it. `since`/`until`
+ * are kept as typed and resolved against `now`, also for saved filters that
+ * have no query left.
+ */
+export function applySearchQuery(
+  filters: SearchFilters,
+  now: Date = new Date()
+): { filters: SearchFilters; errors: QuerySyntaxError[] } {
+  const parsed = filters.query ? parseSearchQuery(filters.query, now) : null;
+  const expanded: SearchFilters = parsed
+    ? {
+        ...filters,
+        ...parsed.filters,
+        since: parsed.since || filters.since,
+        until: parsed.until || filters.until,
+        query: parsed.text || undefined,
+      }
+    : filters;
+
+  return {
+    filters: { ...expanded, ...searchDateRange(expanded, now) },
+    errors: parsed ? parsed.errors : [],
+  };
+}
@@ -0,0 +1,26 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let supabaseAdmin: SupabaseClient | null = null;
+
+/**
+ * Service role client for server code calling functions closed to the anon
+ * key. Created on first use, so pages that import a module using it do not
+ * need the key unless they call it; the key must never reach the browser.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!supabaseAdmin) {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+    }
+
+    supabaseAdmin = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+  }
+
+  return supabaseAdmin;
+}
@@ -5,24 +5,191 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type TrendSource =
+  | 'x_api'
+  | 'hackernews_api'
+  | 'reddit_api'
+  | 'lobsters_api'
+  | 'mastodon_trends'
+  | 'bluesky_feeds';
+
+/** What a trend's `tweet_count` counts at its source. */
+export type TrendMetricType = 'posts' | 'points' | 'comments' | 'reactions';
+
 export interface XTrend {
   id: string;
   trend_name: string;
+  trend_key: string;
   tweet_count: number;
   url: string;
   category: string;
+  source: string;
+  /** The item's ID at its source; null for X trends. */
+  source_item_id: string | null;
+  metric_type: TrendMetricType;
+  rank: number | null;
+  first_seen_at: string;
   fetched_at: string;
   created_at: string;
 }
 
+export interface TrendObservation {
+  id: string;
+  trend_id: string;
+  source: string;
+  metric_type: TrendMetricType;
+  rank: number | null;
+  tweet_count: number;
+  fetched_at: string;
+}
+
+export interface TrendVolumeVelocity {
+  trend_id: string;
+  observation_count: number;
+  volume_per_hour: number;
+  rank_per_hour: number;
+}
+
 export interface GitHubRepo {
   id: string;
   repo_name: string;
   description: string;
   stars: number;
+  forks: number;
+  open_issues: number;
   language: string;
   url: string;
   topics: string[];
+  first_seen_at: string;
+  fetched_at: string;
+  created_at: string;
+}
+
+export interface RepoSnapshot {
+  id: string;
+  repo_id: string;
+  stars: number;
+  forks: number;
+  open_issues: number;
+  fetched_at: string;
+}
+
+export interface RepoStarVelocity {
+  repo_id: string;
+  current_stars: number;
+  baseline_stars: number;
+  star_delta: number;
+  window_hours: number;
+  stars_per_hour: number;
+  latest_fetched_at: string;
+}
+
+export type PackageRegistry = 'npm' | 'pypi' | 'crates';
+
+export interface Package {
+  id: string;
+  registry: PackageRegistry;
+  name: string;
+  description: string | null;
+  latest_version: string | null;
+  keywords: string[];
+  repository_url: string | null;
+  homepage_url: string | null;
+  url: string;
+  repo_full_name: string | null;
+  repo_id: string | null;
+  weekly_downloads: number;
+  total_downloads: number | null;
+  is_tracked: boolean;
+  first_seen_at: string;
+  fetched_at: string;
+  created_at: string;
+}
+
+export interface PackageDownloadSnapshot {
+  id: string;
+  package_id: string;
+  weekly_downloads: number;
+  total_downloads: number | null;
+  latest_version: string | null;
+  fetched_at: string;
+}
+
+export interface PackageDownloadVelocity {
+  package_id: string;
+  current_weekly_downloads: number;
+  baseline_weekly_downloads: number;
+  download_delta: number;
+  window_hours: number;
+  downloads_delta_per_hour: number;
+  growth_pct: number;
+  latest_fetched_at: string;
+}
+
+export interface Paper {
+  id: string;
+  arxiv_id: string;
+  version: number;
+  title: string;
+  abstract: string;
+  authors: string[];
+  categories: string[];
+  primary_category: string | null;
+  comment: string | null;
+  doi: string | null;
+  journal_ref: string | null;
+  url: string;
+  pdf_url: string | null;
+  published_at: string;
+  revised_at: string | null;
+  first_seen_at: string;
+  fetched_at: string;
+  created_at: string;
+}
+
+export interface PaperRepoLink {
+  paper_id: string;
+  repo_id: string;
+  arxiv_id: string;
+  repo_name: string;
+  stars: number;
+  repo_url: string;
+  cited_in_description: boolean;
+  cited_in_readme: boolean;
+}
+
+export type LinkableItemType = 'x_trend' | 'github_repo' | 'package' | 'paper' | 'feed_item';
+
+/** A row of the `item_links` view: an item sharing an entity with `item_id`. */
+export interface ItemLink {
+  item_type: LinkableItemType;
+  item_id: string;
+  linked_type: LinkableItemType;
+  linked_id: string;
+  entity_type: 'repo' | 'paper' | 'url' | 'title';
+  title: string;
+  url: string | null;
+  /** Trend origin, `github`, package registry, `arxiv` or feed title. */
+  source: string | null;
+  engagement: number | null;
+  metric_type: string | null;
+  item_timestamp: string | null;
+}
+
+export interface FeedItem {
+  id: string;
+  /** The feed's `data_sources.source_name`. */
+  source_name: string;
+  guid: string;
+  feed_title: string;
+  title: string;
+  url: string | null;
+  summary: string;
+  author: string | null;
+  categories: string[];
+  category: string;
+  published_at: string | null;
+  first_seen_at: string;
   fetched_at: string;
   created_at: string;
 }
@@ -0,0 +1,103 @@
+import { supabase, TrendMetricType, TrendObservation } from './supabase';
+
+export interface TrendLifetime {
+  trendId: string;
+  trendName: string;
+  source: string;
+  /** Unit of the tweet counts; peak and slopes only cover observations in it. */
+  metricType: TrendMetricType;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  observationCount: number;
+  peak: {
+    tweetCount: number | null;
+    at: string | null;
+    bestRank: number | null;
+  };
+  current: {
+    tweetCount: number;
+    rank: number | null;
+  };
+  window: {
+    hours: number;
+    volumeSlopePerHour: number | null;
+    rankSlopePerHour: number | null;
+  };
+  observations: TrendObservation[];
+}
+
+/** The id of the trend named `topic`, or null when there is none; database errors throw. */
+export async function findTrendIdByName(topic: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('x_trends')
+    .select('id')
+    .eq('trend_key', topic.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving trend topic:', error);
+    throw error;
+  }
+
+  return data?.id || null;
+}
+
+/**
+ * Lifetime of the trend over the last `hours`, which callers validate
+ * (`TrendLifetimeQuerySchema`). Null means the trend does not exist; database
+ * errors throw so routes can answer 500 rather than 404.
+ */
+export async function getTrendLifetime(
+  trendId: string,
+  hours = 24
+): Promise<TrendLifetime | null> {
+  const { data, error } = await supabase
+    .rpc('get_trend_lifetime', { p_trend_id: trendId, p_hours: hours })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching trend lifetime:', error);
+    throw error;
+  }
+
+  if (!data) return null;
+
+  const row = data as Record<string, any>;
+
+  const { data: observations, error: observationsError } = await supabase
+    .from('trend_observations')
+    .select('*')
+    .eq('trend_id', trendId)
+    .gte('fetched_at', new Date(Date.now() - hours * 60 * 60 * 1000).toISOString())
+    .order('fetched_at', { ascending: true });
+
+  if (observationsError) {
+    console.error('Error fetching trend observations:', observationsError);
+    throw observationsError;
+  }
+
+  return {
+    trendId: row.trend_id,
+    trendName: row.trend_name,
+    source: row.source,
+    metricType: row.metric_type,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    observationCount: Number(row.observation_count),
+    peak: {
+      tweetCount: row.peak_tweet_count,
+      at: row.peak_at,
+      bestRank: row.best_rank,
+    },
+    current: {
+      tweetCount: row.current_tweet_count,
+      rank: row.current_rank,
+    },
+    window: {
+      hours: row.window_hours,
+      volumeSlopePerHour: row.volume_slope_per_hour,
+      rankSlopePerHour: row.rank_slope_per_hour,
+    },
+    observations: (observations || []) as TrendObservation[],
+  };
+}
@@ -0,0 +1,13 @@
+import { lookup } from 'dns/promises';
+import { webhookTargetError } from '@/supabase/functions/_shared/webhooks/targets';
+
+/**
+ * Server only: the check the dispatchers make before each send, with the
+ * host resolved by the system resolver. Null when the URL may be saved.
+ */
+export function checkWebhookUrl(url: string): Promise<string | null> {
+  return webhookTargetError(url, async (hostname) => {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.map((address) => address.address);
+  });
+}
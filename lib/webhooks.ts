@@ -0,0 +1,202 @@
+import { supabaseAuth } from './supabase-auth';
+import type { SearchFilters } from './search-manager';
+import { applySearchQuery } from './search-query';
+import { webhookUrlError } from '@/supabase/functions/_shared/webhooks/targets';
+
+export type WebhookEventType = 'trend.created' | 'repo.created' | 'knowledge.created';
+
+export const WEBHOOK_EVENT_TYPES: Array<{ value: WebhookEventType; label: string }> = [
+  { value: 'trend.created', label: 'New trends' },
+  { value: 'repo.created', label: 'New GitHub repos' },
+  { value: 'knowledge.created', label: 'New knowledge entries' },
+];
+
+const SECRET_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  eventTypes: WebhookEventType[];
+  filters: SearchFilters;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventType: WebhookEventType;
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed';
+  attemptCount: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, (byte) => SECRET_ALPHABET[byte % SECRET_ALPHABET.length]).join('')}`;
+}
+
+function mapSubscription(item: any): WebhookSubscription {
+  return {
+    id: item.id,
+    name: item.name,
+    url: item.url,
+    secret: item.secret,
+    eventTypes: item.event_types,
+    filters: item.filters || {},
+    isActive: item.is_active,
+    createdAt: item.created_at,
+  };
+}
+
+/**
+ * Null when `url` may receive webhooks. The browser cannot resolve names, so
+ * the server checks the addresses the host resolves to.
+ */
+async function webhookUrlProblem(url: string): Promise<string | null> {
+  const urlError = webhookUrlError(url);
+  if (urlError) return urlError;
+
+  const { data: { session } } = await supabaseAuth.auth.getSession();
+  const response = await fetch('/api/webhooks/check-url', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token}`,
+    },
+    body: JSON.stringify({ url }),
+  });
+  const result = await response.json();
+
+  return result.success ? null : result.error || 'Webhook URL could not be checked';
+}
+
+/**
+ * Subscribes the signed-in user to events. Filters use the search syntax and
+ * are stored expanded, like saved searches; only the per-item predicates
+ * (query text, sources, origins, categories, tags, languages, minEngagement) apply.
+ */
+export async function createWebhook(
+  userId: string,
+  name: string,
+  url: string,
+  eventTypes: WebhookEventType[],
+  filters: SearchFilters = {}
+): Promise<WebhookSubscription | null> {
+  const expanded = applySearchQuery(filters);
+  if (expanded.errors.length > 0) {
+    console.error('Cannot create webhook with invalid filter query:', expanded.errors);
+    return null;
+  }
+
+  const { query, sources, origins, categories, tags, languages, minEngagement } = expanded.filters;
+
+  try {
+    const urlProblem = await webhookUrlProblem(url);
+    if (urlProblem) {
+      console.error('Cannot create webhook:', urlProblem);
+      return null;
+    }
+
+    const { data, error } = await supabaseAuth
+      .from('webhook_subscriptions')
+      .insert({
+        user_id: userId,
+        name,
+        url,
+        secret: generateSecret(),
+        event_types: eventTypes,
+        filters: { query, sources, origins, categories, tags, languages, minEngagement },
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapSubscription(data);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return null;
+  }
+}
+
+export async function getWebhooks(): Promise<WebhookSubscription[]> {
+  try {
+    const { data, error } = await supabaseAuth
+      .from('webhook_subscriptions')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapSubscription);
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return [];
+  }
+}
+
+export async function setWebhookActive(id: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabaseAuth
+      .from('webhook_subscriptions')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return false;
+  }
+}
+
+export async function deleteWebhook(id: string): Promise<boolean> {
+  try {
+    const { error } = await supabaseAuth
+      .from('webhook_subscriptions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return false;
+  }
+}
+
+/** Most recent delivery attempts across the user's webhooks, newest first. */
+export async function getWebhookDeliveries(limit = 20): Promise<WebhookDelivery[]> {
+  try {
+    const { data, error } = await supabaseAuth
+      .from('webhook_deliveries')
+      .select('id, subscription_id, event_type, status, attempt_count, next_attempt_at, last_status_code, last_error, delivered_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map((item) => ({
+      id: item.id,
+      subscriptionId: item.subscription_id,
+      eventType: item.event_type,
+      status: item.status,
+      attemptCount: item.attempt_count,
+      nextAttemptAt: item.next_attempt_at,
+      lastStatusCode: item.last_status_code,
+      lastError: item.last_error,
+      deliveredAt: item.delivered_at,
+      createdAt: item.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return [];
+  }
+}
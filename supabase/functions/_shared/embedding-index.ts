@@ -0,0 +1,110 @@
+import type { Supabase } from './sources/types.ts';
+import { createEmbeddingProvider, EmbeddingProvider, toVectorLiteral } from './embeddings.ts';
+
+interface IndexedTable {
+  table: string;
+  columns: string;
+  text(row: Record<string, any>): string;
+}
+
+const INDEXED_TABLES: IndexedTable[] = [
+  {
+    table: 'x_trends',
+    columns: 'id, trend_name, category',
+    text: (row) => `${row.trend_name} ${row.category || ''}`,
+  },
+  {
+    table: 'github_repos',
+    columns: 'id, repo_name, description, language, topics',
+    text: (row) =>
+      [
+        row.repo_name.replace(/[/_-]+/g, ' '),
+        row.description || '',
+        row.language || '',
+        (row.topics || []).join(' '),
+      ].join(' '),
+  },
+  {
+    table: 'knowledge_entries',
+    columns: 'id, title, content, tags',
+    text: (row) => `${row.title} ${row.content} ${(row.tags || []).join(' ')}`,
+  },
+  {
+    table: 'packages',
+    columns: 'id, name, description, keywords',
+    text: (row) =>
+      [
+        row.name.replace(/[@/_.-]+/g, ' '),
+        row.description || '',
+        (row.keywords || []).join(' '),
+      ].join(' '),
+  },
+  {
+    table: 'papers',
+    columns: 'id, title, abstract',
+    text: (row) => `${row.title} ${row.abstract || ''}`,
+  },
+  {
+    table: 'feed_items',
+    columns: 'id, title, summary',
+    text: (row) => `${row.title} ${row.summary || ''}`,
+  },
+];
+
+export function embeddingProviderFromEnv(): EmbeddingProvider {
+  return createEmbeddingProvider({
+    provider: Deno.env.get('EMBEDDING_PROVIDER') || undefined,
+    url: Deno.env.get('EMBEDDING_API_URL') || undefined,
+    model: Deno.env.get('EMBEDDING_MODEL') || undefined,
+    apiKey: Deno.env.get('EMBEDDING_API_KEY') || undefined,
+  });
+}
+
+/**
+ * Embeds rows that have no embedding yet or were embedded by a different
+ * model. Text edits clear `embedding` in the database, so changed rows are
+ * picked up here too.
+ */
+export async function embedPendingRows(
+  supabase: Supabase,
+  provider: EmbeddingProvider,
+  batchSize = 100
+): Promise<Record<string, number>> {
+  const embedded: Record<string, number> = {};
+
+  for (const indexed of INDEXED_TABLES) {
+    const { data, error } = await supabase
+      .from(indexed.table)
+      .select(indexed.columns)
+      .or(`embedding.is.null,embedding_model.neq.${provider.model}`)
+      .limit(batchSize);
+
+    if (error) throw error;
+
+    const rows = (data || []) as Record<string, any>[];
+    if (rows.length === 0) {
+      embedded[indexed.table] = 0;
+      continue;
+    }
+
+    const vectors = await provider.embed(rows.map(indexed.text));
+    const embeddedAt = new Date().toISOString();
+
+    for (let i = 0; i < rows.length; i++) {
+      const { error: updateError } = await supabase
+        .from(indexed.table)
+        .update({
+          embedding: toVectorLiteral(vectors[i]),
+          embedding_model: provider.model,
+          embedded_at: embeddedAt,
+        })
+        .eq('id', rows[i].id);
+
+      if (updateError) throw updateError;
+    }
+
+    embedded[indexed.table] = rows.length;
+  }
+
+  return embedded;
+}
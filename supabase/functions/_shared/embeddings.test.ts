@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import {
+  createEmbeddingProvider,
+  createHashingEmbedder,
+  EMBEDDING_DIMENSIONS,
+  toVectorLiteral,
+} from './embeddings.ts';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+const QUERY = 'llm inference server';
+const DOCUMENTS = {
+  exact: { title: 'LLM inference server', content: 'Serve large language models with continuous batching' },
+  related: { title: 'Fast LLM inference', content: 'Quantized models on one GPU' },
+  unrelated: { title: 'Sourdough bread', content: 'Slow fermentation at home baking' },
+};
+
+Deno.test('the hashing embedder gives identical vectors for identical input', async () => {
+  const texts = [QUERY, DOCUMENTS.exact.content, ''];
+  const first = await createHashingEmbedder().embed(texts);
+  const second = await createHashingEmbedder().embed(texts);
+
+  assert.deepEqual(first, second);
+  assert.deepEqual(first.map(toVectorLiteral), second.map(toVectorLiteral));
+  assert.equal(createHashingEmbedder().model, 'hashing-v1-384');
+});
+
+Deno.test('the hashing embedder ignores case, punctuation and stopwords', async () => {
+  const [plain, styled] = await createHashingEmbedder().embed([QUERY, 'The LLM, Inference & Server!']);
+
+  assert.deepEqual(styled, plain);
+});
+
+Deno.test('hashing vectors are unit length at the column width', async () => {
+  const [vector, empty] = await createHashingEmbedder().embed([QUERY, '']);
+
+  assert.equal(vector.length, EMBEDDING_DIMENSIONS);
+  assert.ok(Math.abs(cosine(vector, vector) - 1) < 1e-9);
+  // Nothing to hash leaves the zero vector rather than dividing by zero
+  assert.ok(empty.every((value) => value === 0));
+});
+
+Deno.test('shared vocabulary and word forms score above unrelated text', async () => {
+  const [query, exact, related, unrelated, plural, singular] = await createHashingEmbedder().embed([
+    QUERY,
+    `${DOCUMENTS.exact.title} ${DOCUMENTS.exact.content}`,
+    `${DOCUMENTS.related.title} ${DOCUMENTS.related.content}`,
+    `${DOCUMENTS.unrelated.title} ${DOCUMENTS.unrelated.content}`,
+    'servers',
+    'server',
+  ]);
+
+  assert.ok(cosine(query, exact) > cosine(query, related));
+  // Above unified_search's 0.2 similarity cut-off, so semantic search finds it
+  assert.ok(cosine(query, related) > 0.2);
+  assert.ok(cosine(query, unrelated) < 0.2);
+  assert.ok(cosine(plural, singular) > 0.2);
+});
+
+Deno.test('createEmbeddingProvider defaults to hashing and rejects unknown providers', () => {
+  assert.equal(createEmbeddingProvider().model, createHashingEmbedder().model);
+  assert.throws(() => createEmbeddingProvider({ provider: 'word2vec' }), /Unknown embedding provider "word2vec"/);
+  assert.throws(() => createEmbeddingProvider({ provider: 'openai-compatible' }), /needs a url and a model/);
+});
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Runs against a local database with the migrations applied: `supabase start`
+// and export the URL and service role key it prints
+Deno.test({
+  name: 'hybrid search blends text rank and similarity equally',
+  ignore: !supabaseUrl || !serviceRoleKey,
+  async fn() {
+    const { createClient } = await import('npm:@supabase/supabase-js@2.58.0');
+    const supabase = createClient(supabaseUrl!, serviceRoleKey!, { auth: { persistSession: false } });
+    const embedder = createHashingEmbedder();
+    // A category of its own keeps other rows out of the results
+    const category = `embeddings-test-${crypto.randomUUID()}`;
+
+    const entries = Object.values(DOCUMENTS);
+    const vectors = await embedder.embed(entries.map((entry) => `${entry.title} ${entry.content} `));
+    const { data: rows, error } = await supabase
+      .from('knowledge_entries')
+      .insert(entries.map((entry, i) => ({
+        ...entry,
+        source: 'test',
+        category,
+        tags: [],
+        verified: true,
+        embedding: toVectorLiteral(vectors[i]),
+        embedding_model: embedder.model,
+      })))
+      .select('id, title');
+    if (error) throw error;
+
+    const idOf = (title: string) => rows!.find((row: { title: string }) => row.title === title)!.id;
+
+    try {
+      const [queryVector] = await embedder.embed([QUERY]);
+      const search = async (mode: string) => {
+        const { data, error: searchError } = await supabase.rpc('unified_search', {
+          p_query: QUERY,
+          p_sources: ['knowledge_entries'],
+          p_categories: [category],
+          p_mode: mode,
+          p_query_embedding: mode === 'keyword' ? null : toVectorLiteral(queryVector),
+        });
+        if (searchError) throw searchError;
+        return data.results as Array<Record<string, any>>;
+      };
+
+      const hybrid = await search('hybrid');
+      assert.deepEqual(hybrid.map((row) => row.item_id), [idOf(DOCUMENTS.exact.title), idOf(DOCUMENTS.related.title)]);
+
+      for (const row of hybrid) {
+        const textScore = row.source_best_rank > 0
+          ? (row.text_rank / row.source_best_rank) * (row.fuzzy ? 0.5 : 1)
+          : 0;
+        const expected = 0.5 * textScore + 0.5 * Math.max(row.semantic_similarity, 0);
+        assert.ok(Math.abs(row.relevance_score - expected) < 1e-6, `${row.item_id}: ${row.relevance_score}`);
+      }
+
+      // The related entry shares no phrase with the query, so only similarity finds it
+      assert.deepEqual((await search('keyword')).map((row) => row.item_id), [idOf(DOCUMENTS.exact.title)]);
+
+      const semantic = await search('semantic');
+      assert.deepEqual(semantic.map((row) => row.item_id), hybrid.map((row) => row.item_id));
+      assert.ok(Math.abs(semantic[1].semantic_similarity - cosine(queryVector, vectors[1])) < 1e-4);
+    } finally {
+      await supabase.from('knowledge_entries').delete().eq('category', category);
+    }
+  },
+});
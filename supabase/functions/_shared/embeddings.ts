@@ -0,0 +1,147 @@
+/**
+ * Embedding providers shared by the edge functions (which index rows) and the
+ * Next.js app (which embeds queries). Keep this file free of imports and
+ * runtime globals so both can load it.
+ */
+
+/** Width of the `embedding` columns; every provider must produce this many dimensions. */
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+  /** Stored in `embedding_model`; rows embedded by another model are re-indexed. */
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  /** Provider name, `hashing` when unset. */
+  provider?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. a local Ollama or llama.cpp. */
+  url?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Deterministic feature-hashing embedder: words, word bigrams and character
+ * trigrams are hashed into a fixed-width signed vector. It needs no network
+ * or model files, which makes it the default for development and tests; it
+ * captures shared vocabulary and word forms, not meaning.
+ */
+export function createHashingEmbedder(dimensions = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  const addFeature = (vector: number[], feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .split(/[\s!-\/:-@[-`{-~]+/)
+      .filter((word) => word.length > 1 && !STOPWORDS.has(word));
+
+    words.forEach((word, index) => {
+      addFeature(vector, `w:${word}`, 1);
+      if (index > 0) addFeature(vector, `b:${words[index - 1]} ${word}`, 0.5);
+
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    return normalize(vector);
+  };
+
+  return {
+    model: `hashing-v1-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+/** Any server implementing `POST /v1/embeddings` (OpenAI, Ollama, llama.cpp, vLLM). */
+export function createOpenAICompatibleEmbedder(config: EmbeddingConfig): EmbeddingProvider {
+  if (!config.url || !config.model) {
+    throw new Error('Embedding provider "openai-compatible" needs a url and a model');
+  }
+
+  const endpoint = `${config.url.replace(/\/+$/, '')}/v1/embeddings`;
+
+  return {
+    model: config.model,
+    dimensions: EMBEDDING_DIMENSIONS,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: config.model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: ${response.status}`);
+      }
+
+      const body = await response.json();
+      const vectors: number[][] = body.data.map((item: { embedding: number[] }) => item.embedding);
+
+      if (vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)) {
+        throw new Error(`Model ${config.model} does not produce ${EMBEDDING_DIMENSIONS}-dimension embeddings`);
+      }
+
+      return vectors.map(normalize);
+    },
+  };
+}
+
+const providers = new Map<string, (config: EmbeddingConfig) => EmbeddingProvider>([
+  ['hashing', () => createHashingEmbedder()],
+  ['openai-compatible', createOpenAICompatibleEmbedder],
+]);
+
+export function registerEmbeddingProvider(
+  name: string,
+  factory: (config: EmbeddingConfig) => EmbeddingProvider
+) {
+  providers.set(name, factory);
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig = {}): EmbeddingProvider {
+  const name = config.provider || 'hashing';
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${name}"`);
+  }
+  return factory(config);
+}
+
+/** pgvector's text input format. */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.map((value) => Number(value.toFixed(6))).join(',')}]`;
+}
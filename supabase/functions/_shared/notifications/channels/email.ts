@@ -0,0 +1,27 @@
+import type { NotificationChannel } from '../types.ts';
+import { sendMail, smtpConfigFromEnv } from '../smtp.ts';
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+
+  async deliver(notification, recipient) {
+    if (!recipient.email) {
+      return { status: 'skipped', error: 'User has no email address' };
+    }
+
+    const lines = notification.items.map((item) =>
+      item.url ? `- ${item.title}\n  ${item.url}` : `- ${item.title}`
+    );
+
+    try {
+      await sendMail(smtpConfigFromEnv(), {
+        to: recipient.email,
+        subject: notification.title,
+        text: `${notification.body}\n\n${lines.join('\n')}\n`,
+      });
+      return { status: 'sent' };
+    } catch (error) {
+      return { status: 'failed', error: error.message };
+    }
+  },
+};
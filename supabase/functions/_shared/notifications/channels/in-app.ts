@@ -0,0 +1,10 @@
+import type { NotificationChannel } from '../types.ts';
+
+/** The `notifications` row is the in-app notification, so there is nothing left to send. */
+export const inAppChannel: NotificationChannel = {
+  name: 'in_app',
+
+  async deliver() {
+    return { status: 'sent' };
+  },
+};
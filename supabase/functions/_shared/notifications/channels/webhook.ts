@@ -0,0 +1,47 @@
+import type { NotificationChannel } from '../types.ts';
+import { checkWebhookTarget } from '../../webhooks/dns.ts';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const webhookChannel: NotificationChannel = {
+  name: 'webhook',
+
+  async deliver(notification, recipient) {
+    if (!recipient.webhookUrl) {
+      return { status: 'skipped', error: 'Saved search has no webhook URL' };
+    }
+
+    const targetError = await checkWebhookTarget(recipient.webhookUrl);
+    if (targetError) {
+      return { status: 'failed', error: targetError };
+    }
+
+    try {
+      const response = await fetch(recipient.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event: 'saved_search.match',
+          notification: {
+            id: notification.id,
+            saved_search_id: notification.savedSearchId,
+            title: notification.title,
+            body: notification.body,
+            items: notification.items,
+            created_at: notification.createdAt,
+          },
+        }),
+        // A redirect target has not been checked, so it counts as a failure
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+
+      return response.ok
+        ? { status: 'sent' }
+        : { status: 'failed', error: `Webhook returned ${response.status}` };
+    } catch (error) {
+      return { status: 'failed', error: error.message };
+    }
+  },
+};
@@ -0,0 +1,68 @@
+import type { Supabase } from '../sources/types.ts';
+import type {
+  DeliveryResult,
+  NotificationChannel,
+  NotificationRecipient,
+  NotificationRecord,
+} from './types.ts';
+import { inAppChannel } from './channels/in-app.ts';
+import { emailChannel } from './channels/email.ts';
+import { webhookChannel } from './channels/webhook.ts';
+
+const channels = new Map<string, NotificationChannel>();
+
+export function registerChannel(channel: NotificationChannel) {
+  channels.set(channel.name, channel);
+}
+
+export function getChannel(name: string): NotificationChannel | undefined {
+  return channels.get(name);
+}
+
+registerChannel(inAppChannel);
+registerChannel(emailChannel);
+registerChannel(webhookChannel);
+
+/**
+ * Sends a stored notification through each requested channel and records
+ * every outcome in `notification_deliveries`. A failing channel does not
+ * stop the others.
+ */
+export async function deliverNotification(
+  supabase: Supabase,
+  notification: NotificationRecord,
+  channelNames: string[],
+  recipient: NotificationRecipient
+): Promise<Record<string, DeliveryResult>> {
+  const results: Record<string, DeliveryResult> = {};
+
+  for (const name of new Set(channelNames)) {
+    const channel = getChannel(name);
+
+    let result: DeliveryResult;
+    if (!channel) {
+      result = { status: 'failed', error: `Unknown notification channel "${name}"` };
+    } else {
+      try {
+        result = await channel.deliver(notification, recipient, supabase);
+      } catch (error) {
+        result = { status: 'failed', error: error.message };
+      }
+    }
+
+    results[name] = result;
+
+    const { error } = await supabase.from('notification_deliveries').insert({
+      notification_id: notification.id,
+      channel: name,
+      status: result.status,
+      error_message: result.error || null,
+    });
+
+    if (error) {
+      console.error(`Error recording ${name} delivery:`, error);
+    }
+  }
+
+  return results;
+}
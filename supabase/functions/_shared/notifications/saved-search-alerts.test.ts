@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import type { Supabase } from '../sources/types.ts';
+import { evaluateSavedSearches } from './saved-search-alerts.ts';
+
+/** A query builder that accepts any chain of calls and resolves to `result`. */
+function query(result: Record<string, unknown>) {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  for (const method of ['select', 'eq', 'not', 'order', 'in', 'update', 'upsert']) {
+    builder[method] = () => builder;
+  }
+  return builder;
+}
+
+/** One saved search on its first run, recording the arguments of each `unified_search` call. */
+function fakeSupabase(search: Record<string, unknown>) {
+  const searches: Array<Record<string, unknown>> = [];
+  const supabase = {
+    rpc: (_name: string, args: Record<string, unknown>) => {
+      searches.push(args);
+      return Promise.resolve({ data: { results: [] }, error: null });
+    },
+    from: (table: string) => query({ data: table === 'saved_searches' ? [search] : [], error: null }),
+  };
+
+  return { supabase: supabase as unknown as Supabase, searches };
+}
+
+const savedSearch = (searchQuery: string, filters: Record<string, unknown>) => ({
+  id: 'search-1',
+  user_id: 'user-1',
+  name: 'Rust repos',
+  search_query: searchQuery,
+  filters,
+  notification_channels: ['in_app'],
+  webhook_url: null,
+  last_evaluated_at: null,
+});
+
+Deno.test('an operator-only search runs its filters without free text', async () => {
+  const { supabase, searches } = fakeSupabase(
+    savedSearch('lang:rust stars:>500', { languages: ['Rust'], minEngagement: 501 })
+  );
+
+  const summary = await evaluateSavedSearches(supabase);
+
+  assert.deepEqual(summary.errors, []);
+  assert.equal(searches[0].p_query, null);
+  assert.deepEqual(searches[0].p_languages, ['Rust']);
+  assert.equal(searches[0].p_min_engagement, 501);
+});
+
+Deno.test('a search with words runs only the words as free text', async () => {
+  const { supabase, searches } = fakeSupabase(
+    savedSearch('lang:rust async runtime', { languages: ['Rust'], query: 'async runtime' })
+  );
+
+  await evaluateSavedSearches(supabase);
+
+  assert.equal(searches[0].p_query, 'async runtime');
+});
+
+Deno.test('a relative since: is resolved when the search runs', async () => {
+  const { supabase, searches } = fakeSupabase(
+    savedSearch('lang:rust since:7d', { languages: ['Rust'], since: '7d' })
+  );
+
+  const before = Date.now();
+  await evaluateSavedSearches(supabase);
+
+  const windowMs = before - new Date(searches[0].p_date_from as string).getTime();
+  assert.ok(windowMs >= 7 * 24 * 60 * 60 * 1000 - 5_000 && windowMs <= 7 * 24 * 60 * 60 * 1000, `${windowMs}ms`);
+  assert.equal(searches[0].p_date_to, null);
+});
@@ -0,0 +1,210 @@
+import type { Supabase } from '../sources/types.ts';
+import type { AlertItem, NotificationRecord } from './types.ts';
+import { deliverNotification } from './registry.ts';
+import { embeddingProviderFromEnv } from '../embedding-index.ts';
+import { toVectorLiteral } from '../embeddings.ts';
+import { searchDateRange } from '../search-dates.ts';
+
+/** Newest matches considered per run; older items have been seen by then. */
+const ALERT_WINDOW = 50;
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  search_query: string;
+  filters: Record<string, any> | null;
+  notification_channels: string[] | null;
+  webhook_url: string | null;
+  last_evaluated_at: string | null;
+}
+
+interface SearchRow {
+  item_type: AlertItem['type'];
+  item_id: string;
+  record: Record<string, any>;
+}
+
+export interface AlertRunSummary {
+  evaluated: number;
+  notified: number;
+  newMatches: number;
+  errors: string[];
+}
+
+function toAlertItem(row: SearchRow): AlertItem {
+  return {
+    type: row.item_type,
+    id: row.item_id,
+    title: row.record.trend_name || row.record.repo_name || row.record.title || row.record.name || 'Untitled',
+    url: row.record.url || row.record.source_url || null,
+  };
+}
+
+/**
+ * Saved filters use the `SearchFilters` shape from lib/search-manager.ts,
+ * with the query syntax already expanded. `search_query` is the text as
+ * typed, operators included, so it is never searched for as free text.
+ * Relative `since`/`until` values are resolved as of this run.
+ */
+async function searchMatches(supabase: Supabase, search: SavedSearchRow): Promise<SearchRow[]> {
+  const filters = search.filters || {};
+  const query: string | null = filters.query || null;
+  const mode: string = filters.mode || 'keyword';
+  const { dateFrom, dateTo } = searchDateRange(filters);
+
+  let queryEmbedding: string | null = null;
+  if (query && mode !== 'keyword') {
+    const [vector] = await embeddingProviderFromEnv().embed([query]);
+    queryEmbedding = toVectorLiteral(vector);
+  }
+
+  const { data, error } = await supabase.rpc('unified_search', {
+    p_query: query,
+    p_sources: filters.sources?.length ? filters.sources : null,
+    p_categories: filters.categories?.length ? filters.categories : null,
+    p_tags: filters.tags?.length ? filters.tags : null,
+    p_languages: filters.languages?.length ? filters.languages : null,
+    p_date_from: dateFrom || null,
+    p_date_to: dateTo || null,
+    p_min_engagement: filters.minEngagement || null,
+    p_sort_by: 'recent',
+    p_limit: ALERT_WINDOW,
+    p_cursor: null,
+    p_offset: 0,
+    p_mode: mode,
+    p_query_embedding: queryEmbedding,
+    p_registries: filters.registries?.length ? filters.registries : null,
+    p_origins: filters.origins?.length ? filters.origins : null,
+  });
+
+  if (error) throw error;
+
+  return (data?.results || []) as SearchRow[];
+}
+
+async function findUnseen(
+  supabase: Supabase,
+  search: SavedSearchRow,
+  rows: SearchRow[]
+): Promise<SearchRow[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('saved_search_results')
+    .select('item_type, item_id')
+    .eq('saved_search_id', search.id)
+    .in('item_id', rows.map((row) => row.item_id));
+
+  if (error) throw error;
+
+  const seen = new Set((data || []).map((row) => `${row.item_type}:${row.item_id}`));
+  return rows.filter((row) => !seen.has(`${row.item_type}:${row.item_id}`));
+}
+
+async function recipientEmail(supabase: Supabase, userId: string): Promise<string | null> {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) {
+    console.error('Error looking up alert recipient:', error);
+    return null;
+  }
+  return data.user?.email || null;
+}
+
+async function notify(supabase: Supabase, search: SavedSearchRow, items: AlertItem[]) {
+  const shown = items.slice(0, 5).map((item) => item.title).join(', ');
+  const more = items.length > 5 ? ` and ${items.length - 5} more` : '';
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: search.user_id,
+      saved_search_id: search.id,
+      kind: 'saved_search_match',
+      title: `${items.length} new result${items.length === 1 ? '' : 's'} for "${search.name}"`,
+      body: `${shown}${more}`,
+      items,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const notification: NotificationRecord = {
+    id: data.id,
+    userId: data.user_id,
+    savedSearchId: data.saved_search_id,
+    title: data.title,
+    body: data.body,
+    items: data.items,
+    createdAt: data.created_at,
+  };
+
+  const channels = search.notification_channels?.length ? search.notification_channels : ['in_app'];
+
+  await deliverNotification(supabase, notification, channels, {
+    userId: search.user_id,
+    email: channels.includes('email') ? await recipientEmail(supabase, search.user_id) : null,
+    webhookUrl: search.webhook_url,
+  });
+}
+
+/**
+ * Re-runs every active saved search with alerts enabled and notifies its
+ * owner about matches it has not returned before. The first run of a search
+ * only records a baseline, so enabling alerts does not flood the user with
+ * everything that already matched.
+ */
+export async function evaluateSavedSearches(supabase: Supabase): Promise<AlertRunSummary> {
+  const summary: AlertRunSummary = { evaluated: 0, notified: 0, newMatches: 0, errors: [] };
+
+  const { data: searches, error } = await supabase
+    .from('saved_searches')
+    .select('id, user_id, name, search_query, filters, notification_channels, webhook_url, last_evaluated_at')
+    .eq('is_active', true)
+    .eq('notification_enabled', true)
+    .not('user_id', 'is', null)
+    .order('last_evaluated_at', { ascending: true, nullsFirst: true });
+
+  if (error) throw error;
+
+  for (const search of (searches || []) as SavedSearchRow[]) {
+    try {
+      const rows = await searchMatches(supabase, search);
+      const unseen = await findUnseen(supabase, search, rows);
+
+      if (unseen.length > 0) {
+        const { error: seenError } = await supabase
+          .from('saved_search_results')
+          .upsert(
+            unseen.map((row) => ({
+              saved_search_id: search.id,
+              item_type: row.item_type,
+              item_id: row.item_id,
+            })),
+            { onConflict: 'saved_search_id,item_type,item_id', ignoreDuplicates: true }
+          );
+
+        if (seenError) throw seenError;
+      }
+
+      if (search.last_evaluated_at && unseen.length > 0) {
+        await notify(supabase, search, unseen.map(toAlertItem));
+        summary.notified++;
+        summary.newMatches += unseen.length;
+      }
+
+      await supabase
+        .from('saved_searches')
+        .update({ last_evaluated_at: new Date().toISOString() })
+        .eq('id', search.id);
+
+      summary.evaluated++;
+    } catch (error) {
+      console.error(`Error evaluating saved search ${search.id}:`, error);
+      summary.errors.push(`${search.name}: ${error.message}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,112 @@
+/**
+ * Minimal plain-text SMTP client for a local relay or capture server such as
+ * Mailpit or MailHog. It speaks unauthenticated, unencrypted SMTP only.
+ */
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+export function smtpConfigFromEnv(): SmtpConfig {
+  return {
+    hostname: Deno.env.get('SMTP_HOST') || 'localhost',
+    port: Number(Deno.env.get('SMTP_PORT') || 1025),
+    from: Deno.env.get('SMTP_FROM') || 'alerts@localhost',
+  };
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(private conn: Deno.Conn) {}
+
+  /** Reads one (possibly multi-line) reply; the last line has a space after the code. */
+  async read(): Promise<SmtpReply> {
+    const chunk = new Uint8Array(1024);
+
+    while (true) {
+      const lines = this.buffer.split('\r\n');
+      for (let i = 0; i < lines.length - 1; i++) {
+        if (/^\d{3}( |$)/.test(lines[i])) {
+          this.buffer = lines.slice(i + 1).join('\r\n');
+          return { code: Number(lines[i].slice(0, 3)), text: lines.slice(0, i + 1).join('\n') };
+        }
+      }
+
+      const read = await this.conn.read(chunk);
+      if (read === null) throw new Error('SMTP server closed the connection');
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+  }
+
+  async command(line: string, expected: number): Promise<SmtpReply> {
+    await this.conn.write(this.encoder.encode(`${line}\r\n`));
+    return this.expect(expected);
+  }
+
+  async expect(expected: number): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (reply.code !== expected) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  close() {
+    this.conn.close();
+  }
+}
+
+function formatMessage(config: SmtpConfig, message: MailMessage): string {
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+
+  // Dot-stuffing: a line starting with "." would otherwise end the DATA block
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const smtp = new SmtpConnection(
+    await Deno.connect({ hostname: config.hostname, port: config.port })
+  );
+
+  try {
+    await smtp.expect(220);
+    await smtp.command('EHLO localhost', 250);
+    await smtp.command(`MAIL FROM:<${config.from}>`, 250);
+    await smtp.command(`RCPT TO:<${message.to}>`, 250);
+    await smtp.command('DATA', 354);
+    await smtp.command(formatMessage(config, message), 250);
+    await smtp.command('QUIT', 221);
+  } finally {
+    smtp.close();
+  }
+}
@@ -0,0 +1,45 @@
+import type { Supabase } from '../sources/types.ts';
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface AlertItem {
+  type: 'x_trend' | 'github_repo' | 'knowledge_entry' | 'package' | 'paper' | 'feed_item';
+  id: string;
+  title: string;
+  url: string | null;
+}
+
+/** A stored `notifications` row. */
+export interface NotificationRecord {
+  id: string;
+  userId: string;
+  savedSearchId: string | null;
+  title: string;
+  body: string;
+  items: AlertItem[];
+  createdAt: string;
+}
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  webhookUrl: string | null;
+}
+
+export interface DeliveryResult {
+  status: DeliveryStatus;
+  error?: string;
+}
+
+/**
+ * A way of telling a user about a notification. The registry records each
+ * outcome in `notification_deliveries`; a channel only performs the send.
+ */
+export interface NotificationChannel {
+  name: string;
+  deliver(
+    notification: NotificationRecord,
+    recipient: NotificationRecipient,
+    supabase: Supabase
+  ): Promise<DeliveryResult>;
+}
@@ -0,0 +1,102 @@
+import type { FetchContext, Supabase } from './sources/types.ts';
+import { githubHeaders } from './sources/adapters/github-api.ts';
+import { fetchWithRetry, loadFixture, usingFixtures } from './sources/http.ts';
+import { createFetchContext, loadSourcePolicy, rateLimitColumns } from './sources/policy.ts';
+
+export interface ReadmeScanSummary {
+  scanned: number;
+  citing: number;
+  /** Set when the scan stopped early, e.g. on a GitHub rate limit. */
+  error: string | null;
+}
+
+const RESCAN_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Mirrors `extract_arxiv_ids` in the papers migration; descriptions are matched in SQL. */
+const ARXIV_ID_PATTERN =
+  /(?:arxiv\.org\/(?:abs|pdf|html)\/|huggingface\.co\/papers\/|arxiv:\s*)(\d{4}\.\d{4,5})/gi;
+
+export function extractArxivIds(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(ARXIV_ID_PATTERN)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids).sort();
+}
+
+/** README body, or null when the repository has none. */
+async function fetchReadme(context: FetchContext, repoName: string): Promise<string | null> {
+  const url = `https://api.github.com/repos/${repoName}/readme`;
+
+  if (usingFixtures()) {
+    const recorded = await loadFixture<Record<string, string>>('github-readmes');
+    return recorded[url] ?? null;
+  }
+
+  const response = await fetchWithRetry(context, url, {
+    headers: { ...githubHeaders(), 'Accept': 'application/vnd.github.raw+json' },
+  });
+
+  if (response.status === 404) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`GitHub API error: ${response.status}`);
+  }
+
+  return await response.text();
+}
+
+/**
+ * Records the arXiv IDs cited in the READMEs of the most starred repos not
+ * scanned in the last week. Repos are linked to papers by `arxiv_ids`, which
+ * a trigger rebuilds from the description and `readme_arxiv_ids`.
+ */
+export async function scanRepoReadmes(supabase: Supabase, batchSize = 20): Promise<ReadmeScanSummary> {
+  const summary: ReadmeScanSummary = { scanned: 0, citing: 0, error: null };
+
+  const { data, error } = await supabase
+    .from('github_repos')
+    .select('id, repo_name')
+    .or(`readme_scanned_at.is.null,readme_scanned_at.lt.${new Date(Date.now() - RESCAN_AFTER_MS).toISOString()}`)
+    .order('stars', { ascending: false })
+    .limit(batchSize);
+
+  if (error) throw error;
+
+  // READMEs come out of the GitHub token's rate limit, so it is recorded against `github_api`
+  const context = createFetchContext('github_api', await loadSourcePolicy(supabase));
+
+  for (const repo of (data || []) as Array<{ id: string; repo_name: string }>) {
+    let readme: string | null;
+    try {
+      readme = await fetchReadme(context, repo.repo_name);
+    } catch (fetchError) {
+      // Usually the rate limit; the remaining repos are picked up next run
+      summary.error = fetchError.message;
+      break;
+    }
+
+    const ids = readme ? extractArxivIds(readme) : [];
+
+    const { error: updateError } = await supabase
+      .from('github_repos')
+      .update({ readme_arxiv_ids: ids, readme_scanned_at: new Date().toISOString() })
+      .eq('id', repo.id);
+
+    if (updateError) throw updateError;
+
+    summary.scanned++;
+    if (ids.length > 0) summary.citing++;
+  }
+
+  const rateLimit = rateLimitColumns(context);
+  if (Object.keys(rateLimit).length > 0) {
+    await supabase.from('data_sources').update(rateLimit).eq('source_name', 'github_api');
+  }
+
+  return summary;
+}
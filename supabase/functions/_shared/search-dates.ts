@@ -0,0 +1,61 @@
+/**
+ * `since:` and `until:` values from the search syntax. Saved searches keep
+ * the values as typed and resolve them each time they run, so `since:7d`
+ * stays the last seven days instead of the seven days before saving. The app
+ * imports this module too, so the search box, saved-search feeds and alerts
+ * resolve a range the same way.
+ */
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface SearchDateFilters {
+  /** `since:` as typed, e.g. `7d`, `today` or `2025-01-31`. */
+  since?: string;
+  /** `until:` as typed. */
+  until?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/** Resolves `7d`, `24h`, `2w`, `today` or `YYYY-MM-DD` to an ISO timestamp; days are UTC. */
+export function resolveSearchDate(value: string, now: Date, edge: 'start' | 'end'): string | null {
+  const lower = value.toLowerCase();
+
+  if (lower === 'today') {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    return start.toISOString();
+  }
+
+  const duration = /^(\d+)([hdw])$/.exec(lower);
+  if (duration) {
+    return new Date(now.getTime() - Number(duration[1]) * DURATION_UNITS_MS[duration[2]]).toISOString();
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T${edge === 'start' ? '00:00:00.000' : '23:59:59.999'}Z`);
+    if (!Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)) {
+      return date.toISOString();
+    }
+  }
+
+  return null;
+}
+
+/** `dateFrom`/`dateTo` as of `now`: `since`/`until` win over dates stored without them. */
+export function searchDateRange(
+  filters: SearchDateFilters,
+  now: Date = new Date()
+): { dateFrom?: string; dateTo?: string } {
+  const from = filters.since ? resolveSearchDate(filters.since, now, 'start') : null;
+  const to = filters.until ? resolveSearchDate(filters.until, now, 'end') : null;
+
+  return {
+    dateFrom: from || filters.dateFrom,
+    dateTo: to || filters.dateTo,
+  };
+}
@@ -0,0 +1,134 @@
+import type { SourceAdapter } from '../types.ts';
+import { AtomEntry, childElements, elementText, parseAtomFeed } from '../atom.ts';
+import { fetchText, probeUrl } from '../http.ts';
+
+interface ArxivPaper {
+  arxivId: string;
+  version: number;
+  title: string;
+  abstract: string;
+  authors: string[];
+  categories: string[];
+  primaryCategory: string | null;
+  comment: string | null;
+  doi: string | null;
+  journalRef: string | null;
+  url: string;
+  pdfUrl: string | null;
+  publishedAt: string;
+  revisedAt: string | null;
+}
+
+const API_URL = 'https://export.arxiv.org/api/query';
+const DEFAULT_CATEGORIES = ['cs.AI', 'cs.LG', 'cs.CL'];
+const DEFAULT_MAX_RESULTS = 50;
+// The API serves up to 2000 results per request, but asks clients to page politely
+const MAX_RESULTS_CAP = 200;
+const CATEGORY_PATTERN = /^[a-z-]+(\.[A-Za-z-]+)?$/;
+
+/** `http://arxiv.org/abs/2410.01234v2` -> ['2410.01234', 2]; old-style IDs keep their archive, e.g. `cs/0112017`. */
+function parseArxivId(entryId: string): [string, number] | null {
+  const match = entryId.match(/arxiv\.org\/abs\/(.+?)(?:v(\d+))?$/i);
+  if (!match) return null;
+  return [match[1], match[2] ? Number(match[2]) : 1];
+}
+
+function listingUrl(config: Record<string, any>): string {
+  const categories = Array.isArray(config.categories)
+    ? config.categories.filter((category: unknown): category is string =>
+      typeof category === 'string' && CATEGORY_PATTERN.test(category))
+    : [];
+  const maxResults = Number(config.max_results);
+
+  const params = new URLSearchParams({
+    search_query: (categories.length > 0 ? categories : DEFAULT_CATEGORIES).map((category) => `cat:${category}`).join(' OR '),
+    sortBy: 'submittedDate',
+    sortOrder: 'descending',
+    start: '0',
+    max_results: String(
+      Number.isInteger(maxResults) && maxResults > 0 ? Math.min(maxResults, MAX_RESULTS_CAP) : DEFAULT_MAX_RESULTS
+    ),
+  });
+
+  return `${API_URL}?${params}`;
+}
+
+function extensionText(entry: AtomEntry, name: string): string | null {
+  return elementText(childElements(entry.xml, name)[0]) || null;
+}
+
+function toPaper(entry: AtomEntry): ArxivPaper | null {
+  const parsed = parseArxivId(entry.id);
+  if (!parsed || !entry.title || !entry.published) return null;
+
+  const [arxivId, version] = parsed;
+  const pdfLink = entry.links.find((link) => link.title === 'pdf' || link.type === 'application/pdf');
+
+  return {
+    arxivId,
+    version,
+    title: entry.title,
+    abstract: entry.summary,
+    authors: entry.authors,
+    categories: entry.categories,
+    primaryCategory: childElements(entry.xml, 'arxiv:primary_category')[0]?.attributes.term
+      || entry.categories[0]
+      || null,
+    comment: extensionText(entry, 'arxiv:comment'),
+    doi: extensionText(entry, 'arxiv:doi'),
+    journalRef: extensionText(entry, 'arxiv:journal_ref'),
+    // Version-less links always point at the latest version
+    url: `https://arxiv.org/abs/${arxivId}`,
+    pdfUrl: pdfLink ? `https://arxiv.org/pdf/${arxivId}` : null,
+    publishedAt: entry.published,
+    revisedAt: entry.updated,
+  };
+}
+
+export const arxivAdapter: SourceAdapter<ArxivPaper> = {
+  sourceName: 'arxiv_api',
+  targetTable: 'papers',
+  conflictTarget: 'arxiv_id',
+  // New submissions are announced once a day; arXiv asks for at most one request every 3 seconds
+  rateLimit: { minIntervalMinutes: 360, requestsPerFetch: 1 },
+
+  async fetch(config, context) {
+    const feed = parseAtomFeed(
+      await fetchText(context, listingUrl(config), 'arXiv API', 'arxiv-query.xml', 'application/atom+xml')
+    );
+
+    // Query errors come back as a 200 feed holding a single error entry
+    const failure = feed.entries.find((entry) => entry.id.includes('/api/errors'));
+    if (failure) {
+      throw new Error(`arXiv API error: ${failure.summary || failure.title}`);
+    }
+
+    return feed.entries
+      .map(toPaper)
+      .filter((paper): paper is ArxivPaper => paper !== null);
+  },
+
+  normalize(papers) {
+    return papers.map((paper) => ({
+      arxiv_id: paper.arxivId,
+      version: paper.version,
+      title: paper.title,
+      abstract: paper.abstract,
+      authors: paper.authors,
+      categories: paper.categories,
+      primary_category: paper.primaryCategory,
+      comment: paper.comment,
+      doi: paper.doi,
+      journal_ref: paper.journalRef,
+      url: paper.url,
+      pdf_url: paper.pdfUrl,
+      published_at: paper.publishedAt,
+      revised_at: paper.revisedAt,
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    return probeUrl(`${API_URL}?search_query=cat:cs.AI&max_results=1`, 'arXiv API');
+  },
+};
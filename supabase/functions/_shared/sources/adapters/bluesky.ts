@@ -0,0 +1,120 @@
+import type { SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { fetchRecordedJson, probeUrl } from '../http.ts';
+
+interface BlueskyPost {
+  uri: string;
+  author: { handle: string };
+  record: { text?: string };
+  likeCount?: number;
+  repostCount?: number;
+  labels?: Array<{ val: string }>;
+}
+
+interface FeedResponse {
+  feed: Array<{ post: BlueskyPost }>;
+}
+
+interface BlueskyTrend {
+  uri: string;
+  name: string;
+  url: string;
+  score: number;
+}
+
+// The public AppView serves unauthenticated reads
+const API_URL = 'https://public.api.bsky.app/xrpc';
+const DEFAULT_FEEDS = ['at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/whats-hot'];
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+const TITLE_LENGTH = 120;
+const FEED_URI_PATTERN = /^at:\/\/did:[a-z]+:[A-Za-z0-9._:%-]+\/app\.bsky\.feed\.generator\/[A-Za-z0-9._~-]+$/;
+const HIDDEN_LABELS = new Set(['porn', 'sexual', 'nudity', 'graphic-media', 'gore', '!hide', '!warn']);
+
+function feedsFrom(config: Record<string, any>): string[] {
+  const feeds = Array.isArray(config.feeds)
+    ? config.feeds.filter((feed: unknown): feed is string => typeof feed === 'string' && FEED_URI_PATTERN.test(feed))
+    : [];
+  return feeds.length > 0 ? feeds : DEFAULT_FEEDS;
+}
+
+function feedUrl(feed: string, limit: number): string {
+  return `${API_URL}/app.bsky.feed.getFeed?${new URLSearchParams({ feed, limit: String(limit) })}`;
+}
+
+/** `at://did:plc:abc/app.bsky.feed.post/3kxyz` -> `https://bsky.app/profile/handle/post/3kxyz`. */
+function postUrl(post: BlueskyPost): string {
+  return `https://bsky.app/profile/${post.author.handle}/post/${post.uri.split('/').pop()}`;
+}
+
+function postTitle(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Posts of public Bluesky feed generators, listed in `metadata.feeds` as
+ * `at://` URIs. Posts seen in more than one feed are kept once.
+ */
+export const blueskyAdapter: SourceAdapter<BlueskyTrend> = {
+  sourceName: 'bluesky_feeds',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  rateLimit: { minIntervalMinutes: 30, requestsPerFetch: 1 },
+
+  async fetch(config, context) {
+    const limit = Number(config.limit);
+    const perFeed = Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const seen = new Set<string>();
+    const trends: BlueskyTrend[] = [];
+
+    for (const feed of feedsFrom(config)) {
+      const response = await fetchRecordedJson<FeedResponse>(
+        context,
+        feedUrl(feed, perFeed),
+        'Bluesky API',
+        'bluesky-feeds'
+      );
+
+      if (!Array.isArray(response?.feed)) {
+        throw new Error('Bluesky API returned an unexpected feed');
+      }
+
+      for (const { post } of response.feed) {
+        const text = post?.record?.text;
+        if (!text || !post.author?.handle || seen.has(post.uri)) continue;
+        if ((post.labels || []).some((label) => HIDDEN_LABELS.has(label.val))) continue;
+
+        seen.add(post.uri);
+        trends.push({
+          uri: post.uri,
+          name: postTitle(text),
+          url: postUrl(post),
+          score: (post.likeCount || 0) + (post.repostCount || 0),
+        });
+      }
+    }
+
+    return trends;
+  },
+
+  normalize(trends) {
+    return trends.map((trend, index) => ({
+      trend_name: trend.name,
+      trend_key: trendKey(trend.name),
+      source: 'bluesky_feeds',
+      source_item_id: trend.uri,
+      metric_type: 'reactions',
+      rank: index + 1,
+      tweet_count: trend.score,
+      url: trend.url,
+      category: 'social',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe(config) {
+    return probeUrl(feedUrl(feedsFrom(config)[0], 1), 'Bluesky API');
+  },
+};
@@ -0,0 +1,127 @@
+import type { FetchContext, SourceAdapter } from '../types.ts';
+import { fetchRecordedJson, probeUrl } from '../http.ts';
+import {
+  collectPackages,
+  normalizeKeywords,
+  normalizeRepositoryUrl,
+  packageSelectionFrom,
+  PackageInfo,
+  pause,
+  toPackageRow,
+} from '../packages.ts';
+
+interface CrateResponse {
+  crate: {
+    name: string;
+    description: string | null;
+    max_stable_version: string | null;
+    newest_version: string;
+    keywords: string[] | null;
+    repository: string | null;
+    homepage: string | null;
+    downloads: number;
+  };
+}
+
+interface DailyDownloads {
+  date: string;
+  downloads: number;
+}
+
+/** Per-version daily counts for the last 90 days; older versions are summed into `extra_downloads`. */
+interface CrateDownloadsResponse {
+  version_downloads: Array<DailyDownloads & { version: number }>;
+  meta: { extra_downloads: DailyDownloads[] };
+}
+
+interface SummaryResponse {
+  most_recently_downloaded: Array<{ name: string }>;
+}
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+const API_URL = 'https://crates.io/api/v1';
+const FIXTURE = 'crates-io';
+// crates.io's crawler policy allows one request per second
+const REQUEST_SPACING_MS = 1000;
+
+/**
+ * Downloads over the 7 days ending at the newest day reported. Today's
+ * count is still partial, so anchoring on the data rather than the clock
+ * keeps consecutive snapshots comparable.
+ */
+function weeklyDownloads(response: CrateDownloadsResponse): number {
+  const days = [...(response.version_downloads || []), ...(response.meta?.extra_downloads || [])];
+  if (days.length === 0) return 0;
+
+  const newest = days.reduce((latest, day) => (day.date > latest ? day.date : latest), days[0].date);
+  const windowStart = new Date(Date.parse(`${newest}T00:00:00Z`) - 6 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+  return days
+    .filter((day) => day.date >= windowStart && day.date <= newest)
+    .reduce((sum, day) => sum + (day.downloads || 0), 0);
+}
+
+async function loadPackage(context: FetchContext, name: string, tracked: boolean): Promise<PackageInfo> {
+  const { crate } = await fetchRecordedJson<CrateResponse>(context, `${API_URL}/crates/${name}`, 'crates.io', FIXTURE);
+  await pause(REQUEST_SPACING_MS);
+  const downloads = await fetchRecordedJson<CrateDownloadsResponse>(
+    context,
+    `${API_URL}/crates/${name}/downloads`,
+    'crates.io',
+    FIXTURE
+  );
+  await pause(REQUEST_SPACING_MS);
+
+  return {
+    registry: 'crates',
+    name: crate.name,
+    description: crate.description?.trim() || null,
+    latestVersion: crate.max_stable_version || crate.newest_version || null,
+    keywords: normalizeKeywords(crate.keywords),
+    repositoryUrl: normalizeRepositoryUrl(crate.repository),
+    homepageUrl: crate.homepage || null,
+    url: `https://crates.io/crates/${crate.name}`,
+    weeklyDownloads: weeklyDownloads(downloads),
+    totalDownloads: crate.downloads ?? null,
+    tracked,
+  };
+}
+
+async function discoverCandidates(context: FetchContext): Promise<string[]> {
+  const summary = await fetchRecordedJson<SummaryResponse>(context, `${API_URL}/summary`, 'crates.io', FIXTURE);
+  await pause(REQUEST_SPACING_MS);
+
+  return (summary.most_recently_downloaded || [])
+    .map((crate) => crate.name)
+    .filter((name): name is string => typeof name === 'string' && NAME_PATTERN.test(name));
+}
+
+export const cratesAdapter: SourceAdapter<PackageInfo> = {
+  sourceName: 'crates_registry',
+  targetTable: 'packages',
+  conflictTarget: 'registry,name',
+  // Two requests per crate plus the summary, for the seeded metadata
+  rateLimit: { minIntervalMinutes: 360, requestsPerFetch: 47 },
+
+  async fetch(config, context) {
+    const selection = packageSelectionFrom(config, NAME_PATTERN);
+    const candidates = selection.discover && selection.maxDiscovered > 0 ? await discoverCandidates(context) : [];
+
+    return collectPackages(
+      selection,
+      candidates,
+      (name, tracked) => loadPackage(context, name, tracked),
+      'crates.io'
+    );
+  },
+
+  normalize(packages) {
+    return packages.map(toPackageRow);
+  },
+
+  async probe() {
+    return probeUrl(`${API_URL}/summary`, 'crates.io');
+  },
+};
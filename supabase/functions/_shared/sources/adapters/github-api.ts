@@ -0,0 +1,79 @@
+import type { SourceAdapter } from '../types.ts';
+import { fetchWithRetry } from '../http.ts';
+
+interface GitHubRepo {
+  full_name: string;
+  description: string;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  language: string;
+  html_url: string;
+  topics: string[];
+}
+
+export function githubHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'DragonAndPanda-TrendTracker',
+  };
+
+  const githubToken = Deno.env.get('GITHUB_TOKEN');
+  if (githubToken) {
+    headers['Authorization'] = `token ${githubToken}`;
+  }
+
+  return headers;
+}
+
+export const githubApiAdapter: SourceAdapter<GitHubRepo> = {
+  sourceName: 'github_api',
+  targetTable: 'github_repos',
+  conflictTarget: 'repo_name',
+  tokenEnv: 'GITHUB_TOKEN',
+  rateLimit: { minIntervalMinutes: 60, requestsPerFetch: 1 },
+
+  async fetch(_config, context) {
+    const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const dateStr = lastWeek.toISOString().split('T')[0];
+    const githubApiUrl = `https://api.github.com/search/repositories?q=created:>${dateStr}&sort=stars&order=desc&per_page=30`;
+
+    const response = await fetchWithRetry(context, githubApiUrl, { headers: githubHeaders() });
+
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.items || [];
+  },
+
+  normalize(repos) {
+    return repos.map((repo) => ({
+      repo_name: repo.full_name,
+      description: repo.description || 'No description available',
+      stars: repo.stargazers_count,
+      forks: repo.forks_count || 0,
+      open_issues: repo.open_issues_count || 0,
+      language: repo.language || 'Unknown',
+      url: repo.html_url,
+      topics: repo.topics || [],
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    try {
+      const response = await fetch('https://api.github.com/rate_limit', { headers: githubHeaders() });
+      if (!response.ok) {
+        return { status: 'degraded', message: `GitHub API returned ${response.status}` };
+      }
+      return {
+        status: 'healthy',
+        message: Deno.env.get('GITHUB_TOKEN') ? null : 'GITHUB_TOKEN not configured (optional - using public API)',
+      };
+    } catch (error) {
+      return { status: 'offline', message: error.message };
+    }
+  },
+};
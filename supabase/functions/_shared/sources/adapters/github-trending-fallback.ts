@@ -0,0 +1,60 @@
+import type { SourceAdapter } from '../types.ts';
+import { fetchWithRetry } from '../http.ts';
+
+interface FallbackRepo {
+  name: string;
+  owner: string;
+  description: string;
+  stars: number;
+  language: string;
+  url: string;
+}
+
+const FALLBACK_URL = 'https://api.gitterapp.com/repositories';
+
+export const githubTrendingFallbackAdapter: SourceAdapter<FallbackRepo> = {
+  sourceName: 'github_trending_fallback',
+  targetTable: 'github_repos',
+  conflictTarget: 'repo_name',
+  rateLimit: { minIntervalMinutes: 60, requestsPerFetch: 1 },
+
+  async fetch(_config, context) {
+    const response = await fetchWithRetry(context, FALLBACK_URL, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'DragonAndPanda-TrendTracker',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Fallback API error: ${response.status}`);
+    }
+
+    const repos: FallbackRepo[] = await response.json();
+    return repos.slice(0, 30);
+  },
+
+  normalize(repos) {
+    return repos.map((repo) => ({
+      repo_name: `${repo.owner}/${repo.name}`,
+      description: repo.description || 'No description available',
+      stars: repo.stars || 0,
+      language: repo.language || 'Unknown',
+      url: repo.url || `https://github.com/${repo.owner}/${repo.name}`,
+      topics: [],
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    try {
+      const response = await fetch(FALLBACK_URL, { headers: { 'Accept': 'application/json' } });
+      await response.body?.cancel();
+      return response.ok
+        ? { status: 'healthy', message: null }
+        : { status: 'degraded', message: 'Fallback API unavailable' };
+    } catch (error) {
+      return { status: 'offline', message: error.message };
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import type { SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { fetchWithRetry } from '../http.ts';
+
+interface HNItem {
+  id: number;
+  title: string;
+  url?: string;
+  score: number;
+  by: string;
+  time: number;
+  descendants?: number;
+}
+
+const TOP_STORIES_URL = 'https://hacker-news.firebaseio.com/v0/topstories.json';
+
+export const hackerNewsAdapter: SourceAdapter<HNItem> = {
+  sourceName: 'hackernews_api',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  rateLimit: { minIntervalMinutes: 15, requestsPerFetch: 21 },
+
+  async fetch(_config, context) {
+    const topStoriesResponse = await fetchWithRetry(context, TOP_STORIES_URL);
+
+    if (!topStoriesResponse.ok) {
+      throw new Error(`HackerNews API error: ${topStoriesResponse.status}`);
+    }
+
+    const topStoryIds: number[] = await topStoriesResponse.json();
+    // A story that still fails after its retries is left out rather than failing the rest
+    const storyPromises = topStoryIds.slice(0, 20).map(async (id) => {
+      try {
+        const response = await fetchWithRetry(context, `https://hacker-news.firebaseio.com/v0/item/${id}.json`);
+        if (response.ok) {
+          return await response.json() as HNItem;
+        }
+        await response.body?.cancel();
+      } catch (error) {
+        console.error(`HackerNews story ${id} failed:`, error.message);
+      }
+      return null;
+    });
+
+    return (await Promise.all(storyPromises)).filter((story): story is HNItem => story !== null);
+  },
+
+  normalize(stories) {
+    return stories.map((story, index) => ({
+      trend_name: story.title,
+      trend_key: trendKey(story.title),
+      source: 'hackernews_api',
+      source_item_id: String(story.id),
+      metric_type: 'points',
+      rank: index + 1,
+      tweet_count: story.score || 0,
+      url: story.url || `https://news.ycombinator.com/item?id=${story.id}`,
+      category: 'tech',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    try {
+      const response = await fetch(TOP_STORIES_URL);
+      await response.body?.cancel();
+      return response.ok
+        ? { status: 'healthy', message: null }
+        : { status: 'degraded', message: `HackerNews API returned ${response.status}` };
+    } catch (error) {
+      return { status: 'offline', message: error.message };
+    }
+  },
+};
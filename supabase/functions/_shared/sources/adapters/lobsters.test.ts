@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { createFetchContext, DEFAULT_SOURCE_POLICY } from '../policy.ts';
+import { lobstersAdapter } from './lobsters.ts';
+
+// Replays fixtures/lobsters-hottest.json instead of calling Lobsters
+Deno.env.set('SOURCE_FIXTURES', '1');
+
+async function fetchTrends(config: Record<string, any> = {}) {
+  const context = createFetchContext(lobstersAdapter.sourceName, DEFAULT_SOURCE_POLICY);
+  return lobstersAdapter.normalize(await lobstersAdapter.fetch(config, context));
+}
+
+Deno.test('lobsters adapter keys trends by title and counts points', async () => {
+  const trends = await fetchTrends();
+
+  assert.deepEqual(trends.map((trend) => trend.source_item_id), ['x7kqpa', 'm2vd9c', 'qa81zt', 'b4ntw0']);
+  assert.deepEqual(trends[1], {
+    trend_name: 'PostgreSQL 17: incremental backups in practice',
+    trend_key: 'postgresql 17: incremental backups in practice',
+    source: 'lobsters_api',
+    source_item_id: 'm2vd9c',
+    metric_type: 'points',
+    rank: 2,
+    tweet_count: 41,
+    url: 'https://example.org/blog/pg17-incremental-backup',
+    category: 'tech',
+    fetched_at: trends[1].fetched_at,
+  });
+});
+
+Deno.test('lobsters adapter links text posts to their comments', async () => {
+  const textPost = (await fetchTrends()).find((trend) => trend.source_item_id === 'qa81zt');
+
+  assert.equal(textPost?.url, 'https://lobste.rs/s/qa81zt/what_are_you_doing_this_weekend');
+});
+
+Deno.test('lobsters adapter honours the configured limit', async () => {
+  const trends = await fetchTrends({ limit: 2 });
+
+  assert.deepEqual(trends.map((trend) => trend.trend_key), [
+    'writing a fast json parser in zig',
+    'postgresql 17: incremental backups in practice',
+  ]);
+});
@@ -0,0 +1,67 @@
+import type { SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { fetchJson, USER_AGENT, usingFixtures } from '../http.ts';
+
+interface LobstersStory {
+  short_id: string;
+  title: string;
+  /** Empty for text posts. */
+  url: string;
+  score: number;
+  comment_count: number;
+  comments_url: string;
+  created_at: string;
+  tags: string[];
+}
+
+const HOTTEST_URL = 'https://lobste.rs/hottest.json';
+const DEFAULT_LIMIT = 25;
+
+export const lobstersAdapter: SourceAdapter<LobstersStory> = {
+  sourceName: 'lobsters_api',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  rateLimit: { minIntervalMinutes: 30, requestsPerFetch: 1 },
+
+  async fetch(config, context) {
+    const stories = await fetchJson<LobstersStory[]>(context, HOTTEST_URL, 'Lobsters API', 'lobsters-hottest');
+
+    if (!Array.isArray(stories)) {
+      throw new Error('Lobsters API returned an unexpected response');
+    }
+
+    const limit = Number(config.limit);
+    return stories
+      .filter((story) => story?.short_id && story.title)
+      .slice(0, Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_LIMIT);
+  },
+
+  normalize(stories) {
+    return stories.map((story, index) => ({
+      trend_name: story.title,
+      trend_key: trendKey(story.title),
+      source: 'lobsters_api',
+      source_item_id: story.short_id,
+      metric_type: 'points',
+      rank: index + 1,
+      tweet_count: story.score || 0,
+      url: story.url || story.comments_url,
+      category: 'tech',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    if (usingFixtures()) return { status: 'healthy', message: null };
+
+    try {
+      const response = await fetch(HOTTEST_URL, { headers: { 'User-Agent': USER_AGENT } });
+      await response.body?.cancel();
+      return response.ok
+        ? { status: 'healthy', message: null }
+        : { status: 'degraded', message: `Lobsters API returned ${response.status}` };
+    } catch (error) {
+      return { status: 'offline', message: error.message };
+    }
+  },
+};
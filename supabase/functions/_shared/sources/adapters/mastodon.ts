@@ -0,0 +1,159 @@
+import type { FetchContext, SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { htmlToText } from '../atom.ts';
+import { fetchRecordedJson, probeUrl } from '../http.ts';
+
+type TrendKind = 'tags' | 'links' | 'statuses';
+
+/** Daily usage, newest day first; counts are strings in the API. */
+interface TrendHistory {
+  day: string;
+  uses: string;
+  accounts: string;
+}
+
+interface MastodonTag {
+  name: string;
+  url: string;
+  history: TrendHistory[];
+}
+
+interface MastodonLink {
+  url: string;
+  title: string;
+  provider_name: string;
+  history: TrendHistory[];
+}
+
+interface MastodonStatus {
+  id: string;
+  url: string | null;
+  uri: string;
+  content: string;
+  sensitive: boolean;
+  spoiler_text: string;
+  reblogs_count: number;
+  favourites_count: number;
+  account: { acct: string };
+}
+
+interface MastodonTrend {
+  kind: TrendKind;
+  /** Tag name, link URL or status id. */
+  id: string;
+  name: string;
+  url: string;
+  score: number;
+}
+
+const DEFAULT_INSTANCE = 'mastodon.social';
+const KINDS: TrendKind[] = ['tags', 'links', 'statuses'];
+const DEFAULT_LIMIT = 10;
+// The trends endpoints cap `limit` at 20 tags and 40 links or statuses; 20 suits all three
+const MAX_LIMIT = 20;
+const TITLE_LENGTH = 120;
+
+/** `metadata.instance` is a bare host such as `fosstodon.org`. */
+function instanceFrom(config: Record<string, any>): string {
+  const instance = typeof config.instance === 'string' ? config.instance.trim().toLowerCase() : '';
+  return /^[a-z0-9.-]+\.[a-z]{2,}$/.test(instance) ? instance : DEFAULT_INSTANCE;
+}
+
+function kindsFrom(config: Record<string, any>): TrendKind[] {
+  const kinds = Array.isArray(config.kinds)
+    ? KINDS.filter((kind) => config.kinds.includes(kind))
+    : [];
+  return kinds.length > 0 ? kinds : KINDS;
+}
+
+function recentUses(history: TrendHistory[] | undefined): number {
+  // Today's count is partial, so yesterday's is added to keep early-morning scores comparable
+  return (history || []).slice(0, 2).reduce((sum, day) => sum + (Number(day.uses) || 0), 0);
+}
+
+function statusTitle(status: MastodonStatus): string {
+  const text = htmlToText(status.content).replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text;
+}
+
+async function fetchKind(
+  context: FetchContext,
+  instance: string,
+  kind: TrendKind,
+  limit: number
+): Promise<MastodonTrend[]> {
+  const url = `https://${instance}/api/v1/trends/${kind}?limit=${limit}`;
+  const items = await fetchRecordedJson<unknown[]>(context, url, 'Mastodon API', 'mastodon-trends');
+
+  if (!Array.isArray(items)) {
+    throw new Error(`Mastodon API returned an unexpected ${kind} response`);
+  }
+
+  if (kind === 'tags') {
+    return (items as MastodonTag[])
+      .filter((tag) => tag?.name)
+      .map((tag) => ({ kind, id: tag.name, name: `#${tag.name}`, url: tag.url, score: recentUses(tag.history) }));
+  }
+
+  if (kind === 'links') {
+    return (items as MastodonLink[])
+      .filter((link) => link?.url && link.title)
+      .map((link) => ({ kind, id: link.url, name: link.title.trim(), url: link.url, score: recentUses(link.history) }));
+  }
+
+  // Content warnings usually hide spoilers or distressing posts; neither makes a good headline
+  return (items as MastodonStatus[])
+    .filter((status) => status?.content && !status.sensitive && !status.spoiler_text)
+    .map((status) => ({
+      kind,
+      id: status.id,
+      name: statusTitle(status),
+      url: status.url || status.uri,
+      score: (status.reblogs_count || 0) + (status.favourites_count || 0),
+    }))
+    .filter((status) => status.name);
+}
+
+/**
+ * Trends of a Mastodon-compatible instance (Mastodon, GoToSocial, Akkoma).
+ * Only the instance's own view of the fediverse: `metadata.instance` picks
+ * which one, `metadata.kinds` which of tags, links and statuses to keep.
+ */
+export const mastodonAdapter: SourceAdapter<MastodonTrend> = {
+  sourceName: 'mastodon_trends',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  rateLimit: { minIntervalMinutes: 30, requestsPerFetch: 3 },
+
+  async fetch(config, context) {
+    const instance = instanceFrom(config);
+    const limit = Number(config.limit);
+    const perKind = Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const trends: MastodonTrend[] = [];
+    for (const kind of kindsFrom(config)) {
+      trends.push(...await fetchKind(context, instance, kind, perKind));
+    }
+    return trends;
+  },
+
+  normalize(trends) {
+    return trends.map((trend, index) => ({
+      trend_name: trend.name,
+      trend_key: trendKey(trend.name),
+      source: 'mastodon_trends',
+      source_item_id: trend.id,
+      // Tags and links count the posts using them, statuses their boosts and favourites
+      metric_type: trend.kind === 'statuses' ? 'reactions' : 'posts',
+      rank: index + 1,
+      tweet_count: trend.score,
+      url: trend.url,
+      category: 'social',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe(config) {
+    return probeUrl(`https://${instanceFrom(config)}/api/v1/trends/tags?limit=1`, 'Mastodon API');
+  },
+};
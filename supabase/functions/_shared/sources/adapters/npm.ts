@@ -0,0 +1,120 @@
+import type { FetchContext, SourceAdapter } from '../types.ts';
+import { fetchRecordedJson, probeUrl } from '../http.ts';
+import {
+  collectPackages,
+  normalizeKeywords,
+  normalizeRepositoryUrl,
+  packageSelectionFrom,
+  PackageInfo,
+  toPackageRow,
+} from '../packages.ts';
+
+interface NpmVersion {
+  name: string;
+  version: string;
+  description?: string;
+  keywords?: string[];
+  homepage?: string;
+  repository?: string | { type?: string; url?: string };
+}
+
+interface NpmDownloadPoint {
+  downloads: number;
+  start: string;
+  end: string;
+  package: string;
+}
+
+interface NpmSearchResults {
+  objects: Array<{ package: { name: string } }>;
+}
+
+const NAME_PATTERN = /^(@[a-z0-9][a-z0-9._-]*\/)?[a-z0-9][a-z0-9._-]*$/;
+const DEFAULT_DISCOVER_QUERY = 'keywords:framework';
+const FIXTURE = 'npm-registry';
+
+async function loadPackage(context: FetchContext, name: string, tracked: boolean): Promise<PackageInfo> {
+  const latest = await fetchRecordedJson<NpmVersion>(
+    context,
+    `https://registry.npmjs.org/${name}/latest`,
+    'npm registry',
+    FIXTURE
+  );
+  const downloads = await fetchRecordedJson<NpmDownloadPoint>(
+    context,
+    `https://api.npmjs.org/downloads/point/last-week/${name}`,
+    'npm downloads API',
+    FIXTURE
+  );
+
+  const repository = typeof latest.repository === 'string' ? latest.repository : latest.repository?.url;
+
+  return {
+    registry: 'npm',
+    name,
+    description: latest.description || null,
+    latestVersion: latest.version || null,
+    keywords: normalizeKeywords(latest.keywords),
+    repositoryUrl: normalizeRepositoryUrl(repository),
+    homepageUrl: latest.homepage || null,
+    url: `https://www.npmjs.com/package/${name}`,
+    weeklyDownloads: downloads.downloads || 0,
+    totalDownloads: null,
+    tracked,
+  };
+}
+
+// npm has no "rising" listing; search ranked purely by popularity is the closest
+async function discoverCandidates(context: FetchContext, query: string, size: number): Promise<string[]> {
+  const params = new URLSearchParams({
+    text: query,
+    size: String(size),
+    popularity: '1.0',
+    quality: '0.0',
+    maintenance: '0.0',
+  });
+  const results = await fetchRecordedJson<NpmSearchResults>(
+    context,
+    `https://registry.npmjs.org/-/v1/search?${params}`,
+    'npm search',
+    FIXTURE
+  );
+
+  return (results.objects || [])
+    .map((result) => result.package?.name)
+    .filter((name): name is string => typeof name === 'string' && NAME_PATTERN.test(name));
+}
+
+export const npmAdapter: SourceAdapter<PackageInfo> = {
+  sourceName: 'npm_registry',
+  targetTable: 'packages',
+  conflictTarget: 'registry,name',
+  // Two requests per package plus the search, for the seeded metadata
+  rateLimit: { minIntervalMinutes: 360, requestsPerFetch: 49 },
+
+  async fetch(config, context) {
+    const selection = packageSelectionFrom(config, NAME_PATTERN);
+    const query = typeof config.discover_query === 'string' && config.discover_query.trim()
+      ? config.discover_query.trim()
+      : DEFAULT_DISCOVER_QUERY;
+
+    const candidates = selection.discover && selection.maxDiscovered > 0
+      ? await discoverCandidates(context, query, selection.maxDiscovered * 2)
+      : [];
+
+    return collectPackages(
+      selection,
+      candidates,
+      (name, tracked) => loadPackage(context, name, tracked),
+      'npm registry'
+    );
+  },
+
+  normalize(packages) {
+    return packages.map(toPackageRow);
+  },
+
+  async probe() {
+    return probeUrl('https://registry.npmjs.org/-/ping', 'npm registry');
+  },
+};
@@ -0,0 +1,125 @@
+import type { FetchContext, SourceAdapter } from '../types.ts';
+import { fetchRecordedJson, probeUrl } from '../http.ts';
+import {
+  collectPackages,
+  normalizeKeywords,
+  normalizeRepositoryUrl,
+  packageSelectionFrom,
+  PackageInfo,
+  toPackageRow,
+} from '../packages.ts';
+
+interface PypiProject {
+  info: {
+    name: string;
+    version: string;
+    summary: string | null;
+    keywords: string | null;
+    home_page: string | null;
+    project_urls: Record<string, string> | null;
+  };
+}
+
+interface PypiStatsRecent {
+  package: string;
+  type: 'recent_downloads';
+  data: { last_day: number; last_week: number; last_month: number };
+}
+
+/** Monthly snapshot of the most downloaded projects, published from the BigQuery dataset. */
+interface TopPypiPackages {
+  last_update: string;
+  rows: Array<{ project: string; download_count: number }>;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9]([A-Za-z0-9._-]*[A-Za-z0-9])?$/;
+const TOP_PACKAGES_URL = 'https://hugovk.github.io/top-pypi-packages/top-pypi-packages-30-days.min.json';
+const FIXTURE = 'pypi';
+
+/** PEP 503 normalized name, so `Django` and `django` are one package. */
+function canonicalName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/** `project_urls` labels are free-form; source links are usually called one of these. */
+function repositoryFrom(info: PypiProject['info']): string | null {
+  const urls = Object.entries(info.project_urls || {});
+  const labelled = urls.find(([label]) => /source|repo|code|github/i.test(label));
+  const onGithub = urls.find(([, url]) => /github\.com\//i.test(url));
+  const candidate = labelled?.[1] || onGithub?.[1] ||
+    (info.home_page && /github\.com\//i.test(info.home_page) ? info.home_page : null);
+
+  return normalizeRepositoryUrl(candidate);
+}
+
+async function loadPackage(context: FetchContext, name: string, tracked: boolean): Promise<PackageInfo> {
+  const canonical = canonicalName(name);
+  const project = await fetchRecordedJson<PypiProject>(
+    context,
+    `https://pypi.org/pypi/${canonical}/json`,
+    'PyPI',
+    FIXTURE
+  );
+  const stats = await fetchRecordedJson<PypiStatsRecent>(
+    context,
+    `https://pypistats.org/api/packages/${canonical}/recent`,
+    'pypistats',
+    FIXTURE
+  );
+
+  const { info } = project;
+  const homepage = info.project_urls?.Homepage || info.home_page || null;
+
+  return {
+    registry: 'pypi',
+    name: canonical,
+    description: info.summary || null,
+    latestVersion: info.version || null,
+    keywords: normalizeKeywords(info.keywords),
+    repositoryUrl: repositoryFrom(info),
+    homepageUrl: homepage,
+    url: `https://pypi.org/project/${canonical}/`,
+    weeklyDownloads: stats.data?.last_week || 0,
+    totalDownloads: null,
+    tracked,
+  };
+}
+
+async function discoverCandidates(context: FetchContext): Promise<string[]> {
+  const top = await fetchRecordedJson<TopPypiPackages>(context, TOP_PACKAGES_URL, 'Top PyPI packages', FIXTURE);
+
+  return (top.rows || [])
+    .map((row) => row.project)
+    .filter((name): name is string => typeof name === 'string' && NAME_PATTERN.test(name))
+    .map(canonicalName);
+}
+
+export const pypiAdapter: SourceAdapter<PackageInfo> = {
+  sourceName: 'pypi_registry',
+  targetTable: 'packages',
+  conflictTarget: 'registry,name',
+  // Two requests per package plus the top list, for the seeded metadata
+  rateLimit: { minIntervalMinutes: 360, requestsPerFetch: 47 },
+
+  async fetch(config, context) {
+    const selection = packageSelectionFrom(config, NAME_PATTERN);
+    selection.tracked = Array.from(new Set(selection.tracked.map(canonicalName)));
+
+    const candidates = selection.discover && selection.maxDiscovered > 0 ? await discoverCandidates(context) : [];
+
+    return collectPackages(
+      selection,
+      candidates,
+      (name, tracked) => loadPackage(context, name, tracked),
+      'PyPI'
+    );
+  },
+
+  normalize(packages) {
+    return packages.map(toPackageRow);
+  },
+
+  async probe() {
+    return probeUrl('https://pypistats.org/api/packages/pip/recent', 'pypistats');
+  },
+};
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { createFetchContext, DEFAULT_SOURCE_POLICY } from '../policy.ts';
+import { redditAdapter } from './reddit.ts';
+
+// Replays fixtures/reddit-hot.json instead of calling Reddit
+Deno.env.set('SOURCE_FIXTURES', '1');
+
+async function fetchTrends() {
+  const context = createFetchContext(redditAdapter.sourceName, DEFAULT_SOURCE_POLICY);
+  return redditAdapter.normalize(await redditAdapter.fetch({}, context));
+}
+
+Deno.test('reddit adapter skips pinned and NSFW posts', async () => {
+  const trends = await fetchTrends();
+
+  assert.deepEqual(trends.map((trend) => trend.source_item_id), ['1gq3k7m', '1gq5n2c', '1gq6p9x', '1gq8z2k']);
+  assert.deepEqual(trends.map((trend) => trend.rank), [1, 2, 3, 4]);
+});
+
+Deno.test('reddit adapter keys trends by title and counts points', async () => {
+  const [first] = await fetchTrends();
+
+  assert.equal(first.trend_name, 'Rust 1.82 stabilizes precise capturing and unsafe extern blocks');
+  assert.equal(first.trend_key, 'rust 1.82 stabilizes precise capturing and unsafe extern blocks');
+  assert.equal(first.source, 'reddit_api');
+  assert.equal(first.source_item_id, '1gq3k7m');
+  assert.equal(first.metric_type, 'points');
+  assert.equal(first.tweet_count, 1873);
+  assert.equal(first.url, 'https://blog.rust-lang.org/2024/10/17/Rust-1.82.0.html');
+});
+
+Deno.test('reddit adapter reports healthy without probing in fixture mode', async () => {
+  assert.deepEqual(await redditAdapter.probe({}), { status: 'healthy', message: null });
+});
@@ -0,0 +1,103 @@
+import type { SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { fetchJson, USER_AGENT, usingFixtures } from '../http.ts';
+
+interface RedditPost {
+  id: string;
+  title: string;
+  subreddit: string;
+  permalink: string;
+  url: string;
+  score: number;
+  num_comments: number;
+  stickied: boolean;
+  over_18: boolean;
+  created_utc: number;
+}
+
+interface RedditListing {
+  kind: 'Listing';
+  data: {
+    children: Array<{ kind: string; data: RedditPost }>;
+  };
+}
+
+const DEFAULT_SUBREDDITS = ['programming', 'technology', 'MachineLearning'];
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/** Subreddits come from `data_sources.metadata.subreddits`; names are validated as Reddit does. */
+function subredditsFrom(config: Record<string, any>): string[] {
+  const configured = Array.isArray(config.subreddits) ? config.subreddits : DEFAULT_SUBREDDITS;
+  const valid = configured.filter(
+    (name: unknown): name is string => typeof name === 'string' && /^[A-Za-z0-9_]{2,21}$/.test(name)
+  );
+  return valid.length > 0 ? valid : DEFAULT_SUBREDDITS;
+}
+
+function limitFrom(config: Record<string, any>): number {
+  const limit = Number(config.limit);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT;
+}
+
+// One request for every subreddit, ranked together by Reddit's hot score
+function hotListingUrl(subreddits: string[], limit: number): string {
+  return `https://www.reddit.com/r/${subreddits.join('+')}/hot.json?limit=${limit}&raw_json=1`;
+}
+
+export const redditAdapter: SourceAdapter<RedditPost> = {
+  sourceName: 'reddit_api',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  rateLimit: { minIntervalMinutes: 30, requestsPerFetch: 1 },
+
+  async fetch(config, context) {
+    const listing = await fetchJson<RedditListing>(
+      context,
+      hotListingUrl(subredditsFrom(config), limitFrom(config)),
+      'Reddit API',
+      'reddit-hot'
+    );
+
+    if (listing?.kind !== 'Listing' || !Array.isArray(listing.data?.children)) {
+      throw new Error('Reddit API returned an unexpected listing');
+    }
+
+    // Pinned announcements and NSFW posts are not trends
+    return listing.data.children
+      .filter((child) => child.kind === 't3' && child.data?.title)
+      .map((child) => child.data)
+      .filter((post) => !post.stickied && !post.over_18);
+  },
+
+  normalize(posts) {
+    return posts.map((post, index) => ({
+      trend_name: post.title,
+      trend_key: trendKey(post.title),
+      source: 'reddit_api',
+      source_item_id: post.id,
+      metric_type: 'points',
+      rank: index + 1,
+      tweet_count: post.score || 0,
+      url: post.url || `https://www.reddit.com${post.permalink}`,
+      category: 'tech',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe(config) {
+    if (usingFixtures()) return { status: 'healthy', message: null };
+
+    try {
+      const response = await fetch(hotListingUrl(subredditsFrom(config), 1), {
+        headers: { 'User-Agent': USER_AGENT },
+      });
+      await response.body?.cancel();
+      return response.ok
+        ? { status: 'healthy', message: null }
+        : { status: 'degraded', message: `Reddit API returned ${response.status}` };
+    } catch (error) {
+      return { status: 'offline', message: error.message };
+    }
+  },
+};
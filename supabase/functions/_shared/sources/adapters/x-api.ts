@@ -0,0 +1,58 @@
+import type { SourceAdapter } from '../types.ts';
+import { trendKey } from '../keys.ts';
+import { fetchWithRetry } from '../http.ts';
+
+interface XTrend {
+  name: string;
+  tweet_volume?: number;
+  url?: string;
+}
+
+export const xApiAdapter: SourceAdapter<XTrend> = {
+  sourceName: 'x_api',
+  targetTable: 'x_trends',
+  conflictTarget: 'trend_key',
+  tokenEnv: 'X_BEARER_TOKEN',
+  rateLimit: { minIntervalMinutes: 15, requestsPerFetch: 1 },
+
+  async fetch(_config, context) {
+    const xBearerToken = Deno.env.get('X_BEARER_TOKEN');
+    const response = await fetchWithRetry(context, 'https://api.twitter.com/2/trends/place.json?id=1', {
+      headers: {
+        'Authorization': `Bearer ${xBearerToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`X API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const trends: XTrend[] = data[0]?.trends || [];
+    return trends.slice(0, 20);
+  },
+
+  normalize(trends) {
+    return trends.map((trend, index) => ({
+      trend_name: trend.name,
+      trend_key: trendKey(trend.name),
+      source: 'x_api',
+      source_item_id: null,
+      metric_type: 'posts',
+      rank: index + 1,
+      tweet_count: trend.tweet_volume || 0,
+      url: trend.url || `https://x.com/search?q=${encodeURIComponent(trend.name)}`,
+      category: trend.name.startsWith('#') ? 'hashtag' : 'topic',
+      fetched_at: new Date().toISOString(),
+    }));
+  },
+
+  async probe() {
+    const xBearerToken = Deno.env.get('X_BEARER_TOKEN');
+    if (!xBearerToken) {
+      return { status: 'offline', message: 'X_BEARER_TOKEN not configured' };
+    }
+    return { status: 'healthy', message: null };
+  },
+};
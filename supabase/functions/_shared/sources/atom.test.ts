@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { childElements, elementText, parseAtomFeed } from './atom.ts';
+
+const ARXIV = await Deno.readTextFile(new URL('./fixtures/arxiv-query.xml', import.meta.url));
+
+Deno.test('parseAtomFeed reads the feed head and every entry', () => {
+  const feed = parseAtomFeed(ARXIV);
+
+  assert.match(feed.title, /^ArXiv Query: search_query=cat:cs\.AI OR cat:cs\.LG OR cat:cs\.CL&id_list=/);
+  assert.equal(feed.updated, '2024-11-14T00:00:00-05:00');
+  assert.deepEqual(feed.entries.map((entry) => entry.id), [
+    'http://arxiv.org/abs/2411.08033v2',
+    'http://arxiv.org/abs/2411.07921v1',
+    'http://arxiv.org/abs/2411.07688v1',
+    'http://arxiv.org/abs/2411.07502v1',
+    // The adapter skips entries without an id; the reader keeps them
+    '',
+    'http://arxiv.org/abs/2411.07115v3',
+  ]);
+});
+
+Deno.test('parseAtomFeed decodes entry text', () => {
+  const [first, second, , cdata] = parseAtomFeed(ARXIV).entries;
+
+  // Line breaks in titles and summaries collapse to single spaces
+  assert.equal(
+    first.title,
+    'Sparse Mixture-of-Experts Routing with Learned Token Budgets for Efficient Long-Context Inference'
+  );
+  assert.match(first.summary, /^Long-context inference in large language models is dominated by attention and/);
+  assert.match(first.summary, /learned compute budget & skips experts/);
+  assert.equal(first.published, '2024-11-12T18:59:51Z');
+  assert.equal(first.updated, '2024-11-13T17:42:10Z');
+
+  assert.match(second.summary, /retry strategies that ignore <Retry-After> headers/);
+  assert.equal(cdata.title, 'Q-Former & Friends: Revisiting Vision-Language Connectors');
+});
+
+Deno.test('parseAtomFeed lists authors in order', () => {
+  const entries = parseAtomFeed(ARXIV).entries;
+
+  assert.deepEqual(entries[0].authors, ['Mei Tanaka', 'Jonas Richter', 'Priya Raman']);
+  assert.deepEqual(entries[1].authors, ['Samuel Okafor', 'Lucía Fernández']);
+  assert.deepEqual(entries[3].authors, ['Hannah Becker']);
+  assert.deepEqual(entries[4].authors, []);
+});
+
+Deno.test('parseAtomFeed reads categories and links', () => {
+  const entries = parseAtomFeed(ARXIV).entries;
+
+  assert.deepEqual(entries[0].categories, ['cs.LG', 'cs.CL']);
+  assert.deepEqual(entries[2].categories, ['cs.CL']);
+  assert.deepEqual(entries[5].categories, ['cs.SE', 'cs.LG']);
+
+  assert.deepEqual(entries[0].links, [
+    { href: 'http://arxiv.org/abs/2411.08033v2', rel: 'alternate', type: 'text/html', title: null },
+    { href: 'http://arxiv.org/pdf/2411.08033v2', rel: 'related', type: 'application/pdf', title: 'pdf' },
+  ]);
+  assert.equal(
+    entries[2].links.find((link) => link.title === 'doi')?.href,
+    'http://dx.doi.org/10.18653/v1/2024.emnlp-main.512'
+  );
+});
+
+Deno.test('childElements reads prefixed extension elements from an entry', () => {
+  const [first, , third] = parseAtomFeed(ARXIV).entries;
+
+  assert.equal(elementText(childElements(first.xml, 'arxiv:comment')[0]), '21 pages, 9 figures; v2 adds ablations');
+  assert.equal(childElements(first.xml, 'arxiv:primary_category')[0].attributes.term, 'cs.LG');
+  assert.equal(childElements(first.xml, 'arxiv:primary_category')[0].content, null);
+  assert.equal(elementText(childElements(third.xml, 'arxiv:doi')[0]), '10.18653/v1/2024.emnlp-main.512');
+  assert.deepEqual(childElements(third.xml, 'arxiv:affiliation'), []);
+});
+
+Deno.test('parseAtomFeed keeps the entries before a truncation', () => {
+  const cut = ARXIV.indexOf('<id>http://arxiv.org/abs/2411.07688v1</id>');
+  const feed = parseAtomFeed(ARXIV.slice(0, cut));
+
+  assert.equal(feed.updated, '2024-11-14T00:00:00-05:00');
+  assert.deepEqual(feed.entries.map((entry) => entry.id), [
+    'http://arxiv.org/abs/2411.08033v2',
+    'http://arxiv.org/abs/2411.07921v1',
+  ]);
+});
+
+Deno.test('parseAtomFeed rejects documents that are not Atom', () => {
+  assert.throws(() => parseAtomFeed('<rss version="2.0"><channel></channel></rss>'), /Not an Atom feed/);
+  assert.throws(() => parseAtomFeed(''), /Not an Atom feed/);
+});
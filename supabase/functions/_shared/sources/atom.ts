@@ -0,0 +1,182 @@
+/**
+ * Minimal Atom (RFC 4287) reader. The edge runtime has no DOM parser, so this
+ * scans the text for the few elements adapters need. Anything it does not
+ * recognise is ignored, and an entry cut off mid-document is dropped rather
+ * than failing the whole feed.
+ */
+
+export interface XmlElement {
+  attributes: Record<string, string>;
+  /** Raw inner XML; null for self-closing elements. */
+  content: string | null;
+}
+
+export interface AtomLink {
+  href: string;
+  rel: string;
+  type: string | null;
+  title: string | null;
+}
+
+export interface AtomEntry {
+  id: string;
+  title: string;
+  summary: string;
+  published: string | null;
+  updated: string | null;
+  authors: string[];
+  links: AtomLink[];
+  categories: string[];
+  /** Raw entry XML, for reading extension elements with `childElements`. */
+  xml: string;
+}
+
+export interface AtomFeed {
+  title: string;
+  updated: string | null;
+  entries: AtomEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] !== '#') {
+      return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+    }
+
+    const point = code[1] === 'x' || code[1] === 'X'
+      ? parseInt(code.slice(2), 16)
+      : parseInt(code.slice(1), 10);
+
+    try {
+      return String.fromCodePoint(point);
+    } catch {
+      return match;
+    }
+  });
+}
+
+/** Decodes entities outside CDATA sections; CDATA content is kept verbatim. */
+export function decodeXmlText(text: string): string {
+  return text
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)))
+    .join('');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Elements named `name` (prefix included, e.g. `arxiv:comment`) inside
+ * `xml`. Nested elements of the same name are not supported; Atom has none.
+ */
+export function childElements(xml: string, name: string): XmlElement[] {
+  const tag = escapeRegExp(name);
+  const pattern = new RegExp(`<${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${tag}\\s*>)`, 'g');
+
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: parseAttributes(match[1] || ''),
+    content: match[2] ?? null,
+  }));
+}
+
+/** Text of an HTML fragment, with scripts, styles and tags dropped. */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[\s>][\s\S]*?<\/\1\s*>/gi, ' ')
+      // Block elements separate words; inline ones such as `#<span>tag</span>` do not
+      .replace(/<\/?(?:p|br|div|li|ul|ol|h[1-6]|blockquote|pre|table|tr|td|th|hr)\b[^>]*>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+/**
+ * Plain text of an element: entities decoded, markup removed for `html` and
+ * `xhtml` text constructs, whitespace collapsed.
+ */
+export function elementText(element: XmlElement | undefined): string {
+  if (!element?.content) return '';
+
+  const type = element.attributes.type;
+  let text = element.content;
+
+  if (type === 'xhtml') {
+    text = decodeXmlText(text.replace(/<[^>]+>/g, ' '));
+  } else if (type === 'html') {
+    text = htmlToText(decodeXmlText(text));
+  } else {
+    text = decodeXmlText(text);
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function firstText(xml: string, name: string): string {
+  return elementText(childElements(xml, name)[0]);
+}
+
+function parseEntry(xml: string): AtomEntry {
+  return {
+    id: firstText(xml, 'id'),
+    title: firstText(xml, 'title'),
+    summary: firstText(xml, 'summary') || firstText(xml, 'content'),
+    published: firstText(xml, 'published') || null,
+    updated: firstText(xml, 'updated') || null,
+    authors: childElements(xml, 'author')
+      .map((author) => firstText(author.content || '', 'name'))
+      .filter(Boolean),
+    links: childElements(xml, 'link')
+      .filter((link) => link.attributes.href)
+      .map((link) => ({
+        href: link.attributes.href,
+        rel: link.attributes.rel || 'alternate',
+        type: link.attributes.type || null,
+        title: link.attributes.title || null,
+      })),
+    categories: childElements(xml, 'category')
+      .map((category) => category.attributes.term)
+      .filter((term): term is string => !!term),
+    xml,
+  };
+}
+
+export function parseAtomFeed(xml: string): AtomFeed {
+  const document = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const feed = childElements(document, 'feed')[0]
+    // A truncated document still yields the entries before the cut
+    ?? (/<feed[\s>]/.test(document) ? { attributes: {}, content: document } : undefined);
+
+  if (!feed?.content) {
+    throw new Error('Not an Atom feed');
+  }
+
+  // Feed-level metadata comes before the first entry
+  const head = feed.content.split(/<entry[\s>]/)[0];
+
+  return {
+    title: firstText(head, 'title'),
+    updated: firstText(head, 'updated') || null,
+    entries: childElements(feed.content, 'entry')
+      .filter((entry) => entry.content !== null)
+      .map((entry) => parseEntry(entry.content!)),
+  };
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { parseFeed } from './feeds.ts';
+
+function fixture(name: string): Promise<string> {
+  return Deno.readTextFile(new URL(`./fixtures/feeds/${name}`, import.meta.url));
+}
+
+Deno.test('parseFeed reads RSS 2.0 items', async () => {
+  const feed = parseFeed(await fixture('github-blog.xml'), 'application/rss+xml; charset=UTF-8');
+
+  assert.equal(feed.format, 'rss');
+  assert.equal(feed.title, 'The GitHub Blog');
+  assert.deepEqual(feed.items[0], {
+    guid: 'https://github.blog/?p=81234',
+    title: 'Securing your supply chain with artifact attestations & SBOMs',
+    url: 'https://github.blog/security/supply-chain-security/securing-your-supply-chain-with-artifact-attestations/',
+    summary: 'Artifact attestations let you prove where and how your software was built. Here’s how to generate '
+      + 'them in actions/attest-build-provenance and verify them before deploy. The post Securing your supply '
+      + 'chain appeared first on The GitHub Blog.',
+    author: 'Priya Shah',
+    categories: ['Security', 'Supply chain security'],
+    publishedAt: '2024-11-13T17:00:00.000Z',
+  });
+});
+
+Deno.test('parseFeed keeps escaped markup in RSS titles as text', async () => {
+  const [, second, third] = parseFeed(await fixture('github-blog.xml')).items;
+
+  assert.equal(second.title, 'What’s new in Copilot code review for Vec<T> fans');
+  // The unescaped ampersand is kept rather than failing the feed
+  assert.equal(
+    second.summary,
+    'Copilot code review now understands Rust generics & lifetimes, and leaves fewer duplicate comments.'
+  );
+  assert.equal(second.url, '/news-insights/product-news/whats-new-in-copilot-code-review/');
+
+  // content:encoded stands in for description; scripts and styles are dropped
+  assert.equal(third.summary, 'Full report inside.');
+  // No guid: the link identifies the item; an unparseable date is left out
+  assert.equal(third.guid, 'https://github.blog/news-insights/octoverse/octoverse-2024/');
+  assert.equal(third.publishedAt, null);
+});
+
+Deno.test('parseFeed drops empty and truncated RSS items', async () => {
+  const feed = parseFeed(await fixture('github-blog.xml'));
+
+  assert.deepEqual(feed.items.map((item) => item.title), [
+    'Securing your supply chain with artifact attestations & SBOMs',
+    'What’s new in Copilot code review for Vec<T> fans',
+    'Octoverse 2024: the state of open source',
+  ]);
+});
+
+Deno.test('parseFeed reads RSS 1.0 items next to the channel', () => {
+  const feed = parseFeed(`<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://example.org/"><title>Example 1.0</title></channel>
+  <item rdf:about="https://example.org/posts/1">
+    <title>First</title>
+    <link>https://example.org/posts/1</link>
+    <dc:date>2024-11-01T09:00:00Z</dc:date>
+    <dc:creator>Ada</dc:creator>
+  </item>
+</rdf:RDF>`);
+
+  assert.equal(feed.format, 'rss');
+  assert.equal(feed.title, 'Example 1.0');
+  assert.deepEqual(feed.items, [{
+    guid: 'https://example.org/posts/1',
+    title: 'First',
+    url: 'https://example.org/posts/1',
+    summary: '',
+    author: 'Ada',
+    categories: [],
+    publishedAt: '2024-11-01T09:00:00.000Z',
+  }]);
+});
+
+Deno.test('parseFeed reads Atom entries', async () => {
+  const feed = parseFeed(await fixture('rust-blog.xml'), 'application/xml');
+
+  assert.equal(feed.format, 'atom');
+  assert.equal(feed.title, 'Rust Blog');
+  assert.equal(feed.items.length, 2);
+  assert.deepEqual(feed.items[1], {
+    guid: 'https://blog.rust-lang.org/2024/10/17/Rust-1.82.0.html',
+    title: 'Announcing Rust 1.82.0',
+    url: 'https://blog.rust-lang.org/2024/10/17/Rust-1.82.0.html',
+    summary: 'The Rust team is happy to announce a new version of Rust, 1.82.0. Highlights include cargo info '
+      + 'and precise capturing with use<..>.',
+    author: 'The Rust Release Team',
+    categories: ['release'],
+    publishedAt: '2024-10-17T00:00:00.000Z',
+  });
+  // The feed-level author is not an entry author
+  assert.equal(feed.items[0].author, 'Arthur Cohen on behalf of the gccrs project');
+});
+
+Deno.test('parseFeed reads JSON Feed 1.0 and 1.1 items', async () => {
+  const feed = parseFeed(await fixture('jsonfeed.json'), 'application/feed+json');
+
+  assert.equal(feed.format, 'json');
+  assert.equal(feed.title, 'JSON Feed');
+  assert.equal(feed.items.length, 3);
+
+  const [current, legacy, external] = feed.items;
+  assert.equal(current.author, 'Manton Reece');
+  assert.deepEqual(current.categories, ['spec', 'release']);
+  assert.match(current.summary, /^We’ve updated the spec to version 1\.1\. /);
+  assert.equal(current.publishedAt, '2020-08-07T16:44:36.000Z');
+
+  assert.equal(legacy.guid, '2017');
+  assert.equal(legacy.author, 'Brent Simmons');
+  assert.equal(legacy.title, '');
+
+  assert.equal(external.guid, 'https://example.org/elsewhere');
+  assert.equal(external.url, 'https://example.org/elsewhere');
+});
+
+Deno.test('parseFeed tells formats apart by content, not content type', async () => {
+  assert.equal(parseFeed(await fixture('rust-blog.xml'), 'text/html').format, 'atom');
+  assert.equal(parseFeed(`\uFEFF${await fixture('jsonfeed.json')}`, 'application/octet-stream').format, 'json');
+});
+
+Deno.test('parseFeed keeps what it can of malformed XML', () => {
+  const feed = parseFeed(`<rss version="2.0"><channel><title>Broken</title>
+    <item><title>Kept</title><link>https://example.org/kept</link></item>
+    <item><title>Unclosed <b>bold</title><description>x < y && z</description></item>
+    <item><title>Cut off`);
+
+  assert.equal(feed.title, 'Broken');
+  assert.deepEqual(feed.items.map((item) => item.title), ['Kept', 'Unclosed <b>bold']);
+  assert.equal(feed.items[1].summary, 'x < y && z');
+});
+
+Deno.test('parseFeed rejects documents that are not feeds', () => {
+  assert.throws(() => parseFeed('<!DOCTYPE html><html><body>Not found</body></html>', 'text/html'), {
+    message: 'Unrecognised feed format',
+  });
+  assert.throws(() => parseFeed('{"version": "https://jsonfeed.org/version/1.1", "items": ['), {
+    message: 'Malformed JSON Feed',
+  });
+  assert.throws(() => parseFeed('{"items": []}'), { message: 'Not a JSON Feed' });
+  assert.throws(() => parseFeed(''), { message: 'Unrecognised feed format' });
+});
@@ -0,0 +1,193 @@
+/**
+ * Reader for the three syndication formats people publish: RSS (2.0 and the
+ * RDF-based 1.0), Atom and JSON Feed. Like `atom.ts` it scans text rather
+ * than building a tree, so a feed with stray markup or cut off mid-item
+ * still yields the items that made it through intact.
+ */
+import { childElements, elementText, htmlToText, parseAtomFeed, XmlElement } from './atom.ts';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedItem {
+  /** GUID as published, or the link, or title and date when the feed has neither. */
+  guid: string;
+  title: string;
+  url: string | null;
+  summary: string;
+  author: string | null;
+  categories: string[];
+  publishedAt: string | null;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  items: FeedItem[];
+}
+
+/** ISO timestamp for an RFC 822 or RFC 3339 date; null when it does not parse. */
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function fallbackGuid(url: string | null, title: string, publishedAt: string | null): string {
+  return url || `${title}|${publishedAt ?? ''}`;
+}
+
+function firstText(xml: string, ...names: string[]): string {
+  for (const name of names) {
+    const text = elementText(childElements(xml, name)[0]);
+    if (text) return text;
+  }
+  return '';
+}
+
+/** RSS puts HTML in `description` without saying so; treat it as such. */
+function htmlText(element: XmlElement | undefined): string {
+  return element ? elementText({ ...element, attributes: { ...element.attributes, type: 'html' } }) : '';
+}
+
+function parseRssItem(item: XmlElement): FeedItem | null {
+  const xml = item.content || '';
+
+  // Titles are plain text in practice, and `Vec&lt;T&gt;` must survive
+  const title = firstText(xml, 'title');
+  const summary = htmlText(childElements(xml, 'description')[0])
+    || htmlText(childElements(xml, 'content:encoded')[0]);
+  const url = firstText(xml, 'link') || null;
+  const publishedAt = toIsoDate(firstText(xml, 'pubDate', 'dc:date'));
+
+  if (!title && !summary) return null;
+
+  return {
+    // RSS 1.0 identifies items by their rdf:about attribute
+    guid: firstText(xml, 'guid') || item.attributes['rdf:about'] || fallbackGuid(url, title, publishedAt),
+    title,
+    url,
+    summary,
+    author: firstText(xml, 'dc:creator', 'author') || null,
+    categories: childElements(xml, 'category').map((category) => elementText(category)).filter(Boolean),
+    publishedAt,
+  };
+}
+
+function parseRss(document: string): ParsedFeed {
+  const channel = childElements(document, 'channel')[0]?.content
+    // Truncated: the channel never closes
+    ?? document.split(/<channel[\s>]/)[1]
+    ?? '';
+
+  return {
+    format: 'rss',
+    title: firstText(channel.split(/<item[\s>]/)[0], 'title'),
+    // RSS 2.0 nests items in the channel, RSS 1.0 makes them its siblings
+    items: childElements(document, 'item')
+      .filter((item) => item.content !== null)
+      .map(parseRssItem)
+      .filter((item): item is FeedItem => item !== null),
+  };
+}
+
+function parseAtom(document: string): ParsedFeed {
+  const feed = parseAtomFeed(document);
+
+  return {
+    format: 'atom',
+    title: feed.title,
+    items: feed.entries
+      .filter((entry) => entry.title || entry.summary)
+      .map((entry) => {
+        const link = entry.links.find((candidate) => candidate.rel === 'alternate') ?? entry.links[0];
+        const url = link?.href || null;
+        const publishedAt = toIsoDate(entry.published || entry.updated);
+
+        return {
+          guid: entry.id || fallbackGuid(url, entry.title, publishedAt),
+          title: entry.title,
+          url,
+          summary: entry.summary,
+          author: entry.authors[0] || null,
+          categories: entry.categories,
+          publishedAt,
+        };
+      }),
+  };
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+function parseJsonFeed(body: string): ParsedFeed {
+  let feed: any;
+  try {
+    feed = JSON.parse(body);
+  } catch {
+    throw new Error('Malformed JSON Feed');
+  }
+
+  if (!feed || typeof feed.version !== 'string' || !feed.version.startsWith('https://jsonfeed.org/version/')) {
+    throw new Error('Not a JSON Feed');
+  }
+
+  const items = Array.isArray(feed.items) ? feed.items : [];
+
+  return {
+    format: 'json',
+    title: text(feed.title),
+    items: items
+      .filter((item: unknown) => item && typeof item === 'object')
+      .map((item: any): FeedItem | null => {
+        const title = text(item.title);
+        const summary = text(item.summary)
+          || text(item.content_text)
+          || (typeof item.content_html === 'string' ? text(htmlToText(item.content_html)) : '');
+        if (!title && !summary) return null;
+
+        const url = text(item.url) || text(item.external_url) || null;
+        const publishedAt = toIsoDate(item.date_published || item.date_modified);
+        // 1.1 has an authors array; 1.0 a single author
+        const author = Array.isArray(item.authors) ? item.authors[0] : item.author;
+
+        return {
+          guid: item.id !== undefined && item.id !== null && String(item.id) !== ''
+            ? String(item.id)
+            : fallbackGuid(url, title, publishedAt),
+          title,
+          url,
+          summary,
+          author: text(author?.name) || null,
+          categories: Array.isArray(item.tags) ? item.tags.map(text).filter(Boolean) : [],
+          publishedAt,
+        };
+      })
+      .filter((item: FeedItem | null): item is FeedItem => item !== null),
+  };
+}
+
+/**
+ * Parses a feed body, telling the format from the document itself: servers
+ * label feeds `text/html` or `application/octet-stream` often enough that
+ * the content type is only a tiebreaker.
+ */
+export function parseFeed(body: string, contentType: string | null = null): ParsedFeed {
+  const trimmed = body.replace(/^\uFEFF/, '').trim();
+
+  if (trimmed.startsWith('{') || (/json/i.test(contentType || '') && !trimmed.startsWith('<'))) {
+    return parseJsonFeed(trimmed);
+  }
+
+  const document = trimmed.replace(/<!--[\s\S]*?-->/g, '');
+
+  if (/<(rss|rdf:RDF)[\s>]/.test(document) || /<channel[\s>]/.test(document)) {
+    return parseRss(document);
+  }
+
+  if (/<feed[\s>]/.test(document)) {
+    return parseAtom(document);
+  }
+
+  throw new Error('Unrecognised feed format');
+}
@@ -0,0 +1,283 @@
+import type { FetchContext, HealthProbeResult, HttpPolicy, HttpValidators } from './types.ts';
+
+/** Identifies us to APIs that reject anonymous clients, such as Reddit. */
+export const USER_AGENT = 'dragonandpanda-trends/1.0 (+https://dragonandpanda.space)';
+
+/**
+ * With `SOURCE_FIXTURES` set, adapters read their recorded responses from
+ * `sources/fixtures/` instead of the network. Only for local runs, e.g.
+ * `supabase functions serve`; deployed bundles do not include the fixtures.
+ */
+export function usingFixtures(): boolean {
+  return !!Deno.env.get('SOURCE_FIXTURES');
+}
+
+export async function loadFixture<T>(name: string): Promise<T> {
+  const text = await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url));
+  return JSON.parse(text) as T;
+}
+
+// Timeouts, throttling and server errors are usually gone a few seconds later
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Full jitter: a random wait up to the exponential cap, so concurrent retries spread out. */
+function backoffDelay(policy: HttpPolicy, retry: number): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+}
+
+/** `Retry-After` as a time: delay seconds or an HTTP date. */
+function retryAfterAt(headers: Headers): number | null {
+  const value = headers.get('retry-after');
+  if (!value) return null;
+
+  const at = /^\d+$/.test(value.trim()) ? Date.now() + Number(value) * 1000 : Date.parse(value);
+  return Number.isFinite(at) ? at : null;
+}
+
+/** `X-RateLimit-Reset` as a time. GitHub and X send epoch seconds, Reddit seconds until the reset. */
+function rateLimitResetAt(headers: Headers): number | null {
+  const value = Number(headers.get('x-ratelimit-reset') ?? NaN);
+  if (!Number.isFinite(value)) return null;
+
+  return value > 1e9 ? value * 1000 : Date.now() + value * 1000;
+}
+
+function recordRateLimit(context: FetchContext, response: Response) {
+  const remaining = Number(response.headers.get('x-ratelimit-remaining') ?? NaN);
+  const resetAt = rateLimitResetAt(response.headers)
+    ?? (response.status === 429 ? retryAfterAt(response.headers) : null);
+
+  if (Number.isFinite(remaining)) {
+    // Reddit reports fractional remaining requests
+    context.rateLimit.remaining = Math.floor(remaining);
+  } else if (response.status === 429) {
+    context.rateLimit.remaining = 0;
+  }
+
+  if (resetAt !== null) {
+    context.rateLimit.resetAt = new Date(resetAt).toISOString();
+  }
+}
+
+/**
+ * `fetch` with retries, as set by `context.http`. Network errors and
+ * retryable statuses are retried after a jittered exponential backoff, or
+ * after the wait a 429 or 503 asks for. The last response is returned
+ * whatever its status, so callers check `ok` as with `fetch`; a wait longer
+ * than `maxDelayMs` returns the response at once and leaves the source to
+ * its next scheduled run. Rate-limit headers are recorded in
+ * `context.rateLimit`.
+ */
+export async function fetchWithRetry(context: FetchContext, url: string, init: RequestInit = {}): Promise<Response> {
+  const policy = context.http;
+
+  for (let retry = 0; ; retry++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (retry >= policy.maxRetries) throw error;
+      await sleep(backoffDelay(policy, retry));
+      continue;
+    }
+
+    recordRateLimit(context, response);
+
+    if (!RETRYABLE_STATUSES.has(response.status) || retry >= policy.maxRetries) {
+      return response;
+    }
+
+    const requestedAt = retryAfterAt(response.headers)
+      ?? (response.status === 429 ? rateLimitResetAt(response.headers) : null);
+    const delay = requestedAt !== null ? Math.max(0, requestedAt - Date.now()) : backoffDelay(policy, retry);
+    if (delay > policy.maxDelayMs) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+const responseCache = new Map<string, { body: string; expiresAt: number }>();
+
+/** GETs a document through the response cache; `cache_duration_minutes` sets how long entries live. */
+async function fetchCachedBody(context: FetchContext, url: string, label: string, accept: string): Promise<string> {
+  const key = `${accept} ${url}`;
+  const cached = responseCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.body;
+  }
+
+  const response = await fetchWithRetry(context, url, {
+    headers: { 'User-Agent': USER_AGENT, 'Accept': accept },
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`${label} error: ${response.status}`);
+  }
+
+  const body = await response.text();
+
+  if (context.http.cacheDurationMinutes > 0) {
+    const now = Date.now();
+    for (const [cachedKey, entry] of responseCache) {
+      if (entry.expiresAt <= now) responseCache.delete(cachedKey);
+    }
+    responseCache.set(key, { body, expiresAt: now + context.http.cacheDurationMinutes * 60 * 1000 });
+  }
+
+  return body;
+}
+
+/**
+ * GETs a JSON document, or replays `fixture` in fixture mode. `label` names
+ * the upstream in errors, matching the other adapters' messages.
+ */
+export async function fetchJson<T>(context: FetchContext, url: string, label: string, fixture: string): Promise<T> {
+  if (usingFixtures()) {
+    return loadFixture<T>(fixture);
+  }
+
+  return JSON.parse(await fetchCachedBody(context, url, label, 'application/json')) as T;
+}
+
+/**
+ * GETs a text document such as an XML feed, or replays `fixture` in fixture
+ * mode. Text fixtures keep their own extension, e.g. `arxiv-query.xml`.
+ */
+export async function fetchText(
+  context: FetchContext,
+  url: string,
+  label: string,
+  fixture: string,
+  accept = '*/*'
+): Promise<string> {
+  if (usingFixtures()) {
+    return await Deno.readTextFile(new URL(`./fixtures/${fixture}`, import.meta.url));
+  }
+
+  return await fetchCachedBody(context, url, label, accept);
+}
+
+export interface ConditionalResponse {
+  /** False on 304 Not Modified, in which case `body` is empty. */
+  modified: boolean;
+  body: string;
+  contentType: string | null;
+  validators: HttpValidators;
+}
+
+interface RecordedResponse {
+  file: string;
+  content_type?: string;
+  etag?: string;
+  last_modified?: string;
+}
+
+/**
+ * GETs a text document with `If-None-Match` / `If-Modified-Since` built from
+ * the previous response's validators. In fixture mode `fixture` is an index
+ * of recorded responses keyed by URL; a request carrying the recorded ETag,
+ * or Last-Modified date when there is none, replays as a 304.
+ */
+export async function fetchConditional(
+  context: FetchContext,
+  url: string,
+  label: string,
+  validators: HttpValidators,
+  fixture: string,
+  accept = '*/*'
+): Promise<ConditionalResponse> {
+  if (usingFixtures()) {
+    const recorded = (await loadFixture<Record<string, RecordedResponse>>(fixture))[url];
+    if (!recorded) {
+      throw new Error(`${label} error: 404`);
+    }
+
+    const current = { etag: recorded.etag ?? null, lastModified: recorded.last_modified ?? null };
+    // Servers prefer the ETag when a request carries both validators
+    const unchanged = current.etag
+      ? current.etag === validators.etag
+      : !!current.lastModified && current.lastModified === validators.lastModified;
+    if (unchanged) {
+      return { modified: false, body: '', contentType: null, validators };
+    }
+
+    return {
+      modified: true,
+      body: await Deno.readTextFile(new URL(`./fixtures/${recorded.file}`, import.meta.url)),
+      contentType: recorded.content_type ?? null,
+      validators: current,
+    };
+  }
+
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT, 'Accept': accept };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await fetchWithRetry(context, url, { headers });
+
+  if (response.status === 304) {
+    await response.body?.cancel();
+    return { modified: false, body: '', contentType: null, validators };
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`${label} error: ${response.status}`);
+  }
+
+  return {
+    modified: true,
+    body: await response.text(),
+    contentType: response.headers.get('content-type'),
+    validators: {
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    },
+  };
+}
+
+/**
+ * `fetchJson` for adapters that issue several requests per fetch. Their
+ * fixture holds the recorded responses keyed by URL; a URL without one
+ * fails like a 404 would.
+ */
+export async function fetchRecordedJson<T>(
+  context: FetchContext,
+  url: string,
+  label: string,
+  fixture: string
+): Promise<T> {
+  if (!usingFixtures()) {
+    return fetchJson<T>(context, url, label, fixture);
+  }
+
+  const recorded = await loadFixture<Record<string, T>>(fixture);
+  if (!(url in recorded)) {
+    throw new Error(`${label} error: 404`);
+  }
+
+  return recorded[url];
+}
+
+/** Health probe for keyless APIs: a GET that only looks at the status code. */
+export async function probeUrl(url: string, label: string): Promise<HealthProbeResult> {
+  if (usingFixtures()) return { status: 'healthy', message: null };
+
+  try {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+    await response.body?.cancel();
+    return response.ok
+      ? { status: 'healthy', message: null }
+      : { status: 'degraded', message: `${label} returned ${response.status}` };
+  } catch (error) {
+    return { status: 'offline', message: error.message };
+  }
+}
@@ -0,0 +1,4 @@
+/** Canonical identity of a trend topic, stored in `x_trends.trend_key`. */
+export function trendKey(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,188 @@
+import { usingFixtures } from './http.ts';
+
+export type PackageRegistry = 'npm' | 'pypi' | 'crates';
+
+/** One package as a registry adapter reports it, before it becomes a `packages` row. */
+export interface PackageInfo {
+  registry: PackageRegistry;
+  name: string;
+  description: string | null;
+  latestVersion: string | null;
+  keywords: string[];
+  repositoryUrl: string | null;
+  homepageUrl: string | null;
+  url: string;
+  weeklyDownloads: number;
+  /** Null where the registry has no all-time count (npm). */
+  totalDownloads: number | null;
+  tracked: boolean;
+}
+
+/** Which packages a registry source fetches, from its `data_sources.metadata`. */
+export interface PackageSelection {
+  tracked: string[];
+  discover: boolean;
+  maxDiscovered: number;
+  minWeeklyDownloads: number;
+}
+
+const DEFAULT_MAX_DISCOVERED = 10;
+const MAX_DISCOVERED = 50;
+const DEFAULT_MIN_WEEKLY_DOWNLOADS = 10000;
+const MAX_KEYWORDS = 20;
+
+function positiveInteger(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : fallback;
+}
+
+export function packageSelectionFrom(config: Record<string, any>, namePattern: RegExp): PackageSelection {
+  const configured = Array.isArray(config.packages) ? config.packages : [];
+
+  return {
+    tracked: Array.from(new Set(
+      configured.filter((name: unknown): name is string => typeof name === 'string' && namePattern.test(name))
+    )),
+    discover: config.discover !== false,
+    maxDiscovered: Math.min(positiveInteger(config.max_discovered, DEFAULT_MAX_DISCOVERED), MAX_DISCOVERED),
+    minWeeklyDownloads: positiveInteger(config.min_weekly_downloads, DEFAULT_MIN_WEEKLY_DOWNLOADS),
+  };
+}
+
+export function normalizeKeywords(keywords: unknown): string[] {
+  const list = typeof keywords === 'string'
+    ? keywords.split(keywords.includes(',') ? ',' : /\s+/)
+    : Array.isArray(keywords) ? keywords : [];
+
+  return Array.from(new Set(
+    list
+      .filter((keyword): keyword is string => typeof keyword === 'string')
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter(Boolean)
+  )).slice(0, MAX_KEYWORDS);
+}
+
+const REPOSITORY_SHORTHANDS: Record<string, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+  bitbucket: 'bitbucket.org',
+};
+
+/**
+ * Canonical https URL of a source repository in any form registries publish:
+ * `git+https://github.com/o/r.git`, `git@github.com:o/r.git`, `github:o/r`
+ * or npm's bare `o/r`. GitHub URLs are cut to `https://github.com/o/r`, so
+ * monorepo subdirectory links still match the repository in `github_repos`.
+ */
+export function normalizeRepositoryUrl(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+
+  let value = raw.trim();
+
+  const shorthand = /^(github|gitlab|bitbucket):([\w.-]+\/[\w.-]+)$/.exec(value);
+  if (shorthand) {
+    value = `https://${REPOSITORY_SHORTHANDS[shorthand[1]]}/${shorthand[2]}`;
+  } else if (/^[\w.-]+\/[\w.-]+$/.test(value)) {
+    value = `https://github.com/${value}`;
+  }
+
+  value = value
+    .replace(/^git\+/, '')
+    .replace(/^git@([^:]+):/, 'https://$1/')
+    .replace(/^(git|ssh):\/\/(git@)?/, 'https://')
+    .replace(/^http:\/\//, 'https://');
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:') return null;
+
+  const segments = url.pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/\.git$/, ''));
+  const host = url.hostname.replace(/^www\./, '');
+
+  if (host === 'github.com') {
+    return segments.length >= 2 ? `https://github.com/${segments[0]}/${segments[1]}` : null;
+  }
+
+  return `https://${host}${segments.length > 0 ? `/${segments.join('/')}` : ''}`;
+}
+
+/** Spaces out requests to registries with a crawler rate limit; no-op when replaying fixtures. */
+export function pause(ms: number): Promise<void> {
+  if (usingFixtures()) return Promise.resolve();
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Loads every tracked package, then discovery candidates in order until
+ * `maxDiscovered` of them reach `minWeeklyDownloads`; at most twice that many
+ * candidates are tried. A package that fails is logged and skipped; the
+ * fetch fails only when nothing could be loaded.
+ */
+export async function collectPackages(
+  selection: PackageSelection,
+  candidates: string[],
+  load: (name: string, tracked: boolean) => Promise<PackageInfo>,
+  label: string
+): Promise<PackageInfo[]> {
+  const packages: PackageInfo[] = [];
+  const errors: string[] = [];
+
+  for (const name of selection.tracked) {
+    try {
+      packages.push(await load(name, true));
+    } catch (error) {
+      console.error(`${label}: skipping ${name}:`, error.message);
+      errors.push(`${name}: ${error.message}`);
+    }
+  }
+
+  const tracked = new Set(selection.tracked);
+  const untried = candidates.filter((name) => !tracked.has(name)).slice(0, selection.maxDiscovered * 2);
+  let discovered = 0;
+
+  for (const name of untried) {
+    if (discovered >= selection.maxDiscovered) break;
+
+    try {
+      const info = await load(name, false);
+      if (info.weeklyDownloads >= selection.minWeeklyDownloads) {
+        packages.push(info);
+        discovered++;
+      }
+    } catch (error) {
+      console.error(`${label}: skipping discovered ${name}:`, error.message);
+      errors.push(`${name}: ${error.message}`);
+    }
+  }
+
+  if (packages.length === 0 && errors.length > 0) {
+    throw new Error(`${label} failed for every package; ${errors.slice(0, 3).join('; ')}`);
+  }
+
+  return packages;
+}
+
+export function toPackageRow(info: PackageInfo) {
+  return {
+    registry: info.registry,
+    name: info.name,
+    description: info.description,
+    latest_version: info.latestVersion,
+    keywords: info.keywords,
+    repository_url: info.repositoryUrl,
+    homepage_url: info.homepageUrl,
+    url: info.url,
+    weekly_downloads: info.weeklyDownloads,
+    total_downloads: info.totalDownloads,
+    is_tracked: info.tracked,
+    fetched_at: new Date().toISOString(),
+  };
+}
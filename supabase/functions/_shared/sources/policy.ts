@@ -0,0 +1,80 @@
+import type { FetchContext, HttpValidators, SourcePolicy, Supabase } from './types.ts';
+
+export const DEFAULT_SOURCE_POLICY: SourcePolicy = {
+  http: {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000,
+    cacheDurationMinutes: 10,
+  },
+  fallbackEnabled: true,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMinutes: 30,
+};
+
+const POLICY_KEYS = [
+  'max_retries',
+  'retry_base_delay_ms',
+  'retry_max_delay_seconds',
+  'cache_duration_minutes',
+  'fallback_enabled',
+  'circuit_breaker_threshold',
+  'circuit_breaker_cooldown_minutes',
+];
+
+/**
+ * Retry, fallback and circuit breaker settings from `system_config`. Missing
+ * or malformed keys keep their defaults, and so does everything when the
+ * table cannot be read, so a config mistake never stops ingestion.
+ */
+export async function loadSourcePolicy(supabase: Supabase): Promise<SourcePolicy> {
+  const { data, error } = await supabase
+    .from('system_config')
+    .select('config_key, config_value')
+    .in('config_key', POLICY_KEYS);
+
+  if (error) {
+    console.error('Error loading source policy:', error);
+    return DEFAULT_SOURCE_POLICY;
+  }
+
+  const values = new Map((data || []).map((row) => [row.config_key as string, row.config_value]));
+  const count = (key: string, fallback: number) => {
+    const value = values.get(key);
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  const defaults = DEFAULT_SOURCE_POLICY;
+
+  return {
+    http: {
+      maxRetries: Math.floor(count('max_retries', defaults.http.maxRetries)),
+      baseDelayMs: count('retry_base_delay_ms', defaults.http.baseDelayMs),
+      maxDelayMs: count('retry_max_delay_seconds', defaults.http.maxDelayMs / 1000) * 1000,
+      cacheDurationMinutes: count('cache_duration_minutes', defaults.http.cacheDurationMinutes),
+    },
+    fallbackEnabled: values.get('fallback_enabled') !== false,
+    circuitBreakerThreshold: Math.floor(count('circuit_breaker_threshold', defaults.circuitBreakerThreshold)),
+    circuitBreakerCooldownMinutes: count('circuit_breaker_cooldown_minutes', defaults.circuitBreakerCooldownMinutes),
+  };
+}
+
+export function createFetchContext(
+  sourceName: string,
+  policy: SourcePolicy,
+  validators: HttpValidators = { etag: null, lastModified: null }
+): FetchContext {
+  return {
+    sourceName,
+    validators,
+    http: policy.http,
+    rateLimit: { remaining: null, resetAt: null },
+  };
+}
+
+/** `data_sources` columns for the rate limit seen during a fetch; empty when none was reported. */
+export function rateLimitColumns(context: FetchContext): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  if (context.rateLimit.remaining !== null) columns.rate_limit_remaining = context.rateLimit.remaining;
+  if (context.rateLimit.resetAt !== null) columns.rate_limit_reset_at = context.rateLimit.resetAt;
+  return columns;
+}
@@ -0,0 +1,423 @@
+import type {
+  ChainResult,
+  DataSourceRow,
+  FetchContext,
+  SourceAdapter,
+  SourceAttempt,
+  SourcePolicy,
+  Supabase,
+} from './types.ts';
+import { createFetchContext, loadSourcePolicy, rateLimitColumns } from './policy.ts';
+import { xApiAdapter } from './adapters/x-api.ts';
+import { hackerNewsAdapter } from './adapters/hackernews.ts';
+import { githubApiAdapter } from './adapters/github-api.ts';
+import { githubTrendingFallbackAdapter } from './adapters/github-trending-fallback.ts';
+import { redditAdapter } from './adapters/reddit.ts';
+import { lobstersAdapter } from './adapters/lobsters.ts';
+import { npmAdapter } from './adapters/npm.ts';
+import { pypiAdapter } from './adapters/pypi.ts';
+import { cratesAdapter } from './adapters/crates.ts';
+import { arxivAdapter } from './adapters/arxiv.ts';
+import { feedAdapter } from './adapters/feed.ts';
+import { mastodonAdapter } from './adapters/mastodon.ts';
+import { blueskyAdapter } from './adapters/bluesky.ts';
+import { emitWebhookEvents } from '../webhooks/dispatcher.ts';
+
+const adapters = new Map<string, SourceAdapter<any, any>>();
+
+export function registerAdapter(adapter: SourceAdapter<any, any>) {
+  adapters.set(adapter.sourceName, adapter);
+}
+
+export function getAdapter(sourceName: string): SourceAdapter<any, any> | undefined {
+  return adapters.get(sourceName);
+}
+
+registerAdapter(xApiAdapter);
+registerAdapter(hackerNewsAdapter);
+registerAdapter(githubApiAdapter);
+registerAdapter(githubTrendingFallbackAdapter);
+registerAdapter(redditAdapter);
+registerAdapter(lobstersAdapter);
+registerAdapter(npmAdapter);
+registerAdapter(pypiAdapter);
+registerAdapter(cratesAdapter);
+registerAdapter(arxivAdapter);
+registerAdapter(feedAdapter);
+registerAdapter(mastodonAdapter);
+registerAdapter(blueskyAdapter);
+
+/**
+ * Adapter for a `data_sources` row. Admin-registered feeds are named freely
+ * and all share the feed adapter.
+ */
+export function resolveAdapter(row: Pick<DataSourceRow, 'source_name' | 'source_type'>): SourceAdapter<any, any> | undefined {
+  return getAdapter(row.source_name) ?? (row.source_type === 'feed' ? feedAdapter : undefined);
+}
+
+export function isTokenConfigured(adapter: SourceAdapter<any, any>): boolean {
+  if (!adapter.tokenEnv) return true;
+  const token = Deno.env.get(adapter.tokenEnv);
+  return !!token && token.length > 0;
+}
+
+/** Enabled sources of a group, in fallback order (lowest priority first). */
+export async function loadSourceChain(supabase: Supabase, group: string): Promise<DataSourceRow[]> {
+  const { data, error } = await supabase
+    .from('data_sources')
+    .select('*')
+    .eq('source_group', group)
+    .eq('is_enabled', true)
+    .order('priority', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as DataSourceRow[];
+}
+
+export async function loadSourceGroups(supabase: Supabase): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('data_sources')
+    .select('source_group, priority')
+    .eq('is_enabled', true)
+    .not('source_group', 'is', null)
+    .order('priority', { ascending: true });
+
+  if (error) throw error;
+
+  return Array.from(new Set((data || []).map((row) => row.source_group as string)));
+}
+
+async function markSourceSuccess(supabase: Supabase, row: DataSourceRow, context: FetchContext) {
+  const now = new Date().toISOString();
+  await supabase
+    .from('data_sources')
+    .update({
+      health_status: 'healthy',
+      last_success_at: now,
+      last_fetched_at: now,
+      last_error_message: null,
+      success_count: (row.success_count || 0) + 1,
+      consecutive_failures: 0,
+      circuit_open_until: null,
+      http_etag: context.validators.etag,
+      http_last_modified: context.validators.lastModified,
+      ...rateLimitColumns(context),
+    })
+    .eq('source_name', row.source_name);
+}
+
+/**
+ * A failed fetch degrades the source; `circuit_breaker_threshold` failures
+ * in a row open its circuit, taking it offline for the cooldown. The first
+ * fetch after the cooldown is a trial: another failure reopens the circuit
+ * at once, a success closes it.
+ */
+async function markSourceFailure(
+  supabase: Supabase,
+  row: DataSourceRow,
+  context: FetchContext,
+  policy: SourcePolicy,
+  message: string
+) {
+  const now = Date.now();
+  const failures = (row.consecutive_failures || 0) + 1;
+  const opensCircuit = policy.circuitBreakerThreshold > 0 && failures >= policy.circuitBreakerThreshold;
+
+  await supabase
+    .from('data_sources')
+    .update({
+      health_status: opensCircuit ? 'offline' : 'degraded',
+      last_error_at: new Date(now).toISOString(),
+      last_fetched_at: new Date(now).toISOString(),
+      last_error_message: message,
+      error_count: (row.error_count || 0) + 1,
+      consecutive_failures: failures,
+      circuit_open_until: opensCircuit
+        ? new Date(now + policy.circuitBreakerCooldownMinutes * 60 * 1000).toISOString()
+        : null,
+      ...rateLimitColumns(context),
+    })
+    .eq('source_name', row.source_name);
+}
+
+/** Why the source must not be called yet: an open circuit or a spent rate limit. */
+function unavailableReason(row: DataSourceRow): string | null {
+  const now = Date.now();
+
+  if (row.circuit_open_until && new Date(row.circuit_open_until).getTime() > now) {
+    return `Circuit open until ${row.circuit_open_until} after ${row.consecutive_failures} consecutive failures`;
+  }
+
+  if (row.rate_limit_remaining === 0 && row.rate_limit_reset_at && new Date(row.rate_limit_reset_at).getTime() > now) {
+    return `Rate limit exhausted until ${row.rate_limit_reset_at}`;
+  }
+
+  return null;
+}
+
+function rowKey(row: Record<string, unknown>, keys: string[]) {
+  return keys.map((key) => String(row[key])).join('\u0000');
+}
+
+/** Postgres rejects an upsert batch that touches the same key twice; keep the last row. */
+function dedupeRows(rows: Record<string, unknown>[], conflictTarget: string) {
+  const keys = conflictTarget.split(',').map((key) => key.trim());
+  const byKey = new Map<string, Record<string, unknown>>();
+  for (const row of rows) {
+    byKey.set(rowKey(row, keys), row);
+  }
+  return Array.from(byKey.values());
+}
+
+/** Keys of the batch's rows that are already stored, to tell new rows from updates. */
+async function loadExistingKeys(
+  supabase: Supabase,
+  adapter: SourceAdapter<any, any>,
+  rows: Record<string, unknown>[]
+): Promise<Set<string>> {
+  if (!adapter.conflictTarget || rows.length === 0) return new Set();
+
+  const keys = adapter.conflictTarget.split(',').map((key) => key.trim());
+  const { data, error } = await supabase
+    .from(adapter.targetTable)
+    .select(keys.join(', '))
+    .in(keys[0], Array.from(new Set(rows.map((row) => row[keys[0]]))));
+
+  if (error) throw error;
+
+  return new Set((data || []).map((row: Record<string, unknown>) => rowKey(row, keys)));
+}
+
+/**
+ * Fetch, normalize and store one source, recording the outcome in
+ * `data_sources` and `update_logs`.
+ */
+export async function runSource(supabase: Supabase, row: DataSourceRow, policy: SourcePolicy): Promise<SourceAttempt> {
+  const adapter = resolveAdapter(row);
+
+  if (!adapter) {
+    return {
+      source: row.source_name,
+      ok: false,
+      itemsFetched: 0,
+      stage: 'config',
+      error: `No adapter registered for ${row.source_name}`,
+    };
+  }
+
+  if (row.requires_token && !isTokenConfigured(adapter)) {
+    const message = `${adapter.tokenEnv} not configured`;
+    await supabase
+      .from('data_sources')
+      .update({ health_status: 'offline', token_configured: false, last_error_message: message })
+      .eq('source_name', row.source_name);
+
+    return { source: row.source_name, ok: false, itemsFetched: 0, stage: 'config', error: message };
+  }
+
+  const unavailable = unavailableReason(row);
+  if (unavailable) {
+    return { source: row.source_name, ok: false, itemsFetched: 0, stage: 'skipped', error: unavailable };
+  }
+
+  const context = createFetchContext(row.source_name, policy, {
+    etag: row.http_etag ?? null,
+    lastModified: row.http_last_modified ?? null,
+  });
+
+  let rows: Record<string, unknown>[];
+  try {
+    rows = adapter.normalize(await adapter.fetch(row.metadata || {}, context));
+  } catch (fetchError) {
+    console.log(`${row.source_name} failed:`, fetchError.message);
+    await markSourceFailure(supabase, row, context, policy, fetchError.message);
+    return { source: row.source_name, ok: false, itemsFetched: 0, stage: 'fetch', error: fetchError.message };
+  }
+
+  if (adapter.conflictTarget) {
+    rows = dedupeRows(rows, adapter.conflictTarget);
+  }
+
+  if (rows.length > 0) {
+    // Without the lookup every row would look new, so events are skipped instead
+    let existingKeys: Set<string> | null = null;
+    try {
+      existingKeys = await loadExistingKeys(supabase, adapter, rows);
+    } catch (lookupError) {
+      console.error(`Error loading existing ${adapter.targetTable} keys:`, lookupError);
+    }
+
+    const { data: storedRows, error: insertError } = adapter.conflictTarget
+      ? await supabase
+        .from(adapter.targetTable)
+        .upsert(rows, { onConflict: adapter.conflictTarget })
+        .select()
+      : await supabase
+        .from(adapter.targetTable)
+        .insert(rows)
+        .select();
+
+    if (insertError) {
+      await supabase
+        .from('update_logs')
+        .insert({
+          source_type: row.source_name,
+          status: 'error',
+          items_fetched: 0,
+          error_message: insertError.message,
+        });
+
+      return { source: row.source_name, ok: false, itemsFetched: 0, stage: 'store', error: insertError.message };
+    }
+
+    await supabase
+      .from('update_logs')
+      .insert({
+        source_type: row.source_name,
+        status: 'success',
+        items_fetched: rows.length,
+      });
+
+    if (existingKeys) {
+      const conflictKeys = (adapter.conflictTarget || '').split(',').map((key) => key.trim());
+      const newRows = (storedRows || []).filter(
+        (stored) => !adapter.conflictTarget || !existingKeys!.has(rowKey(stored, conflictKeys))
+      );
+      await emitWebhookEvents(supabase, adapter.targetTable, newRows);
+    }
+  }
+
+  await markSourceSuccess(supabase, row, context);
+
+  return { source: row.source_name, ok: true, itemsFetched: rows.length };
+}
+
+/**
+ * Walk a group's sources in priority order until one succeeds. Storage
+ * failures stop the walk, since a fallback source would hit the same table.
+ * With `fallback_enabled` off only the first source is tried.
+ */
+export async function runSourceChain(
+  supabase: Supabase,
+  group: string,
+  options: { sources?: string[] } = {}
+): Promise<ChainResult> {
+  const policy = await loadSourcePolicy(supabase);
+
+  let chain = await loadSourceChain(supabase, group);
+  if (options.sources) {
+    chain = chain.filter((row) => options.sources!.includes(row.source_name));
+  }
+  if (!policy.fallbackEnabled) {
+    chain = chain.slice(0, 1);
+  }
+
+  const attempts: SourceAttempt[] = [];
+
+  for (const row of chain) {
+    const attempt = await runSource(supabase, row, policy);
+    attempts.push(attempt);
+
+    if (attempt.ok) {
+      return {
+        group,
+        ok: true,
+        source: attempt.source,
+        usedFallback: attempts.length > 1,
+        itemsFetched: attempt.itemsFetched,
+        attempts,
+      };
+    }
+
+    if (attempt.stage === 'store') break;
+  }
+
+  // A chain whose sources were all skipped has nothing new to report
+  const lastAttempt = attempts[attempts.length - 1];
+  if (lastAttempt && lastAttempt.stage !== 'store' && attempts.some((attempt) => attempt.stage !== 'skipped')) {
+    await supabase
+      .from('update_logs')
+      .insert({
+        source_type: chain[0].source_name,
+        status: 'error',
+        items_fetched: 0,
+        error_message: attempts.map((a) => `${a.source}: ${a.error}`).join('; '),
+      });
+  }
+
+  return { group, ok: false, source: null, usedFallback: false, itemsFetched: 0, attempts };
+}
+
+/**
+ * Whether a group is due for a refresh, based on its last successful fetch
+ * and the primary adapter's rate-limit hint.
+ */
+export async function isChainDue(supabase: Supabase, chain: DataSourceRow[]): Promise<boolean> {
+  if (chain.length === 0) return false;
+
+  const primary = resolveAdapter(chain[0]);
+  const intervalMinutes = primary?.rateLimit.minIntervalMinutes ?? 15;
+
+  const { data: recentUpdate } = await supabase
+    .from('update_logs')
+    .select('created_at')
+    .in('source_type', chain.map((row) => row.source_name))
+    .eq('status', 'success')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return !recentUpdate ||
+    (Date.now() - new Date(recentUpdate.created_at).getTime()) > intervalMinutes * 60 * 1000;
+}
+
+const DEFAULT_FEED_INTERVAL_MINUTES = 60;
+const MIN_FEED_INTERVAL_MINUTES = 15;
+
+/**
+ * Whether a feed is due, from `metadata.interval_minutes` and its last fetch.
+ * Not-modified responses count as fetches, so this cannot use `update_logs`.
+ */
+export function isFeedDue(row: DataSourceRow): boolean {
+  if (!row.last_fetched_at) return true;
+
+  const configured = Number(row.metadata?.interval_minutes);
+  const intervalMinutes = Number.isFinite(configured) && configured > 0
+    ? Math.max(configured, MIN_FEED_INTERVAL_MINUTES)
+    : DEFAULT_FEED_INTERVAL_MINUTES;
+
+  return (Date.now() - new Date(row.last_fetched_at).getTime()) > intervalMinutes * 60 * 1000;
+}
+
+/**
+ * Fetch every enabled feed that is due. Feeds are independent sources, not
+ * a fallback chain, so one failing does not stop the rest.
+ */
+export async function runFeedSources(
+  supabase: Supabase,
+  options: { force?: boolean; sources?: string[] } = {}
+): Promise<SourceAttempt[]> {
+  const { data, error } = await supabase
+    .from('data_sources')
+    .select('*')
+    .eq('source_type', 'feed')
+    .eq('is_enabled', true)
+    .order('priority', { ascending: true });
+
+  if (error) throw error;
+
+  let feeds = (data || []) as DataSourceRow[];
+  if (options.sources) {
+    feeds = feeds.filter((row) => options.sources!.includes(row.source_name));
+  }
+
+  const policy = await loadSourcePolicy(supabase);
+  const attempts: SourceAttempt[] = [];
+  for (const row of feeds) {
+    if (!options.force && !isFeedDue(row)) continue;
+    attempts.push(await runSource(supabase, row, policy));
+  }
+
+  return attempts;
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.58.0';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'offline' | 'unknown';
+
+export interface RateLimitHints {
+  /** Minimum minutes between scheduled fetches of this source. */
+  minIntervalMinutes: number;
+  /** Upstream requests issued by a single fetch. */
+  requestsPerFetch: number;
+}
+
+export interface HealthProbeResult {
+  status: HealthStatus;
+  message: string | null;
+}
+
+/** Conditional GET validators from a source's last successful response. */
+export interface HttpValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/** Retry and caching settings for upstream requests, from `system_config`. */
+export interface HttpPolicy {
+  /** Retries after the first attempt, for network errors, 408, 429 and 5xx. */
+  maxRetries: number;
+  /** Cap of the first retry's jittered wait; doubled for each retry after. */
+  baseDelayMs: number;
+  /** Longest wait before a retry. A later `Retry-After` fails the request instead. */
+  maxDelayMs: number;
+  /** Successful GETs are reused for this long by a warm function instance; 0 disables. */
+  cacheDurationMinutes: number;
+}
+
+/** Rate limit reported by the upstream's headers, if it sent any. */
+export interface RateLimitStatus {
+  remaining: number | null;
+  resetAt: string | null;
+}
+
+export interface SourcePolicy {
+  http: HttpPolicy;
+  /** Whether a chain moves on to its next source when one fails. */
+  fallbackEnabled: boolean;
+  /** Consecutive failures that open a source's circuit; 0 disables the breaker. */
+  circuitBreakerThreshold: number;
+  /** How long an open circuit skips the source before it is tried again. */
+  circuitBreakerCooldownMinutes: number;
+}
+
+export interface FetchContext {
+  sourceName: string;
+  /**
+   * Validators stored with the source. An adapter that sends conditional
+   * requests replaces them with the response's; the registry saves them
+   * once the fetch has been stored.
+   */
+  validators: HttpValidators;
+  http: HttpPolicy;
+  /** Updated by `fetchWithRetry` on every response; the registry saves it with the outcome. */
+  rateLimit: RateLimitStatus;
+}
+
+/**
+ * A single upstream source. The registry owns persistence, health bookkeeping
+ * and fallback; an adapter only knows how to talk to its API.
+ */
+export interface SourceAdapter<TRaw = unknown, TRow = Record<string, unknown>> {
+  sourceName: string;
+  targetTable: string;
+  /** Unique column(s) to upsert on; rows are plain inserts when unset. */
+  conflictTarget?: string;
+  /** Secret read from the function environment, if the source uses one. */
+  tokenEnv?: string;
+  rateLimit: RateLimitHints;
+  /** `config` is the source's `data_sources.metadata`. */
+  fetch(config: Record<string, any>, context: FetchContext): Promise<TRaw[]>;
+  normalize(items: TRaw[]): TRow[];
+  probe(config: Record<string, any>): Promise<HealthProbeResult>;
+}
+
+export interface DataSourceRow {
+  id: string;
+  source_name: string;
+  source_type: string;
+  source_group: string | null;
+  is_enabled: boolean;
+  requires_token: boolean;
+  health_status: HealthStatus;
+  success_count: number;
+  error_count: number;
+  priority: number;
+  metadata: Record<string, any>;
+  http_etag: string | null;
+  http_last_modified: string | null;
+  last_fetched_at: string | null;
+  rate_limit_remaining: number | null;
+  rate_limit_reset_at: string | null;
+  consecutive_failures: number;
+  circuit_open_until: string | null;
+}
+
+export interface SourceAttempt {
+  source: string;
+  ok: boolean;
+  itemsFetched: number;
+  /** `skipped` while the source's circuit is open or its rate limit is spent. */
+  stage?: 'config' | 'skipped' | 'fetch' | 'store';
+  error?: string;
+}
+
+export interface ChainResult {
+  group: string;
+  ok: boolean;
+  source: string | null;
+  usedFallback: boolean;
+  itemsFetched: number;
+  attempts: SourceAttempt[];
+}
+
+export type Supabase = SupabaseClient<any, any, any>;
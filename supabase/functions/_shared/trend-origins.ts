@@ -0,0 +1,58 @@
+/**
+ * Where an `x_trends` row came from and what its count means. The table
+ * predates the other social sources, so its name says nothing about a row's
+ * origin and `tweet_count` is posts on X but points on Hacker News; `source`
+ * and `metric_type` say which. The app imports this module too, so edge
+ * functions and pages word a trend the same way.
+ */
+
+export const TREND_SOURCE_LABELS: Record<string, string> = {
+  x_api: 'X',
+  hackernews_api: 'Hacker News',
+  reddit_api: 'Reddit',
+  lobsters_api: 'Lobsters',
+  mastodon_trends: 'Mastodon',
+  bluesky_feeds: 'Bluesky',
+};
+
+const METRIC_UNITS: Record<string, [string, string]> = {
+  posts: ['post', 'posts'],
+  points: ['point', 'points'],
+  comments: ['comment', 'comments'],
+  reactions: ['reaction', 'reactions'],
+};
+
+export interface TrendOrigin {
+  source: string | null;
+  tweet_count: number;
+  metric_type?: string | null;
+}
+
+export function trendSourceLabel(source: string | null | undefined): string {
+  if (!source) return 'Trend';
+  return TREND_SOURCE_LABELS[source] || source;
+}
+
+/** `X, Hacker News and Reddit`: every origin, for copy that covers all trends. */
+export function trendSourceList(): string {
+  const labels = Object.values(TREND_SOURCE_LABELS);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels.join('');
+}
+
+/** `1 point`, `12,400 posts`. Rows written before metric types count posts. */
+export function formatTrendMetric(count: number, metricType: string | null | undefined): string {
+  const [singular, plural] = METRIC_UNITS[metricType || 'posts'] || METRIC_UNITS.posts;
+  return `${count.toLocaleString()} ${count === 1 ? singular : plural}`;
+}
+
+/** `trending on Hacker News with 312 points`; X often reports no volume. */
+export function trendingPhrase(trend: TrendOrigin): string {
+  const origin = `trending on ${trendSourceLabel(trend.source)}`;
+  return trend.tweet_count > 0 ? `${origin} with ${formatTrendMetric(trend.tweet_count, trend.metric_type)}` : origin;
+}
+
+/** Search and webhook description of a trend: `Trending on Hacker News with 312 points`. */
+export function describeTrend(trend: TrendOrigin): string {
+  const phrase = trendingPhrase(trend);
+  return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+}
@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import type { Supabase } from '../sources/types.ts';
+import type { WebhookDeliveryRow, WebhookSubscriptionRow } from './types.ts';
+import { deliverDueWebhooks, MAX_ATTEMPTS, retryDelaySeconds } from './dispatcher.ts';
+import { signPayload } from './signing.ts';
+
+const SECRET = 'whsec_test';
+const allowLocalReceiver = () => Promise.resolve(null);
+
+interface Received {
+  headers: Headers;
+  body: string;
+}
+
+/** A receiver on a free local port answering every request with `status`. */
+function startReceiver(status: number) {
+  const received: Received[] = [];
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, async (request) => {
+    received.push({ headers: request.headers, body: await request.text() });
+    return new Response(null, {
+      status,
+      headers: status >= 300 && status < 400 ? { Location: 'http://169.254.169.254/' } : {},
+    });
+  });
+
+  return { url: `http://127.0.0.1:${server.addr.port}/hooks`, received, server };
+}
+
+/** Hands out `deliveries` as claimed and records the updates written back. */
+function fakeSupabase(deliveries: WebhookDeliveryRow[], subscription: WebhookSubscriptionRow) {
+  const updates: Array<Record<string, any>> = [];
+  const supabase = {
+    rpc: () => Promise.resolve({ data: deliveries, error: null }),
+    from: () => ({
+      select: () => ({
+        in: () => Promise.resolve({ data: [subscription], error: null }),
+      }),
+      update: (values: Record<string, any>) => ({
+        eq: (_column: string, id: string) => {
+          updates.push({ id, ...values });
+          return Promise.resolve({ error: null });
+        },
+      }),
+    }),
+  };
+
+  return { supabase: supabase as unknown as Supabase, updates };
+}
+
+function subscriptionFor(url: string): WebhookSubscriptionRow {
+  return {
+    id: 'subscription-1',
+    user_id: 'user-1',
+    url,
+    secret: SECRET,
+    event_types: ['repo.created'],
+    filters: null,
+    is_active: true,
+  };
+}
+
+/** A claimed delivery; claiming has already counted the attempt about to be made. */
+function claimed(attemptCount: number): WebhookDeliveryRow {
+  return {
+    id: `delivery-${attemptCount}`,
+    subscription_id: 'subscription-1',
+    event_type: 'repo.created',
+    payload: {
+      id: 'event-1',
+      type: 'repo.created',
+      created_at: '2025-11-10T12:00:00.000Z',
+      data: {
+        type: 'github_repo',
+        id: 'repo-1',
+        title: 'denoland/deno',
+        description: null,
+        url: 'https://github.com/denoland/deno',
+        category: 'technology',
+        tags: [],
+        language: 'Rust',
+        engagement: 100000,
+        source: 'github',
+        created_at: '2025-11-10T12:00:00.000Z',
+      },
+    },
+    status: 'delivering',
+    attempt_count: attemptCount,
+  };
+}
+
+Deno.test('delivers a payload the receiver can verify', async () => {
+  const receiver = startReceiver(204);
+  try {
+    const { supabase, updates } = fakeSupabase([claimed(1)], subscriptionFor(receiver.url));
+    const summary = await deliverDueWebhooks(supabase, allowLocalReceiver);
+
+    assert.deepEqual(summary, { attempted: 1, succeeded: 1, retrying: 0, failed: 0 });
+    assert.equal(updates[0].status, 'succeeded');
+    assert.equal(updates[0].last_status_code, 204);
+
+    const [request] = receiver.received;
+    assert.equal(request.headers.get('x-webhook-id'), 'delivery-1');
+    assert.equal(request.headers.get('x-webhook-event'), 'repo.created');
+    assert.deepEqual(JSON.parse(request.body), claimed(1).payload);
+
+    const timestamp = Number(request.headers.get('x-webhook-timestamp'));
+    const expected = await signPayload(SECRET, timestamp, request.body);
+    assert.equal(request.headers.get('x-webhook-signature'), `sha256=${expected}`);
+    assert.notEqual(await signPayload('whsec_other', timestamp, request.body), expected);
+  } finally {
+    await receiver.server.shutdown();
+  }
+});
+
+Deno.test('retries a failed delivery with exponential backoff', async () => {
+  const receiver = startReceiver(503);
+  try {
+    for (const attempt of [1, 2, 3]) {
+      const { supabase, updates } = fakeSupabase([claimed(attempt)], subscriptionFor(receiver.url));
+      const before = Date.now();
+      const summary = await deliverDueWebhooks(supabase, allowLocalReceiver);
+
+      assert.deepEqual(summary, { attempted: 1, succeeded: 0, retrying: 1, failed: 0 });
+      assert.equal(updates[0].status, 'pending');
+      assert.equal(updates[0].last_status_code, 503);
+      assert.equal(updates[0].last_error, 'Receiver returned 503');
+
+      const delayMs = new Date(updates[0].next_attempt_at).getTime() - before;
+      const expectedMs = 60_000 * 2 ** (attempt - 1);
+      assert.equal(retryDelaySeconds(attempt) * 1000, expectedMs);
+      assert.ok(delayMs >= expectedMs && delayMs < expectedMs + 5_000, `attempt ${attempt}: ${delayMs}ms`);
+    }
+
+    assert.equal(receiver.received.length, 3);
+    assert.equal(retryDelaySeconds(20), 6 * 60 * 60);
+  } finally {
+    await receiver.server.shutdown();
+  }
+});
+
+Deno.test('gives up after MAX_ATTEMPTS', async () => {
+  const receiver = startReceiver(500);
+  try {
+    const { supabase, updates } = fakeSupabase([claimed(MAX_ATTEMPTS)], subscriptionFor(receiver.url));
+    const summary = await deliverDueWebhooks(supabase, allowLocalReceiver);
+
+    assert.deepEqual(summary, { attempted: 1, succeeded: 0, retrying: 0, failed: 1 });
+    assert.equal(updates[0].status, 'failed');
+    assert.equal(updates[0].next_attempt_at, undefined);
+    assert.equal(receiver.received.length, 1);
+  } finally {
+    await receiver.server.shutdown();
+  }
+});
+
+Deno.test('does not follow redirects', async () => {
+  const receiver = startReceiver(302);
+  try {
+    const { supabase, updates } = fakeSupabase([claimed(1)], subscriptionFor(receiver.url));
+    await deliverDueWebhooks(supabase, allowLocalReceiver);
+
+    assert.equal(updates[0].status, 'pending');
+    assert.equal(updates[0].last_status_code, 302);
+    assert.equal(receiver.received.length, 1);
+  } finally {
+    await receiver.server.shutdown();
+  }
+});
+
+Deno.test('refuses private addresses without sending', async () => {
+  const receiver = startReceiver(204);
+  try {
+    const { supabase, updates } = fakeSupabase([claimed(1)], subscriptionFor(receiver.url));
+    const summary = await deliverDueWebhooks(supabase);
+
+    assert.equal(summary.succeeded, 0);
+    assert.equal(updates[0].status, 'pending');
+    assert.match(updates[0].last_error, /private or reserved address/);
+    assert.equal(receiver.received.length, 0);
+  } finally {
+    await receiver.server.shutdown();
+  }
+});
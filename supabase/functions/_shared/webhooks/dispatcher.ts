@@ -0,0 +1,248 @@
+import type { Supabase } from '../sources/types.ts';
+import type {
+  WebhookDeliveryRow,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookItem,
+  WebhookRunSummary,
+  WebhookSubscriptionRow,
+} from './types.ts';
+import { matchesFilters } from './filters.ts';
+import { signedHeaders } from './signing.ts';
+import { checkWebhookTarget } from './dns.ts';
+import { describeTrend } from '../trend-origins.ts';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERY_BATCH = 50;
+
+/** Attempts per delivery before it is marked failed. */
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 6 * 60 * 60;
+
+/** Error message when a URL must not be sent to, else null; the tests stub it to reach a local receiver. */
+export type TargetCheck = (url: string) => Promise<string | null>;
+
+/** Tables whose new rows are announced, and the event each emits. */
+export const TABLE_EVENTS: Record<string, WebhookEventType> = {
+  x_trends: 'trend.created',
+  github_repos: 'repo.created',
+  knowledge_entries: 'knowledge.created',
+};
+
+/** 1, 2, 4, 8... minutes after each failed attempt, capped at six hours. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** Math.max(0, attempt - 1));
+}
+
+export function toWebhookItem(table: string, row: Record<string, any>): WebhookItem | null {
+  switch (table) {
+    case 'x_trends':
+      return {
+        type: 'x_trend',
+        id: row.id,
+        title: row.trend_name,
+        description: describeTrend({
+          source: row.source,
+          tweet_count: row.tweet_count || 0,
+          metric_type: row.metric_type,
+        }),
+        url: row.url || null,
+        category: row.category || null,
+        tags: row.category ? [row.category] : [],
+        language: null,
+        engagement: row.tweet_count || 0,
+        source: row.source,
+        created_at: row.created_at,
+      };
+    case 'github_repos':
+      return {
+        type: 'github_repo',
+        id: row.id,
+        title: row.repo_name,
+        description: row.description || null,
+        url: row.url,
+        category: 'technology',
+        tags: row.topics || [],
+        language: row.language || null,
+        engagement: row.stars || 0,
+        source: 'github',
+        created_at: row.created_at,
+      };
+    case 'knowledge_entries':
+      return {
+        type: 'knowledge_entry',
+        id: row.id,
+        title: row.title,
+        description: row.content,
+        url: row.source_url || null,
+        category: row.category,
+        tags: row.tags || [],
+        language: null,
+        engagement: row.relevance_score || 0,
+        source: row.source,
+        created_at: row.created_at,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Queues an event per new row for every active subscription that wants it,
+ * then makes the first delivery attempt. Failures are logged rather than
+ * thrown so ingestion never fails because of a subscriber.
+ */
+export async function emitWebhookEvents(
+  supabase: Supabase,
+  table: string,
+  rows: Record<string, any>[]
+): Promise<number> {
+  const eventType = TABLE_EVENTS[table];
+  if (!eventType || rows.length === 0) return 0;
+
+  try {
+    const { data: subscriptions, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id, user_id, url, secret, event_types, filters, is_active')
+      .eq('is_active', true)
+      .contains('event_types', [eventType]);
+
+    if (error) throw error;
+    if (!subscriptions || subscriptions.length === 0) return 0;
+
+    const deliveries: Record<string, unknown>[] = [];
+
+    for (const row of rows) {
+      const item = toWebhookItem(table, row);
+      if (!item) continue;
+
+      const event: WebhookEvent = {
+        id: crypto.randomUUID(),
+        type: eventType,
+        created_at: new Date().toISOString(),
+        data: item,
+      };
+
+      for (const subscription of subscriptions as WebhookSubscriptionRow[]) {
+        if (matchesFilters(item, subscription.filters)) {
+          deliveries.push({
+            subscription_id: subscription.id,
+            event_type: eventType,
+            payload: event,
+          });
+        }
+      }
+    }
+
+    if (deliveries.length === 0) return 0;
+
+    const { error: insertError } = await supabase.from('webhook_deliveries').insert(deliveries);
+    if (insertError) throw insertError;
+
+    await deliverDueWebhooks(supabase);
+
+    return deliveries.length;
+  } catch (error) {
+    console.error(`Error emitting ${eventType} webhooks:`, error);
+    return 0;
+  }
+}
+
+async function attemptDelivery(
+  delivery: WebhookDeliveryRow,
+  subscription: WebhookSubscriptionRow | undefined,
+  checkTarget: TargetCheck
+): Promise<{ ok: boolean; statusCode: number | null; error: string | null }> {
+  if (!subscription || !subscription.is_active) {
+    return { ok: false, statusCode: null, error: 'Subscription was disabled or deleted' };
+  }
+
+  const targetError = await checkTarget(subscription.url);
+  if (targetError) {
+    return { ok: false, statusCode: null, error: targetError };
+  }
+
+  // Re-sent byte for byte, so a receiver can dedupe on the event id
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: await signedHeaders(subscription.secret, delivery.id, delivery.event_type, body),
+      body,
+      // A redirect target has not been checked, so it counts as a failed attempt
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+
+    return response.ok
+      ? { ok: true, statusCode: response.status, error: null }
+      : { ok: false, statusCode: response.status, error: `Receiver returned ${response.status}` };
+  } catch (error) {
+    return { ok: false, statusCode: null, error: error.message };
+  }
+}
+
+/**
+ * Sends every delivery that is due: new events and retries whose backoff
+ * has elapsed. Claiming is atomic, so concurrent runs never send twice.
+ * URLs that resolve to private or reserved addresses are not sent to.
+ */
+export async function deliverDueWebhooks(
+  supabase: Supabase,
+  checkTarget: TargetCheck = checkWebhookTarget
+): Promise<WebhookRunSummary> {
+  const summary: WebhookRunSummary = { attempted: 0, succeeded: 0, retrying: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', { p_limit: DELIVERY_BATCH });
+  if (error) throw error;
+
+  const deliveries = (data || []) as WebhookDeliveryRow[];
+  if (deliveries.length === 0) return summary;
+
+  const { data: subscriptionRows, error: subscriptionError } = await supabase
+    .from('webhook_subscriptions')
+    .select('id, user_id, url, secret, event_types, filters, is_active')
+    .in('id', Array.from(new Set(deliveries.map((delivery) => delivery.subscription_id))));
+
+  if (subscriptionError) throw subscriptionError;
+
+  const subscriptions = new Map(
+    ((subscriptionRows || []) as WebhookSubscriptionRow[]).map((row) => [row.id, row])
+  );
+
+  await Promise.all(deliveries.map(async (delivery) => {
+    const subscription = subscriptions.get(delivery.subscription_id);
+    const result = await attemptDelivery(delivery, subscription, checkTarget);
+    summary.attempted++;
+
+    const giveUp = !subscription?.is_active || delivery.attempt_count >= MAX_ATTEMPTS;
+    const update = result.ok
+      ? { status: 'succeeded', delivered_at: new Date().toISOString() }
+      : giveUp
+        ? { status: 'failed' }
+        : {
+          status: 'pending',
+          next_attempt_at: new Date(
+            Date.now() + retryDelaySeconds(delivery.attempt_count) * 1000
+          ).toISOString(),
+        };
+
+    if (result.ok) summary.succeeded++;
+    else if (giveUp) summary.failed++;
+    else summary.retrying++;
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({ ...update, last_status_code: result.statusCode, last_error: result.error })
+      .eq('id', delivery.id);
+
+    if (updateError) {
+      console.error(`Error recording webhook delivery ${delivery.id}:`, updateError);
+    }
+  }));
+
+  return summary;
+}
@@ -0,0 +1,15 @@
+import { webhookTargetError } from './targets.ts';
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+}
+
+/** `webhookTargetError` with the runtime's resolver; run before every send. */
+export function checkWebhookTarget(url: string): Promise<string | null> {
+  return webhookTargetError(url, resolveHost);
+}
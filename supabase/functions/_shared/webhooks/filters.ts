@@ -0,0 +1,58 @@
+import type { WebhookFilters, WebhookItem } from './types.ts';
+
+const ITEM_SOURCES: Record<WebhookItem['type'], NonNullable<WebhookFilters['sources']>[number]> = {
+  x_trend: 'x_trends',
+  github_repo: 'github_repos',
+  knowledge_entry: 'knowledge_entries',
+};
+
+function includesIgnoringCase(values: string[], value: string | null): boolean {
+  if (!value) return false;
+  const needle = value.toLowerCase();
+  return values.some((candidate) => candidate.toLowerCase() === needle);
+}
+
+/**
+ * Free text left in `query` after filter syntax has been expanded: every
+ * word or "quoted phrase" must appear in the item, `-word` must not.
+ */
+function matchesText(item: WebhookItem, query: string): boolean {
+  const haystack = [item.title, item.description || '', ...item.tags].join(' ').toLowerCase();
+  const terms = query.match(/-?"[^"]+"|\S+/g) || [];
+
+  return terms.every((term) => {
+    const negated = term.startsWith('-') && term.length > 1;
+    const text = (negated ? term.slice(1) : term).replace(/"/g, '').toLowerCase();
+    if (!text) return true;
+    return haystack.includes(text) !== negated;
+  });
+}
+
+/** Whether an item satisfies a subscription's predicate; empty filters match everything. */
+export function matchesFilters(item: WebhookItem, filters: WebhookFilters | null): boolean {
+  if (!filters) return true;
+
+  if (filters.sources?.length && !filters.sources.includes(ITEM_SOURCES[item.type])) {
+    return false;
+  }
+  if (filters.origins?.length && (item.type !== 'x_trend' || !filters.origins.includes(item.source))) {
+    return false;
+  }
+  if (filters.categories?.length && !includesIgnoringCase(filters.categories, item.category)) {
+    return false;
+  }
+  if (filters.languages?.length && !includesIgnoringCase(filters.languages, item.language)) {
+    return false;
+  }
+  if (filters.tags?.length && !item.tags.some((tag) => includesIgnoringCase(filters.tags!, tag))) {
+    return false;
+  }
+  if (filters.minEngagement && item.engagement < filters.minEngagement) {
+    return false;
+  }
+  if (filters.query && !matchesText(item, filters.query)) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,35 @@
+/**
+ * Payloads are signed as `HMAC-SHA256(secret, "<timestamp>.<body>")` and sent
+ * as `X-Webhook-Signature: sha256=<hex>`. Including the timestamp lets
+ * receivers reject replayed requests.
+ */
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function signedHeaders(
+  secret: string,
+  deliveryId: string,
+  eventType: string,
+  body: string
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'DragonAndPanda-Webhooks',
+    'X-Webhook-Id': deliveryId,
+    'X-Webhook-Event': eventType,
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': `sha256=${await signPayload(secret, timestamp, body)}`,
+  };
+}
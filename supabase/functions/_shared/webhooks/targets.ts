@@ -0,0 +1,169 @@
+/**
+ * Where webhooks may be sent. Subscribers choose the URL and the server makes
+ * the request, so an unchecked URL could reach the database, other internal
+ * services or a cloud metadata endpoint. Every address a host resolves to
+ * must be public. The app checks when a URL is saved and the dispatchers
+ * again before each send, as DNS can change in between. The app imports this
+ * module too, so it has no Deno dependencies; resolution is passed in.
+ */
+
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+/** `[first address, prefix length]` of IPv4 ranges that are not the public internet. */
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+/** IPv6 ranges as `[first hextets, prefix length]`. */
+const BLOCKED_IPV6: Array<[number[], number]> = [
+  [[0, 0, 0, 0, 0, 0], 96], // unspecified, loopback and IPv4-compatible
+  [[0x100, 0, 0, 0], 64], // discard
+  [[0x2001, 0xdb8], 32], // documentation
+  [[0xfc00], 7], // unique local, including fd00:ec2::254 metadata
+  [[0xfe80], 10], // link-local
+  [[0xfec0], 10], // site-local
+  [[0xff00], 8], // multicast
+];
+
+/** Suffixes of names that only resolve inside a network, e.g. `metadata.google.internal`. */
+const INTERNAL_SUFFIXES = ['localhost', 'local', 'internal', 'intranet', 'lan', 'home.arpa'];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function parseIpv6(address: string): number[] | null {
+  let value = address.toLowerCase().replace(/%.*$/, '');
+
+  // A trailing dotted quad holds the last 32 bits: ::ffff:10.0.0.1
+  const tail = /:(\d+\.\d+\.\d+\.\d+)$/.exec(value);
+  if (tail) {
+    const ipv4 = parseIpv4(tail[1]);
+    if (ipv4 === null) return null;
+    value = `${value.slice(0, tail.index)}:${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function inIpv4Range(address: number, [first, prefix]: [string, number]): boolean {
+  const size = 2 ** (32 - prefix);
+  return Math.floor(address / size) === Math.floor((parseIpv4(first) as number) / size);
+}
+
+function inIpv6Range(hextets: number[], [first, prefix]: [number[], number]): boolean {
+  for (let bit = 0; bit < prefix; bit += 16) {
+    const index = bit / 16;
+    const width = Math.min(16, prefix - bit);
+    const shift = 16 - width;
+    if (hextets[index] >> shift !== (first[index] || 0) >> shift) return false;
+  }
+  return true;
+}
+
+function isPublicIpv4(address: number): boolean {
+  return !BLOCKED_IPV4.some((range) => inIpv4Range(address, range));
+}
+
+/** False for private, loopback, link-local, metadata and other non-internet addresses, and for anything unparseable. */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) return isPublicIpv4(ipv4);
+
+  const ipv6 = parseIpv6(address.replace(/^\[|\]$/g, ''));
+  if (!ipv6) return false;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach the embedded IPv4 address
+  const mapped = inIpv6Range(ipv6, [[0, 0, 0, 0, 0, 0xffff], 96]);
+  const nat64 = inIpv6Range(ipv6, [[0x64, 0xff9b, 0, 0, 0, 0], 96]);
+  if (mapped || nat64) return isPublicIpv4(ipv6[6] * 0x10000 + ipv6[7]);
+
+  return !BLOCKED_IPV6.some((range) => inIpv6Range(ipv6, range));
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return parseIpv4(hostname) !== null || hostname.startsWith('[');
+}
+
+/** Problems visible in the URL itself; null when it may be resolved. */
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Webhook URL must use http or https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (isIpLiteral(hostname)) {
+    return isPublicAddress(hostname) ? null : 'Webhook URL points to a private or reserved address';
+  }
+
+  const internal = INTERNAL_SUFFIXES.some((suffix) => hostname === suffix || hostname.endsWith(`.${suffix}`));
+  // Single-label names are completed with the server's search domains
+  if (internal || !hostname.includes('.')) {
+    return 'Webhook URL points to an internal host';
+  }
+
+  return null;
+}
+
+/** `webhookUrlError`, then resolves the host and requires every address to be public. */
+export async function webhookTargetError(url: string, resolveHost: ResolveHost): Promise<string | null> {
+  const urlError = webhookUrlError(url);
+  if (urlError) return urlError;
+
+  const hostname = new URL(url).hostname.replace(/\.$/, '');
+  if (isIpLiteral(hostname)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(hostname);
+  } catch {
+    addresses = [];
+  }
+
+  if (addresses.length === 0) {
+    return `Webhook host ${hostname} does not resolve`;
+  }
+  if (!addresses.every(isPublicAddress)) {
+    return `Webhook host ${hostname} resolves to a private or reserved address`;
+  }
+
+  return null;
+}
@@ -0,0 +1,68 @@
+export type WebhookEventType = 'trend.created' | 'repo.created' | 'knowledge.created';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+/** The new row, in the same shape for every source. */
+export interface WebhookItem {
+  type: 'x_trend' | 'github_repo' | 'knowledge_entry';
+  id: string;
+  title: string;
+  description: string | null;
+  url: string | null;
+  category: string | null;
+  tags: string[];
+  language: string | null;
+  /** Trend count (its unit is in `description`), stars or relevance score. */
+  engagement: number;
+  source: string;
+  created_at: string;
+}
+
+/** Body `POST`ed to subscribers. */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: WebhookItem;
+}
+
+/**
+ * Subset of `SearchFilters` (lib/search-manager.ts) that applies to a
+ * single item. Sorting, mode and date fields are ignored.
+ */
+export interface WebhookFilters {
+  query?: string;
+  categories?: string[];
+  tags?: string[];
+  languages?: string[];
+  sources?: ('x_trends' | 'github_repos' | 'knowledge_entries')[];
+  /** Trend `source` values; other items never match. */
+  origins?: string[];
+  minEngagement?: number;
+}
+
+export interface WebhookSubscriptionRow {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  event_types: WebhookEventType[];
+  filters: WebhookFilters | null;
+  is_active: boolean;
+}
+
+export interface WebhookDeliveryRow {
+  id: string;
+  subscription_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+}
+
+export interface WebhookRunSummary {
+  attempted: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
@@ -0,0 +1,49 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runSourceChain } from '../_shared/sources/registry.ts';
+import { scanRepoReadmes } from '../_shared/paper-citations.ts';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const result = await runSourceChain(supabase, 'papers');
+
+    if (!result.ok) {
+      return jsonResponse({
+        ok: false,
+        error: result.attempts[0]?.error || 'arXiv source is disabled',
+      }, 500);
+    }
+
+    // Papers link to repos whose README cites them; a failed scan does not fail the fetch
+    const readmes = await scanRepoReadmes(supabase).catch((error) => ({
+      scanned: 0,
+      citing: 0,
+      error: error.message as string,
+    }));
+
+    return jsonResponse({
+      ok: true,
+      papers_fetched: result.itemsFetched,
+      source: result.source,
+      readmes_scanned: readmes.scanned,
+      readmes_citing_papers: readmes.citing,
+      readme_scan_error: readmes.error || undefined,
+      message: 'Successfully fetched and stored arXiv papers'
+    });
+  } catch (error) {
+    console.error('Error in fetch-arxiv-papers:', error);
+
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred'
+    }, 500);
+  }
+});
@@ -0,0 +1,41 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runFeedSources } from '../_shared/sources/registry.ts';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // A manual run fetches every feed, or the ones named, regardless of interval
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const sources = Array.isArray(body.sources)
+      ? body.sources.filter((source: unknown): source is string => typeof source === 'string')
+      : undefined;
+
+    const attempts = await runFeedSources(supabase, { force: true, sources });
+    const failed = attempts.filter((attempt) => !attempt.ok);
+
+    return jsonResponse({
+      ok: failed.length === 0,
+      feeds_fetched: attempts.length - failed.length,
+      items_fetched: attempts.reduce((sum, attempt) => sum + attempt.itemsFetched, 0),
+      errors: failed.length > 0
+        ? failed.map((attempt) => `${attempt.source}: ${attempt.error}`)
+        : undefined,
+      message: attempts.length === 0 ? 'No enabled feeds' : 'Fetched feeds'
+    }, failed.length === attempts.length && attempts.length > 0 ? 500 : 200);
+  } catch (error) {
+    console.error('Error in fetch-feeds:', error);
+
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred'
+    }, 500);
+  }
+});
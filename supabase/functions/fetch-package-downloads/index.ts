@@ -0,0 +1,56 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runSourceChain } from '../_shared/sources/registry.ts';
+import type { ChainResult } from '../_shared/sources/types.ts';
+
+/** Each registry is a source group of its own; `?registry=npm` fetches just one. */
+const REGISTRY_GROUPS = ['npm', 'pypi', 'crates'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const requested = new URL(req.url).searchParams.get('registry');
+    if (requested && !REGISTRY_GROUPS.includes(requested)) {
+      return jsonResponse({
+        ok: false,
+        error: `Unknown registry "${requested}"; expected ${REGISTRY_GROUPS.join(', ')}`,
+      }, 400);
+    }
+
+    const results: ChainResult[] = [];
+    for (const group of requested ? [requested] : REGISTRY_GROUPS) {
+      results.push(await runSourceChain(supabase, group));
+    }
+
+    const failed = results.filter((result) => !result.ok);
+    const packagesFetched = results.reduce((sum, result) => sum + result.itemsFetched, 0);
+
+    return jsonResponse({
+      ok: failed.length < results.length,
+      packages_fetched: packagesFetched,
+      registries: results.map((result) => ({
+        registry: result.group,
+        ok: result.ok,
+        packages_fetched: result.itemsFetched,
+        error: result.ok ? undefined : result.attempts[0]?.error || 'Registry source is disabled',
+      })),
+      message: failed.length === 0
+        ? 'Successfully fetched and stored package download counts'
+        : `Failed to fetch ${failed.map((result) => result.group).join(', ')}`,
+    }, failed.length === results.length ? 500 : 200);
+  } catch (error) {
+    console.error('Error in fetch-package-downloads:', error);
+
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred'
+    }, 500);
+  }
+});
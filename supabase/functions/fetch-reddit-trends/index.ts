@@ -0,0 +1,38 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runSourceChain } from '../_shared/sources/registry.ts';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const result = await runSourceChain(supabase, 'reddit');
+
+    if (!result.ok) {
+      return jsonResponse({
+        ok: false,
+        error: result.attempts[0]?.error || 'Reddit source is disabled',
+      }, 500);
+    }
+
+    return jsonResponse({
+      ok: true,
+      trends_fetched: result.itemsFetched,
+      source: result.source,
+      message: 'Successfully fetched and stored hot Reddit posts'
+    });
+  } catch (error) {
+    console.error('Error in fetch-reddit-trends:', error);
+
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred'
+    }, 500);
+  }
+});
@@ -0,0 +1,57 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runSourceChain } from '../_shared/sources/registry.ts';
+import type { ChainResult } from '../_shared/sources/types.ts';
+
+/** Each network is a source group of its own; `?network=bluesky` fetches just one. */
+const NETWORK_GROUPS = ['mastodon', 'bluesky'];
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const requested = new URL(req.url).searchParams.get('network');
+    if (requested && !NETWORK_GROUPS.includes(requested)) {
+      return jsonResponse({
+        ok: false,
+        error: `Unknown network "${requested}"; expected ${NETWORK_GROUPS.join(', ')}`,
+      }, 400);
+    }
+
+    const results: ChainResult[] = [];
+    for (const group of requested ? [requested] : NETWORK_GROUPS) {
+      results.push(await runSourceChain(supabase, group));
+    }
+
+    const failed = results.filter((result) => !result.ok);
+    const trendsFetched = results.reduce((sum, result) => sum + result.itemsFetched, 0);
+
+    return jsonResponse({
+      ok: failed.length < results.length,
+      trends_fetched: trendsFetched,
+      networks: results.map((result) => ({
+        network: result.group,
+        ok: result.ok,
+        source: result.source,
+        trends_fetched: result.itemsFetched,
+        error: result.ok ? undefined : result.attempts[0]?.error || 'Network source is disabled',
+      })),
+      message: failed.length === 0
+        ? 'Successfully fetched and stored social trends'
+        : `Failed to fetch ${failed.map((result) => result.group).join(', ')}`,
+    }, failed.length === results.length ? 500 : 200);
+  } catch (error) {
+    console.error('Error in fetch-social-trends:', error);
+
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred'
+    }, 500);
+  }
+});
@@ -1,10 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
-};
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { isTokenConfigured, resolveAdapter } from '../_shared/sources/registry.ts';
+import type { DataSourceRow } from '../_shared/sources/types.ts';
 
 interface DataSourceStatus {
   source_name: string;
@@ -24,137 +21,72 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const xBearerToken = Deno.env.get('X_BEARER_TOKEN');
-    const githubToken = Deno.env.get('GITHUB_TOKEN');
-
-    const sources: DataSourceStatus[] = [];
-
-    // Check X API
-    const xConfigured = !!xBearerToken && xBearerToken.length > 0;
-    await supabase
-      .from('data_sources')
-      .update({
-        token_configured: xConfigured,
-        health_status: xConfigured ? 'healthy' : 'offline',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('source_name', 'x_api');
-
-    sources.push({
-      source_name: 'x_api',
-      token_configured: xConfigured,
-      health_status: xConfigured ? 'healthy' : 'offline',
-      last_success_at: null,
-      error_message: xConfigured ? null : 'X_BEARER_TOKEN not configured',
-    });
-
-    // Check GitHub API
-    const githubConfigured = !!githubToken && githubToken.length > 0;
-    await supabase
+    const { data: rows, error } = await supabase
       .from('data_sources')
-      .update({
-        token_configured: githubConfigured,
-        health_status: 'healthy',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('source_name', 'github_api');
+      .select('*')
+      .eq('is_enabled', true)
+      .order('priority', { ascending: true });
 
-    sources.push({
-      source_name: 'github_api',
-      token_configured: githubConfigured,
-      health_status: 'healthy',
-      last_success_at: null,
-      error_message: githubConfigured ? null : 'GITHUB_TOKEN not configured (optional - using public API)',
-    });
+    if (error) throw error;
 
-    // Check GitHub Trending Fallback
-    try {
-      const fallbackResponse = await fetch('https://api.gitterapp.com/repositories', {
-        headers: { 'Accept': 'application/json' },
-      });
-      
-      const fallbackHealthy = fallbackResponse.ok;
-      await supabase
-        .from('data_sources')
-        .update({
-          health_status: fallbackHealthy ? 'healthy' : 'degraded',
-          last_success_at: fallbackHealthy ? new Date().toISOString() : null,
-          last_error_message: fallbackHealthy ? null : 'Fallback API unavailable',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('source_name', 'github_trending_fallback');
+    const sources: DataSourceStatus[] = [];
 
-      sources.push({
-        source_name: 'github_trending_fallback',
-        token_configured: true,
-        health_status: fallbackHealthy ? 'healthy' : 'degraded',
-        last_success_at: fallbackHealthy ? new Date().toISOString() : null,
-        error_message: fallbackHealthy ? null : 'Fallback API unavailable',
-      });
-    } catch (error) {
-      sources.push({
-        source_name: 'github_trending_fallback',
-        token_configured: true,
-        health_status: 'offline',
-        last_success_at: null,
-        error_message: error.message,
-      });
-    }
+    for (const row of (rows || []) as DataSourceRow[]) {
+      const adapter = resolveAdapter(row);
+
+      if (!adapter) {
+        sources.push({
+          source_name: row.source_name,
+          token_configured: false,
+          health_status: 'unknown',
+          last_success_at: null,
+          error_message: 'No adapter registered',
+        });
+        continue;
+      }
+
+      const tokenConfigured = isTokenConfigured(adapter);
+      const probe = await adapter.probe(row.metadata || {});
+      const healthy = probe.status === 'healthy';
+      const now = new Date().toISOString();
 
-    // Check HackerNews API
-    try {
-      const hnResponse = await fetch('https://hacker-news.firebaseio.com/v0/topstories.json');
-      const hnHealthy = hnResponse.ok;
-      
       await supabase
         .from('data_sources')
         .update({
-          health_status: hnHealthy ? 'healthy' : 'degraded',
-          last_success_at: hnHealthy ? new Date().toISOString() : null,
-          updated_at: new Date().toISOString(),
+          token_configured: tokenConfigured,
+          health_status: probe.status,
+          ...(healthy ? { last_success_at: now } : {}),
+          last_error_message: probe.message,
+          updated_at: now,
         })
-        .eq('source_name', 'hackernews_api');
+        .eq('source_name', row.source_name);
 
       sources.push({
-        source_name: 'hackernews_api',
-        token_configured: true,
-        health_status: hnHealthy ? 'healthy' : 'degraded',
-        last_success_at: hnHealthy ? new Date().toISOString() : null,
-        error_message: null,
-      });
-    } catch (error) {
-      sources.push({
-        source_name: 'hackernews_api',
-        token_configured: true,
-        health_status: 'offline',
-        last_success_at: null,
-        error_message: error.message,
+        source_name: row.source_name,
+        token_configured: tokenConfigured,
+        health_status: probe.status,
+        last_success_at: healthy ? now : null,
+        error_message: probe.message,
       });
     }
 
-    return new Response(
-      JSON.stringify({
-        ok: true,
-        timestamp: new Date().toISOString(),
-        sources,
-        summary: {
-          total: sources.length,
-          healthy: sources.filter(s => s.health_status === 'healthy').length,
-          degraded: sources.filter(s => s.health_status === 'degraded').length,
-          offline: sources.filter(s => s.health_status === 'offline').length,
-        },
-      }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({
+      ok: true,
+      timestamp: new Date().toISOString(),
+      sources,
+      summary: {
+        total: sources.length,
+        healthy: sources.filter(s => s.health_status === 'healthy').length,
+        degraded: sources.filter(s => s.health_status === 'degraded').length,
+        offline: sources.filter(s => s.health_status === 'offline').length,
+      },
+    });
   } catch (error) {
     console.error('Error in health-check:', error);
 
-    return new Response(
-      JSON.stringify({
-        ok: false,
-        error: error.message || 'Unknown error occurred',
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({
+      ok: false,
+      error: error.message || 'Unknown error occurred',
+    }, 500);
   }
-});
\ No newline at end of file
+});
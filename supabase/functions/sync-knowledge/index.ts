@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { emitWebhookEvents } from '../_shared/webhooks/dispatcher.ts';
+import { trendingPhrase } from '../_shared/trend-origins.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -32,7 +34,9 @@ Deno.serve(async (req: Request) => {
       skipped: 0,
       errors: 0,
       entries: [] as string[],
+      webhooks_queued: 0,
     };
+    const createdRows: Record<string, any>[] = [];
 
     const { data: trends } = await supabase
       .from('x_trends')
@@ -46,7 +50,21 @@ Deno.serve(async (req: Request) => {
       .order('stars', { ascending: false })
       .limit(30);
 
-    if (!trends && !repos) {
+    const { data: papers } = await supabase
+      .from('papers')
+      .select('*')
+      .gte('published_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
+      .order('published_at', { ascending: false })
+      .limit(100);
+
+    const { data: paperLinks } = papers && papers.length > 0
+      ? await supabase
+        .from('paper_repo_links')
+        .select('paper_id, repo_name, stars, repo_url')
+        .in('paper_id', papers.map((paper) => paper.id))
+      : { data: [] };
+
+    if (!trends && !repos && !papers) {
       return new Response(
         JSON.stringify({
           ok: false,
@@ -63,8 +81,8 @@ Deno.serve(async (req: Request) => {
       for (const trend of topTrends) {
         knowledgeEntries.push({
           title: `Trending: ${trend.trend_name}`,
-          content: `${trend.trend_name} is currently trending with ${trend.tweet_count.toLocaleString()} tweets. This indicates significant interest and discussion around this topic.`,
-          source: 'x_api',
+          content: `${trend.trend_name} is currently ${trendingPhrase(trend)}. This indicates significant interest and discussion around this topic.`,
+          source: trend.source || 'x_api',
           source_url: trend.url,
           category: trend.category || 'general',
           tags: ['trending', 'social-media', trend.trend_name.toLowerCase()],
@@ -95,6 +113,46 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    if (papers && papers.length > 0) {
+      const reposByPaper = new Map<string, { repo_name: string; stars: number; repo_url: string }[]>();
+      for (const link of paperLinks || []) {
+        reposByPaper.set(link.paper_id, [...(reposByPaper.get(link.paper_id) || []), link]);
+      }
+      const citedStars = (paper: { id: string }) =>
+        (reposByPaper.get(paper.id) || []).reduce((sum, repo) => sum + repo.stars, 0);
+
+      // Papers with code that people are starring first, then the newest
+      const topPapers = [...papers]
+        .sort((a, b) => citedStars(b) - citedStars(a))
+        .slice(0, 10);
+
+      for (const paper of topPapers) {
+        const repos = (reposByPaper.get(paper.id) || []).sort((a, b) => b.stars - a.stars);
+        const authors = paper.authors.length > 3
+          ? `${paper.authors.slice(0, 3).join(', ')} et al.`
+          : paper.authors.join(', ');
+        const code = repos.length > 0
+          ? ` Code: ${repos.map((repo) => `${repo.repo_name} (${repo.stars.toLocaleString()} stars)`).join(', ')}.`
+          : '';
+
+        knowledgeEntries.push({
+          title: `Research Paper: ${paper.title}`,
+          content: `${paper.title} by ${authors || 'unknown authors'} (arXiv:${paper.arxiv_id}, ${paper.primary_category || 'cs'}). ${paper.abstract.substring(0, 600)}${paper.abstract.length > 600 ? '...' : ''}${code}`,
+          source: 'arxiv_api',
+          source_url: paper.url,
+          category: 'research',
+          tags: [
+            'research',
+            'arxiv',
+            ...paper.categories.slice(0, 3).map((category: string) => category.toLowerCase()),
+            ...(repos.length > 0 ? ['has-code'] : []),
+          ],
+          relevance_score: Math.min(100, 40 + Math.floor(citedStars(paper) / 100)),
+          verified: true,
+        });
+      }
+    }
+
     for (const entry of knowledgeEntries) {
       try {
         const { data: existing } = await supabase
@@ -108,9 +166,11 @@ Deno.serve(async (req: Request) => {
           continue;
         }
 
-        const { error: insertError } = await supabase
+        const { data: created, error: insertError } = await supabase
           .from('knowledge_entries')
-          .insert(entry);
+          .insert(entry)
+          .select()
+          .single();
 
         if (insertError) {
           console.error('Error inserting entry:', insertError);
@@ -118,6 +178,7 @@ Deno.serve(async (req: Request) => {
         } else {
           results.created++;
           results.entries.push(entry.title);
+          createdRows.push(created);
         }
       } catch (error) {
         console.error('Error processing entry:', error);
@@ -125,6 +186,8 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    results.webhooks_queued = await emitWebhookEvents(supabase, 'knowledge_entries', createdRows);
+
     await supabase.from('update_logs').insert({
       source_type: 'knowledge_sync',
       status: results.errors > 0 ? 'partial_success' : 'success',
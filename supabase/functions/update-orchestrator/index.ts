@@ -1,10 +1,21 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { embedPendingRows, embeddingProviderFromEnv } from '../_shared/embedding-index.ts';
+import { evaluateSavedSearches } from '../_shared/notifications/saved-search-alerts.ts';
+import { deliverDueWebhooks } from '../_shared/webhooks/dispatcher.ts';
+import { scanRepoReadmes } from '../_shared/paper-citations.ts';
+import {
+  isChainDue,
+  loadSourceChain,
+  loadSourceGroups,
+  runFeedSources,
+  runSourceChain,
+} from '../_shared/sources/registry.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
-};
+interface StepResult {
+  status: 'success' | 'error' | 'skipped';
+  message: string;
+}
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -17,10 +28,14 @@ Deno.serve(async (req: Request) => {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const results = {
-      health_check: { status: 'skipped', message: '' },
-      x_trends: { status: 'skipped', message: '' },
-      github_trending: { status: 'skipped', message: '' },
-      knowledge_sync: { status: 'skipped', message: '' },
+      health_check: { status: 'skipped', message: '' } as StepResult,
+      sources: {} as Record<string, StepResult>,
+      readme_citations: { status: 'skipped', message: '' } as StepResult,
+      entity_links: { status: 'skipped', message: '' } as StepResult,
+      knowledge_sync: { status: 'skipped', message: '' } as StepResult,
+      embeddings: { status: 'skipped', message: '' } as StepResult,
+      saved_search_alerts: { status: 'skipped', message: '' } as StepResult,
+      webhook_retries: { status: 'skipped', message: '' } as StepResult,
     };
 
     try {
@@ -43,81 +58,69 @@ Deno.serve(async (req: Request) => {
       };
     }
 
-    const { data: recentXUpdate } = await supabase
-      .from('update_logs')
-      .select('created_at')
-      .in('source_type', ['x_api', 'hackernews_api'])
-      .eq('status', 'success')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const sourceGroups = await loadSourceGroups(supabase);
 
-    const shouldUpdateX = !recentXUpdate || 
-      (Date.now() - new Date(recentXUpdate.created_at).getTime()) > 15 * 60 * 1000;
+    for (const group of sourceGroups) {
+      const chain = await loadSourceChain(supabase, group);
+
+      if (!(await isChainDue(supabase, chain))) {
+        results.sources[group] = {
+          status: 'skipped',
+          message: 'Updated recently, skipping to respect rate limits'
+        };
+        continue;
+      }
 
-    if (shouldUpdateX) {
       try {
-        const xResponse = await fetch(`${supabaseUrl}/functions/v1/fetch-x-trends`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        const xData = await xResponse.json();
-        results.x_trends = {
-          status: xResponse.ok ? 'success' : 'error',
-          message: xData.message || xData.error || 'Unknown status'
+        const chainResult = await runSourceChain(supabase, group);
+        results.sources[group] = {
+          status: chainResult.ok ? 'success' : 'error',
+          message: chainResult.ok
+            ? `Fetched ${chainResult.itemsFetched} items from ${chainResult.source}`
+            : chainResult.attempts.map((a) => `${a.source}: ${a.error}`).join('; ') || 'No enabled sources'
         };
       } catch (error) {
-        results.x_trends = {
+        results.sources[group] = {
           status: 'error',
           message: error.message
         };
       }
-    } else {
-      results.x_trends = {
-        status: 'skipped',
-        message: 'Updated recently, skipping to respect rate limits'
-      };
     }
 
-    const { data: recentGitHubUpdate } = await supabase
-      .from('update_logs')
-      .select('created_at')
-      .in('source_type', ['github_api', 'github_trending_fallback'])
-      .eq('status', 'success')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const shouldUpdateGitHub = !recentGitHubUpdate || 
-      (Date.now() - new Date(recentGitHubUpdate.created_at).getTime()) > 60 * 60 * 1000;
-
-    if (shouldUpdateGitHub) {
-      try {
-        const githubResponse = await fetch(`${supabaseUrl}/functions/v1/fetch-github-trending`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        const githubData = await githubResponse.json();
-        results.github_trending = {
-          status: githubResponse.ok ? 'success' : 'error',
-          message: githubData.message || githubData.error || 'Unknown status'
-        };
-      } catch (error) {
-        results.github_trending = {
-          status: 'error',
-          message: error.message
+    // Admin-registered feeds, each on its own interval
+    try {
+      for (const attempt of await runFeedSources(supabase)) {
+        results.sources[attempt.source] = {
+          status: !attempt.ok ? 'error' : attempt.itemsFetched > 0 ? 'success' : 'skipped',
+          message: !attempt.ok
+            ? attempt.error || 'Unknown error'
+            : attempt.itemsFetched > 0
+              ? `Fetched ${attempt.itemsFetched} items`
+              : 'No new items'
         };
       }
-    } else {
-      results.github_trending = {
-        status: 'skipped',
-        message: 'Updated recently, skipping to respect rate limits'
+    } catch (error) {
+      results.sources.feeds = {
+        status: 'error',
+        message: error.message
+      };
+    }
+
+    // Links papers to the repos whose README cites them, a batch per run
+    try {
+      const readmes = await scanRepoReadmes(supabase);
+      results.readme_citations = {
+        status: readmes.error ? 'error' : readmes.scanned > 0 ? 'success' : 'skipped',
+        message: readmes.error
+          ? `Scanned ${readmes.scanned} READMEs before failing: ${readmes.error}`
+          : readmes.scanned > 0
+            ? `Scanned ${readmes.scanned} READMEs, ${readmes.citing} cite arXiv papers`
+            : 'All READMEs scanned recently'
+      };
+    } catch (error) {
+      results.readme_citations = {
+        status: 'error',
+        message: error.message
       };
     }
 
@@ -145,6 +148,46 @@ Deno.serve(async (req: Request) => {
         .lt('fetched_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
     }
 
+    await supabase
+      .from('trend_observations')
+      .delete()
+      .lt('fetched_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
+
+    await supabase
+      .from('repo_snapshots')
+      .delete()
+      .lt('fetched_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
+    // Tracked packages stay until they are removed from the source's metadata
+    await supabase
+      .from('packages')
+      .delete()
+      .eq('is_tracked', false)
+      .lt('fetched_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
+    await supabase
+      .from('package_download_snapshots')
+      .delete()
+      .lt('fetched_at', new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString());
+
+    // Papers are only listed while new, so age them out by submission date
+    await supabase
+      .from('papers')
+      .delete()
+      .lt('published_at', new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString());
+
+    // Items stay while their feed still lists them; re-listing refreshes fetched_at
+    await supabase
+      .from('feed_items')
+      .delete()
+      .lt('fetched_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
+    // Rebuilt after cleanup so no link points at a deleted item
+    const { data: linked, error: linkError } = await supabase.rpc('resolve_entities');
+    results.entity_links = linkError
+      ? { status: 'error', message: linkError.message }
+      : { status: 'success', message: `Linked ${linked.links} items into ${linked.entities} entities` };
+
     const { data: recentKnowledgeSync } = await supabase
       .from('update_logs')
       .select('created_at')
@@ -157,7 +200,7 @@ Deno.serve(async (req: Request) => {
     const shouldSyncKnowledge = !recentKnowledgeSync ||
       (Date.now() - new Date(recentKnowledgeSync.created_at).getTime()) > 60 * 60 * 1000;
 
-    if (shouldSyncKnowledge && (results.x_trends.status === 'success' || results.github_trending.status === 'success')) {
+    if (shouldSyncKnowledge && Object.values(results.sources).some((r) => r.status === 'success')) {
       try {
         const knowledgeResponse = await fetch(`${supabaseUrl}/functions/v1/sync-knowledge`, {
           method: 'POST',
@@ -184,6 +227,69 @@ Deno.serve(async (req: Request) => {
       };
     }
 
+    if (Object.values(results.sources).some((r) => r.status === 'success')) {
+      const { error: lexiconError } = await supabase.rpc('refresh_search_lexicon');
+      if (lexiconError) {
+        console.error('Error refreshing search lexicon:', lexiconError);
+      }
+    }
+
+    try {
+      const embedded = await embedPendingRows(supabase, embeddingProviderFromEnv());
+      const total = Object.values(embedded).reduce((sum, count) => sum + count, 0);
+      results.embeddings = {
+        status: total > 0 ? 'success' : 'skipped',
+        message: total > 0
+          ? Object.entries(embedded).map(([table, count]) => `${table}: ${count}`).join(', ')
+          : 'All rows embedded'
+      };
+    } catch (error) {
+      results.embeddings = {
+        status: 'error',
+        message: error.message
+      };
+    }
+
+    // Runs after embedding so semantic saved searches see the new rows
+    if (Object.values(results.sources).some((r) => r.status === 'success')) {
+      try {
+        const alerts = await evaluateSavedSearches(supabase);
+        results.saved_search_alerts = {
+          status: alerts.errors.length > 0 ? 'error' : 'success',
+          message: [
+            `Evaluated ${alerts.evaluated} saved searches, sent ${alerts.notified} alerts (${alerts.newMatches} new matches)`,
+            ...alerts.errors,
+          ].join('; ')
+        };
+      } catch (error) {
+        results.saved_search_alerts = {
+          status: 'error',
+          message: error.message
+        };
+      }
+    } else {
+      results.saved_search_alerts = {
+        status: 'skipped',
+        message: 'No new data to evaluate'
+      };
+    }
+
+    // New events are sent as they are emitted; this picks up retries whose backoff has elapsed
+    try {
+      const webhooks = await deliverDueWebhooks(supabase);
+      results.webhook_retries = {
+        status: webhooks.attempted === 0 ? 'skipped' : webhooks.failed > 0 ? 'error' : 'success',
+        message: webhooks.attempted === 0
+          ? 'No deliveries due'
+          : `Attempted ${webhooks.attempted} deliveries: ${webhooks.succeeded} succeeded, ${webhooks.retrying} will retry, ${webhooks.failed} failed`
+      };
+    } catch (error) {
+      results.webhook_retries = {
+        status: 'error',
+        message: error.message
+      };
+    }
+
     return new Response(
       JSON.stringify({ 
         ok: true,
@@ -0,0 +1,25 @@
+/*
+  # Group Data Sources Into Fallback Chains
+
+  1. Modified Tables
+    - `data_sources`
+      - `source_group` (text) - Fallback chain the source belongs to (e.g., 'trends', 'repos').
+        Within a group, enabled sources are tried in ascending `priority` order.
+
+  2. Data
+    - X API and HackerNews form the `trends` chain
+    - GitHub API and the trending fallback form the `repos` chain
+
+  3. Indexes
+    - Composite index on (source_group, priority) for chain lookups
+*/
+
+ALTER TABLE data_sources ADD COLUMN IF NOT EXISTS source_group text;
+
+UPDATE data_sources SET source_group = 'trends'
+WHERE source_name IN ('x_api', 'hackernews_api') AND source_group IS NULL;
+
+UPDATE data_sources SET source_group = 'repos'
+WHERE source_name IN ('github_api', 'github_trending_fallback') AND source_group IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_data_sources_group_priority ON data_sources(source_group, priority);
@@ -0,0 +1,250 @@
+/*
+  # Canonical GitHub Repositories With Star History
+
+  1. Modified Tables
+    - `github_repos`
+      - One row per repository, keyed by unique `repo_name`
+      - `forks` (integer) - Latest fork count
+      - `open_issues` (integer) - Latest open issue count
+      - `first_seen_at` (timestamptz) - When the repository was first fetched
+      - `fetched_at` now means "last fetched"
+
+  2. New Tables
+    - `repo_snapshots`
+      - `id` (uuid, primary key)
+      - `repo_id` (uuid) - References github_repos, cascades on delete
+      - `stars` (integer) - Star count at fetch time
+      - `forks` (integer) - Fork count at fetch time
+      - `open_issues` (integer) - Open issue count at fetch time
+      - `fetched_at` (timestamptz) - When the snapshot was taken
+
+  3. New Views
+    - `repo_star_velocity` - Star delta between each repository's latest snapshot
+      and its oldest snapshot in the preceding 7 days, with stars gained per hour
+
+  4. Data Migration
+    - Every existing `github_repos` row becomes a snapshot of its repository
+    - Duplicate rows are collapsed onto the most recently fetched one
+    - Trending scores pointing at removed duplicates are deleted
+
+  5. Triggers & Functions
+    - Inserting or re-fetching a repository records a snapshot automatically
+    - `calculate_trending_scores` derives GitHub velocity from snapshot deltas
+
+  6. Security
+    - Public read on `repo_snapshots` and `repo_star_velocity`
+    - Writes restricted to the service role
+*/
+
+-- =============================================
+-- 1. CANONICAL COLUMNS AND SNAPSHOT TABLE
+-- =============================================
+
+ALTER TABLE github_repos ADD COLUMN IF NOT EXISTS forks integer DEFAULT 0;
+ALTER TABLE github_repos ADD COLUMN IF NOT EXISTS open_issues integer DEFAULT 0;
+ALTER TABLE github_repos ADD COLUMN IF NOT EXISTS first_seen_at timestamptz DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS repo_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repo_id uuid NOT NULL REFERENCES github_repos(id) ON DELETE CASCADE,
+  stars integer NOT NULL DEFAULT 0,
+  forks integer NOT NULL DEFAULT 0,
+  open_issues integer NOT NULL DEFAULT 0,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_repo_snapshots_repo_fetched ON repo_snapshots(repo_id, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_repo_snapshots_fetched_at ON repo_snapshots(fetched_at DESC);
+
+-- =============================================
+-- 2. COLLAPSE DUPLICATE REPOSITORY ROWS
+-- =============================================
+
+-- The most recently fetched row of each repository survives
+CREATE OR REPLACE VIEW canonical_github_repos AS
+SELECT DISTINCT ON (repo_name) id, repo_name
+FROM github_repos
+ORDER BY repo_name, fetched_at DESC NULLS LAST, id DESC;
+
+INSERT INTO repo_snapshots (repo_id, stars, fetched_at)
+SELECT c.id, COALESCE(r.stars, 0), COALESCE(r.fetched_at, r.created_at, now())
+FROM github_repos r
+JOIN canonical_github_repos c ON c.repo_name = r.repo_name
+WHERE NOT EXISTS (SELECT 1 FROM repo_snapshots);
+
+UPDATE github_repos g
+SET first_seen_at = f.first_seen_at
+FROM (
+  SELECT repo_name, MIN(COALESCE(created_at, fetched_at)) AS first_seen_at
+  FROM github_repos
+  GROUP BY repo_name
+) f
+WHERE g.repo_name = f.repo_name;
+
+DELETE FROM github_repos
+WHERE id NOT IN (SELECT id FROM canonical_github_repos);
+
+DROP VIEW canonical_github_repos;
+
+DELETE FROM trending_scores
+WHERE item_type = 'github_repo'
+  AND item_id NOT IN (SELECT id FROM github_repos);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'github_repos_repo_name_key'
+  ) THEN
+    ALTER TABLE github_repos ADD CONSTRAINT github_repos_repo_name_key UNIQUE (repo_name);
+  END IF;
+END $$;
+
+-- =============================================
+-- 3. SNAPSHOT TRIGGER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION github_repos_record_snapshot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.fetched_at IS NOT DISTINCT FROM OLD.fetched_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO repo_snapshots (repo_id, stars, forks, open_issues, fetched_at)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.stars, 0),
+    COALESCE(NEW.forks, 0),
+    COALESCE(NEW.open_issues, 0),
+    COALESCE(NEW.fetched_at, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS github_repos_snapshot_trigger ON github_repos;
+CREATE TRIGGER github_repos_snapshot_trigger
+  AFTER INSERT OR UPDATE ON github_repos
+  FOR EACH ROW
+  EXECUTE FUNCTION github_repos_record_snapshot();
+
+-- =============================================
+-- 4. STAR VELOCITY VIEW
+-- =============================================
+
+CREATE OR REPLACE VIEW repo_star_velocity AS
+WITH latest AS (
+  SELECT DISTINCT ON (repo_id) repo_id, stars, fetched_at
+  FROM repo_snapshots
+  ORDER BY repo_id, fetched_at DESC
+),
+baseline AS (
+  SELECT DISTINCT ON (s.repo_id) s.repo_id, s.stars, s.fetched_at
+  FROM repo_snapshots s
+  JOIN latest l ON l.repo_id = s.repo_id
+  WHERE s.fetched_at < l.fetched_at
+    AND s.fetched_at >= l.fetched_at - INTERVAL '7 days'
+  ORDER BY s.repo_id, s.fetched_at ASC
+)
+SELECT
+  l.repo_id,
+  l.stars AS current_stars,
+  COALESCE(b.stars, l.stars) AS baseline_stars,
+  l.stars - COALESCE(b.stars, l.stars) AS star_delta,
+  COALESCE(EXTRACT(EPOCH FROM (l.fetched_at - b.fetched_at)) / 3600.0, 0) AS window_hours,
+  CASE
+    WHEN b.repo_id IS NULL THEN 0
+    ELSE (l.stars - b.stars) / GREATEST(EXTRACT(EPOCH FROM (l.fetched_at - b.fetched_at)) / 3600.0, 1)
+  END AS stars_per_hour,
+  l.fetched_at AS latest_fetched_at
+FROM latest l
+LEFT JOIN baseline b ON b.repo_id = l.repo_id;
+
+GRANT SELECT ON repo_star_velocity TO anon, authenticated;
+
+-- =============================================
+-- 5. TRENDING SCORES FROM SNAPSHOT DELTAS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION calculate_trending_scores()
+RETURNS void AS $$
+BEGIN
+  -- Calculate scores for X trends
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT 
+    'x_trend',
+    id,
+    (
+      (tweet_count / 10000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      (tweet_count / GREATEST(EXTRACT(EPOCH FROM (NOW() - fetched_at)) / 3600.0, 1)) * 0.3
+    ) * 100 as trending_score,
+    tweet_count / GREATEST(EXTRACT(EPOCH FROM (NOW() - fetched_at)) / 3600.0, 1) as velocity_score,
+    tweet_count::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object('category', category, 'url', url) as metadata
+  FROM x_trends
+  WHERE fetched_at > NOW() - INTERVAL '7 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+
+  -- Calculate scores for GitHub repos; velocity is stars gained per hour between snapshots
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT 
+    'github_repo',
+    r.id,
+    (
+      (r.stars / 1000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.stars_per_hour, 0) * 0.3
+    ) * 100 as trending_score,
+    COALESCE(v.stars_per_hour, 0) as velocity_score,
+    r.stars::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'language', r.language,
+      'topics', r.topics,
+      'url', r.url,
+      'star_delta', COALESCE(v.star_delta, 0),
+      'window_hours', COALESCE(v.window_hours, 0)
+    ) as metadata
+  FROM github_repos r
+  LEFT JOIN repo_star_velocity v ON v.repo_id = r.id
+  WHERE r.fetched_at > NOW() - INTERVAL '30 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 6. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE repo_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view repo_snapshots"
+  ON repo_snapshots FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage repo_snapshots"
+  ON repo_snapshots FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update github_repos"
+  ON github_repos FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,290 @@
+/*
+  # Canonical Trends With Rank and Volume History
+
+  1. Modified Tables
+    - `x_trends`
+      - One row per topic, keyed by unique `trend_key` (lower-cased, trimmed `trend_name`,
+        set by the ingestion adapters)
+      - `source` (text) - Source that last reported the topic (e.g., 'x_api', 'hackernews_api')
+      - `rank` (integer) - Position in the latest listing that contained the topic
+      - `first_seen_at` (timestamptz) - When the topic was first fetched
+      - `fetched_at` now means "last seen"
+
+  2. New Tables
+    - `trend_observations`
+      - `id` (uuid, primary key)
+      - `trend_id` (uuid) - References x_trends, cascades on delete
+      - `source` (text) - Source of this observation
+      - `rank` (integer) - Position in that fetch's listing
+      - `tweet_count` (integer) - Volume reported by that fetch
+      - `fetched_at` (timestamptz) - When the observation was made
+
+  3. New Views & Functions
+    - `trend_volume_velocity` - Volume slope per hour over each topic's last 24 hours
+    - `get_trend_lifetime(trend_id, hours)` - First seen, peak, current and slopes
+      over the last N hours for one topic
+    - `calculate_trending_scores` uses the observed volume slope for X trends
+
+  4. Data Migration
+    - Every existing `x_trends` row becomes an observation of its topic
+    - Rows stored with category 'tech' are attributed to HackerNews
+    - Duplicate rows are collapsed onto the most recently fetched one
+
+  5. Security
+    - Public read on `trend_observations` and `trend_volume_velocity`
+    - Writes restricted to the service role
+*/
+
+-- =============================================
+-- 1. CANONICAL COLUMNS AND OBSERVATION TABLE
+-- =============================================
+
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS source text DEFAULT 'x_api';
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS rank integer;
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS first_seen_at timestamptz DEFAULT now();
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS trend_key text;
+
+UPDATE x_trends SET trend_key = lower(btrim(trend_name)) WHERE trend_key IS NULL;
+
+UPDATE x_trends SET source = 'hackernews_api' WHERE category = 'tech';
+
+CREATE TABLE IF NOT EXISTS trend_observations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trend_id uuid NOT NULL REFERENCES x_trends(id) ON DELETE CASCADE,
+  source text NOT NULL,
+  rank integer,
+  tweet_count integer NOT NULL DEFAULT 0,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trend_observations_trend_fetched ON trend_observations(trend_id, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trend_observations_fetched_at ON trend_observations(fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_x_trends_source ON x_trends(source);
+
+-- =============================================
+-- 2. COLLAPSE DUPLICATE TREND ROWS
+-- =============================================
+
+-- The most recently fetched row of each topic survives
+CREATE OR REPLACE VIEW canonical_x_trends AS
+SELECT DISTINCT ON (trend_key) id, trend_key
+FROM x_trends
+ORDER BY trend_key, fetched_at DESC NULLS LAST, id DESC;
+
+INSERT INTO trend_observations (trend_id, source, tweet_count, fetched_at)
+SELECT c.id, t.source, COALESCE(t.tweet_count, 0), COALESCE(t.fetched_at, t.created_at, now())
+FROM x_trends t
+JOIN canonical_x_trends c ON c.trend_key = t.trend_key
+WHERE NOT EXISTS (SELECT 1 FROM trend_observations);
+
+UPDATE x_trends t
+SET first_seen_at = f.first_seen_at
+FROM (
+  SELECT trend_key, MIN(COALESCE(created_at, fetched_at)) AS first_seen_at
+  FROM x_trends
+  GROUP BY trend_key
+) f
+WHERE t.trend_key = f.trend_key;
+
+DELETE FROM x_trends
+WHERE id NOT IN (SELECT id FROM canonical_x_trends);
+
+DROP VIEW canonical_x_trends;
+
+DELETE FROM trending_scores
+WHERE item_type = 'x_trend'
+  AND item_id NOT IN (SELECT id FROM x_trends);
+
+ALTER TABLE x_trends ALTER COLUMN trend_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_x_trends_trend_key ON x_trends(trend_key);
+
+-- =============================================
+-- 3. OBSERVATION TRIGGER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION x_trends_record_observation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.fetched_at IS NOT DISTINCT FROM OLD.fetched_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO trend_observations (trend_id, source, rank, tweet_count, fetched_at)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.source, 'x_api'),
+    NEW.rank,
+    COALESCE(NEW.tweet_count, 0),
+    COALESCE(NEW.fetched_at, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS x_trends_observation_trigger ON x_trends;
+CREATE TRIGGER x_trends_observation_trigger
+  AFTER INSERT OR UPDATE ON x_trends
+  FOR EACH ROW
+  EXECUTE FUNCTION x_trends_record_observation();
+
+-- =============================================
+-- 4. VELOCITY VIEW AND LIFETIME FUNCTION
+-- =============================================
+
+CREATE OR REPLACE VIEW trend_volume_velocity AS
+SELECT
+  o.trend_id,
+  COUNT(*) AS observation_count,
+  COALESCE(regr_slope(o.tweet_count, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0), 0) AS volume_per_hour,
+  COALESCE(regr_slope(o.rank, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0), 0) AS rank_per_hour
+FROM trend_observations o
+WHERE o.fetched_at > NOW() - INTERVAL '24 hours'
+GROUP BY o.trend_id;
+
+GRANT SELECT ON trend_volume_velocity TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_trend_lifetime(p_trend_id uuid, p_hours integer DEFAULT 24)
+RETURNS TABLE (
+  trend_id uuid,
+  trend_name text,
+  source text,
+  first_seen_at timestamptz,
+  last_seen_at timestamptz,
+  observation_count bigint,
+  peak_tweet_count integer,
+  peak_at timestamptz,
+  best_rank integer,
+  current_tweet_count integer,
+  current_rank integer,
+  window_hours integer,
+  volume_slope_per_hour double precision,
+  rank_slope_per_hour double precision
+) AS $$
+  SELECT
+    t.id,
+    t.trend_name,
+    t.source,
+    t.first_seen_at,
+    t.fetched_at,
+    (SELECT COUNT(*) FROM trend_observations o WHERE o.trend_id = t.id),
+    peak.tweet_count,
+    peak.fetched_at,
+    (SELECT MIN(o.rank) FROM trend_observations o WHERE o.trend_id = t.id),
+    t.tweet_count,
+    t.rank,
+    p_hours,
+    w.volume_slope,
+    w.rank_slope
+  FROM x_trends t
+  LEFT JOIN LATERAL (
+    SELECT o.tweet_count, o.fetched_at
+    FROM trend_observations o
+    WHERE o.trend_id = t.id
+    ORDER BY o.tweet_count DESC, o.fetched_at DESC
+    LIMIT 1
+  ) peak ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      regr_slope(o.tweet_count, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0) AS volume_slope,
+      regr_slope(o.rank, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0) AS rank_slope
+    FROM trend_observations o
+    WHERE o.trend_id = t.id
+      AND o.fetched_at >= NOW() - make_interval(hours => p_hours)
+  ) w ON true
+  WHERE t.id = p_trend_id;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 5. TRENDING SCORES FROM OBSERVED VOLUME
+-- =============================================
+
+CREATE OR REPLACE FUNCTION calculate_trending_scores()
+RETURNS void AS $$
+BEGIN
+  -- Calculate scores for X trends; velocity is the volume slope over the last 24 hours
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT 
+    'x_trend',
+    t.id,
+    (
+      (t.tweet_count / 10000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - t.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.volume_per_hour, 0) * 0.3
+    ) * 100 as trending_score,
+    COALESCE(v.volume_per_hour, 0) as velocity_score,
+    t.tweet_count::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - t.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'category', t.category,
+      'url', t.url,
+      'source', t.source,
+      'rank', t.rank,
+      'first_seen_at', t.first_seen_at
+    ) as metadata
+  FROM x_trends t
+  LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+  WHERE t.fetched_at > NOW() - INTERVAL '7 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+
+  -- Calculate scores for GitHub repos; velocity is stars gained per hour between snapshots
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT 
+    'github_repo',
+    r.id,
+    (
+      (r.stars / 1000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.stars_per_hour, 0) * 0.3
+    ) * 100 as trending_score,
+    COALESCE(v.stars_per_hour, 0) as velocity_score,
+    r.stars::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'language', r.language,
+      'topics', r.topics,
+      'url', r.url,
+      'star_delta', COALESCE(v.star_delta, 0),
+      'window_hours', COALESCE(v.window_hours, 0)
+    ) as metadata
+  FROM github_repos r
+  LEFT JOIN repo_star_velocity v ON v.repo_id = r.id
+  WHERE r.fetched_at > NOW() - INTERVAL '30 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 6. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE trend_observations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view trend_observations"
+  ON trend_observations FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage trend_observations"
+  ON trend_observations FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update x_trends"
+  ON x_trends FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
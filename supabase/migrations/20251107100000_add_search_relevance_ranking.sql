@@ -0,0 +1,43 @@
+/*
+  # Full-Text Relevance Ranking for Unified Search
+
+  1. New Functions
+    - `rank_search_matches(query, ids)`
+      - Scores the given x_trends, github_repos and knowledge_entries rows against a
+        websearch-style query using `ts_rank_cd` (normalization 32, so 0 <= rank < 1)
+      - Returns the search_vector weight classes ('A'..'D') the query matched, so the
+        client can explain which fields an item matched on
+
+  2. Security
+    - SECURITY INVOKER: existing RLS (e.g. verified-only knowledge) still applies
+*/
+
+CREATE OR REPLACE FUNCTION rank_search_matches(p_query text, p_ids uuid[])
+RETURNS TABLE (
+  item_type text,
+  item_id uuid,
+  text_rank real,
+  matched_weights text[]
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  docs AS (
+    SELECT 'x_trend'::text AS item_type, id, search_vector FROM x_trends WHERE id = ANY(p_ids)
+    UNION ALL
+    SELECT 'github_repo', id, search_vector FROM github_repos WHERE id = ANY(p_ids)
+    UNION ALL
+    SELECT 'knowledge_entry', id, search_vector FROM knowledge_entries WHERE id = ANY(p_ids)
+  )
+  SELECT
+    d.item_type,
+    d.id,
+    ts_rank_cd(d.search_vector, q.query, 32),
+    ARRAY(
+      SELECT w
+      FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+      WHERE ts_filter(d.search_vector, ARRAY[lower(w)::"char"]) @@ q.query
+    )
+  FROM docs d, q
+  WHERE d.search_vector IS NOT NULL;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,246 @@
+/*
+  # Database-Side Unified Search
+
+  1. New Functions
+    - `unified_search(...)` returns a single jsonb document:
+      - `results` - One page of x_trends, github_repos and knowledge_entries matches,
+        ranked in the database
+      - `total` - Size of the full match set (no longer capped by a fetch window)
+      - `facets` - Category, tag, language and source counts over the full match set
+      - `next_cursor` - Keyset cursor ({k, id}) for the following page, or null
+
+  2. Ranking
+    - Relevance is `ts_rank_cd` (normalization 32) divided by the best rank within the
+      same source, so each source's strongest match scores 1.0 and sources interleave
+    - Without a query, relevance ordering falls back to recency
+    - Other sorts: trending (trending_scores), recent, popular (engagement) and
+      velocity (repo_star_velocity / trend_volume_velocity)
+    - Ties are broken by item id, which keeps cursors stable
+
+  3. Removed Functions
+    - `rank_search_matches` - Superseded by ranking inside `unified_search`
+
+  4. Security
+    - SECURITY INVOKER: existing RLS (e.g. verified-only knowledge) still applies
+*/
+
+DROP FUNCTION IF EXISTS rank_search_matches(text, uuid[]);
+
+CREATE OR REPLACE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_result jsonb;
+BEGIN
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (v_query IS NULL OR t.search_vector @@ v_query)
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (v_query IS NULL OR r.search_vector @@ v_query)
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      NULL,
+      to_jsonb(k) - 'search_vector'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (v_query IS NULL OR k.search_vector @@ v_query)
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(m.search_vector, v_query, 32) END::double precision AS text_rank
+    FROM matches m
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END AS relevance_score,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank
+          ELSE 0
+        END
+      END, 0) AS sort_key
+    FROM scored s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"]) @@ v_query
+          )) END,
+          'record', p.record
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,438 @@
+/*
+  # Typo-Tolerant and Prefix Search
+
+  1. Extensions
+    - `pg_trgm` for trigram similarity
+
+  2. New Materialized Views
+    - `search_lexicon` - Words (3+ characters) from trend names, repo names,
+      descriptions, topics and languages, and knowledge titles and tags, with
+      their frequency. Source of "did you mean" corrections.
+
+  3. New Functions
+    - `refresh_search_lexicon()` - Rebuilds `search_lexicon`; called by the
+      update orchestrator after ingestion
+    - `suggest_search_correction(p_query)` - Replaces words missing from the
+      lexicon with their closest trigram match (same first letter), or NULL
+    - `search_prefix_tsquery(p_text)` - Prefix tsquery (`word:*` ANDed) for the
+      non-negated words of a websearch query
+    - `fuzzy_search_suggestions(p_query, p_limit)` - Prefix matches first, then
+      trigram word-similarity matches from `search_suggestions`
+
+  4. Modified Functions
+    - `unified_search` - When full-text search finds fewer than 5 hits, also
+      matches the corrected query as prefixes. Fuzzy-only rows carry
+      `fuzzy: true` and half relevance; the payload gains `did_you_mean`.
+
+  5. Indexes
+    - Trigram GIN indexes on x_trends.trend_name, github_repos.repo_name,
+      knowledge_entries.title, search_suggestions.suggestion_text and
+      search_lexicon.word
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ===== 1. TRIGRAM INDEXES =====
+
+CREATE INDEX IF NOT EXISTS idx_x_trends_trend_name_trgm
+  ON x_trends USING gin(trend_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_github_repos_repo_name_trgm
+  ON github_repos USING gin(repo_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_entries_title_trgm
+  ON knowledge_entries USING gin(title gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_search_suggestions_text_trgm
+  ON search_suggestions USING gin(suggestion_text gin_trgm_ops);
+
+-- ===== 2. SEARCH LEXICON =====
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_lexicon AS
+SELECT word, COUNT(*) AS frequency
+FROM (
+  SELECT regexp_split_to_table(lower(trend_name), '[^[:alnum:]]+') AS word
+  FROM x_trends
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(
+      repo_name || ' ' || COALESCE(description, '') || ' ' ||
+      array_to_string(topics, ' ') || ' ' || COALESCE(language, '')
+    ),
+    '[^[:alnum:]]+'
+  )
+  FROM github_repos
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(lower(title || ' ' || array_to_string(tags, ' ')), '[^[:alnum:]]+')
+  FROM knowledge_entries
+  WHERE verified = true
+) words
+WHERE length(word) >= 3
+GROUP BY word;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_lexicon_word ON search_lexicon(word);
+CREATE INDEX IF NOT EXISTS idx_search_lexicon_word_trgm ON search_lexicon USING gin(word gin_trgm_ops);
+
+GRANT SELECT ON search_lexicon TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_search_lexicon()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY search_lexicon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_search_lexicon() FROM PUBLIC, anon, authenticated;
+
+-- ===== 3. CORRECTIONS AND PREFIX QUERIES =====
+
+CREATE OR REPLACE FUNCTION suggest_search_correction(p_query text)
+RETURNS text AS $$
+DECLARE
+  v_token text;
+  v_word text;
+  v_best text;
+  v_tokens text[] := '{}';
+  v_changed boolean := false;
+BEGIN
+  IF COALESCE(btrim(p_query), '') = '' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Transpositions like "pyhton" share few trigrams, so use a low threshold
+  -- and require the first letter to match.
+  PERFORM set_config('pg_trgm.similarity_threshold', '0.2', true);
+
+  FOREACH v_token IN ARRAY regexp_split_to_array(btrim(p_query), '\s+') LOOP
+    v_word := lower(regexp_replace(v_token, '[^[:alnum:]]', '', 'g'));
+
+    IF v_token <> 'OR'
+      AND length(v_word) >= 4
+      AND NOT EXISTS (SELECT 1 FROM search_lexicon WHERE word = v_word)
+    THEN
+      SELECT l.word INTO v_best
+      FROM search_lexicon l
+      WHERE l.word % v_word
+        AND left(l.word, 1) = left(v_word, 1)
+      ORDER BY similarity(l.word, v_word) DESC, l.frequency DESC, l.word
+      LIMIT 1;
+
+      IF v_best IS NOT NULL THEN
+        v_token := regexp_replace(v_token, v_word, v_best, 'i');
+        v_changed := true;
+      END IF;
+    END IF;
+
+    v_tokens := v_tokens || v_token;
+  END LOOP;
+
+  RETURN CASE WHEN v_changed THEN array_to_string(v_tokens, ' ') END;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_prefix_tsquery(p_text text)
+RETURNS tsquery AS $$
+  SELECT CASE
+    WHEN COUNT(*) = 0 THEN NULL
+    ELSE to_tsquery('english', string_agg(DISTINCT word || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(COALESCE(p_text, ''), '\s+') AS token,
+    regexp_split_to_table(lower(token), '[^[:alnum:]]+') AS word
+  WHERE token NOT LIKE '-%'
+    AND token <> 'OR'
+    AND length(word) >= 2;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ===== 4. FUZZY SUGGESTIONS =====
+
+CREATE OR REPLACE FUNCTION fuzzy_search_suggestions(p_query text, p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  suggestion_text text,
+  suggestion_type text,
+  usage_count integer,
+  is_prefix boolean,
+  similarity real
+) AS $$
+BEGIN
+  PERFORM set_config('pg_trgm.word_similarity_threshold', '0.4', true);
+
+  RETURN QUERY
+  SELECT
+    s.suggestion_text,
+    s.suggestion_type,
+    s.usage_count,
+    left(lower(s.suggestion_text), length(p_query)) = lower(p_query) AS is_prefix,
+    word_similarity(p_query, s.suggestion_text) AS similarity
+  FROM search_suggestions s
+  WHERE left(lower(s.suggestion_text), length(p_query)) = lower(p_query)
+    OR p_query <% s.suggestion_text
+  ORDER BY 4 DESC, 5 DESC, s.usage_count DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===== 5. UNIFIED SEARCH WITH FUZZY FALLBACK =====
+
+CREATE OR REPLACE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_fuzzy_query tsquery;
+  v_correction text;
+  v_strict_hits integer := 0;
+  v_result jsonb;
+BEGIN
+  -- Fall back to corrected prefix matching when full-text search finds few
+  -- hits. Only the text is considered: a typo is a typo whatever the filters.
+  IF v_query IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_strict_hits
+    FROM (
+      (SELECT 1 FROM x_trends WHERE 'x_trends' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM github_repos WHERE 'github_repos' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM knowledge_entries
+        WHERE 'knowledge_entries' = ANY(v_sources) AND verified = true AND search_vector @@ v_query LIMIT 5)
+    ) hits;
+
+    IF v_strict_hits < 5 THEN
+      v_correction := suggest_search_correction(p_query);
+      v_fuzzy_query := search_prefix_tsquery(COALESCE(v_correction, p_query));
+    END IF;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (v_query IS NULL OR t.search_vector @@ v_query OR t.search_vector @@ v_fuzzy_query)
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (v_query IS NULL OR r.search_vector @@ v_query OR r.search_vector @@ v_fuzzy_query)
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      NULL,
+      to_jsonb(k) - 'search_vector'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (v_query IS NULL OR k.search_vector @@ v_query OR k.search_vector @@ v_fuzzy_query)
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (v_query IS NOT NULL AND NOT (m.search_vector @@ v_query)) AS fuzzy
+    FROM matches m
+  ),
+  ranked AS (
+    SELECT
+      f.*,
+      CASE
+        WHEN v_query IS NULL THEN 0
+        WHEN f.fuzzy THEN ts_rank_cd(f.search_vector, v_fuzzy_query, 32)
+        ELSE ts_rank_cd(f.search_vector, v_query, 32)
+      END::double precision AS text_rank
+    FROM flagged f
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  relevant AS (
+    SELECT
+      s.*,
+      -- Fuzzy matches score at half weight so exact hits stay ahead of them
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END
+        * CASE WHEN s.fuzzy THEN 0.5 ELSE 1 END AS relevance_score
+    FROM scored s
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          ELSE s.relevance_score
+        END
+      END, 0) AS sort_key
+    FROM relevant s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'did_you_mean', v_correction,
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'fuzzy', p.fuzzy,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"])
+              @@ CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END
+          )) END,
+          'record', p.record
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,130 @@
+/*
+  # Saved Search Alerts
+
+  1. Modified Tables
+    - `saved_searches`
+      - `notification_channels` (text[]) - Delivery channels: in_app, email, webhook
+      - `webhook_url` (text) - Target for the webhook channel
+      - `last_evaluated_at` (timestamptz) - Last time the alert job ran the search
+
+  2. New Tables
+    - `saved_search_results`
+      - Every item a saved search has returned, so each run only reports
+        items that were not matched before
+    - `notifications`
+      - One row per alert, holding the newly matched items; `read_at` is set
+        when the user dismisses it in the app
+    - `notification_deliveries`
+      - Outcome of each delivery channel for a notification
+
+  3. Security
+    - Users read and mark their own notifications; everything else is written
+      by the service role from the update orchestrator
+*/
+
+-- ===== 1. SAVED SEARCH DELIVERY SETTINGS =====
+
+ALTER TABLE saved_searches
+  ADD COLUMN IF NOT EXISTS notification_channels text[] NOT NULL DEFAULT ARRAY['in_app'];
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS webhook_url text;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS last_evaluated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts
+  ON saved_searches(last_evaluated_at)
+  WHERE is_active = true AND notification_enabled = true;
+
+-- ===== 2. SEEN RESULTS =====
+
+CREATE TABLE IF NOT EXISTS saved_search_results (
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('x_trend', 'github_repo', 'knowledge_entry')),
+  item_id uuid NOT NULL,
+  first_seen_at timestamptz DEFAULT now(),
+  PRIMARY KEY (saved_search_id, item_type, item_id)
+);
+
+-- ===== 3. NOTIFICATIONS =====
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  saved_search_id uuid REFERENCES saved_searches(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'saved_search_match' CHECK (kind IN ('saved_search_match')),
+  title text NOT NULL,
+  body text NOT NULL,
+  items jsonb DEFAULT '[]'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  error_message text,
+  attempted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification
+  ON notification_deliveries(notification_id);
+
+-- ===== 4. ROW LEVEL SECURITY =====
+
+ALTER TABLE saved_search_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view results of their saved searches"
+  ON saved_search_results FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM saved_searches s
+      WHERE s.id = saved_search_results.saved_search_id
+        AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage saved search results"
+  ON saved_search_results FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notifications"
+  ON notifications FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view deliveries of their notifications"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM notifications n
+      WHERE n.id = notification_deliveries.notification_id
+        AND n.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage notification deliveries"
+  ON notification_deliveries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,161 @@
+/*
+  # Atomic Token-Bucket Rate Limiter
+
+  1. New Tables
+    - `rate_limit_buckets`
+      - `user_id` (uuid, primary key)
+      - `hourly_tokens` (double precision) - Tokens left in the hourly bucket
+      - `daily_tokens` (double precision) - Tokens left in the daily bucket
+      - `refilled_at` (timestamptz) - When the token counts were last brought up to date
+      - `updated_at` (timestamptz)
+
+  2. New Functions
+    - `consume_rate_limit(p_user_id, p_cost)` - Refills both buckets for the
+      time elapsed, then takes `p_cost` tokens from each if both have enough.
+      The bucket row is locked for the duration, so concurrent requests are
+      serialized and cannot overspend. A cost of 0 reports the current state
+      without consuming anything.
+
+  3. Removed Tables
+    - `rate_limit_tracker` - Per-hour counters keyed by the app server's local
+      hour, read and written in separate round trips
+
+  4. Notes
+    - Each bucket holds the tier's per-hour or per-day allowance and refills
+      continuously at allowance / period, so limits behave like sliding
+      windows with no reset cliff at the top of the hour or at midnight
+    - Time arithmetic uses timestamptz epoch differences, so it is
+      independent of server and session time zones
+    - The function is SECURITY DEFINER because the API routes call it with the
+      anon key; it only touches the bucket of the user id it is given
+*/
+
+-- ===== 1. BUCKETS =====
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  hourly_tokens double precision NOT NULL,
+  daily_tokens double precision NOT NULL,
+  refilled_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own rate limit buckets"
+  ON rate_limit_buckets FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage rate limit buckets"
+  ON rate_limit_buckets FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ===== 2. CONSUME FUNCTION =====
+
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_user_id uuid,
+  p_cost integer DEFAULT 1
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_hourly_limit integer;
+  v_daily_limit integer;
+  v_hourly_rate double precision;
+  v_daily_rate double precision;
+  v_bucket rate_limit_buckets%ROWTYPE;
+  v_now timestamptz;
+  v_elapsed double precision;
+  v_hourly double precision;
+  v_daily double precision;
+  v_allowed boolean;
+  v_limited_by text;
+  v_retry_after double precision := 0;
+BEGIN
+  IF p_cost < 0 THEN
+    RAISE EXCEPTION 'Rate limit cost must not be negative';
+  END IF;
+
+  SELECT t.api_calls_per_hour, t.api_calls_per_day
+  INTO v_hourly_limit, v_daily_limit
+  FROM user_subscriptions s
+  JOIN subscription_tiers t ON t.id = s.subscription_tier_id
+  WHERE s.user_id = p_user_id
+    AND s.status = 'active'
+  LIMIT 1;
+
+  IF v_hourly_limit IS NULL THEN
+    SELECT api_calls_per_hour, api_calls_per_day
+    INTO v_hourly_limit, v_daily_limit
+    FROM subscription_tiers
+    WHERE tier_name = 'free';
+  END IF;
+
+  IF v_hourly_limit IS NULL OR v_hourly_limit <= 0 OR v_daily_limit <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'error', 'no_tier');
+  END IF;
+
+  v_hourly_rate := v_hourly_limit / 3600.0;
+  v_daily_rate := v_daily_limit / 86400.0;
+
+  -- New users start with full buckets; a concurrent first request waits on
+  -- the insert and then falls through to the locked read below
+  INSERT INTO rate_limit_buckets (user_id, hourly_tokens, daily_tokens, refilled_at)
+  VALUES (p_user_id, v_hourly_limit, v_daily_limit, clock_timestamp())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_bucket
+  FROM rate_limit_buckets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Read the clock after taking the lock: now() is the transaction start, which
+  -- can precede the refilled_at written by a request this one waited on
+  v_now := clock_timestamp();
+  v_elapsed := GREATEST(EXTRACT(EPOCH FROM (v_now - v_bucket.refilled_at)), 0);
+  v_hourly := LEAST(v_hourly_limit, v_bucket.hourly_tokens + v_elapsed * v_hourly_rate);
+  v_daily := LEAST(v_daily_limit, v_bucket.daily_tokens + v_elapsed * v_daily_rate);
+
+  v_allowed := v_hourly >= p_cost AND v_daily >= p_cost;
+
+  IF v_allowed THEN
+    v_hourly := v_hourly - p_cost;
+    v_daily := v_daily - p_cost;
+  ELSE
+    IF v_hourly < p_cost THEN
+      v_limited_by := 'hourly';
+      v_retry_after := (p_cost - v_hourly) / v_hourly_rate;
+    END IF;
+    IF v_daily < p_cost AND (p_cost - v_daily) / v_daily_rate > v_retry_after THEN
+      v_limited_by := 'daily';
+      v_retry_after := (p_cost - v_daily) / v_daily_rate;
+    END IF;
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET hourly_tokens = v_hourly,
+      daily_tokens = v_daily,
+      refilled_at = v_now,
+      updated_at = v_now
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'limited_by', v_limited_by,
+    'hourly_limit', v_hourly_limit,
+    'daily_limit', v_daily_limit,
+    'hourly_remaining', floor(v_hourly)::integer,
+    'daily_remaining', floor(v_daily)::integer,
+    'retry_after_seconds', ceil(v_retry_after)::integer,
+    -- When the hourly bucket will be full again if no more requests arrive
+    'reset_at', v_now + make_interval(secs => (v_hourly_limit - v_hourly) / v_hourly_rate)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION consume_rate_limit(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(uuid, integer) TO anon, authenticated, service_role;
+
+-- ===== 3. RETIRE THE HOURLY TRACKER =====
+
+DROP TABLE IF EXISTS rate_limit_tracker;
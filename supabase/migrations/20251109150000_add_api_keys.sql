@@ -0,0 +1,98 @@
+/*
+  # Personal API Keys
+
+  1. New Tables
+    - `api_keys`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text) - Label chosen by the user, e.g. "CI"
+      - `key_prefix` (text) - First characters of the key, shown in the dashboard
+      - `key_hash` (text) - SHA-256 hex digest of the full key; the key itself is never stored
+      - `scopes` (text[]) - trends:read, search:read, saved_searches:manage
+      - `expires_at` (timestamptz) - Null for keys that do not expire
+      - `last_used_at` (timestamptz)
+      - `revoked_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `api_usage_logs`
+      - `api_key_id` (uuid) - Key that made the call; null for session logins
+
+  3. New Functions
+    - `authenticate_api_key(p_key_hash)` - Resolves an unrevoked, unexpired
+      key to its owner and scopes and stamps `last_used_at`
+
+  4. Security
+    - Users create, list and revoke their own keys through RLS
+    - `authenticate_api_key` is SECURITY DEFINER so the API routes can verify
+      keys with the anon key; it only answers for a caller holding the key
+*/
+
+-- ===== 1. API KEYS =====
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scopes text[] NOT NULL DEFAULT ARRAY['trends:read', 'search:read'],
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_scopes CHECK (
+    scopes <@ ARRAY['trends:read', 'search:read', 'saved_searches:manage']
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+  ON api_keys FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own API keys"
+  ON api_keys FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND revoked_at IS NULL);
+
+CREATE POLICY "Users can revoke their own API keys"
+  ON api_keys FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage API keys"
+  ON api_keys FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ===== 2. USAGE ATTRIBUTION =====
+
+ALTER TABLE api_usage_logs
+  ADD COLUMN IF NOT EXISTS api_key_id uuid REFERENCES api_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_api_key
+  ON api_usage_logs(api_key_id, created_at DESC)
+  WHERE api_key_id IS NOT NULL;
+
+-- ===== 3. KEY VERIFICATION =====
+
+CREATE OR REPLACE FUNCTION authenticate_api_key(p_key_hash text)
+RETURNS TABLE (key_id uuid, user_id uuid, scopes text[]) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE api_keys k
+  SET last_used_at = now()
+  WHERE k.key_hash = p_key_hash
+    AND k.revoked_at IS NULL
+    AND (k.expires_at IS NULL OR k.expires_at > now())
+  RETURNING k.id, k.user_id, k.scopes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authenticate_api_key(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_api_key(text) TO anon, authenticated, service_role;
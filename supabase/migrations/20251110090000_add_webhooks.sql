@@ -0,0 +1,161 @@
+/*
+  # Outbound Webhooks
+
+  1. New Tables
+    - `webhook_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text) - Label chosen by the user, e.g. "Team chat"
+      - `url` (text) - Endpoint that receives `POST`ed events
+      - `secret` (text) - HMAC-SHA256 key used to sign each payload
+      - `event_types` (text[]) - trend.created, repo.created, knowledge.created
+      - `filters` (jsonb) - Optional SearchFilters predicate an item must match
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `webhook_deliveries`
+      - `id` (uuid, primary key) - Also sent as the `X-Webhook-Id` header
+      - `subscription_id` (uuid, foreign key to webhook_subscriptions)
+      - `event_type` (text)
+      - `payload` (jsonb) - Exact event body, re-sent unchanged on retries
+      - `status` (text) - pending, delivering, succeeded or failed
+      - `attempt_count` (integer)
+      - `next_attempt_at` (timestamptz) - When a pending delivery is due
+      - `last_status_code` (integer), `last_error` (text)
+      - `delivered_at`, `created_at` (timestamptz)
+
+  2. New Functions
+    - `claim_webhook_deliveries(p_limit)` - Atomically leases due deliveries
+      to one worker and counts the attempt. A worker that dies mid-delivery
+      leaves a `delivering` row that becomes due again once the lease expires.
+
+  3. Security
+    - Users manage their own subscriptions and read their delivery log
+      through RLS
+    - Deliveries are written only by the service role
+*/
+
+-- ===== 1. SUBSCRIPTIONS =====
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  url text NOT NULL,
+  secret text NOT NULL,
+  event_types text[] NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_event_types CHECK (
+    cardinality(event_types) > 0
+    AND event_types <@ ARRAY['trend.created', 'repo.created', 'knowledge.created']
+  ),
+  CONSTRAINT valid_url CHECK (url ~ '^https?://')
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user
+  ON webhook_subscriptions(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_events
+  ON webhook_subscriptions USING gin(event_types)
+  WHERE is_active = true;
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhooks"
+  ON webhook_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own webhooks"
+  ON webhook_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhooks"
+  ON webhook_subscriptions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhooks"
+  ON webhook_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage webhooks"
+  ON webhook_subscriptions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ===== 2. DELIVERY LOG =====
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempt_count integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_status_code integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_delivery_status CHECK (
+    status IN ('pending', 'delivering', 'succeeded', 'failed')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+  ON webhook_deliveries(subscription_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'delivering');
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view deliveries of their webhooks"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM webhook_subscriptions s
+      WHERE s.id = webhook_deliveries.subscription_id
+        AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage webhook deliveries"
+  ON webhook_deliveries FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ===== 3. DELIVERY QUEUE =====
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit integer DEFAULT 50,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'delivering',
+      attempt_count = d.attempt_count + 1,
+      next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE d.id IN (
+    SELECT q.id
+    FROM webhook_deliveries q
+    WHERE q.status IN ('pending', 'delivering')
+      AND q.next_attempt_at <= now()
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_webhook_deliveries(integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(integer, integer) TO service_role;
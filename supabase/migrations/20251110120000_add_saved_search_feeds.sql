@@ -0,0 +1,49 @@
+/*
+  # Saved Search Feeds
+
+  1. Modified Tables
+    - `saved_searches`
+      - `feed_token` (text, unique) - Secret in the saved search's feed URL,
+        `/feeds/saved-searches/<feed_token>.atom`; feed readers cannot send
+        an Authorization header, so the URL itself is the credential
+
+  2. New Functions
+    - `get_saved_search_feed(p_token)` - Resolves a feed token to its active
+      saved search
+
+  3. Security
+    - `get_saved_search_feed` is SECURITY DEFINER so the feed route can look
+      up a search with the anon key; it only answers for a caller holding
+      the token and returns no owner details
+*/
+
+-- ===== 1. FEED TOKENS =====
+
+ALTER TABLE saved_searches
+  ADD COLUMN IF NOT EXISTS feed_token text NOT NULL
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_searches_feed_token
+  ON saved_searches(feed_token);
+
+-- ===== 2. FEED LOOKUP =====
+
+CREATE OR REPLACE FUNCTION get_saved_search_feed(p_token text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  search_query text,
+  filters jsonb,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.id, s.name, s.search_query, s.filters, s.updated_at
+  FROM saved_searches s
+  WHERE s.feed_token = p_token
+    AND s.is_active = true;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_saved_search_feed(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_saved_search_feed(text) TO anon, authenticated, service_role;
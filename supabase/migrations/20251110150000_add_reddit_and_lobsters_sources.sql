@@ -0,0 +1,22 @@
+/*
+  # Reddit and Lobsters Sources
+
+  1. Data
+    - `reddit_api` - Hot posts of the subreddits in `metadata.subreddits`
+      (up to `metadata.limit`, default 25), in its own `reddit` group
+    - `lobsters_api` - Lobsters hottest stories, in its own `lobsters` group
+
+  2. Notes
+    - Both store into `x_trends` like HackerNews, with the post score as
+      `tweet_count`
+    - Each is a group of its own rather than a fallback in the `trends`
+      chain, so the update orchestrator fetches them on every due run
+      instead of only when X and HackerNews fail
+    - `source_type` is limited to 'api', 'fallback' and 'public'; both are
+      keyless public APIs
+*/
+
+INSERT INTO data_sources (source_name, source_type, requires_token, priority, source_group, metadata) VALUES
+  ('reddit_api', 'public', false, 50, 'reddit', '{"endpoint": "https://www.reddit.com/r/{subreddits}/hot.json", "description": "Reddit hot posts", "subreddits": ["programming", "technology", "MachineLearning"], "limit": 25}'::jsonb),
+  ('lobsters_api', 'public', false, 60, 'lobsters', '{"endpoint": "https://lobste.rs/hottest.json", "description": "Lobsters hottest stories", "limit": 25}'::jsonb)
+ON CONFLICT (source_name) DO NOTHING;
@@ -0,0 +1,864 @@
+/*
+  # Package Registry Download Trends
+
+  1. New Tables
+    - `packages` - One row per package, keyed by unique (`registry`, `name`)
+      - `registry` (text) - 'npm', 'pypi' or 'crates'
+      - `name`, `description`, `latest_version`, `keywords`
+      - `repository_url` (text) - Source repository as published by the registry
+      - `homepage_url` (text), `url` (text) - Registry page
+      - `repo_full_name` (text) - Lowercased `owner/repo` when the repository
+        is on GitHub, set by trigger
+      - `repo_id` (uuid) - Linked `github_repos` row, if that repository is tracked
+      - `weekly_downloads` (bigint) - Downloads over the last 7 days
+      - `total_downloads` (bigint) - All-time downloads, where the registry reports them
+      - `is_tracked` (boolean) - Listed in the source's `metadata.packages`
+        rather than discovered
+      - `first_seen_at`, `fetched_at` ("last fetched"), `created_at`
+      - `search_vector`, `embedding`, `embedding_model`, `embedded_at`
+    - `package_download_snapshots`
+      - `package_id` (uuid) - References packages, cascades on delete
+      - `weekly_downloads`, `total_downloads`, `latest_version`
+      - `fetched_at` (timestamptz) - When the snapshot was taken
+
+  2. New Views
+    - `package_download_velocity` - Change in weekly downloads between each
+      package's latest snapshot and its oldest snapshot in the preceding 7
+      days, per hour and as a percentage of the baseline
+
+  3. Triggers
+    - Inserting or re-fetching a package records a snapshot
+    - `repo_full_name` and `repo_id` are derived from `repository_url`; new
+      `github_repos` rows link the packages that point at them
+    - Search vector (A: name, B: description, C: keywords and registry) and
+      stale embedding clearing as for the other searchable tables
+
+  4. Modified Functions
+    - `unified_search` - `packages` source returning `package` items, whose
+      engagement is weekly downloads and language is the linked repository's,
+      else the registry's (JavaScript, Python, Rust). New `p_registries`
+      filter; when set, only packages match. New `registries` facet.
+    - `calculate_trending_scores` - Scores packages from download growth
+    - `search_lexicon` - Includes package names, descriptions and keywords
+
+  5. Data
+    - `npm_registry`, `pypi_registry` and `crates_registry` sources, each in
+      its own group. `metadata.packages` lists the tracked packages;
+      `metadata.discover` adds popular packages with at least
+      `metadata.min_weekly_downloads` downloads, up to `metadata.max_discovered`
+
+  6. Security
+    - Public read on `packages`, `package_download_snapshots` and
+      `package_download_velocity`; writes restricted to the service role
+*/
+
+-- ===== 1. PACKAGES AND SNAPSHOTS =====
+
+CREATE TABLE IF NOT EXISTS packages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  registry text NOT NULL CHECK (registry IN ('npm', 'pypi', 'crates')),
+  name text NOT NULL,
+  description text,
+  latest_version text,
+  keywords text[] DEFAULT '{}',
+  repository_url text,
+  homepage_url text,
+  url text NOT NULL,
+  repo_full_name text,
+  repo_id uuid REFERENCES github_repos(id) ON DELETE SET NULL,
+  weekly_downloads bigint NOT NULL DEFAULT 0,
+  total_downloads bigint,
+  is_tracked boolean NOT NULL DEFAULT false,
+  first_seen_at timestamptz DEFAULT now(),
+  fetched_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  search_vector tsvector,
+  embedding vector(384),
+  embedding_model text,
+  embedded_at timestamptz,
+  UNIQUE (registry, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_packages_weekly_downloads ON packages(weekly_downloads DESC);
+CREATE INDEX IF NOT EXISTS idx_packages_fetched_at ON packages(fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_packages_repo_full_name ON packages(repo_full_name);
+CREATE INDEX IF NOT EXISTS idx_packages_repo_id ON packages(repo_id);
+CREATE INDEX IF NOT EXISTS idx_packages_search_vector ON packages USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_packages_name_trgm ON packages USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_packages_embedding
+  ON packages USING hnsw (embedding vector_cosine_ops);
+
+CREATE TABLE IF NOT EXISTS package_download_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id uuid NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  weekly_downloads bigint NOT NULL DEFAULT 0,
+  total_downloads bigint,
+  latest_version text,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_download_snapshots_package_fetched
+  ON package_download_snapshots(package_id, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_package_download_snapshots_fetched_at
+  ON package_download_snapshots(fetched_at DESC);
+
+-- ===== 2. SNAPSHOT TRIGGER =====
+
+CREATE OR REPLACE FUNCTION packages_record_snapshot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.fetched_at IS NOT DISTINCT FROM OLD.fetched_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO package_download_snapshots (package_id, weekly_downloads, total_downloads, latest_version, fetched_at)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.weekly_downloads, 0),
+    NEW.total_downloads,
+    NEW.latest_version,
+    COALESCE(NEW.fetched_at, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS packages_snapshot_trigger ON packages;
+CREATE TRIGGER packages_snapshot_trigger
+  AFTER INSERT OR UPDATE ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION packages_record_snapshot();
+
+-- ===== 3. REPOSITORY LINKS =====
+
+-- `owner/repo` of a GitHub URL in any of the forms registries publish:
+-- https://github.com/o/r, git+https://github.com/o/r.git, git@github.com:o/r, ...
+CREATE OR REPLACE FUNCTION github_repo_full_name(p_url text)
+RETURNS text AS $$
+  SELECT lower(array_to_string(
+    (regexp_match(
+      COALESCE(p_url, ''),
+      'github\.com[/:]([A-Za-z0-9_.-]+)/([A-Za-z0-9_.-]+?)(?:\.git)?(?:[/#?].*)?$'
+    ))[1:2],
+    '/'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION packages_link_repo()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.repository_url IS DISTINCT FROM OLD.repository_url
+    OR NEW.repo_id IS NULL
+  THEN
+    NEW.repo_full_name := github_repo_full_name(NEW.repository_url);
+    NEW.repo_id := (
+      SELECT r.id FROM github_repos r
+      WHERE NEW.repo_full_name IS NOT NULL AND lower(r.repo_name) = NEW.repo_full_name
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS packages_link_repo_trigger ON packages;
+CREATE TRIGGER packages_link_repo_trigger
+  BEFORE INSERT OR UPDATE ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION packages_link_repo();
+
+-- Packages are often fetched before their repository starts trending
+CREATE OR REPLACE FUNCTION github_repos_link_packages()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE packages
+  SET repo_id = NEW.id
+  WHERE repo_id IS NULL
+    AND repo_full_name = lower(NEW.repo_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS github_repos_link_packages_trigger ON github_repos;
+CREATE TRIGGER github_repos_link_packages_trigger
+  AFTER INSERT ON github_repos
+  FOR EACH ROW
+  EXECUTE FUNCTION github_repos_link_packages();
+
+-- ===== 4. SEARCH VECTOR AND EMBEDDINGS =====
+
+CREATE OR REPLACE FUNCTION packages_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.keywords, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.registry, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS packages_search_vector_trigger ON packages;
+CREATE TRIGGER packages_search_vector_trigger
+  BEFORE INSERT OR UPDATE ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION packages_search_vector_update();
+
+CREATE OR REPLACE FUNCTION clear_stale_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_TABLE_NAME = 'x_trends' AND (
+      NEW.trend_name IS DISTINCT FROM OLD.trend_name OR
+      NEW.category IS DISTINCT FROM OLD.category))
+    OR (TG_TABLE_NAME = 'github_repos' AND (
+      NEW.repo_name IS DISTINCT FROM OLD.repo_name OR
+      NEW.description IS DISTINCT FROM OLD.description OR
+      NEW.language IS DISTINCT FROM OLD.language OR
+      NEW.topics IS DISTINCT FROM OLD.topics))
+    OR (TG_TABLE_NAME = 'knowledge_entries' AND (
+      NEW.title IS DISTINCT FROM OLD.title OR
+      NEW.content IS DISTINCT FROM OLD.content OR
+      NEW.tags IS DISTINCT FROM OLD.tags))
+    OR (TG_TABLE_NAME = 'packages' AND (
+      NEW.name IS DISTINCT FROM OLD.name OR
+      NEW.description IS DISTINCT FROM OLD.description OR
+      NEW.keywords IS DISTINCT FROM OLD.keywords))
+  THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+    NEW.embedded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS packages_clear_stale_embedding ON packages;
+CREATE TRIGGER packages_clear_stale_embedding
+  BEFORE UPDATE ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_embedding();
+
+-- ===== 5. DOWNLOAD VELOCITY VIEW =====
+
+CREATE OR REPLACE VIEW package_download_velocity AS
+WITH latest AS (
+  SELECT DISTINCT ON (package_id) package_id, weekly_downloads, fetched_at
+  FROM package_download_snapshots
+  ORDER BY package_id, fetched_at DESC
+),
+baseline AS (
+  SELECT DISTINCT ON (s.package_id) s.package_id, s.weekly_downloads, s.fetched_at
+  FROM package_download_snapshots s
+  JOIN latest l ON l.package_id = s.package_id
+  WHERE s.fetched_at < l.fetched_at
+    AND s.fetched_at >= l.fetched_at - INTERVAL '7 days'
+  ORDER BY s.package_id, s.fetched_at ASC
+)
+SELECT
+  l.package_id,
+  l.weekly_downloads AS current_weekly_downloads,
+  COALESCE(b.weekly_downloads, l.weekly_downloads) AS baseline_weekly_downloads,
+  l.weekly_downloads - COALESCE(b.weekly_downloads, l.weekly_downloads) AS download_delta,
+  COALESCE(EXTRACT(EPOCH FROM (l.fetched_at - b.fetched_at)) / 3600.0, 0) AS window_hours,
+  CASE
+    WHEN b.package_id IS NULL THEN 0
+    ELSE (l.weekly_downloads - b.weekly_downloads) / GREATEST(EXTRACT(EPOCH FROM (l.fetched_at - b.fetched_at)) / 3600.0, 1)
+  END AS downloads_delta_per_hour,
+  CASE
+    WHEN b.package_id IS NULL OR b.weekly_downloads = 0 THEN 0
+    ELSE (l.weekly_downloads - b.weekly_downloads) * 100.0 / b.weekly_downloads
+  END AS growth_pct,
+  l.fetched_at AS latest_fetched_at
+FROM latest l
+LEFT JOIN baseline b ON b.package_id = l.package_id;
+
+GRANT SELECT ON package_download_velocity TO anon, authenticated;
+
+-- ===== 6. ITEM TYPE CONSTRAINTS =====
+
+ALTER TABLE trending_scores DROP CONSTRAINT IF EXISTS trending_scores_item_type_check;
+ALTER TABLE trending_scores ADD CONSTRAINT trending_scores_item_type_check
+  CHECK (item_type IN ('x_trend', 'github_repo', 'knowledge_entry', 'package'));
+
+ALTER TABLE saved_search_results DROP CONSTRAINT IF EXISTS saved_search_results_item_type_check;
+ALTER TABLE saved_search_results ADD CONSTRAINT saved_search_results_item_type_check
+  CHECK (item_type IN ('x_trend', 'github_repo', 'knowledge_entry', 'package'));
+
+-- ===== 7. TRENDING SCORES =====
+
+CREATE OR REPLACE FUNCTION calculate_trending_scores()
+RETURNS void AS $$
+BEGIN
+  -- Calculate scores for X trends; velocity is the volume slope over the last 24 hours
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT
+    'x_trend',
+    t.id,
+    (
+      (t.tweet_count / 10000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - t.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.volume_per_hour, 0) * 0.3
+    ) * 100 as trending_score,
+    COALESCE(v.volume_per_hour, 0) as velocity_score,
+    t.tweet_count::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - t.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'category', t.category,
+      'url', t.url,
+      'source', t.source,
+      'rank', t.rank,
+      'first_seen_at', t.first_seen_at
+    ) as metadata
+  FROM x_trends t
+  LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+  WHERE t.fetched_at > NOW() - INTERVAL '7 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+
+  -- Calculate scores for GitHub repos; velocity is stars gained per hour between snapshots
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT
+    'github_repo',
+    r.id,
+    (
+      (r.stars / 1000.0) * 0.4 +
+      (EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.stars_per_hour, 0) * 0.3
+    ) * 100 as trending_score,
+    COALESCE(v.stars_per_hour, 0) as velocity_score,
+    r.stars::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - r.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'language', r.language,
+      'topics', r.topics,
+      'url', r.url,
+      'star_delta', COALESCE(v.star_delta, 0),
+      'window_hours', COALESCE(v.window_hours, 0)
+    ) as metadata
+  FROM github_repos r
+  LEFT JOIN repo_star_velocity v ON v.repo_id = r.id
+  WHERE r.fetched_at > NOW() - INTERVAL '30 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+
+  -- Calculate scores for packages; growth in weekly downloads drives the score,
+  -- since raw download counts mostly reward old, ubiquitous dependencies
+  INSERT INTO trending_scores (item_type, item_id, trending_score, velocity_score, engagement_score, recency_score, metadata)
+  SELECT
+    'package',
+    p.id,
+    (
+      (p.weekly_downloads / 100000.0) * 0.2 +
+      (EXTRACT(EPOCH FROM (NOW() - p.fetched_at)) / 3600.0) * -0.3 + 50 * 0.3 +
+      COALESCE(v.growth_pct, 0) * 0.5
+    ) * 100 as trending_score,
+    COALESCE(v.downloads_delta_per_hour, 0) as velocity_score,
+    p.weekly_downloads::numeric as engagement_score,
+    100 - LEAST(EXTRACT(EPOCH FROM (NOW() - p.fetched_at)) / 3600.0, 100) as recency_score,
+    jsonb_build_object(
+      'registry', p.registry,
+      'keywords', p.keywords,
+      'url', p.url,
+      'repo_id', p.repo_id,
+      'download_delta', COALESCE(v.download_delta, 0),
+      'growth_pct', COALESCE(v.growth_pct, 0),
+      'window_hours', COALESCE(v.window_hours, 0)
+    ) as metadata
+  FROM packages p
+  LEFT JOIN package_download_velocity v ON v.package_id = p.id
+  WHERE p.fetched_at > NOW() - INTERVAL '30 days'
+  ON CONFLICT (item_type, item_id) DO UPDATE SET
+    trending_score = EXCLUDED.trending_score,
+    velocity_score = EXCLUDED.velocity_score,
+    engagement_score = EXCLUDED.engagement_score,
+    recency_score = EXCLUDED.recency_score,
+    calculated_at = NOW(),
+    metadata = EXCLUDED.metadata;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===== 8. SEARCH LEXICON =====
+
+DROP MATERIALIZED VIEW IF EXISTS search_lexicon;
+
+CREATE MATERIALIZED VIEW search_lexicon AS
+SELECT word, COUNT(*) AS frequency
+FROM (
+  SELECT regexp_split_to_table(lower(trend_name), '[^[:alnum:]]+') AS word
+  FROM x_trends
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(
+      repo_name || ' ' || COALESCE(description, '') || ' ' ||
+      array_to_string(topics, ' ') || ' ' || COALESCE(language, '')
+    ),
+    '[^[:alnum:]]+'
+  )
+  FROM github_repos
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(lower(title || ' ' || array_to_string(tags, ' ')), '[^[:alnum:]]+')
+  FROM knowledge_entries
+  WHERE verified = true
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(name || ' ' || COALESCE(description, '') || ' ' || array_to_string(keywords, ' ')),
+    '[^[:alnum:]]+'
+  )
+  FROM packages
+) words
+WHERE length(word) >= 3
+GROUP BY word;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_lexicon_word ON search_lexicon(word);
+CREATE INDEX IF NOT EXISTS idx_search_lexicon_word_trgm ON search_lexicon USING gin(word gin_trgm_ops);
+
+GRANT SELECT ON search_lexicon TO anon, authenticated;
+
+-- ===== 9. UNIFIED SEARCH WITH PACKAGES =====
+
+-- The signature changes, so drop the old overload rather than adding a second one
+DROP FUNCTION IF EXISTS unified_search(
+  text, text[], text[], text[], text[], timestamptz, timestamptz, integer, text, integer, jsonb, integer, text, vector
+);
+
+CREATE OR REPLACE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0,
+  p_mode text DEFAULT 'keyword',
+  p_query_embedding vector DEFAULT NULL,
+  p_registries text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_keyword boolean := COALESCE(p_mode, 'keyword') <> 'semantic';
+  v_semantic boolean := COALESCE(p_mode, 'keyword') IN ('semantic', 'hybrid') AND p_query_embedding IS NOT NULL;
+  v_min_similarity double precision := 0.2;
+  v_fuzzy_query tsquery;
+  v_correction text;
+  v_strict_hits integer := 0;
+  -- Private-use characters mark matches; the API turns them into offsets
+  v_title_options text := format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345));
+  v_body_options text := format(
+    'StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "',
+    chr(57344),
+    chr(57345)
+  );
+  v_result jsonb;
+BEGIN
+  -- Only packages have a registry
+  IF p_registries IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'packages');
+  END IF;
+
+  -- Fall back to corrected prefix matching when full-text search finds few
+  -- hits. Only the text is considered: a typo is a typo whatever the filters.
+  IF v_query IS NOT NULL AND v_keyword THEN
+    SELECT COUNT(*) INTO v_strict_hits
+    FROM (
+      (SELECT 1 FROM x_trends WHERE 'x_trends' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM github_repos WHERE 'github_repos' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM knowledge_entries
+        WHERE 'knowledge_entries' = ANY(v_sources) AND verified = true AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM packages WHERE 'packages' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+    ) hits;
+
+    IF v_strict_hits < 5 THEN
+      v_correction := suggest_search_correction(p_query);
+      v_fuzzy_query := search_prefix_tsquery(COALESCE(v_correction, p_query));
+    END IF;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      NULL::text AS registry,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      t.trend_name AS title_text,
+      NULL::text AS body_text,
+      CASE WHEN v_semantic THEN 1 - (t.embedding <=> p_query_embedding) END AS semantic_similarity,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' - 'embedding' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (t.search_vector @@ v_query OR t.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (t.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      NULL,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      r.repo_name,
+      r.description,
+      CASE WHEN v_semantic THEN 1 - (r.embedding <=> p_query_embedding) END,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (r.search_vector @@ v_query OR r.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (r.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      k.title,
+      k.content,
+      CASE WHEN v_semantic THEN 1 - (k.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(k) - 'search_vector' - 'embedding'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (k.search_vector @@ v_query OR k.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (k.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+
+    UNION ALL
+
+    SELECT
+      'package',
+      p.id,
+      'technology',
+      p.keywords,
+      pl.language,
+      p.registry,
+      p.weekly_downloads,
+      p.fetched_at,
+      p.search_vector,
+      p.name,
+      p.description,
+      CASE WHEN v_semantic THEN 1 - (p.embedding <=> p_query_embedding) END,
+      pv.downloads_delta_per_hour,
+      (to_jsonb(p) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'language', pl.language,
+        'repo_name', pr.repo_name,
+        'repo_stars', pr.stars,
+        'download_delta', COALESCE(pv.download_delta, 0),
+        'growth_pct', COALESCE(pv.growth_pct, 0),
+        'download_window_hours', COALESCE(pv.window_hours, 0)
+      )
+    FROM packages p
+    LEFT JOIN github_repos pr ON pr.id = p.repo_id
+    LEFT JOIN package_download_velocity pv ON pv.package_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(NULLIF(pr.language, 'Unknown'), CASE p.registry
+        WHEN 'npm' THEN 'JavaScript'
+        WHEN 'pypi' THEN 'Python'
+        WHEN 'crates' THEN 'Rust'
+      END) AS language
+    ) pl
+    WHERE 'packages' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (p.search_vector @@ v_query OR p.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (p.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_registries IS NULL OR p.registry = ANY(p_registries))
+      AND (p_languages IS NULL OR pl.language = ANY(p_languages))
+      AND (p_tags IS NULL OR p.keywords && p_tags)
+      AND (p_date_from IS NULL OR p.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR p.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR p.weekly_downloads >= p_min_engagement)
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      COALESCE(v_keyword AND m.search_vector @@ v_query, false) AS text_match,
+      COALESCE(v_keyword AND NOT (m.search_vector @@ v_query) AND m.search_vector @@ v_fuzzy_query, false) AS fuzzy
+    FROM matches m
+  ),
+  ranked AS (
+    SELECT
+      f.*,
+      CASE
+        WHEN f.text_match THEN ts_rank_cd(f.search_vector, v_query, 32)
+        WHEN f.fuzzy THEN ts_rank_cd(f.search_vector, v_fuzzy_query, 32)
+        ELSE 0
+      END::double precision AS text_rank
+    FROM flagged f
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  text_scored AS (
+    SELECT
+      s.*,
+      -- Fuzzy matches score at half weight so exact hits stay ahead of them
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END
+        * CASE WHEN s.fuzzy THEN 0.5 ELSE 1 END AS text_score
+    FROM scored s
+  ),
+  relevant AS (
+    SELECT
+      s.*,
+      CASE
+        WHEN NOT v_semantic THEN s.text_score
+        WHEN NOT v_keyword THEN GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+        -- Hybrid: equal blend of normalized text rank and cosine similarity
+        ELSE 0.5 * s.text_score + 0.5 * GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+      END AS relevance_score
+    FROM text_scored s
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          ELSE s.relevance_score
+        END
+      END, 0) AS sort_key
+    FROM relevant s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'did_you_mean', v_correction,
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'fuzzy', p.fuzzy,
+          'semantic_similarity', p.semantic_similarity,
+          'snippets', CASE WHEN v_query IS NULL THEN NULL ELSE jsonb_build_object(
+            'title', ts_headline(
+              'english',
+              p.title_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_title_options
+            ),
+            'body', CASE WHEN p.body_text IS NULL THEN NULL ELSE ts_headline(
+              'english',
+              p.body_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_body_options
+            ) END
+          ) END,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"])
+              @@ CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END
+          )) END,
+          'record', p.record
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb),
+      'registries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT registry AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE registry IS NOT NULL
+          GROUP BY registry
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===== 10. DATA SOURCES =====
+
+INSERT INTO data_sources (source_name, source_type, requires_token, priority, source_group, metadata) VALUES
+  ('npm_registry', 'public', false, 70, 'npm', '{"endpoint": "https://api.npmjs.org/downloads/point/last-week/{package}", "description": "npm weekly downloads", "packages": ["react", "next", "typescript", "@supabase/supabase-js"], "discover": true, "discover_query": "keywords:framework", "max_discovered": 10, "min_weekly_downloads": 10000}'::jsonb),
+  ('pypi_registry', 'public', false, 71, 'pypi', '{"endpoint": "https://pypistats.org/api/packages/{package}/recent", "description": "PyPI weekly downloads", "packages": ["fastapi", "pydantic", "torch"], "discover": true, "max_discovered": 10, "min_weekly_downloads": 10000}'::jsonb),
+  ('crates_registry', 'public', false, 72, 'crates', '{"endpoint": "https://crates.io/api/v1/crates/{package}", "description": "crates.io weekly downloads", "packages": ["tokio", "serde", "axum"], "discover": true, "max_discovered": 10, "min_weekly_downloads": 10000}'::jsonb)
+ON CONFLICT (source_name) DO NOTHING;
+
+-- ===== 11. ROW LEVEL SECURITY =====
+
+ALTER TABLE packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE package_download_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view packages"
+  ON packages FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage packages"
+  ON packages FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can view package_download_snapshots"
+  ON package_download_snapshots FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage package_download_snapshots"
+  ON package_download_snapshots FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,704 @@
+/*
+  # Generic RSS, Atom and JSON Feed Sources
+
+  1. New Tables
+    - `feed_items` - One row per item of an admin-registered feed
+      - `source_name` (text) - The feed's `data_sources.source_name`
+      - `guid` (text) - The item's GUID or Atom/JSON Feed id; its link, or
+        title and date, when the feed gives neither. Unique per feed
+      - `feed_title` (text) - `metadata.title` of the source, else the feed's own
+      - `title`, `url`, `summary` (plain text, HTML removed), `author`
+      - `categories` (text[]) - The item's own categories or tags
+      - `category` (text) - `metadata.category` of the source, default 'tech'
+      - `published_at` (timestamptz) - Null when the feed gives no usable date
+      - `first_seen_at`, `fetched_at` ("last listed by the feed"), `created_at`
+      - `search_vector`, `embedding`, `embedding_model`, `embedded_at`
+
+  2. Modified Tables
+    - `data_sources`
+      - `source_type` accepts 'feed'. Feed rows have no `source_group`: each
+        is fetched on its own rather than as part of a fallback chain
+      - `http_etag`, `http_last_modified` (text) - Validators from the last
+        stored response, sent back as `If-None-Match` / `If-Modified-Since`
+      - `last_fetched_at` (timestamptz) - Last fetch attempt of any outcome,
+        including 304 Not Modified; schedules feeds
+
+  3. Modified Functions
+    - `unified_search` - `feed_items` source returning `feed_item` items.
+      Feeds have no engagement measure, so items score 0 and are dated by
+      `published_at`, falling back to when they were first seen
+    - `search_lexicon` - Includes feed item titles, categories and summaries
+
+  4. Data
+    - Example feeds `feed_github_blog` (RSS) and `feed_rust_blog` (Atom).
+      Register more with an insert like theirs; `metadata.url` is required,
+      `title`, `category`, `max_items` (default 30) and `interval_minutes`
+      (default 60, at least 15) are optional
+
+  5. Security
+    - Public read on `feed_items`; writes restricted to the service role
+*/
+
+-- ===== 1. FEED SOURCES =====
+
+ALTER TABLE data_sources DROP CONSTRAINT IF EXISTS data_sources_source_type_check;
+ALTER TABLE data_sources ADD CONSTRAINT data_sources_source_type_check
+  CHECK (source_type IN ('api', 'fallback', 'public', 'feed'));
+
+ALTER TABLE data_sources
+  ADD COLUMN IF NOT EXISTS http_etag text,
+  ADD COLUMN IF NOT EXISTS http_last_modified text,
+  ADD COLUMN IF NOT EXISTS last_fetched_at timestamptz;
+
+-- ===== 2. FEED ITEMS =====
+
+CREATE TABLE IF NOT EXISTS feed_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_name text NOT NULL REFERENCES data_sources(source_name) ON DELETE CASCADE,
+  guid text NOT NULL,
+  feed_title text NOT NULL,
+  title text NOT NULL,
+  url text,
+  summary text NOT NULL DEFAULT '',
+  author text,
+  categories text[] NOT NULL DEFAULT '{}',
+  category text NOT NULL DEFAULT 'tech',
+  published_at timestamptz,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  fetched_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  search_vector tsvector,
+  embedding vector(384),
+  embedding_model text,
+  embedded_at timestamptz,
+  UNIQUE (guid, source_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_items_source_name ON feed_items(source_name);
+CREATE INDEX IF NOT EXISTS idx_feed_items_published_at ON feed_items(COALESCE(published_at, first_seen_at) DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_items_fetched_at ON feed_items(fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_items_categories ON feed_items USING gin(categories);
+CREATE INDEX IF NOT EXISTS idx_feed_items_search_vector ON feed_items USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_feed_items_title_trgm ON feed_items USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_feed_items_embedding
+  ON feed_items USING hnsw (embedding vector_cosine_ops);
+
+-- ===== 3. SEARCH VECTOR AND EMBEDDINGS =====
+
+CREATE OR REPLACE FUNCTION feed_items_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.summary, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.categories, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.feed_title, '') || ' ' || COALESCE(NEW.author, '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS feed_items_search_vector_trigger ON feed_items;
+CREATE TRIGGER feed_items_search_vector_trigger
+  BEFORE INSERT OR UPDATE ON feed_items
+  FOR EACH ROW
+  EXECUTE FUNCTION feed_items_search_vector_update();
+
+CREATE OR REPLACE FUNCTION clear_stale_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_TABLE_NAME = 'x_trends' AND (
+      NEW.trend_name IS DISTINCT FROM OLD.trend_name OR
+      NEW.category IS DISTINCT FROM OLD.category))
+    OR (TG_TABLE_NAME = 'github_repos' AND (
+      NEW.repo_name IS DISTINCT FROM OLD.repo_name OR
+      NEW.description IS DISTINCT FROM OLD.description OR
+      NEW.language IS DISTINCT FROM OLD.language OR
+      NEW.topics IS DISTINCT FROM OLD.topics))
+    OR (TG_TABLE_NAME = 'knowledge_entries' AND (
+      NEW.title IS DISTINCT FROM OLD.title OR
+      NEW.content IS DISTINCT FROM OLD.content OR
+      NEW.tags IS DISTINCT FROM OLD.tags))
+    OR (TG_TABLE_NAME = 'packages' AND (
+      NEW.name IS DISTINCT FROM OLD.name OR
+      NEW.description IS DISTINCT FROM OLD.description OR
+      NEW.keywords IS DISTINCT FROM OLD.keywords))
+    OR (TG_TABLE_NAME = 'papers' AND (
+      NEW.title IS DISTINCT FROM OLD.title OR
+      NEW.abstract IS DISTINCT FROM OLD.abstract))
+    OR (TG_TABLE_NAME = 'feed_items' AND (
+      NEW.title IS DISTINCT FROM OLD.title OR
+      NEW.summary IS DISTINCT FROM OLD.summary))
+  THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+    NEW.embedded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS feed_items_clear_stale_embedding ON feed_items;
+CREATE TRIGGER feed_items_clear_stale_embedding
+  BEFORE UPDATE ON feed_items
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_embedding();
+
+-- ===== 4. ITEM TYPE CONSTRAINTS =====
+
+ALTER TABLE saved_search_results DROP CONSTRAINT IF EXISTS saved_search_results_item_type_check;
+ALTER TABLE saved_search_results ADD CONSTRAINT saved_search_results_item_type_check
+  CHECK (item_type IN ('x_trend', 'github_repo', 'knowledge_entry', 'package', 'paper', 'feed_item'));
+
+-- ===== 5. UNIFIED SEARCH WITH FEED ITEMS =====
+
+CREATE OR REPLACE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0,
+  p_mode text DEFAULT 'keyword',
+  p_query_embedding vector DEFAULT NULL,
+  p_registries text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_keyword boolean := COALESCE(p_mode, 'keyword') <> 'semantic';
+  v_semantic boolean := COALESCE(p_mode, 'keyword') IN ('semantic', 'hybrid') AND p_query_embedding IS NOT NULL;
+  v_min_similarity double precision := 0.2;
+  v_fuzzy_query tsquery;
+  v_correction text;
+  v_strict_hits integer := 0;
+  -- Private-use characters mark matches; the API turns them into offsets
+  v_title_options text := format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345));
+  v_body_options text := format(
+    'StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "',
+    chr(57344),
+    chr(57345)
+  );
+  v_result jsonb;
+BEGIN
+  -- Only packages have a registry
+  IF p_registries IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'packages');
+  END IF;
+
+  -- Fall back to corrected prefix matching when full-text search finds few
+  -- hits. Only the text is considered: a typo is a typo whatever the filters.
+  IF v_query IS NOT NULL AND v_keyword THEN
+    SELECT COUNT(*) INTO v_strict_hits
+    FROM (
+      (SELECT 1 FROM x_trends WHERE 'x_trends' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM github_repos WHERE 'github_repos' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM knowledge_entries
+        WHERE 'knowledge_entries' = ANY(v_sources) AND verified = true AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM packages WHERE 'packages' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM papers WHERE 'papers' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM feed_items WHERE 'feed_items' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+    ) hits;
+
+    IF v_strict_hits < 5 THEN
+      v_correction := suggest_search_correction(p_query);
+      v_fuzzy_query := search_prefix_tsquery(COALESCE(v_correction, p_query));
+    END IF;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      NULL::text AS registry,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      t.trend_name AS title_text,
+      NULL::text AS body_text,
+      CASE WHEN v_semantic THEN 1 - (t.embedding <=> p_query_embedding) END AS semantic_similarity,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' - 'embedding' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (t.search_vector @@ v_query OR t.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (t.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      NULL,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      r.repo_name,
+      r.description,
+      CASE WHEN v_semantic THEN 1 - (r.embedding <=> p_query_embedding) END,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (r.search_vector @@ v_query OR r.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (r.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      k.title,
+      k.content,
+      CASE WHEN v_semantic THEN 1 - (k.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(k) - 'search_vector' - 'embedding'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (k.search_vector @@ v_query OR k.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (k.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+
+    UNION ALL
+
+    SELECT
+      'package',
+      p.id,
+      'technology',
+      p.keywords,
+      pl.language,
+      p.registry,
+      p.weekly_downloads,
+      p.fetched_at,
+      p.search_vector,
+      p.name,
+      p.description,
+      CASE WHEN v_semantic THEN 1 - (p.embedding <=> p_query_embedding) END,
+      pv.downloads_delta_per_hour,
+      (to_jsonb(p) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'language', pl.language,
+        'repo_name', pr.repo_name,
+        'repo_stars', pr.stars,
+        'download_delta', COALESCE(pv.download_delta, 0),
+        'growth_pct', COALESCE(pv.growth_pct, 0),
+        'download_window_hours', COALESCE(pv.window_hours, 0)
+      )
+    FROM packages p
+    LEFT JOIN github_repos pr ON pr.id = p.repo_id
+    LEFT JOIN package_download_velocity pv ON pv.package_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(NULLIF(pr.language, 'Unknown'), CASE p.registry
+        WHEN 'npm' THEN 'JavaScript'
+        WHEN 'pypi' THEN 'Python'
+        WHEN 'crates' THEN 'Rust'
+      END) AS language
+    ) pl
+    WHERE 'packages' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (p.search_vector @@ v_query OR p.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (p.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_registries IS NULL OR p.registry = ANY(p_registries))
+      AND (p_languages IS NULL OR pl.language = ANY(p_languages))
+      AND (p_tags IS NULL OR p.keywords && p_tags)
+      AND (p_date_from IS NULL OR p.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR p.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR p.weekly_downloads >= p_min_engagement)
+
+    UNION ALL
+
+    -- A paper's engagement is how much attention its code gets: the stars of
+    -- the repositories citing it
+    SELECT
+      'paper',
+      a.id,
+      'research',
+      a.categories,
+      NULL,
+      NULL,
+      COALESCE(ac.stars, 0),
+      a.published_at,
+      a.search_vector,
+      a.title,
+      a.abstract,
+      CASE WHEN v_semantic THEN 1 - (a.embedding <=> p_query_embedding) END,
+      ac.stars_per_hour,
+      (to_jsonb(a) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'repo_stars', COALESCE(ac.stars, 0),
+        'repos', COALESCE(ac.repos, '[]'::jsonb)
+      )
+    FROM papers a
+    LEFT JOIN LATERAL (
+      SELECT
+        SUM(l.stars)::double precision AS stars,
+        SUM(lv.stars_per_hour)::double precision AS stars_per_hour,
+        jsonb_agg(
+          jsonb_build_object('id', l.repo_id, 'repo_name', l.repo_name, 'stars', l.stars, 'url', l.repo_url)
+          ORDER BY l.stars DESC
+        ) AS repos
+      FROM paper_repo_links l
+      LEFT JOIN repo_star_velocity lv ON lv.repo_id = l.repo_id
+      WHERE l.paper_id = a.id
+    ) ac ON true
+    WHERE 'papers' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (a.search_vector @@ v_query OR a.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (a.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR 'research' = ANY(p_categories))
+      AND (p_tags IS NULL OR a.categories && p_tags)
+      AND (p_date_from IS NULL OR a.published_at >= p_date_from)
+      AND (p_date_to IS NULL OR a.published_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR COALESCE(ac.stars, 0) >= p_min_engagement)
+
+    UNION ALL
+
+    -- Feeds carry no engagement signal, so their items rank on text and
+    -- recency alone and drop out of any minimum-engagement filter
+    SELECT
+      'feed_item',
+      fi.id,
+      fi.category,
+      fi.categories,
+      NULL,
+      NULL,
+      0,
+      COALESCE(fi.published_at, fi.first_seen_at),
+      fi.search_vector,
+      fi.title,
+      fi.summary,
+      CASE WHEN v_semantic THEN 1 - (fi.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(fi) - 'search_vector' - 'embedding'
+    FROM feed_items fi
+    WHERE 'feed_items' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (fi.search_vector @@ v_query OR fi.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (fi.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR fi.category = ANY(p_categories))
+      AND (p_tags IS NULL OR fi.categories && p_tags)
+      AND (p_date_from IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) >= p_date_from)
+      AND (p_date_to IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) <= p_date_to)
+      AND (p_min_engagement IS NULL OR p_min_engagement <= 0)
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      COALESCE(v_keyword AND m.search_vector @@ v_query, false) AS text_match,
+      COALESCE(v_keyword AND NOT (m.search_vector @@ v_query) AND m.search_vector @@ v_fuzzy_query, false) AS fuzzy
+    FROM matches m
+  ),
+  ranked AS (
+    SELECT
+      f.*,
+      CASE
+        WHEN f.text_match THEN ts_rank_cd(f.search_vector, v_query, 32)
+        WHEN f.fuzzy THEN ts_rank_cd(f.search_vector, v_fuzzy_query, 32)
+        ELSE 0
+      END::double precision AS text_rank
+    FROM flagged f
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  text_scored AS (
+    SELECT
+      s.*,
+      -- Fuzzy matches score at half weight so exact hits stay ahead of them
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END
+        * CASE WHEN s.fuzzy THEN 0.5 ELSE 1 END AS text_score
+    FROM scored s
+  ),
+  relevant AS (
+    SELECT
+      s.*,
+      CASE
+        WHEN NOT v_semantic THEN s.text_score
+        WHEN NOT v_keyword THEN GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+        -- Hybrid: equal blend of normalized text rank and cosine similarity
+        ELSE 0.5 * s.text_score + 0.5 * GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+      END AS relevance_score
+    FROM text_scored s
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          ELSE s.relevance_score
+        END
+      END, 0) AS sort_key
+    FROM relevant s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'did_you_mean', v_correction,
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'fuzzy', p.fuzzy,
+          'semantic_similarity', p.semantic_similarity,
+          'snippets', CASE WHEN v_query IS NULL THEN NULL ELSE jsonb_build_object(
+            'title', ts_headline(
+              'english',
+              p.title_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_title_options
+            ),
+            'body', CASE WHEN p.body_text IS NULL THEN NULL ELSE ts_headline(
+              'english',
+              p.body_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_body_options
+            ) END
+          ) END,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"])
+              @@ CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END
+          )) END,
+          'record', p.record
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb),
+      'registries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT registry AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE registry IS NOT NULL
+          GROUP BY registry
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===== 6. SEARCH LEXICON =====
+
+DROP MATERIALIZED VIEW IF EXISTS search_lexicon;
+
+CREATE MATERIALIZED VIEW search_lexicon AS
+SELECT word, COUNT(*) AS frequency
+FROM (
+  SELECT regexp_split_to_table(lower(trend_name), '[^[:alnum:]]+') AS word
+  FROM x_trends
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(
+      repo_name || ' ' || COALESCE(description, '') || ' ' ||
+      array_to_string(topics, ' ') || ' ' || COALESCE(language, '')
+    ),
+    '[^[:alnum:]]+'
+  )
+  FROM github_repos
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(lower(title || ' ' || array_to_string(tags, ' ')), '[^[:alnum:]]+')
+  FROM knowledge_entries
+  WHERE verified = true
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(name || ' ' || COALESCE(description, '') || ' ' || array_to_string(keywords, ' ')),
+    '[^[:alnum:]]+'
+  )
+  FROM packages
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(title || ' ' || array_to_string(categories, ' ') || ' ' || abstract),
+    '[^[:alnum:]]+'
+  )
+  FROM papers
+
+  UNION ALL
+
+  SELECT regexp_split_to_table(
+    lower(title || ' ' || array_to_string(categories, ' ') || ' ' || summary),
+    '[^[:alnum:]]+'
+  )
+  FROM feed_items
+) words
+WHERE length(word) >= 3
+GROUP BY word;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_lexicon_word ON search_lexicon(word);
+CREATE INDEX IF NOT EXISTS idx_search_lexicon_word_trgm ON search_lexicon USING gin(word gin_trgm_ops);
+
+GRANT SELECT ON search_lexicon TO anon, authenticated;
+
+-- ===== 7. DATA SOURCES =====
+
+INSERT INTO data_sources (source_name, source_type, requires_token, priority, source_group, metadata) VALUES
+  ('feed_github_blog', 'feed', false, 100, NULL, '{"url": "https://github.blog/feed/", "title": "The GitHub Blog", "category": "tech", "max_items": 30, "interval_minutes": 60}'::jsonb),
+  ('feed_rust_blog', 'feed', false, 100, NULL, '{"url": "https://blog.rust-lang.org/feed.xml", "title": "Rust Blog", "category": "tech", "max_items": 20, "interval_minutes": 180}'::jsonb)
+ON CONFLICT (source_name) DO NOTHING;
+
+-- ===== 8. ROW LEVEL SECURITY =====
+
+ALTER TABLE feed_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view feed items"
+  ON feed_items FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage feed items"
+  ON feed_items FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,23 @@
+/*
+  # Mastodon and Bluesky Sources
+
+  1. Data
+    - `mastodon_trends` - Trending tags, links and statuses of the instance in
+      `metadata.instance` (default mastodon.social). `metadata.kinds` keeps a
+      subset; `metadata.limit` caps each kind (default 10, at most 20). In its
+      own `mastodon` group
+    - `bluesky_feeds` - Posts of the public feed generators listed in
+      `metadata.feeds` as `at://` URIs (default Bluesky's "What's Hot"), up to
+      `metadata.limit` per feed. In its own `bluesky` group
+
+  2. Notes
+    - Both store into `x_trends` with their own `source` and category 'social'.
+      `tweet_count` holds recent uses for tags and links, and reblogs plus
+      favourites (Mastodon) or reposts plus likes (Bluesky) for posts
+    - Neither needs a token: trends and public feeds are unauthenticated reads
+*/
+
+INSERT INTO data_sources (source_name, source_type, requires_token, priority, source_group, metadata) VALUES
+  ('mastodon_trends', 'public', false, 65, 'mastodon', '{"endpoint": "https://{instance}/api/v1/trends/{kind}", "description": "Mastodon instance trends", "instance": "mastodon.social", "kinds": ["tags", "links", "statuses"], "limit": 10}'::jsonb),
+  ('bluesky_feeds', 'public', false, 70, 'bluesky', '{"endpoint": "https://public.api.bsky.app/xrpc/app.bsky.feed.getFeed", "description": "Bluesky public feeds", "feeds": ["at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/whats-hot"], "limit": 25}'::jsonb)
+ON CONFLICT (source_name) DO NOTHING;
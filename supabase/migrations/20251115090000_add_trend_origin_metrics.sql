@@ -0,0 +1,637 @@
+/*
+  # Trend Origin, Native ID and Metric Type
+
+  `x_trends` holds trends from every social source, not just X, and its
+  `tweet_count` column holds whatever that source counts: posts on X, points
+  on Hacker News. Rows now say which.
+
+  1. Modified Tables
+    - `x_trends`
+      - `source_item_id` (text) - The item's ID at its origin: the Hacker News
+        item id, Reddit post id, Lobsters short id, Mastodon tag name, link
+        URL or status id, Bluesky post URI. Null for X, whose trends have none
+      - `metric_type` (text) - What `tweet_count` counts: 'posts', 'points',
+        'comments' or 'reactions' (likes and reposts or boosts)
+    - `trend_observations`
+      - `metric_type` (text) - Copied from the trend when observed
+
+  2. Modified Functions
+    - `x_trends_record_observation` - Records the metric type
+    - `get_trend_lifetime` - Returns `metric_type`. Peak and slopes only
+      count observations in the trend's current metric: points and posts of
+      a topic that moved between sources are not one series
+    - `unified_search` - `p_origins` keeps trends whose `source` is listed
+      and, like `p_registries`, leaves other item types out. An `origins`
+      facet counts matching trends per source
+
+  3. Data
+    - Existing rows are backfilled from `source`. Mastodon rows whose URL is
+      a status count reactions, tags and links count posts
+*/
+
+-- ===== 1. TREND ORIGIN COLUMNS =====
+
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS source_item_id text;
+ALTER TABLE x_trends ADD COLUMN IF NOT EXISTS metric_type text NOT NULL DEFAULT 'posts';
+
+ALTER TABLE x_trends DROP CONSTRAINT IF EXISTS x_trends_metric_type_check;
+ALTER TABLE x_trends ADD CONSTRAINT x_trends_metric_type_check
+  CHECK (metric_type IN ('posts', 'points', 'comments', 'reactions'));
+
+UPDATE x_trends
+SET metric_type = CASE
+  WHEN source IN ('hackernews_api', 'reddit_api', 'lobsters_api') THEN 'points'
+  WHEN source = 'bluesky_feeds' THEN 'reactions'
+  WHEN source = 'mastodon_trends' AND url ~ '/@[^/]+/[0-9]+$' THEN 'reactions'
+  ELSE 'posts'
+END;
+
+-- Only Hacker News text posts link to their item, so only they can be backfilled
+UPDATE x_trends
+SET source_item_id = substring(url FROM 'news\.ycombinator\.com/item\?id=([0-9]+)')
+WHERE source = 'hackernews_api' AND source_item_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_x_trends_source_item ON x_trends(source, source_item_id)
+  WHERE source_item_id IS NOT NULL;
+
+-- ===== 2. OBSERVATIONS =====
+
+ALTER TABLE trend_observations ADD COLUMN IF NOT EXISTS metric_type text NOT NULL DEFAULT 'posts';
+
+UPDATE trend_observations
+SET metric_type = CASE
+  WHEN source IN ('hackernews_api', 'reddit_api', 'lobsters_api') THEN 'points'
+  WHEN source = 'bluesky_feeds' THEN 'reactions'
+  ELSE 'posts'
+END;
+
+CREATE OR REPLACE FUNCTION x_trends_record_observation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.fetched_at IS NOT DISTINCT FROM OLD.fetched_at THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO trend_observations (trend_id, source, metric_type, rank, tweet_count, fetched_at)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.source, 'x_api'),
+    NEW.metric_type,
+    NEW.rank,
+    COALESCE(NEW.tweet_count, 0),
+    COALESCE(NEW.fetched_at, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS get_trend_lifetime(uuid, integer);
+
+CREATE FUNCTION get_trend_lifetime(p_trend_id uuid, p_hours integer DEFAULT 24)
+RETURNS TABLE (
+  trend_id uuid,
+  trend_name text,
+  source text,
+  metric_type text,
+  first_seen_at timestamptz,
+  last_seen_at timestamptz,
+  observation_count bigint,
+  peak_tweet_count integer,
+  peak_at timestamptz,
+  best_rank integer,
+  current_tweet_count integer,
+  current_rank integer,
+  window_hours integer,
+  volume_slope_per_hour double precision,
+  rank_slope_per_hour double precision
+) AS $$
+  SELECT
+    t.id,
+    t.trend_name,
+    t.source,
+    t.metric_type,
+    t.first_seen_at,
+    t.fetched_at,
+    (SELECT COUNT(*) FROM trend_observations o WHERE o.trend_id = t.id),
+    peak.tweet_count,
+    peak.fetched_at,
+    (SELECT MIN(o.rank) FROM trend_observations o WHERE o.trend_id = t.id),
+    t.tweet_count,
+    t.rank,
+    p_hours,
+    w.volume_slope,
+    w.rank_slope
+  FROM x_trends t
+  LEFT JOIN LATERAL (
+    SELECT o.tweet_count, o.fetched_at
+    FROM trend_observations o
+    WHERE o.trend_id = t.id
+      AND o.metric_type = t.metric_type
+    ORDER BY o.tweet_count DESC, o.fetched_at DESC
+    LIMIT 1
+  ) peak ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      regr_slope(o.tweet_count, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0) AS volume_slope,
+      regr_slope(o.rank, EXTRACT(EPOCH FROM o.fetched_at) / 3600.0) AS rank_slope
+    FROM trend_observations o
+    WHERE o.trend_id = t.id
+      AND o.metric_type = t.metric_type
+      AND o.fetched_at >= NOW() - make_interval(hours => p_hours)
+  ) w ON true
+  WHERE t.id = p_trend_id;
+$$ LANGUAGE sql STABLE;
+
+-- ===== 3. UNIFIED SEARCH WITH ORIGIN FILTER =====
+
+-- The signature changes, so drop the old overload rather than adding a second one
+DROP FUNCTION IF EXISTS unified_search(
+  text, text[], text[], text[], text[], timestamptz, timestamptz, integer, text, integer, jsonb, integer, text, vector, text[]
+);
+
+CREATE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0,
+  p_mode text DEFAULT 'keyword',
+  p_query_embedding vector DEFAULT NULL,
+  p_registries text[] DEFAULT NULL,
+  p_origins text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_keyword boolean := COALESCE(p_mode, 'keyword') <> 'semantic';
+  v_semantic boolean := COALESCE(p_mode, 'keyword') IN ('semantic', 'hybrid') AND p_query_embedding IS NOT NULL;
+  v_min_similarity double precision := 0.2;
+  v_fuzzy_query tsquery;
+  v_correction text;
+  v_strict_hits integer := 0;
+  -- Private-use characters mark matches; the API turns them into offsets
+  v_title_options text := format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345));
+  v_body_options text := format(
+    'StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "',
+    chr(57344),
+    chr(57345)
+  );
+  v_result jsonb;
+BEGIN
+  -- Only packages have a registry
+  IF p_registries IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'packages');
+  END IF;
+
+  -- Only trends have an origin
+  IF p_origins IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'x_trends');
+  END IF;
+
+  -- Fall back to corrected prefix matching when full-text search finds few
+  -- hits. Only the text is considered: a typo is a typo whatever the filters.
+  IF v_query IS NOT NULL AND v_keyword THEN
+    SELECT COUNT(*) INTO v_strict_hits
+    FROM (
+      (SELECT 1 FROM x_trends WHERE 'x_trends' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM github_repos WHERE 'github_repos' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM knowledge_entries
+        WHERE 'knowledge_entries' = ANY(v_sources) AND verified = true AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM packages WHERE 'packages' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM papers WHERE 'papers' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM feed_items WHERE 'feed_items' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+    ) hits;
+
+    IF v_strict_hits < 5 THEN
+      v_correction := suggest_search_correction(p_query);
+      v_fuzzy_query := search_prefix_tsquery(COALESCE(v_correction, p_query));
+    END IF;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      NULL::text AS registry,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      t.trend_name AS title_text,
+      NULL::text AS body_text,
+      CASE WHEN v_semantic THEN 1 - (t.embedding <=> p_query_embedding) END AS semantic_similarity,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' - 'embedding' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (t.search_vector @@ v_query OR t.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (t.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_origins IS NULL OR t.source = ANY(p_origins))
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      NULL,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      r.repo_name,
+      r.description,
+      CASE WHEN v_semantic THEN 1 - (r.embedding <=> p_query_embedding) END,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (r.search_vector @@ v_query OR r.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (r.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      k.title,
+      k.content,
+      CASE WHEN v_semantic THEN 1 - (k.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(k) - 'search_vector' - 'embedding'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (k.search_vector @@ v_query OR k.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (k.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+
+    UNION ALL
+
+    SELECT
+      'package',
+      p.id,
+      'technology',
+      p.keywords,
+      pl.language,
+      p.registry,
+      p.weekly_downloads,
+      p.fetched_at,
+      p.search_vector,
+      p.name,
+      p.description,
+      CASE WHEN v_semantic THEN 1 - (p.embedding <=> p_query_embedding) END,
+      pv.downloads_delta_per_hour,
+      (to_jsonb(p) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'language', pl.language,
+        'repo_name', pr.repo_name,
+        'repo_stars', pr.stars,
+        'download_delta', COALESCE(pv.download_delta, 0),
+        'growth_pct', COALESCE(pv.growth_pct, 0),
+        'download_window_hours', COALESCE(pv.window_hours, 0)
+      )
+    FROM packages p
+    LEFT JOIN github_repos pr ON pr.id = p.repo_id
+    LEFT JOIN package_download_velocity pv ON pv.package_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(NULLIF(pr.language, 'Unknown'), CASE p.registry
+        WHEN 'npm' THEN 'JavaScript'
+        WHEN 'pypi' THEN 'Python'
+        WHEN 'crates' THEN 'Rust'
+      END) AS language
+    ) pl
+    WHERE 'packages' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (p.search_vector @@ v_query OR p.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (p.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_registries IS NULL OR p.registry = ANY(p_registries))
+      AND (p_languages IS NULL OR pl.language = ANY(p_languages))
+      AND (p_tags IS NULL OR p.keywords && p_tags)
+      AND (p_date_from IS NULL OR p.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR p.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR p.weekly_downloads >= p_min_engagement)
+
+    UNION ALL
+
+    -- A paper's engagement is how much attention its code gets: the stars of
+    -- the repositories citing it
+    SELECT
+      'paper',
+      a.id,
+      'research',
+      a.categories,
+      NULL,
+      NULL,
+      COALESCE(ac.stars, 0),
+      a.published_at,
+      a.search_vector,
+      a.title,
+      a.abstract,
+      CASE WHEN v_semantic THEN 1 - (a.embedding <=> p_query_embedding) END,
+      ac.stars_per_hour,
+      (to_jsonb(a) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'repo_stars', COALESCE(ac.stars, 0),
+        'repos', COALESCE(ac.repos, '[]'::jsonb)
+      )
+    FROM papers a
+    LEFT JOIN LATERAL (
+      SELECT
+        SUM(l.stars)::double precision AS stars,
+        SUM(lv.stars_per_hour)::double precision AS stars_per_hour,
+        jsonb_agg(
+          jsonb_build_object('id', l.repo_id, 'repo_name', l.repo_name, 'stars', l.stars, 'url', l.repo_url)
+          ORDER BY l.stars DESC
+        ) AS repos
+      FROM paper_repo_links l
+      LEFT JOIN repo_star_velocity lv ON lv.repo_id = l.repo_id
+      WHERE l.paper_id = a.id
+    ) ac ON true
+    WHERE 'papers' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (a.search_vector @@ v_query OR a.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (a.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR 'research' = ANY(p_categories))
+      AND (p_tags IS NULL OR a.categories && p_tags)
+      AND (p_date_from IS NULL OR a.published_at >= p_date_from)
+      AND (p_date_to IS NULL OR a.published_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR COALESCE(ac.stars, 0) >= p_min_engagement)
+
+    UNION ALL
+
+    -- Feeds carry no engagement signal, so their items rank on text and
+    -- recency alone and drop out of any minimum-engagement filter
+    SELECT
+      'feed_item',
+      fi.id,
+      fi.category,
+      fi.categories,
+      NULL,
+      NULL,
+      0,
+      COALESCE(fi.published_at, fi.first_seen_at),
+      fi.search_vector,
+      fi.title,
+      fi.summary,
+      CASE WHEN v_semantic THEN 1 - (fi.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(fi) - 'search_vector' - 'embedding'
+    FROM feed_items fi
+    WHERE 'feed_items' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (fi.search_vector @@ v_query OR fi.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (fi.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR fi.category = ANY(p_categories))
+      AND (p_tags IS NULL OR fi.categories && p_tags)
+      AND (p_date_from IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) >= p_date_from)
+      AND (p_date_to IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) <= p_date_to)
+      AND (p_min_engagement IS NULL OR p_min_engagement <= 0)
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      COALESCE(v_keyword AND m.search_vector @@ v_query, false) AS text_match,
+      COALESCE(v_keyword AND NOT (m.search_vector @@ v_query) AND m.search_vector @@ v_fuzzy_query, false) AS fuzzy
+    FROM matches m
+  ),
+  ranked AS (
+    SELECT
+      f.*,
+      CASE
+        WHEN f.text_match THEN ts_rank_cd(f.search_vector, v_query, 32)
+        WHEN f.fuzzy THEN ts_rank_cd(f.search_vector, v_fuzzy_query, 32)
+        ELSE 0
+      END::double precision AS text_rank
+    FROM flagged f
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  text_scored AS (
+    SELECT
+      s.*,
+      -- Fuzzy matches score at half weight so exact hits stay ahead of them
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END
+        * CASE WHEN s.fuzzy THEN 0.5 ELSE 1 END AS text_score
+    FROM scored s
+  ),
+  relevant AS (
+    SELECT
+      s.*,
+      CASE
+        WHEN NOT v_semantic THEN s.text_score
+        WHEN NOT v_keyword THEN GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+        -- Hybrid: equal blend of normalized text rank and cosine similarity
+        ELSE 0.5 * s.text_score + 0.5 * GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+      END AS relevance_score
+    FROM text_scored s
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          ELSE s.relevance_score
+        END
+      END, 0) AS sort_key
+    FROM relevant s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'did_you_mean', v_correction,
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'fuzzy', p.fuzzy,
+          'semantic_similarity', p.semantic_similarity,
+          'snippets', CASE WHEN v_query IS NULL THEN NULL ELSE jsonb_build_object(
+            'title', ts_headline(
+              'english',
+              p.title_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_title_options
+            ),
+            'body', CASE WHEN p.body_text IS NULL THEN NULL ELSE ts_headline(
+              'english',
+              p.body_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_body_options
+            ) END
+          ) END,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"])
+              @@ CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END
+          )) END,
+          'record', p.record
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb),
+      'registries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT registry AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE registry IS NOT NULL
+          GROUP BY registry
+        ) f
+      ), '[]'::jsonb),
+      'origins', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT record->>'source' AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE item_type = 'x_trend' AND record->>'source' IS NOT NULL
+          GROUP BY record->>'source'
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,831 @@
+/*
+  # Cross-Source Entity Links
+
+  A Hacker News story linking to `github.com/foo/bar`, a Mastodon trend for
+  `#bar` and the `foo/bar` row of `github_repos` are one thing seen three
+  times. An entity-resolution pass groups such items under shared entities.
+
+  1. New Tables
+    - `entities` - One row per thing seen by more than one item
+      - `entity_type` (text) - 'repo', 'paper', 'url' or 'title'
+      - `entity_key` (text) - Unique: `repo:owner/name`, `paper:<arxiv id>`,
+        `url:<normalized url>` or `title:<normalized title>`
+      - `name` (text) - Display name, the repository or paper's own if linked
+      - `created_at`, `updated_at`
+    - `entity_links` - Items belonging to each entity
+      - `entity_id` (uuid) - References entities, cascades on delete
+      - `item_type` (text), `item_id` (uuid) - As in `unified_search` results
+      - `match_type` (text) - 'repo_name', 'url', 'arxiv_id' or 'title'
+      - `title`, `url`, `source`, `engagement`, `metric_type`,
+        `item_timestamp` - The item as of the last pass, so reading links
+        needs no lookup in the item's own table
+
+  2. New Views
+    - `linkable_items` - Trends, repositories, packages, papers and feed items
+      with the fields matched on
+    - `item_links` - For each linked item, the other items sharing one of its
+      entities, the closest match kind first
+
+  3. New Functions
+    - `github_url_repo(p_url)` - `owner/repo` of a github.com repository
+      link; null for gists, topics, sponsor pages and other site pages
+    - `entity_url_key(p_url)` - URL without scheme, `www.`, fragment,
+      tracking parameters or trailing slash
+    - `entity_title_key(p_title)` - Lowercased title words without an
+      "Ask/Show/Tell HN:" prefix; null under three words
+    - `resolve_entities()` - Rebuilds the links. Items are matched by:
+      - Repository: a GitHub link, a package's repository URL, `owner/repo`
+        in a trend or feed item title, or a trend named like exactly one
+        tracked repository (`#bar` or `bar`, four letters or more)
+      - Paper: an arXiv or Hugging Face papers link
+      - URL: the same normalized link
+      - Title: the same normalized title
+      An entity matched by a single item is dropped. Called by the update
+      orchestrator after ingestion and retention cleanup
+
+  4. Modified Functions
+    - `unified_search` - Each result carries `links`, the items sharing an
+      entity with it, most engaged first
+*/
+
+-- ===== 1. ENTITIES =====
+
+CREATE TABLE IF NOT EXISTS entities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL CHECK (entity_type IN ('repo', 'paper', 'url', 'title')),
+  entity_key text NOT NULL UNIQUE,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS entity_links (
+  entity_id uuid NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('x_trend', 'github_repo', 'package', 'paper', 'feed_item')),
+  item_id uuid NOT NULL,
+  match_type text NOT NULL CHECK (match_type IN ('repo_name', 'url', 'arxiv_id', 'title')),
+  title text NOT NULL,
+  url text,
+  source text,
+  engagement double precision,
+  metric_type text,
+  item_timestamp timestamptz,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (entity_id, item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_links_item ON entity_links(item_type, item_id);
+
+-- ===== 2. MATCH KEYS =====
+
+-- Site pages share the owner/repo shape but are not repositories
+CREATE OR REPLACE FUNCTION github_url_repo(p_url text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_url ~* '^https?://(www\.)?github\.com/'
+      AND split_part(github_repo_full_name(p_url), '/', 1) <> ALL (ARRAY[
+        'about', 'apps', 'collections', 'enterprise', 'events', 'explore', 'features',
+        'marketplace', 'orgs', 'pricing', 'security', 'settings', 'sponsors', 'topics', 'trending'
+      ])
+    THEN github_repo_full_name(p_url)
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- `https://www.example.com/post/?utm_source=hn#top` -> `example.com/post`
+CREATE OR REPLACE FUNCTION entity_url_key(p_url text)
+RETURNS text AS $$
+DECLARE
+  v_key text := lower(btrim(COALESCE(p_url, '')));
+BEGIN
+  v_key := regexp_replace(v_key, '#.*$', '');
+  v_key := regexp_replace(v_key, '^[a-z][a-z0-9+.-]*://(www\.)?', '');
+  v_key := regexp_replace(v_key, '([?&])(utm_[a-z_]+|ref|ref_src)=[^&]*', '\1', 'g');
+  v_key := regexp_replace(v_key, '([?&])&+', '\1', 'g');
+  v_key := regexp_replace(v_key, '[?&/]+$', '');
+  RETURN NULLIF(v_key, '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Titles of one or two words ("Rust", "AI agents") are too generic to tell
+-- stories apart
+CREATE OR REPLACE FUNCTION entity_title_key(p_title text)
+RETURNS text AS $$
+DECLARE
+  v_key text := lower(COALESCE(p_title, ''));
+BEGIN
+  v_key := regexp_replace(v_key, '^\s*(ask|show|tell|launch) hn\s*:\s*', '');
+  v_key := btrim(regexp_replace(v_key, '[^[:alnum:]]+', ' ', 'g'));
+  IF COALESCE(array_length(string_to_array(v_key, ' '), 1), 0) < 3 THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_key;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE VIEW linkable_items AS
+SELECT
+  'x_trend'::text AS item_type,
+  t.id AS item_id,
+  t.trend_name AS title,
+  t.url,
+  github_url_repo(t.url) AS repo_full_name,
+  (extract_arxiv_ids(t.url))[1] AS arxiv_id,
+  t.source,
+  t.tweet_count::double precision AS engagement,
+  t.metric_type,
+  t.fetched_at AS item_timestamp
+FROM x_trends t
+UNION ALL
+SELECT 'github_repo', r.id, r.repo_name, r.url, lower(r.repo_name), NULL, 'github', r.stars, 'stars', r.fetched_at
+FROM github_repos r
+UNION ALL
+SELECT 'package', p.id, p.name, p.url, p.repo_full_name, NULL, p.registry, p.weekly_downloads, 'weekly_downloads', p.fetched_at
+FROM packages p
+UNION ALL
+SELECT 'paper', a.id, a.title, a.url, NULL, a.arxiv_id, 'arxiv', NULL, NULL, a.published_at
+FROM papers a
+UNION ALL
+SELECT
+  'feed_item', f.id, f.title, f.url, github_url_repo(f.url), (extract_arxiv_ids(f.url))[1],
+  f.feed_title, NULL, NULL, COALESCE(f.published_at, f.first_seen_at)
+FROM feed_items f;
+
+-- ===== 3. RESOLUTION PASS =====
+
+CREATE OR REPLACE FUNCTION resolve_entities()
+RETURNS jsonb AS $$
+DECLARE
+  v_entities integer;
+  v_links integer;
+BEGIN
+  -- Rebuilt from scratch: retention keeps the item tables small, and stale
+  -- links to deleted items go with it
+  DELETE FROM entity_links;
+
+  WITH repo_names AS (
+    SELECT lower(repo_name) AS full_name, split_part(lower(repo_name), '/', 2) AS short_name
+    FROM github_repos
+  ),
+  unique_short_names AS (
+    SELECT short_name, MIN(full_name) AS full_name
+    FROM repo_names
+    GROUP BY short_name
+    HAVING COUNT(*) = 1
+  ),
+  matches AS (
+    SELECT i.*, 'repo'::text AS entity_type, 'repo:' || i.repo_full_name AS entity_key,
+      CASE WHEN i.item_type = 'github_repo' THEN 'repo_name' ELSE 'url' END AS match_type
+    FROM linkable_items i
+    WHERE i.repo_full_name IS NOT NULL
+
+    UNION ALL
+
+    -- `owner/repo` written out in a headline
+    SELECT i.*, 'repo', 'repo:' || r.full_name, 'repo_name'
+    FROM linkable_items i
+    JOIN repo_names r
+      ON strpos(
+        ' ' || regexp_replace(lower(i.title), '[^a-z0-9_./-]+|\.(?=\s|$)', ' ', 'g') || ' ',
+        ' ' || r.full_name || ' '
+      ) > 0
+    WHERE i.item_type IN ('x_trend', 'feed_item')
+      AND i.repo_full_name IS DISTINCT FROM r.full_name
+
+    UNION ALL
+
+    -- A trend named after a repository: `#bar` or `bar` for `foo/bar`
+    SELECT i.*, 'repo', 'repo:' || u.full_name, 'repo_name'
+    FROM linkable_items i
+    JOIN unique_short_names u ON u.short_name = lower(ltrim(btrim(i.title), '#'))
+    WHERE i.item_type = 'x_trend'
+      AND length(u.short_name) >= 4
+      AND i.repo_full_name IS DISTINCT FROM u.full_name
+
+    UNION ALL
+
+    SELECT i.*, 'paper', 'paper:' || i.arxiv_id, 'arxiv_id'
+    FROM linkable_items i
+    WHERE i.arxiv_id IS NOT NULL
+
+    UNION ALL
+
+    -- Repository and paper links already resolve to their own entities
+    SELECT i.*, 'url', 'url:' || entity_url_key(i.url), 'url'
+    FROM linkable_items i
+    WHERE i.repo_full_name IS NULL
+      AND i.arxiv_id IS NULL
+      AND i.item_type IN ('x_trend', 'feed_item')
+      AND entity_url_key(i.url) IS NOT NULL
+
+    UNION ALL
+
+    SELECT i.*, 'title', 'title:' || entity_title_key(i.title), 'title'
+    FROM linkable_items i
+    WHERE i.item_type IN ('x_trend', 'feed_item', 'paper')
+      AND entity_title_key(i.title) IS NOT NULL
+  ),
+  shared AS (
+    SELECT m.*
+    FROM matches m
+    WHERE m.entity_key IN (
+      SELECT entity_key
+      FROM matches
+      GROUP BY entity_key
+      HAVING COUNT(DISTINCT (item_type, item_id)) > 1
+    )
+  ),
+  upserted AS (
+    -- Repositories and papers name their entity; otherwise the most engaged item does
+    INSERT INTO entities (entity_type, entity_key, name)
+    SELECT DISTINCT ON (s.entity_key) s.entity_type, s.entity_key, s.title
+    FROM shared s
+    ORDER BY
+      s.entity_key,
+      (s.item_type IN ('github_repo', 'paper')) DESC,
+      s.engagement DESC NULLS LAST,
+      s.item_id
+    ON CONFLICT (entity_key) DO UPDATE SET name = EXCLUDED.name, updated_at = now()
+    RETURNING id, entity_key
+  )
+  INSERT INTO entity_links (
+    entity_id, item_type, item_id, match_type, title, url, source, engagement, metric_type, item_timestamp
+  )
+  SELECT DISTINCT ON (u.id, s.item_type, s.item_id)
+    u.id, s.item_type, s.item_id, s.match_type, s.title, s.url, s.source, s.engagement, s.metric_type, s.item_timestamp
+  FROM shared s
+  JOIN upserted u ON u.entity_key = s.entity_key
+  ORDER BY u.id, s.item_type, s.item_id, s.match_type;
+
+  DELETE FROM entities e
+  WHERE NOT EXISTS (SELECT 1 FROM entity_links l WHERE l.entity_id = e.id);
+
+  SELECT COUNT(*) INTO v_entities FROM entities;
+  SELECT COUNT(*) INTO v_links FROM entity_links;
+
+  RETURN jsonb_build_object('entities', v_entities, 'links', v_links);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_entities() FROM PUBLIC, anon, authenticated;
+
+-- Repository links are the surest, shared titles the loosest
+CREATE OR REPLACE VIEW item_links AS
+SELECT DISTINCT ON (a.item_type, a.item_id, b.item_type, b.item_id)
+  a.item_type,
+  a.item_id,
+  b.item_type AS linked_type,
+  b.item_id AS linked_id,
+  e.entity_type,
+  b.title,
+  b.url,
+  b.source,
+  b.engagement,
+  b.metric_type,
+  b.item_timestamp
+FROM entity_links a
+JOIN entities e ON e.id = a.entity_id
+JOIN entity_links b
+  ON b.entity_id = a.entity_id
+  AND (b.item_type, b.item_id) <> (a.item_type, a.item_id)
+ORDER BY
+  a.item_type,
+  a.item_id,
+  b.item_type,
+  b.item_id,
+  array_position(ARRAY['repo', 'paper', 'url', 'title'], e.entity_type);
+
+GRANT SELECT ON item_links TO anon, authenticated;
+
+-- ===== 4. UNIFIED SEARCH WITH LINKS =====
+
+CREATE OR REPLACE FUNCTION unified_search(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items'],
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_languages text[] DEFAULT NULL,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_min_engagement integer DEFAULT NULL,
+  p_sort_by text DEFAULT 'relevance',
+  p_limit integer DEFAULT 50,
+  p_cursor jsonb DEFAULT NULL,
+  p_offset integer DEFAULT 0,
+  p_mode text DEFAULT 'keyword',
+  p_query_embedding vector DEFAULT NULL,
+  p_registries text[] DEFAULT NULL,
+  p_origins text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_query tsquery := CASE
+    WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+    ELSE websearch_to_tsquery('english', p_query)
+  END;
+  v_sources text[] := COALESCE(p_sources, ARRAY['x_trends', 'github_repos', 'knowledge_entries', 'packages', 'papers', 'feed_items']);
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+  v_keyword boolean := COALESCE(p_mode, 'keyword') <> 'semantic';
+  v_semantic boolean := COALESCE(p_mode, 'keyword') IN ('semantic', 'hybrid') AND p_query_embedding IS NOT NULL;
+  v_min_similarity double precision := 0.2;
+  v_fuzzy_query tsquery;
+  v_correction text;
+  v_strict_hits integer := 0;
+  -- Private-use characters mark matches; the API turns them into offsets
+  v_title_options text := format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345));
+  v_body_options text := format(
+    'StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "',
+    chr(57344),
+    chr(57345)
+  );
+  v_result jsonb;
+BEGIN
+  -- Only packages have a registry
+  IF p_registries IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'packages');
+  END IF;
+
+  -- Only trends have an origin
+  IF p_origins IS NOT NULL THEN
+    v_sources := ARRAY(SELECT s FROM unnest(v_sources) AS s WHERE s = 'x_trends');
+  END IF;
+
+  -- Fall back to corrected prefix matching when full-text search finds few
+  -- hits. Only the text is considered: a typo is a typo whatever the filters.
+  IF v_query IS NOT NULL AND v_keyword THEN
+    SELECT COUNT(*) INTO v_strict_hits
+    FROM (
+      (SELECT 1 FROM x_trends WHERE 'x_trends' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM github_repos WHERE 'github_repos' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM knowledge_entries
+        WHERE 'knowledge_entries' = ANY(v_sources) AND verified = true AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM packages WHERE 'packages' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM papers WHERE 'papers' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+      UNION ALL
+      (SELECT 1 FROM feed_items WHERE 'feed_items' = ANY(v_sources) AND search_vector @@ v_query LIMIT 5)
+    ) hits;
+
+    IF v_strict_hits < 5 THEN
+      v_correction := suggest_search_correction(p_query);
+      v_fuzzy_query := search_prefix_tsquery(COALESCE(v_correction, p_query));
+    END IF;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      'x_trend'::text AS item_type,
+      t.id AS item_id,
+      t.category,
+      ARRAY[t.category] AS tags,
+      NULL::text AS language,
+      NULL::text AS registry,
+      t.tweet_count::double precision AS engagement,
+      t.fetched_at AS item_timestamp,
+      t.search_vector,
+      t.trend_name AS title_text,
+      NULL::text AS body_text,
+      CASE WHEN v_semantic THEN 1 - (t.embedding <=> p_query_embedding) END AS semantic_similarity,
+      v.volume_per_hour::double precision AS velocity,
+      to_jsonb(t) - 'search_vector' - 'embedding' AS record
+    FROM x_trends t
+    LEFT JOIN trend_volume_velocity v ON v.trend_id = t.id
+    WHERE 'x_trends' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (t.search_vector @@ v_query OR t.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (t.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_origins IS NULL OR t.source = ANY(p_origins))
+      AND (p_categories IS NULL OR t.category = ANY(p_categories))
+      AND (p_date_from IS NULL OR t.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR t.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR t.tweet_count >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'github_repo',
+      r.id,
+      'technology',
+      r.topics,
+      r.language,
+      NULL,
+      r.stars,
+      r.fetched_at,
+      r.search_vector,
+      r.repo_name,
+      r.description,
+      CASE WHEN v_semantic THEN 1 - (r.embedding <=> p_query_embedding) END,
+      rv.stars_per_hour,
+      (to_jsonb(r) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'star_delta', COALESCE(rv.star_delta, 0),
+        'star_window_hours', COALESCE(rv.window_hours, 0)
+      )
+    FROM github_repos r
+    LEFT JOIN repo_star_velocity rv ON rv.repo_id = r.id
+    WHERE 'github_repos' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (r.search_vector @@ v_query OR r.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (r.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_languages IS NULL OR r.language = ANY(p_languages))
+      AND (p_tags IS NULL OR r.topics && p_tags)
+      AND (p_date_from IS NULL OR r.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR r.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR r.stars >= p_min_engagement)
+
+    UNION ALL
+
+    SELECT
+      'knowledge_entry',
+      k.id,
+      k.category,
+      k.tags,
+      NULL,
+      NULL,
+      k.relevance_score,
+      k.created_at,
+      k.search_vector,
+      k.title,
+      k.content,
+      CASE WHEN v_semantic THEN 1 - (k.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(k) - 'search_vector' - 'embedding'
+    FROM knowledge_entries k
+    WHERE 'knowledge_entries' = ANY(v_sources)
+      AND k.verified = true
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (k.search_vector @@ v_query OR k.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (k.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR k.category = ANY(p_categories))
+      AND (p_tags IS NULL OR k.tags && p_tags)
+      AND (p_date_from IS NULL OR k.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR k.created_at <= p_date_to)
+
+    UNION ALL
+
+    SELECT
+      'package',
+      p.id,
+      'technology',
+      p.keywords,
+      pl.language,
+      p.registry,
+      p.weekly_downloads,
+      p.fetched_at,
+      p.search_vector,
+      p.name,
+      p.description,
+      CASE WHEN v_semantic THEN 1 - (p.embedding <=> p_query_embedding) END,
+      pv.downloads_delta_per_hour,
+      (to_jsonb(p) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'language', pl.language,
+        'repo_name', pr.repo_name,
+        'repo_stars', pr.stars,
+        'download_delta', COALESCE(pv.download_delta, 0),
+        'growth_pct', COALESCE(pv.growth_pct, 0),
+        'download_window_hours', COALESCE(pv.window_hours, 0)
+      )
+    FROM packages p
+    LEFT JOIN github_repos pr ON pr.id = p.repo_id
+    LEFT JOIN package_download_velocity pv ON pv.package_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(NULLIF(pr.language, 'Unknown'), CASE p.registry
+        WHEN 'npm' THEN 'JavaScript'
+        WHEN 'pypi' THEN 'Python'
+        WHEN 'crates' THEN 'Rust'
+      END) AS language
+    ) pl
+    WHERE 'packages' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (p.search_vector @@ v_query OR p.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (p.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_registries IS NULL OR p.registry = ANY(p_registries))
+      AND (p_languages IS NULL OR pl.language = ANY(p_languages))
+      AND (p_tags IS NULL OR p.keywords && p_tags)
+      AND (p_date_from IS NULL OR p.fetched_at >= p_date_from)
+      AND (p_date_to IS NULL OR p.fetched_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR p.weekly_downloads >= p_min_engagement)
+
+    UNION ALL
+
+    -- A paper's engagement is how much attention its code gets: the stars of
+    -- the repositories citing it
+    SELECT
+      'paper',
+      a.id,
+      'research',
+      a.categories,
+      NULL,
+      NULL,
+      COALESCE(ac.stars, 0),
+      a.published_at,
+      a.search_vector,
+      a.title,
+      a.abstract,
+      CASE WHEN v_semantic THEN 1 - (a.embedding <=> p_query_embedding) END,
+      ac.stars_per_hour,
+      (to_jsonb(a) - 'search_vector' - 'embedding') || jsonb_build_object(
+        'repo_stars', COALESCE(ac.stars, 0),
+        'repos', COALESCE(ac.repos, '[]'::jsonb)
+      )
+    FROM papers a
+    LEFT JOIN LATERAL (
+      SELECT
+        SUM(l.stars)::double precision AS stars,
+        SUM(lv.stars_per_hour)::double precision AS stars_per_hour,
+        jsonb_agg(
+          jsonb_build_object('id', l.repo_id, 'repo_name', l.repo_name, 'stars', l.stars, 'url', l.repo_url)
+          ORDER BY l.stars DESC
+        ) AS repos
+      FROM paper_repo_links l
+      LEFT JOIN repo_star_velocity lv ON lv.repo_id = l.repo_id
+      WHERE l.paper_id = a.id
+    ) ac ON true
+    WHERE 'papers' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (a.search_vector @@ v_query OR a.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (a.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR 'research' = ANY(p_categories))
+      AND (p_tags IS NULL OR a.categories && p_tags)
+      AND (p_date_from IS NULL OR a.published_at >= p_date_from)
+      AND (p_date_to IS NULL OR a.published_at <= p_date_to)
+      AND (p_min_engagement IS NULL OR COALESCE(ac.stars, 0) >= p_min_engagement)
+
+    UNION ALL
+
+    -- Feeds carry no engagement signal, so their items rank on text and
+    -- recency alone and drop out of any minimum-engagement filter
+    SELECT
+      'feed_item',
+      fi.id,
+      fi.category,
+      fi.categories,
+      NULL,
+      NULL,
+      0,
+      COALESCE(fi.published_at, fi.first_seen_at),
+      fi.search_vector,
+      fi.title,
+      fi.summary,
+      CASE WHEN v_semantic THEN 1 - (fi.embedding <=> p_query_embedding) END,
+      NULL,
+      to_jsonb(fi) - 'search_vector' - 'embedding'
+    FROM feed_items fi
+    WHERE 'feed_items' = ANY(v_sources)
+      AND (
+        (v_query IS NULL AND NOT v_semantic)
+        OR (v_keyword AND (fi.search_vector @@ v_query OR fi.search_vector @@ v_fuzzy_query))
+        OR (v_semantic AND 1 - (fi.embedding <=> p_query_embedding) >= v_min_similarity)
+      )
+      AND (p_categories IS NULL OR fi.category = ANY(p_categories))
+      AND (p_tags IS NULL OR fi.categories && p_tags)
+      AND (p_date_from IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) >= p_date_from)
+      AND (p_date_to IS NULL OR COALESCE(fi.published_at, fi.first_seen_at) <= p_date_to)
+      AND (p_min_engagement IS NULL OR p_min_engagement <= 0)
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      COALESCE(v_keyword AND m.search_vector @@ v_query, false) AS text_match,
+      COALESCE(v_keyword AND NOT (m.search_vector @@ v_query) AND m.search_vector @@ v_fuzzy_query, false) AS fuzzy
+    FROM matches m
+  ),
+  ranked AS (
+    SELECT
+      f.*,
+      CASE
+        WHEN f.text_match THEN ts_rank_cd(f.search_vector, v_query, 32)
+        WHEN f.fuzzy THEN ts_rank_cd(f.search_vector, v_fuzzy_query, 32)
+        ELSE 0
+      END::double precision AS text_rank
+    FROM flagged f
+  ),
+  scored AS (
+    SELECT
+      r.*,
+      MAX(r.text_rank) OVER (PARTITION BY r.item_type) AS source_best_rank,
+      ts.trending_score::double precision AS trending_score
+    FROM ranked r
+    LEFT JOIN trending_scores ts ON ts.item_type = r.item_type AND ts.item_id = r.item_id
+  ),
+  text_scored AS (
+    SELECT
+      s.*,
+      -- Fuzzy matches score at half weight so exact hits stay ahead of them
+      CASE WHEN s.source_best_rank > 0 THEN s.text_rank / s.source_best_rank ELSE 0 END
+        * CASE WHEN s.fuzzy THEN 0.5 ELSE 1 END AS text_score
+    FROM scored s
+  ),
+  relevant AS (
+    SELECT
+      s.*,
+      CASE
+        WHEN NOT v_semantic THEN s.text_score
+        WHEN NOT v_keyword THEN GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+        -- Hybrid: equal blend of normalized text rank and cosine similarity
+        ELSE 0.5 * s.text_score + 0.5 * GREATEST(COALESCE(s.semantic_similarity, 0), 0)
+      END AS relevance_score
+    FROM text_scored s
+  ),
+  keyed AS (
+    SELECT
+      s.*,
+      COALESCE(CASE p_sort_by
+        WHEN 'trending' THEN s.trending_score
+        WHEN 'recent' THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+        WHEN 'popular' THEN s.engagement
+        WHEN 'velocity' THEN s.velocity
+        ELSE CASE
+          WHEN v_query IS NULL THEN EXTRACT(EPOCH FROM s.item_timestamp)::double precision
+          ELSE s.relevance_score
+        END
+      END, 0) AS sort_key
+    FROM relevant s
+  ),
+  page AS (
+    SELECT
+      k.*,
+      ROW_NUMBER() OVER (ORDER BY k.sort_key DESC, k.item_id DESC) AS page_position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.item_id) < ((p_cursor->>'k')::double precision, (p_cursor->>'id')::uuid)
+    ORDER BY k.sort_key DESC, k.item_id DESC
+    OFFSET CASE WHEN p_cursor IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM keyed),
+    'did_you_mean', v_correction,
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', p.item_type,
+          'item_id', p.item_id,
+          'category', p.category,
+          'tags', p.tags,
+          'language', p.language,
+          'engagement', p.engagement,
+          'item_timestamp', p.item_timestamp,
+          'velocity', p.velocity,
+          'trending_score', p.trending_score,
+          'text_rank', p.text_rank,
+          'source_best_rank', p.source_best_rank,
+          'relevance_score', p.relevance_score,
+          'fuzzy', p.fuzzy,
+          'semantic_similarity', p.semantic_similarity,
+          'snippets', CASE WHEN v_query IS NULL THEN NULL ELSE jsonb_build_object(
+            'title', ts_headline(
+              'english',
+              p.title_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_title_options
+            ),
+            'body', CASE WHEN p.body_text IS NULL THEN NULL ELSE ts_headline(
+              'english',
+              p.body_text,
+              CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END,
+              v_body_options
+            ) END
+          ) END,
+          'matched_weights', CASE WHEN v_query IS NULL THEN '[]'::jsonb ELSE to_jsonb(ARRAY(
+            SELECT w
+            FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS w
+            WHERE ts_filter(p.search_vector, ARRAY[lower(w)::"char"])
+              @@ CASE WHEN p.fuzzy THEN v_fuzzy_query ELSE v_query END
+          )) END,
+          'record', p.record,
+          'links', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'linked_type', l.linked_type,
+                'linked_id', l.linked_id,
+                'entity_type', l.entity_type,
+                'title', l.title,
+                'url', l.url,
+                'source', l.source,
+                'engagement', l.engagement,
+                'metric_type', l.metric_type,
+                'item_timestamp', l.item_timestamp
+              )
+              ORDER BY l.engagement DESC NULLS LAST, l.linked_id
+            )
+            FROM item_links l
+            WHERE l.item_type = p.item_type AND l.item_id = p.item_id
+          ), '[]'::jsonb)
+        )
+        ORDER BY p.sort_key DESC, p.item_id DESC
+      )
+      FROM page p
+      WHERE p.page_position <= v_limit
+    ), '[]'::jsonb),
+    'next_cursor', (
+      SELECT jsonb_build_object('k', p.sort_key, 'id', p.item_id)
+      FROM page p
+      WHERE p.page_position = v_limit
+        AND EXISTS (SELECT 1 FROM page more WHERE more.page_position > v_limit)
+    ),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT category AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE category IS NOT NULL
+          GROUP BY category
+          ORDER BY count DESC, name
+          LIMIT 10
+        ) f
+      ), '[]'::jsonb),
+      'tags', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT tag AS name, COUNT(*) AS count
+          FROM keyed, unnest(tags) AS tag
+          WHERE tag IS NOT NULL
+          GROUP BY tag
+          ORDER BY count DESC, name
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'languages', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT language AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE language IS NOT NULL
+          GROUP BY language
+          ORDER BY count DESC, name
+          LIMIT 15
+        ) f
+      ), '[]'::jsonb),
+      'sources', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT item_type AS name, COUNT(*) AS count
+          FROM keyed
+          GROUP BY item_type
+        ) f
+      ), '[]'::jsonb),
+      'registries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT registry AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE registry IS NOT NULL
+          GROUP BY registry
+        ) f
+      ), '[]'::jsonb),
+      'origins', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', f.name, 'count', f.count) ORDER BY f.count DESC, f.name)
+        FROM (
+          SELECT record->>'source' AS name, COUNT(*) AS count
+          FROM keyed
+          WHERE item_type = 'x_trend' AND record->>'source' IS NOT NULL
+          GROUP BY record->>'source'
+        ) f
+      ), '[]'::jsonb)
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===== 5. ROW LEVEL SECURITY =====
+
+ALTER TABLE entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view entities"
+  ON entities FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage entities"
+  ON entities FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE entity_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view entity links"
+  ON entity_links FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage entity links"
+  ON entity_links FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
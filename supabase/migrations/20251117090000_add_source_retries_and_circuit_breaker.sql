@@ -0,0 +1,48 @@
+/*
+  # Retries, Rate Limits and Circuit Breaker for Data Sources
+
+  Upstream requests now go through a shared fetch wrapper that retries
+  network errors, 408, 429 and 5xx responses with jittered exponential
+  backoff, honouring `Retry-After` and `X-RateLimit-Reset`. The rate limit
+  it sees is saved on the source, and sources that keep failing are taken
+  out of their chain for a while.
+
+  1. Modified Tables
+    - `data_sources`
+      - `consecutive_failures` (integer) - Failed fetches since the last success
+      - `circuit_open_until` (timestamptz) - While in the future, the source is
+        skipped and its chain falls back to the next source
+      - `rate_limit_remaining` and `rate_limit_reset_at`, unused until now, hold
+        the upstream's `X-RateLimit-Remaining` and reset time. A source with
+        none remaining is skipped until the reset
+
+  2. Configuration (`system_config`)
+    - `max_retries` - Now read: retries per request after the first attempt
+    - `fallback_enabled` - Now read: when false, a chain only tries its first source
+    - `cache_duration_minutes` - Now read: how long a warm function instance
+      reuses a successful GET; 0 disables
+    - `retry_base_delay_ms` - Cap of the first retry's random wait, doubled per retry
+    - `retry_max_delay_seconds` - Longest wait before a retry; an upstream asking
+      for longer fails the request instead
+    - `circuit_breaker_threshold` - Consecutive failures that open a source's
+      circuit; 0 disables the breaker
+    - `circuit_breaker_cooldown_minutes` - How long an open circuit lasts
+*/
+
+-- ===== 1. DATA SOURCES =====
+
+ALTER TABLE data_sources ADD COLUMN IF NOT EXISTS consecutive_failures integer NOT NULL DEFAULT 0;
+ALTER TABLE data_sources ADD COLUMN IF NOT EXISTS circuit_open_until timestamptz;
+
+-- ===== 2. CONFIGURATION =====
+
+INSERT INTO system_config (config_key, config_value, description) VALUES
+  ('retry_base_delay_ms', '500'::jsonb, 'Maximum wait before the first retry of a failed API call; doubled for each retry'),
+  ('retry_max_delay_seconds', '30'::jsonb, 'Longest wait before retrying an API call; longer Retry-After values fail the call'),
+  ('circuit_breaker_threshold', '5'::jsonb, 'Consecutive failed fetches before a data source is skipped (0 disables)'),
+  ('circuit_breaker_cooldown_minutes', '30'::jsonb, 'Minutes a data source is skipped after reaching the failure threshold')
+ON CONFLICT (config_key) DO NOTHING;
+
+UPDATE system_config
+SET description = 'Minutes a warm edge function reuses a successful API response (0 disables)'
+WHERE config_key = 'cache_duration_minutes';
@@ -0,0 +1,38 @@
+/*
+  # Server-Only Rate Limit Consumption
+
+  `consume_rate_limit` is SECURITY DEFINER and takes the user id to charge,
+  and anon and authenticated could execute it, so any client could drain
+  another user's buckets.
+
+  1. Modified Functions
+    - `consume_rate_limit(p_user_id, p_cost)` - Executable by the service role
+      only. The API routes call it with the service role key once they have
+      authenticated the caller
+
+  2. New Functions
+    - `my_rate_limit()` - The signed-in user's buckets, refilled but not
+      consumed, for the dashboard's usage panel
+*/
+
+-- ===== 1. CONSUME FUNCTION =====
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(uuid, integer) TO service_role;
+
+-- ===== 2. OWN USAGE =====
+
+CREATE OR REPLACE FUNCTION my_rate_limit()
+RETURNS jsonb AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('allowed', false, 'error', 'not_authenticated');
+  END IF;
+
+  -- A cost of 0 refills and reports without consuming
+  RETURN consume_rate_limit(auth.uid(), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION my_rate_limit() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION my_rate_limit() TO authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Revoke API Keys Through a Function
+
+  The UPDATE policy on `api_keys` only checked the owner, so an owner could
+  un-revoke a key, widen its scopes, extend its expiry or replace its hash.
+
+  1. Security
+    - Dropped the "Users can revoke their own API keys" UPDATE policy; users
+      can no longer update `api_keys` rows directly
+
+  2. New Functions
+    - `revoke_api_key(p_key_id)` - Stamps `revoked_at` on one of the caller's
+      unrevoked keys and changes nothing else. Returns whether a key was
+      revoked
+*/
+
+-- ===== 1. POLICIES =====
+
+DROP POLICY IF EXISTS "Users can revoke their own API keys" ON api_keys;
+
+-- ===== 2. REVOKE FUNCTION =====
+
+CREATE OR REPLACE FUNCTION revoke_api_key(p_key_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE api_keys
+  SET revoked_at = now()
+  WHERE id = p_key_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION revoke_api_key(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION revoke_api_key(uuid) TO authenticated;